@@ -0,0 +1,140 @@
+import { GET, PUT } from '@/app/api/admin/reporting-lines/route'
+import { DELETE } from '@/app/api/admin/reporting-lines/[employeeId]/route'
+import { createMockRequest } from '../utils/test-helpers'
+
+// Mock the auth utils
+jest.mock('@/lib/authUtils', () => ({
+  getAuthenticatedUser: jest.fn().mockResolvedValue({ userId: 'user_admin', role: 'admin' }),
+}))
+
+// Mock the database connection
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock the ReportingLineService
+jest.mock('@/lib/services/reporting-lines', () => {
+  const mockServiceMethods = {
+    listReportingLines: jest.fn(),
+    listUsers: jest.fn(),
+    validateAssignment: jest.fn(),
+    assignManager: jest.fn(),
+    removeManager: jest.fn(),
+  }
+
+  return {
+    ReportingLineService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+const mockGetAuthenticatedUser = require('@/lib/authUtils').getAuthenticatedUser
+const mockReportingLineService = (require('@/lib/services/reporting-lines') as any).__mockServiceMethods
+
+const mockReportingLine = {
+  id: 'line-1',
+  managerId: 'user_manager',
+  employeeId: 'user_123',
+  createdBy: 'user_admin',
+  createdAt: new Date('2024-01-15T09:00:00Z'),
+  updatedAt: new Date('2024-01-15T09:00:00Z'),
+}
+
+describe('/api/admin/reporting-lines', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('GET /api/admin/reporting-lines', () => {
+    it('should return reporting lines and users for admins', async () => {
+      mockReportingLineService.listReportingLines.mockResolvedValueOnce([mockReportingLine])
+      mockReportingLineService.listUsers.mockResolvedValueOnce([
+        { id: 'user_manager', name: 'Manager', email: 'manager@example.com', role: 'manager' },
+        { id: 'user_123', name: 'Alice', email: 'alice@example.com', role: 'user' },
+      ])
+
+      const response = await GET(createMockRequest('GET', 'http://localhost:3000/api/admin/reporting-lines') as any)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.reportingLines).toHaveLength(1)
+      expect(data.users).toHaveLength(2)
+    })
+
+    it('should reject non-admin users', async () => {
+      mockGetAuthenticatedUser.mockResolvedValueOnce({ userId: 'user_manager', role: 'manager' })
+
+      const response = await GET(createMockRequest('GET', 'http://localhost:3000/api/admin/reporting-lines') as any)
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data.reason).toContain('cannot manage reporting lines')
+      expect(mockReportingLineService.listReportingLines).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/admin/reporting-lines', () => {
+    it('should assign a manager', async () => {
+      mockReportingLineService.validateAssignment.mockResolvedValueOnce(null)
+      mockReportingLineService.assignManager.mockResolvedValueOnce(mockReportingLine)
+
+      const response = await PUT(createMockRequest('PUT', 'http://localhost:3000/api/admin/reporting-lines', {
+        employeeId: 'user_123',
+        managerId: 'user_manager',
+      }) as any)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.success).toBe(true)
+      expect(mockReportingLineService.assignManager).toHaveBeenCalledWith('user_123', 'user_manager', 'user_admin')
+    })
+
+    it('should reject assignments that would create a cycle', async () => {
+      mockReportingLineService.validateAssignment.mockResolvedValueOnce(
+        'Assigning this manager would create a reporting cycle'
+      )
+
+      const response = await PUT(createMockRequest('PUT', 'http://localhost:3000/api/admin/reporting-lines', {
+        employeeId: 'user_manager',
+        managerId: 'user_123',
+      }) as any)
+
+      expect(response.status).toBe(400)
+      expect(await response.text()).toContain('reporting cycle')
+      expect(mockReportingLineService.assignManager).not.toHaveBeenCalled()
+    })
+
+    it('should require both user IDs', async () => {
+      const response = await PUT(createMockRequest('PUT', 'http://localhost:3000/api/admin/reporting-lines', {
+        employeeId: 'user_123',
+      }) as any)
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('DELETE /api/admin/reporting-lines/[employeeId]', () => {
+    it('should remove a reporting line', async () => {
+      mockReportingLineService.removeManager.mockResolvedValueOnce(true)
+
+      const response = await DELETE(
+        createMockRequest('DELETE', 'http://localhost:3000/api/admin/reporting-lines/user_123') as any,
+        { params: Promise.resolve({ employeeId: 'user_123' }) }
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockReportingLineService.removeManager).toHaveBeenCalledWith('user_123')
+    })
+
+    it('should return 404 when the user has no manager', async () => {
+      mockReportingLineService.removeManager.mockResolvedValueOnce(false)
+
+      const response = await DELETE(
+        createMockRequest('DELETE', 'http://localhost:3000/api/admin/reporting-lines/user_123') as any,
+        { params: Promise.resolve({ employeeId: 'user_123' }) }
+      )
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
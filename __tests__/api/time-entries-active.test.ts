@@ -15,18 +15,35 @@ jest.mock('@/drizzle/connection', () => ({
     innerJoin: jest.fn().mockReturnThis(),
     where: jest.fn().mockReturnThis(),
     limit: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    insert: jest.fn().mockReturnThis(),
+    values: jest.fn().mockReturnThis(),
     update: jest.fn().mockReturnThis(),
     set: jest.fn().mockReturnThis(),
     returning: jest.fn().mockReturnThis(),
+    transaction: jest.fn(),
   },
 }))
 
 const mockDb = require('@/drizzle/connection').db
 
+const mockGetSettings = jest.fn()
+jest.mock('@/lib/services/user-settings', () => ({
+  UserSettingsService: jest.fn().mockImplementation(() => ({
+    getSettings: (...args: unknown[]) => mockGetSettings(...args),
+  })),
+}))
+
 // Mock drizzle operators
 jest.mock('drizzle-orm', () => ({
   eq: jest.fn(),
   and: jest.fn(),
+  isNull: jest.fn(),
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-break-id'),
 }))
 
 // Mock the schema
@@ -37,11 +54,18 @@ jest.mock('@/drizzle/schema', () => ({
     projectId: 'projectId',
     description: 'description',
     isActive: 'isActive',
+    isPaused: 'isPaused',
     startTime: 'startTime',
     endTime: 'endTime',
     durationMinutes: 'durationMinutes',
     updatedAt: 'updatedAt',
   },
+  timeEntryBreaks: {
+    id: 'id',
+    timeEntryId: 'timeEntryId',
+    startTime: 'startTime',
+    endTime: 'endTime',
+  },
   projects: {
     id: 'id',
     name: 'name',
@@ -51,6 +75,8 @@ jest.mock('@/drizzle/schema', () => ({
 describe('/api/time-entries/active', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockGetSettings.mockResolvedValue({ maxConcurrentTimers: 1 })
+    mockDb.transaction.mockImplementation((callback: (tx: unknown) => unknown) => callback(mockDb))
   })
 
   describe('GET /api/time-entries/active', () => {
@@ -62,22 +88,98 @@ describe('/api/time-entries/active', () => {
         description: activeEntry?.description,
         startTime: activeEntry?.startTime,
         isActive: true,
+        isPaused: false,
       }
 
       mockDb.select.mockReturnValueOnce(mockDb)
       mockDb.from.mockReturnValueOnce(mockDb)
       mockDb.innerJoin.mockReturnValueOnce(mockDb)
       mockDb.where.mockReturnValueOnce(mockDb)
-      mockDb.limit.mockResolvedValueOnce([mockEntryWithProject])
+      mockDb.orderBy.mockResolvedValueOnce([mockEntryWithProject])
+
+      // Mock breaks lookup
+      mockDb.orderBy.mockResolvedValueOnce([])
 
       const request = createMockRequest('GET', '/api/time-entries/active')
       const response = await GET(request)
       const data = await response.json()
 
       expect(response.status).toBe(200)
-      expect(data.id).toBe(activeEntry?.id)
       expect(data.isActive).toBe(true)
-      expect(data.projectName).toBe('Test Project')
+      expect(data.maxConcurrentTimers).toBe(1)
+      expect(data.entries).toHaveLength(1)
+      expect(data.entries[0].id).toBe(activeEntry?.id)
+      expect(data.entries[0].projectName).toBe('Test Project')
+      expect(data.entries[0].isPaused).toBe(false)
+      expect(data.entries[0].pausedAt).toBeNull()
+      expect(data.entries[0].pausedSeconds).toBe(0)
+    })
+
+    it('should report paused state and completed break time', async () => {
+      const activeEntry = mockTimeEntries.find(entry => entry.isActive)
+      const mockEntryWithProject = {
+        id: activeEntry?.id,
+        projectName: 'Test Project',
+        description: activeEntry?.description,
+        startTime: activeEntry?.startTime,
+        isActive: true,
+        isPaused: true,
+      }
+      const openBreakStart = new Date('2024-01-02T11:00:00Z')
+
+      mockDb.select.mockReturnValueOnce(mockDb)
+      mockDb.from.mockReturnValueOnce(mockDb)
+      mockDb.innerJoin.mockReturnValueOnce(mockDb)
+      mockDb.where.mockReturnValueOnce(mockDb)
+      mockDb.orderBy.mockResolvedValueOnce([mockEntryWithProject])
+
+      mockDb.orderBy.mockResolvedValueOnce([
+        {
+          id: 'break-1',
+          timeEntryId: activeEntry?.id,
+          startTime: new Date('2024-01-02T10:15:00Z'),
+          endTime: new Date('2024-01-02T10:30:00Z'),
+        },
+        {
+          id: 'break-2',
+          timeEntryId: activeEntry?.id,
+          startTime: openBreakStart,
+          endTime: null,
+        },
+      ])
+
+      const request = createMockRequest('GET', '/api/time-entries/active')
+      const response = await GET(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.entries[0].isPaused).toBe(true)
+      expect(new Date(data.entries[0].pausedAt).toISOString()).toBe(openBreakStart.toISOString())
+      expect(data.entries[0].pausedSeconds).toBe(15 * 60)
+    })
+
+    it('should list every running timer when several are allowed', async () => {
+      mockGetSettings.mockResolvedValueOnce({ maxConcurrentTimers: 3 })
+      const running = [
+        { id: 'entry-1', projectName: 'Website', description: 'Build', startTime: new Date('2024-01-02T09:00:00Z'), isActive: true, isPaused: false },
+        { id: 'entry-2', projectName: 'Support', description: 'Call', startTime: new Date('2024-01-02T10:00:00Z'), isActive: true, isPaused: false },
+      ]
+
+      mockDb.select.mockReturnValueOnce(mockDb)
+      mockDb.from.mockReturnValueOnce(mockDb)
+      mockDb.innerJoin.mockReturnValueOnce(mockDb)
+      mockDb.where.mockReturnValueOnce(mockDb)
+      mockDb.orderBy.mockResolvedValueOnce(running)
+      mockDb.orderBy.mockResolvedValueOnce([])
+      mockDb.orderBy.mockResolvedValueOnce([])
+
+      const request = createMockRequest('GET', '/api/time-entries/active')
+      const response = await GET(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.maxConcurrentTimers).toBe(3)
+      expect(data.entries.map((entry: { id: string }) => entry.id)).toEqual(['entry-1', 'entry-2'])
     })
 
     it('should return object with isActive false when no active time entry exists', async () => {
@@ -85,7 +187,7 @@ describe('/api/time-entries/active', () => {
       mockDb.from.mockReturnValueOnce(mockDb)
       mockDb.innerJoin.mockReturnValueOnce(mockDb)
       mockDb.where.mockReturnValueOnce(mockDb)
-      mockDb.limit.mockResolvedValueOnce([])
+      mockDb.orderBy.mockResolvedValueOnce([])
 
       const request = createMockRequest('GET', '/api/time-entries/active')
       const response = await GET(request)
@@ -93,6 +195,7 @@ describe('/api/time-entries/active', () => {
 
       expect(response.status).toBe(200)
       expect(data.isActive).toBe(false)
+      expect(data.entries).toEqual([])
     })
 
     it('should handle authentication errors', async () => {
@@ -110,7 +213,7 @@ describe('/api/time-entries/active', () => {
       mockDb.from.mockReturnValueOnce(mockDb)
       mockDb.innerJoin.mockReturnValueOnce(mockDb)
       mockDb.where.mockReturnValueOnce(mockDb)
-      mockDb.limit.mockRejectedValueOnce(new Error('Database error'))
+      mockDb.orderBy.mockRejectedValueOnce(new Error('Database error'))
 
       const request = createMockRequest('GET', '/api/time-entries/active')
       const response = await GET(request)
@@ -123,17 +226,15 @@ describe('/api/time-entries/active', () => {
     it('should stop active timer when action is stop', async () => {
       const activeEntry = mockTimeEntries.find(entry => entry.isActive)
 
-      // Mock finding active entry
-      mockDb.select.mockReturnValueOnce(mockDb)
-      mockDb.from.mockReturnValueOnce(mockDb)
-      mockDb.where.mockReturnValueOnce(mockDb)
+      // Mock finding active entry (route lookup, then service lookup)
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry])
       mockDb.limit.mockResolvedValueOnce([activeEntry])
 
+      // Mock breaks lookup
+      mockDb.orderBy.mockResolvedValueOnce([])
+
       // Mock update operation
-      mockDb.update.mockReturnValueOnce(mockDb)
-      mockDb.set.mockReturnValueOnce(mockDb)
-      mockDb.where.mockReturnValueOnce(mockDb)
-      mockDb.returning.mockResolvedValueOnce([])
+      mockDb.returning.mockResolvedValueOnce([{ ...activeEntry, isActive: false, durationMinutes: 45 }])
 
       const request = createMockRequest('PATCH', '/api/time-entries/active', {
         action: 'stop'
@@ -144,24 +245,38 @@ describe('/api/time-entries/active', () => {
       expect(response.status).toBe(200)
       expect(data.success).toBe(true)
       expect(data.action).toBe('stopped')
-      expect(data.durationMinutes).toBeTruthy()
+      expect(data.durationMinutes).toBe(45)
     })
 
-    it('should pause active timer when action is pause', async () => {
+    it('should return 409 when another request stops the timer first', async () => {
       const activeEntry = mockTimeEntries.find(entry => entry.isActive)
 
-      // Mock finding active entry
-      mockDb.select.mockReturnValueOnce(mockDb)
-      mockDb.from.mockReturnValueOnce(mockDb)
-      mockDb.where.mockReturnValueOnce(mockDb)
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry])
       mockDb.limit.mockResolvedValueOnce([activeEntry])
+      mockDb.orderBy.mockResolvedValueOnce([])
 
-      // Mock update operation
-      mockDb.update.mockReturnValueOnce(mockDb)
-      mockDb.set.mockReturnValueOnce(mockDb)
-      mockDb.where.mockReturnValueOnce(mockDb)
+      // The guarded update matches no row
       mockDb.returning.mockResolvedValueOnce([])
 
+      const request = createMockRequest('PATCH', '/api/time-entries/active', {
+        action: 'stop'
+      })
+      const response = await PATCH(request as any)
+
+      expect(response.status).toBe(409)
+      expect(await response.text()).toBe('Time entry is already stopped')
+    })
+
+    it('should pause active timer without stopping it when action is pause', async () => {
+      const activeEntry = mockTimeEntries.find(entry => entry.isActive)
+
+      // Mock finding active entry (route lookup, then service lookup)
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry])
+      mockDb.limit.mockResolvedValueOnce([activeEntry])
+
+      // Mock update operation
+      mockDb.returning.mockResolvedValueOnce([{ ...activeEntry, isPaused: true }])
+
       const request = createMockRequest('PATCH', '/api/time-entries/active', {
         action: 'pause'
       })
@@ -171,15 +286,86 @@ describe('/api/time-entries/active', () => {
       expect(response.status).toBe(200)
       expect(data.success).toBe(true)
       expect(data.action).toBe('paused')
-      expect(data.durationMinutes).toBeTruthy()
+      expect(mockDb.insert).toHaveBeenCalled()
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ isPaused: true }))
+      expect(mockDb.set).not.toHaveBeenCalledWith(expect.objectContaining({ isActive: false }))
+    })
+
+    it('should return 409 when pausing an already paused timer', async () => {
+      const activeEntry = mockTimeEntries.find(entry => entry.isActive)
+
+      mockDb.orderBy.mockResolvedValueOnce([{ ...activeEntry, isPaused: true }])
+
+      const request = createMockRequest('PATCH', '/api/time-entries/active', {
+        action: 'pause'
+      })
+      const response = await PATCH(request)
+
+      expect(response.status).toBe(409)
+      const text = await response.text()
+      expect(text).toBe('Timer is already paused')
+    })
+
+    it('should return 409 when another request pauses the timer first', async () => {
+      const activeEntry = mockTimeEntries.find(entry => entry.isActive)
+
+      // Both lookups still see a running timer
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry])
+      mockDb.limit.mockResolvedValueOnce([activeEntry])
+
+      // The guarded update matches no row
+      mockDb.returning.mockResolvedValueOnce([])
+
+      const request = createMockRequest('PATCH', '/api/time-entries/active', {
+        action: 'pause'
+      })
+      const response = await PATCH(request as any)
+
+      expect(response.status).toBe(409)
+      expect(await response.text()).toBe('Time entry is already paused')
+      expect(mockDb.insert).not.toHaveBeenCalled()
+    })
+
+    it('should resume a paused timer when action is resume', async () => {
+      const activeEntry = { ...mockTimeEntries.find(entry => entry.isActive), isPaused: true }
+
+      // Mock finding active entry (route lookup, then service lookup)
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry])
+      mockDb.limit.mockResolvedValueOnce([activeEntry])
+
+      // Mock update operation
+      mockDb.returning.mockResolvedValueOnce([{ ...activeEntry, isPaused: false }])
+
+      const request = createMockRequest('PATCH', '/api/time-entries/active', {
+        action: 'resume'
+      })
+      const response = await PATCH(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.success).toBe(true)
+      expect(data.action).toBe('resumed')
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ isPaused: false }))
+    })
+
+    it('should return 409 when resuming a timer that is not paused', async () => {
+      const activeEntry = mockTimeEntries.find(entry => entry.isActive)
+
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry])
+
+      const request = createMockRequest('PATCH', '/api/time-entries/active', {
+        action: 'resume'
+      })
+      const response = await PATCH(request)
+
+      expect(response.status).toBe(409)
+      const text = await response.text()
+      expect(text).toBe('Timer is not paused')
     })
 
     it('should return 404 when no active timer exists', async () => {
       // Mock no active entry found
-      mockDb.select.mockReturnValueOnce(mockDb)
-      mockDb.from.mockReturnValueOnce(mockDb)
-      mockDb.where.mockReturnValueOnce(mockDb)
-      mockDb.limit.mockResolvedValueOnce([])
+      mockDb.orderBy.mockResolvedValueOnce([])
 
       const request = createMockRequest('PATCH', '/api/time-entries/active', {
         action: 'stop'
@@ -191,6 +377,41 @@ describe('/api/time-entries/active', () => {
       expect(text).toBe('No active timer found')
     })
 
+    it('should stop the given timer when several are running', async () => {
+      const activeEntry = mockTimeEntries.find(entry => entry.isActive)
+      const otherEntry = { ...activeEntry, id: 'other-entry' }
+
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry, otherEntry])
+      mockDb.limit.mockResolvedValueOnce([otherEntry])
+      mockDb.orderBy.mockResolvedValueOnce([])
+      mockDb.returning.mockResolvedValueOnce([{ ...otherEntry, isActive: false, durationMinutes: 20 }])
+
+      const request = createMockRequest('PATCH', '/api/time-entries/active', {
+        action: 'stop',
+        entryId: 'other-entry'
+      })
+      const response = await PATCH(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.durationMinutes).toBe(20)
+    })
+
+    it('should return 400 when several timers are running and no entryId is given', async () => {
+      const activeEntry = mockTimeEntries.find(entry => entry.isActive)
+
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry, { ...activeEntry, id: 'other-entry' }])
+
+      const request = createMockRequest('PATCH', '/api/time-entries/active', {
+        action: 'stop'
+      })
+      const response = await PATCH(request)
+
+      expect(response.status).toBe(400)
+      const text = await response.text()
+      expect(text).toBe('Several timers are running; specify entryId')
+    })
+
     it('should return 400 for invalid action', async () => {
       const request = createMockRequest('PATCH', '/api/time-entries/active', {
         action: 'invalid'
@@ -227,15 +448,12 @@ describe('/api/time-entries/active', () => {
       const activeEntry = mockTimeEntries.find(entry => entry.isActive)
 
       // Mock finding active entry
-      mockDb.select.mockReturnValueOnce(mockDb)
-      mockDb.from.mockReturnValueOnce(mockDb)
-      mockDb.where.mockReturnValueOnce(mockDb)
+      mockDb.orderBy.mockResolvedValueOnce([activeEntry])
       mockDb.limit.mockResolvedValueOnce([activeEntry])
+      mockDb.orderBy.mockResolvedValueOnce([])
 
       // Mock update operation failing
-      mockDb.update.mockReturnValueOnce(mockDb)
-      mockDb.set.mockReturnValueOnce(mockDb)
-      mockDb.where.mockRejectedValueOnce(new Error('Database error'))
+      mockDb.returning.mockRejectedValueOnce(new Error('Database error'))
 
       const request = createMockRequest('PATCH', '/api/time-entries/active', {
         action: 'stop'
@@ -245,4 +463,4 @@ describe('/api/time-entries/active', () => {
       expect(response.status).toBe(500)
     })
   })
-})
\ No newline at end of file
+})
@@ -0,0 +1,50 @@
+import { POST } from '@/app/api/time-entries/import-calendar/route'
+import { ServiceError } from '@/lib/services/errors'
+
+jest.mock('@/lib/authUtils', () => ({
+  getUserIdOrThrow: jest.fn().mockResolvedValue('test-user-123'),
+}))
+
+const mockPreview = jest.fn()
+jest.mock('@/lib/services/calendar-imports', () => ({
+  CalendarImportService: jest.fn().mockImplementation(() => ({
+    preview: (...args: unknown[]) => mockPreview(...args),
+  })),
+}))
+
+const calendar = 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n'
+
+const importRequest = () => {
+  const formData = new FormData()
+  const file = new File([calendar], 'calendar.ics', { type: 'text/calendar' })
+  // jsdom's File can't be read as text
+  Object.defineProperty(file, 'text', { value: async () => calendar })
+  formData.append('file', file)
+
+  return { formData: async () => formData } as any
+}
+
+describe('/api/time-entries/import-calendar', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should answer problems with the file with 422', async () => {
+    mockPreview.mockRejectedValueOnce(new ServiceError('The file contains no events'))
+
+    const response = await POST(importRequest())
+
+    expect(response.status).toBe(422)
+    expect(await response.text()).toBe('The file contains no events')
+  })
+
+  it('should not expose other failures as client errors', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {})
+    mockPreview.mockRejectedValueOnce(new Error('connection terminated unexpectedly'))
+
+    const response = await POST(importRequest())
+
+    expect(response.status).toBe(500)
+    expect(await response.text()).toBe('Internal Server Error')
+  })
+})
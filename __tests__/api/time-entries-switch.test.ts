@@ -0,0 +1,74 @@
+import { POST } from '@/app/api/time-entries/switch/route'
+import { createMockRequest } from '../utils/test-helpers'
+import { ServiceError } from '@/lib/services/errors'
+import { normalizeTagNames } from '@/lib/services/tags'
+
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+jest.mock('@/lib/authUtils', () => ({
+  getUserIdOrThrow: jest.fn().mockResolvedValue('test-user-123'),
+}))
+
+const mockSwitchTimeTracking = jest.fn()
+jest.mock('@/lib/services/time-entries', () => ({
+  TimeEntryService: jest.fn().mockImplementation(() => ({
+    switchTimeTracking: (...args: unknown[]) => mockSwitchTimeTracking(...args),
+  })),
+}))
+
+const switchRequest = () => createMockRequest('POST', 'http://localhost:3000/api/time-entries/switch', {
+  projectId: 'test-project-1',
+  description: 'Code review',
+}) as any
+
+describe('/api/time-entries/switch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should answer known switching problems with 400', async () => {
+    mockSwitchTimeTracking.mockRejectedValueOnce(new ServiceError('No active time entry found'))
+
+    const response = await POST(switchRequest())
+
+    expect(response.status).toBe(400)
+    expect(await response.text()).toBe('No active time entry found')
+  })
+
+  it('should answer a switch into a locked week with 409', async () => {
+    mockSwitchTimeTracking.mockRejectedValueOnce(new ServiceError('Time entries in a submitted timesheet cannot be modified', 'conflict'))
+
+    const response = await POST(switchRequest())
+
+    expect(response.status).toBe(409)
+  })
+
+  it('should answer invalid tag names with 400', async () => {
+    mockSwitchTimeTracking.mockImplementationOnce(async (_userId: string, options: { tags: string[] }) => normalizeTagNames(options.tags))
+
+    const response = await POST(createMockRequest('POST', 'http://localhost:3000/api/time-entries/switch', {
+      projectId: 'test-project-1',
+      description: 'Code review',
+      tags: ['review, urgent'],
+    }) as any)
+
+    expect(response.status).toBe(400)
+    expect(await response.text()).toBe('Tag names cannot contain commas')
+  })
+
+  it('should not expose other failures as client errors', async () => {
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {})
+    mockSwitchTimeTracking.mockRejectedValueOnce(new Error('connection terminated unexpectedly'))
+
+    const response = await POST(switchRequest())
+
+    expect(response.status).toBe(500)
+    expect(await response.text()).toBe('Internal Server Error')
+  })
+})
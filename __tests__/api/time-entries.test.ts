@@ -28,6 +28,13 @@ jest.mock('@/drizzle/connection', () => ({
 
 const mockDb = require('@/drizzle/connection').db
 
+const mockGetSettings = jest.fn()
+jest.mock('@/lib/services/user-settings', () => ({
+  UserSettingsService: jest.fn().mockImplementation(() => ({
+    getSettings: (...args: unknown[]) => mockGetSettings(...args),
+  })),
+}))
+
 // Mock drizzle operators
 jest.mock('drizzle-orm', () => ({
   eq: jest.fn(),
@@ -65,6 +72,7 @@ jest.mock('@/drizzle/schema', () => ({
 describe('/api/time-entries', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockGetSettings.mockResolvedValue({ maxConcurrentTimers: 1 })
   })
 
   describe('GET /api/time-entries', () => {
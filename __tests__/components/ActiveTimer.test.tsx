@@ -72,7 +72,7 @@ describe('ActiveTimer', () => {
 
     beforeEach(() => {
       mockSWR.mockReturnValue({
-        data: mockActiveEntry,
+        data: { isActive: true, entries: [mockActiveEntry], maxConcurrentTimers: 1 },
         error: null,
         isLoading: false,
       })
@@ -82,7 +82,8 @@ describe('ActiveTimer', () => {
       render(<ActiveTimer />)
       
       expect(screen.getByText('Test Project')).toBeInTheDocument()
-      expect(screen.getByRole('button')).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: 'Stop timer' })).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: 'Pause timer' })).toBeInTheDocument()
     })
 
     it('should display elapsed time', () => {
@@ -129,7 +130,7 @@ describe('ActiveTimer', () => {
 
       render(<ActiveTimer />)
       
-      const stopButton = screen.getByRole('button')
+      const stopButton = screen.getByRole('button', { name: 'Stop timer' })
       await user.click(stopButton)
 
       expect(mockFetch).toHaveBeenCalledWith('/api/time-entries/active', {
@@ -137,7 +138,7 @@ describe('ActiveTimer', () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ action: 'stop' }),
+        body: JSON.stringify({ action: 'stop', entryId: 'test-entry-1' }),
       })
     })
 
@@ -151,7 +152,7 @@ describe('ActiveTimer', () => {
 
       render(<ActiveTimer />)
       
-      const stopButton = screen.getByRole('button')
+      const stopButton = screen.getByRole('button', { name: 'Stop timer' })
       await user.click(stopButton)
 
       await waitFor(() => {
@@ -169,7 +170,7 @@ describe('ActiveTimer', () => {
 
       render(<ActiveTimer />)
       
-      const stopButton = screen.getByRole('button')
+      const stopButton = screen.getByRole('button', { name: 'Stop timer' })
       await user.click(stopButton)
 
       await waitFor(() => {
@@ -195,7 +196,7 @@ describe('ActiveTimer', () => {
 
       render(<ActiveTimer />)
       
-      const stopButton = screen.getByRole('button')
+      const stopButton = screen.getByRole('button', { name: 'Stop timer' })
       await user.click(stopButton)
 
       expect(stopButton).toBeDisabled()
@@ -212,7 +213,7 @@ describe('ActiveTimer', () => {
 
       render(<ActiveTimer />)
       
-      const stopButton = screen.getByRole('button')
+      const stopButton = screen.getByRole('button', { name: 'Stop timer' })
       await user.click(stopButton)
 
       await waitFor(() => {
@@ -226,6 +227,126 @@ describe('ActiveTimer', () => {
     })
   })
 
+  describe('when active timer is paused', () => {
+    beforeEach(() => {
+      mockSWR.mockReturnValue({
+        data: {
+          isActive: true,
+          entries: [{
+            id: 'test-entry-1',
+            projectName: 'Test Project',
+            description: 'Working on features',
+            startTime: new Date('2024-01-01T10:00:00Z').toISOString(),
+            isActive: true,
+            isPaused: true,
+            pausedAt: new Date('2024-01-01T10:45:00Z').toISOString(),
+            pausedSeconds: 600,
+          }],
+          maxConcurrentTimers: 1,
+        },
+        error: null,
+        isLoading: false,
+      })
+    })
+
+    it('should exclude paused time from elapsed time and show total paused time', () => {
+      const mockNow = new Date('2024-01-01T11:00:00Z')
+      jest.spyOn(Date, 'now').mockReturnValue(mockNow.getTime())
+
+      render(<ActiveTimer />)
+
+      // 60 minutes since start, minus 10 minutes of earlier breaks and 15 minutes paused now
+      expect(screen.getByText('00:35:00')).toBeInTheDocument()
+      expect(screen.getByText('Paused · 00:25:00')).toBeInTheDocument()
+    })
+
+    it('should resume the timer', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({}),
+      })
+
+      render(<ActiveTimer />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Resume timer' }))
+
+      await waitFor(() => expect(mockMutate).toHaveBeenCalledWith('/api/time-entries/active'))
+      expect(mockFetch).toHaveBeenCalledWith('/api/time-entries/active', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'resume', entryId: 'test-entry-1' }),
+      })
+    })
+  })
+
+  describe('when several timers are running', () => {
+    const entries = [
+      {
+        id: 'test-entry-1',
+        projectName: 'Test Project',
+        description: 'Working on features',
+        startTime: new Date('2024-01-01T10:00:00Z').toISOString(),
+        isActive: true,
+      },
+      {
+        id: 'test-entry-2',
+        projectName: 'Support',
+        description: 'Customer call',
+        startTime: new Date('2024-01-01T10:30:00Z').toISOString(),
+        isActive: true,
+      },
+    ]
+
+    it('should list every running timer', () => {
+      mockSWR.mockReturnValue({
+        data: { isActive: true, entries, maxConcurrentTimers: 2 },
+        error: null,
+        isLoading: false,
+      })
+
+      render(<ActiveTimer />)
+
+      expect(screen.getByText('Test Project')).toBeInTheDocument()
+      expect(screen.getByText('Support')).toBeInTheDocument()
+      expect(screen.getAllByRole('button', { name: 'Stop timer' })).toHaveLength(2)
+      expect(screen.queryByTestId('start-timer')).not.toBeInTheDocument()
+    })
+
+    it('should offer to start another timer while below the limit', () => {
+      mockSWR.mockReturnValue({
+        data: { isActive: true, entries, maxConcurrentTimers: 3 },
+        error: null,
+        isLoading: false,
+      })
+
+      render(<ActiveTimer />)
+
+      expect(screen.getByTestId('start-timer')).toBeInTheDocument()
+    })
+
+    it('should stop the timer whose button was clicked', () => {
+      mockSWR.mockReturnValue({
+        data: { isActive: true, entries, maxConcurrentTimers: 2 },
+        error: null,
+        isLoading: false,
+      })
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({}),
+      })
+
+      render(<ActiveTimer />)
+
+      fireEvent.click(screen.getAllByRole('button', { name: 'Stop timer' })[1])
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/time-entries/active', expect.objectContaining({
+        body: JSON.stringify({ action: 'stop', entryId: 'test-entry-2' }),
+      }))
+    })
+  })
+
   describe('when there is an error', () => {
     beforeEach(() => {
       mockSWR.mockReturnValue({
@@ -253,11 +374,15 @@ describe('ActiveTimer', () => {
     beforeEach(() => {
       mockSWR.mockReturnValue({
         data: {
-          id: 'test-entry-1',
-          projectName: 'Test Project',
-          description: 'Working on features',
-          startTime: new Date('2024-01-01T10:00:00Z').toISOString(),
           isActive: true,
+          entries: [{
+            id: 'test-entry-1',
+            projectName: 'Test Project',
+            description: 'Working on features',
+            startTime: new Date('2024-01-01T10:00:00Z').toISOString(),
+            isActive: true,
+          }],
+          maxConcurrentTimers: 1,
         },
         error: null,
         isLoading: false,
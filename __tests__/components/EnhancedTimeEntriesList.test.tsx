@@ -68,6 +68,11 @@ describe('EnhancedTimeEntriesList', () => {
           error: null,
           isLoading: false,
         })
+        .mockReturnValueOnce({
+          data: mockApiResponses.tags,
+          error: null,
+          isLoading: false,
+        })
     })
 
     it('should render in dashboard mode', () => {
@@ -133,6 +138,11 @@ describe('EnhancedTimeEntriesList', () => {
           error: null,
           isLoading: false,
         })
+        .mockReturnValueOnce({
+          data: mockApiResponses.tags,
+          error: null,
+          isLoading: false,
+        })
     })
 
     it('should render in full mode', () => {
@@ -142,6 +152,13 @@ describe('EnhancedTimeEntriesList', () => {
       expect(screen.getByText('Export')).toBeInTheDocument()
     })
 
+    it('should show tags on entries', () => {
+      render(<EnhancedTimeEntriesList mode="full" />)
+      
+      expect(screen.getByText('bugfix')).toBeInTheDocument()
+      expect(screen.getByText('frontend')).toBeInTheDocument()
+    })
+
     it('should show search input in full mode', () => {
       render(<EnhancedTimeEntriesList mode="full" />)
       
@@ -190,7 +207,7 @@ describe('EnhancedTimeEntriesList', () => {
       // Mock fetch for export
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: async () => mockApiResponses.timeEntries,
+        blob: async () => new Blob(['Date,Start,End\n']),
       })
 
       // Mock URL.createObjectURL and document.createElement
@@ -230,6 +247,7 @@ describe('EnhancedTimeEntriesList', () => {
       expect(screen.getByText('Exporting...')).toBeInTheDocument()
 
       await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/api/time-entries/export?format=csv'))
         expect(mockCreateObjectURL).toHaveBeenCalled()
         expect(mockLink.click).toHaveBeenCalled()
         expect(mockRevokeObjectURL).toHaveBeenCalled()
@@ -268,6 +286,11 @@ describe('EnhancedTimeEntriesList', () => {
           error: null,
           isLoading: false,
         })
+        .mockReturnValueOnce({
+          data: mockApiResponses.tags,
+          error: null,
+          isLoading: false,
+        })
     })
 
     it('should handle start timer action', async () => {
@@ -387,6 +410,11 @@ describe('EnhancedTimeEntriesList', () => {
           error: null,
           isLoading: false,
         })
+        .mockReturnValueOnce({
+          data: [],
+          error: null,
+          isLoading: false,
+        })
 
       render(<EnhancedTimeEntriesList />)
       
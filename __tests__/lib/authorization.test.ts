@@ -5,19 +5,36 @@
  * Run with: npm test -- authorization.test.ts
  */
 
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+// Mock the database connection used to load reporting lines
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn().mockReturnThis(),
+    from: jest.fn().mockReturnThis(),
+    where: jest.fn(),
+  },
+}));
+
 import {
   UserRole,
   Permission,
+  ApiScope,
   RolePermissions,
   createAuthorizationContext,
   canViewAllTimesheets,
   canViewUserTimesheets,
   canViewReports,
+  canApproveTimesheets,
   parseUserRole,
   hasPermission,
+  hasApiScope,
+  loadDirectReports,
+  loadAuthorizationContext,
 } from '@/lib/authorization';
 
+const mockDb = require('@/drizzle/connection').db;
+
 describe('Authorization Service', () => {
   describe('parseUserRole', () => {
     it('should parse valid role strings', () => {
@@ -77,6 +94,19 @@ describe('Authorization Service', () => {
     });
   });
 
+  describe('hasApiScope', () => {
+    it('should allow any scope without an API key', () => {
+      const context = createAuthorizationContext('user_123', 'user');
+      expect(hasApiScope(context, ApiScope.WRITE)).toBe(true);
+    });
+
+    it('should limit API key requests to the key scopes', () => {
+      const context = createAuthorizationContext('user_123', 'user', { apiScopes: [ApiScope.READ] });
+      expect(hasApiScope(context, ApiScope.READ)).toBe(true);
+      expect(hasApiScope(context, ApiScope.WRITE)).toBe(false);
+    });
+  });
+
   describe('canViewAllTimesheets', () => {
     it('should allow HR users', () => {
       const context = createAuthorizationContext('user_123', 'hr');
@@ -205,6 +235,48 @@ describe('Authorization Service', () => {
     });
   });
 
+  describe('canApproveTimesheets', () => {
+    it('should deny approving own timesheets', () => {
+      const context = createAuthorizationContext('user_hr', 'hr');
+      const result = canApproveTimesheets(context, 'user_hr');
+      expect(result.authorized).toBe(false);
+      expect(result.reason).toContain('own timesheets');
+    });
+
+    it('should allow HR to approve anyone\'s timesheets', () => {
+      const context = createAuthorizationContext('user_hr', 'hr');
+      const result = canApproveTimesheets(context, 'user_123');
+      expect(result.authorized).toBe(true);
+    });
+
+    it('should deny regular users from approving timesheets', () => {
+      const context = createAuthorizationContext('user_123', 'user');
+      const result = canApproveTimesheets(context, 'user_456');
+      expect(result.authorized).toBe(false);
+    });
+
+    it('should allow managers to approve direct reports\' timesheets', () => {
+      const context = createAuthorizationContext(
+        'user_manager',
+        'manager',
+        { directReports: ['user_123'] }
+      );
+      const result = canApproveTimesheets(context, 'user_123');
+      expect(result.authorized).toBe(true);
+    });
+
+    it('should deny managers from approving non-direct reports\' timesheets', () => {
+      const context = createAuthorizationContext(
+        'user_manager',
+        'manager',
+        { directReports: ['user_123'] }
+      );
+      const result = canApproveTimesheets(context, 'user_789');
+      expect(result.authorized).toBe(false);
+      expect(result.reason).toContain('not in the manager\'s direct reports');
+    });
+  });
+
   describe('RolePermissions mapping', () => {
     it('should have correct permissions for USER role', () => {
       const permissions = RolePermissions[UserRole.USER];
@@ -215,11 +287,13 @@ describe('Authorization Service', () => {
       const permissions = RolePermissions[UserRole.HR];
       expect(permissions).toContain(Permission.VIEW_ALL_TIMESHEETS);
       expect(permissions).toContain(Permission.VIEW_ALL_REPORTS);
+      expect(permissions).toContain(Permission.APPROVE_TIMESHEETS);
     });
 
     it('should have correct permissions for MANAGER role', () => {
       const permissions = RolePermissions[UserRole.MANAGER];
       expect(permissions).toContain(Permission.VIEW_USER_TIMESHEETS);
+      expect(permissions).toContain(Permission.APPROVE_TIMESHEETS);
       expect(permissions).not.toContain(Permission.VIEW_ALL_TIMESHEETS);
     });
 
@@ -228,6 +302,71 @@ describe('Authorization Service', () => {
       expect(permissions).toContain(Permission.VIEW_ALL_TIMESHEETS);
       expect(permissions).toContain(Permission.VIEW_ALL_REPORTS);
       expect(permissions).toContain(Permission.MANAGE_USERS);
+      expect(permissions).toContain(Permission.MANAGE_ORGANIZATION);
+    });
+  });
+
+  describe('loadDirectReports', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should load direct reports only by default', async () => {
+      mockDb.where.mockResolvedValueOnce([{ employeeId: 'user_123' }, { employeeId: 'user_456' }]);
+
+      const reports = await loadDirectReports('user_manager');
+
+      expect(reports).toEqual(['user_123', 'user_456']);
+      expect(mockDb.where).toHaveBeenCalledTimes(1);
+    });
+
+    it('should walk the reporting tree when transitive', async () => {
+      mockDb.where
+        .mockResolvedValueOnce([{ employeeId: 'user_lead' }])
+        .mockResolvedValueOnce([{ employeeId: 'user_123' }, { employeeId: 'user_456' }])
+        .mockResolvedValueOnce([]);
+
+      const reports = await loadDirectReports('user_manager', { transitive: true });
+
+      expect(reports).toEqual(['user_lead', 'user_123', 'user_456']);
+      expect(mockDb.where).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop at reporting cycles', async () => {
+      mockDb.where
+        .mockResolvedValueOnce([{ employeeId: 'user_lead' }])
+        .mockResolvedValueOnce([{ employeeId: 'user_manager' }]);
+
+      const reports = await loadDirectReports('user_manager', { transitive: true });
+
+      expect(reports).toEqual(['user_lead']);
+      expect(mockDb.where).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('loadAuthorizationContext', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should populate direct reports for managers', async () => {
+      mockDb.where.mockResolvedValueOnce([{ employeeId: 'user_123' }]);
+
+      const context = await loadAuthorizationContext('user_manager', 'manager');
+
+      expect(context.roles).toEqual([UserRole.MANAGER]);
+      expect(context.metadata?.directReports).toEqual(['user_123']);
+      expect(canViewUserTimesheets(context, 'user_123').authorized).toBe(true);
+      expect(canViewUserTimesheets(context, 'user_789').authorized).toBe(false);
+    });
+
+    it('should not query reporting lines for roles with blanket or no access', async () => {
+      const hrContext = await loadAuthorizationContext('user_hr', 'hr');
+      const userContext = await loadAuthorizationContext('user_123', 'user');
+
+      expect(hrContext.metadata).toBeUndefined();
+      expect(userContext.metadata).toBeUndefined();
+      expect(mockDb.select).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,145 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+// Mock the BudgetService
+jest.mock('@/lib/services/budgets', () => {
+  const mockServiceMethods = {
+    setBudget: jest.fn(),
+    getBudgetStatus: jest.fn(),
+    removeBudget: jest.fn(),
+  }
+
+  return {
+    ...jest.requireActual('@/lib/services/budgets'),
+    BudgetService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Import the tools after mocking
+import { setProjectBudgetTool, getProjectBudgetStatusTool, removeProjectBudgetTool } from '@/lib/mcp-tools/budget-tools'
+
+// Get the mock service methods for assertions
+const mockBudgetService = (require('@/lib/services/budgets') as any).__mockServiceMethods
+
+const mockBudget = {
+  id: 'test-budget-1',
+  projectId: 'test-project-1',
+  type: 'money' as const,
+  period: 'monthly' as const,
+  amount: '5000.00',
+  alertThresholds: [80, 100],
+  userId: 'test-user-123',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+}
+
+const mockStatus = {
+  budget: mockBudget,
+  projectName: 'Website Development',
+  unit: 'USD',
+  periodStart: new Date('2024-03-01T00:00:00Z'),
+  periodEnd: new Date('2024-04-01T00:00:00Z'),
+  amount: 5000,
+  consumed: 4250,
+  remaining: 750,
+  percentUsed: 85,
+  reachedThresholds: [80],
+  missingRates: [],
+}
+
+describe('Budget MCP Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('setProjectBudgetTool', () => {
+    it('should set a budget and show consumption so far', async () => {
+      mockBudgetService.setBudget.mockResolvedValueOnce(mockBudget)
+      mockBudgetService.getBudgetStatus.mockResolvedValueOnce(mockStatus)
+
+      const result = await setProjectBudgetTool.handler(
+        { projectId: 'test-project-1', type: 'money', period: 'monthly', amount: 5000 },
+        'test-user-123'
+      )
+
+      expect(mockBudgetService.setBudget).toHaveBeenCalledWith('test-user-123', 'test-project-1', {
+        type: 'money',
+        period: 'monthly',
+        amount: 5000,
+      })
+      expect(result.content[0].text).toContain('Budget set successfully')
+      expect(result.content[0].text).toContain('Budget: $5000.00 per month')
+      expect(result.content[0].text).toContain('Consumed so far: $4250.00 (85%)')
+      expect(result.content[0].text).toContain('Alerts at: 80%, 100%')
+    })
+
+    it('should report invalid thresholds', async () => {
+      mockBudgetService.setBudget.mockRejectedValueOnce(
+        new Error('Invalid alert threshold: 0. Use whole percentages between 1 and 1000')
+      )
+
+      const result = await setProjectBudgetTool.handler(
+        { projectId: 'test-project-1', type: 'hours', amount: 40, alertThresholds: [0] },
+        'test-user-123'
+      )
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Error setting project budget: Invalid alert threshold: 0')
+    })
+  })
+
+  describe('getProjectBudgetStatusTool', () => {
+    it('should show consumption and reached thresholds', async () => {
+      mockBudgetService.getBudgetStatus.mockResolvedValueOnce(mockStatus)
+
+      const result = await getProjectBudgetStatusTool.handler({ projectId: 'test-project-1' })
+
+      expect(result.content[0].text).toContain('Budget status for Website Development')
+      expect(result.content[0].text).toContain('Consumed: $4250.00 (85%)')
+      expect(result.content[0].text).toContain('Remaining: $750.00')
+      expect(result.content[0].text).toContain('Alert thresholds reached: 80%')
+      expect(result.content[0].text).not.toContain('OVER BUDGET')
+    })
+
+    it('should flag projects over budget', async () => {
+      mockBudgetService.getBudgetStatus.mockResolvedValueOnce({
+        ...mockStatus,
+        consumed: 5500,
+        remaining: -500,
+        percentUsed: 110,
+        reachedThresholds: [80, 100],
+      })
+
+      const result = await getProjectBudgetStatusTool.handler({ projectId: 'test-project-1' })
+
+      expect(result.content[0].text).toContain('[OVER BUDGET]')
+    })
+
+    it('should handle projects without a budget', async () => {
+      mockBudgetService.getBudgetStatus.mockResolvedValueOnce(null)
+
+      const result = await getProjectBudgetStatusTool.handler({ projectId: 'test-project-2' })
+
+      expect(result.content[0].text).toBe('This project has no budget.')
+      expect(result.structuredContent?.status).toBeNull()
+    })
+  })
+
+  describe('removeProjectBudgetTool', () => {
+    it('should remove a budget', async () => {
+      mockBudgetService.removeBudget.mockResolvedValueOnce(true)
+
+      const result = await removeProjectBudgetTool.handler({ projectId: 'test-project-1' })
+
+      expect(result.content[0].text).toBe('Budget removed successfully.')
+    })
+  })
+})
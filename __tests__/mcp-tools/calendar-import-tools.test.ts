@@ -0,0 +1,201 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+// Mock the CalendarImportService
+jest.mock('@/lib/services/calendar-imports', () => {
+  const mockServiceMethods = {
+    preview: jest.fn(),
+    commit: jest.fn(),
+    createRule: jest.fn(),
+    listRules: jest.fn(),
+    deleteRule: jest.fn(),
+  }
+
+  return {
+    CalendarImportService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Import the tools after mocking
+import {
+  importCalendarEventsTool,
+  createCalendarImportRuleTool,
+  listCalendarImportRulesTool,
+  deleteCalendarImportRuleTool,
+} from '@/lib/mcp-tools/calendar-import-tools'
+
+// Get the mock service methods for assertions
+const mockCalendarImportService = (require('@/lib/services/calendar-imports') as any).__mockServiceMethods
+
+const ics = 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:event-1\r\nSUMMARY:Acme sync\r\nDTSTART:20240315T090000Z\r\nDTEND:20240315T100000Z\r\nEND:VEVENT\r\nEND:VCALENDAR'
+
+const mockRule = {
+  id: 'rule-1',
+  userId: 'test-user-123',
+  projectId: 'test-project-1',
+  matchType: 'attendee_domain' as const,
+  pattern: 'acme.com',
+  createdAt: new Date('2024-03-01T00:00:00Z'),
+}
+
+const mockPreview = {
+  drafts: [
+    {
+      eventId: 'event-1',
+      title: 'Acme sync',
+      startTime: new Date('2024-03-15T09:00:00Z'),
+      endTime: new Date('2024-03-15T10:00:00Z'),
+      durationMinutes: 60,
+      attendeeDomains: ['acme.com'],
+      projectId: 'test-project-1',
+      projectName: 'Website',
+      clientName: 'Acme',
+      matchedRule: { matchType: 'attendee_domain' as const, pattern: 'acme.com' },
+      overlaps: [
+        {
+          eventId: null,
+          timeEntryId: 'test-entry-1',
+          description: 'Existing work',
+          startTime: new Date('2024-03-15T09:30:00Z'),
+          endTime: new Date('2024-03-15T11:00:00Z'),
+        },
+      ],
+    },
+    {
+      eventId: 'event-2',
+      title: 'Lunch',
+      startTime: new Date('2024-03-15T12:00:00Z'),
+      endTime: new Date('2024-03-15T13:00:00Z'),
+      durationMinutes: 60,
+      attendeeDomains: [],
+      projectId: null,
+      projectName: null,
+      clientName: null,
+      matchedRule: null,
+      overlaps: [],
+    },
+  ],
+  skipped: [{ eventId: 'holiday', title: 'Holiday', reason: 'All-day events are not tracked time' }],
+  unassignedCount: 1,
+  overlapCount: 1,
+  totalHours: 2,
+}
+
+describe('Calendar Import MCP Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('importCalendarEventsTool', () => {
+    it('should return drafts by default without importing', async () => {
+      mockCalendarImportService.preview.mockResolvedValueOnce(mockPreview)
+
+      const result = await importCalendarEventsTool.handler({ content: ics, timeZone: 'Europe/Berlin' }, 'test-user-123')
+
+      expect(mockCalendarImportService.preview).toHaveBeenCalledWith('test-user-123', ics, {
+        timeZone: 'Europe/Berlin',
+        rules: undefined,
+        defaultProjectId: undefined,
+        tags: undefined,
+      })
+      expect(mockCalendarImportService.commit).not.toHaveBeenCalled()
+      expect(result.content[0].text).toContain('nothing imported yet')
+      expect(result.content[0].text).toContain('[event-1] Acme sync 2024-03-15T09:00:00.000Z - 2024-03-15T10:00:00.000Z -> Website (attendee from acme.com) [OVERLAPS entry test-entry-1]')
+      expect(result.content[0].text).toContain('[event-2] Lunch 2024-03-15T12:00:00.000Z - 2024-03-15T13:00:00.000Z -> NO PROJECT')
+      expect(result.content[0].text).toContain('- Holiday: All-day events are not tracked time')
+      expect(result.structuredContent).toEqual({ preview: mockPreview, result: null })
+    })
+
+    it('should commit reviewed assignments when dryRun is false', async () => {
+      const mockResult = { imported: 1, entryIds: ['mock-id'], skippedUnassigned: 1, skippedOverlapping: 0, trimmedOverlapping: 0, totalHours: 1 }
+      mockCalendarImportService.commit.mockResolvedValueOnce(mockResult)
+
+      const result = await importCalendarEventsTool.handler(
+        {
+          content: ics,
+          dryRun: false,
+          skipOverlapping: false,
+          assignments: [{ eventId: 'event-1', projectId: 'test-project-2' }, { eventId: 'event-2', projectId: null }],
+        },
+        'test-user-123'
+      )
+
+      expect(mockCalendarImportService.commit).toHaveBeenCalledWith('test-user-123', ics, {
+        timeZone: undefined,
+        rules: undefined,
+        defaultProjectId: undefined,
+        tags: undefined,
+        assignments: { 'event-1': 'test-project-2', 'event-2': null },
+        skipOverlapping: false,
+      })
+      expect(result.content[0].text).toContain('Calendar import completed successfully')
+      expect(result.content[0].text).toContain('Imported: 1 events (1h)')
+      expect(result.structuredContent).toEqual({ preview: null, result: mockResult })
+    })
+
+    it('should handle import errors', async () => {
+      mockCalendarImportService.preview.mockRejectedValueOnce(new Error('Project not found or does not belong to user'))
+
+      const result = await importCalendarEventsTool.handler({ content: ics, defaultProjectId: 'other-project' }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Error importing calendar events: Project not found or does not belong to user')
+    })
+  })
+
+  describe('createCalendarImportRuleTool', () => {
+    it('should create a rule', async () => {
+      mockCalendarImportService.createRule.mockResolvedValueOnce(mockRule)
+
+      const result = await createCalendarImportRuleTool.handler(
+        { matchType: 'attendee_domain', pattern: '@Acme.com', projectId: 'test-project-1' },
+        'test-user-123'
+      )
+
+      expect(mockCalendarImportService.createRule).toHaveBeenCalledWith('test-user-123', {
+        matchType: 'attendee_domain',
+        pattern: '@Acme.com',
+        projectId: 'test-project-1',
+      })
+      expect(result.content[0].text).toContain('Rule: attendee from acme.com')
+      expect(result.structuredContent).toEqual({ rule: mockRule })
+    })
+  })
+
+  describe('listCalendarImportRulesTool', () => {
+    it('should list rules in order', async () => {
+      mockCalendarImportService.listRules.mockResolvedValueOnce([{ ...mockRule, projectName: 'Website' }])
+
+      const result = await listCalendarImportRulesTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toContain('- attendee from acme.com -> Website (ID: rule-1)')
+    })
+
+    it('should report when there are no rules', async () => {
+      mockCalendarImportService.listRules.mockResolvedValueOnce([])
+
+      const result = await listCalendarImportRulesTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toBe('No calendar import rules found.')
+    })
+  })
+
+  describe('deleteCalendarImportRuleTool', () => {
+    it('should report unknown rules', async () => {
+      mockCalendarImportService.deleteRule.mockResolvedValueOnce(false)
+
+      const result = await deleteCalendarImportRuleTool.handler({ ruleId: 'missing' }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Calendar import rule not found.')
+    })
+  })
+})
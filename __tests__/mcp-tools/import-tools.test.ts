@@ -0,0 +1,130 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+// Mock the ImportService
+jest.mock('@/lib/services/imports', () => {
+  const mockServiceMethods = {
+    preview: jest.fn(),
+    commit: jest.fn(),
+  }
+
+  return {
+    ImportService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Import the tools after mocking
+import { importTimeEntriesTool } from '@/lib/mcp-tools/import-tools'
+
+// Get the mock service methods for assertions
+const mockImportService = (require('@/lib/services/imports') as any).__mockServiceMethods
+
+const csv = 'Client,Project,Description,Start date,Start time,End date,End time\nAcme,Website,Homepage,2024-03-15,09:00:00,2024-03-15,10:30:00'
+
+const mockPreview = {
+  format: 'toggl' as const,
+  entries: [
+    {
+      rowNumber: 2,
+      clientName: 'Acme',
+      projectName: 'Website',
+      projectId: null,
+      description: 'Homepage',
+      startTime: new Date('2024-03-15T09:00:00Z'),
+      endTime: new Date('2024-03-15T10:30:00Z'),
+      durationMinutes: 90,
+      tags: [],
+      billable: null,
+      overlaps: [
+        {
+          rowNumber: null,
+          timeEntryId: 'test-entry-1',
+          description: 'Existing work',
+          startTime: new Date('2024-03-15T10:00:00Z'),
+          endTime: new Date('2024-03-15T11:00:00Z'),
+        },
+      ],
+    },
+  ],
+  errors: [{ rowNumber: 3, message: 'Project is required' }],
+  newClients: [],
+  newProjects: [{ clientName: 'Acme', projectName: 'Website' }],
+  overlapCount: 1,
+  totalHours: 1.5,
+}
+
+describe('Import MCP Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('importTimeEntriesTool', () => {
+    it('should preview by default without importing', async () => {
+      mockImportService.preview.mockResolvedValueOnce(mockPreview)
+
+      const result = await importTimeEntriesTool.handler({ content: csv }, 'test-user-123')
+
+      expect(mockImportService.preview).toHaveBeenCalledWith('test-user-123', Buffer.from(csv), { fileType: 'csv', format: undefined })
+      expect(mockImportService.commit).not.toHaveBeenCalled()
+      expect(result.content[0].text).toContain('nothing imported yet')
+      expect(result.content[0].text).toContain('Will create: project Website (Acme)')
+      expect(result.content[0].text).toContain('[OVERLAPS entry test-entry-1]')
+      expect(result.content[0].text).toContain('Row 3: Project is required')
+      expect(result.structuredContent).toEqual({ preview: mockPreview, result: null })
+    })
+
+    it('should decode XLSX content from base64', async () => {
+      mockImportService.preview.mockResolvedValueOnce({ ...mockPreview, entries: [], errors: [] })
+
+      await importTimeEntriesTool.handler({ content: Buffer.from('xlsx-bytes').toString('base64'), fileType: 'xlsx' }, 'test-user-123')
+
+      expect(mockImportService.preview).toHaveBeenCalledWith('test-user-123', Buffer.from('xlsx-bytes'), { fileType: 'xlsx', format: undefined })
+    })
+
+    it('should commit when dryRun is false', async () => {
+      const mockResult = {
+        format: 'toggl' as const,
+        imported: 1,
+        skippedInvalid: 1,
+        skippedOverlapping: 0,
+        createdClients: [],
+        createdProjects: ['Website'],
+        totalHours: 1.5,
+      }
+      mockImportService.commit.mockResolvedValueOnce(mockResult)
+
+      const result = await importTimeEntriesTool.handler(
+        { content: csv, format: 'toggl', dryRun: false, skipInvalid: true },
+        'test-user-123'
+      )
+
+      expect(mockImportService.commit).toHaveBeenCalledWith('test-user-123', Buffer.from(csv), {
+        fileType: 'csv',
+        format: 'toggl',
+        skipInvalid: true,
+        skipOverlapping: undefined,
+      })
+      expect(result.content[0].text).toContain('Import completed successfully')
+      expect(result.content[0].text).toContain('Imported: 1 entries (1.5h)')
+      expect(result.content[0].text).toContain('Created: project Website')
+      expect(result.structuredContent).toEqual({ preview: null, result: mockResult })
+    })
+
+    it('should handle import errors', async () => {
+      mockImportService.commit.mockRejectedValueOnce(new Error('1 row(s) could not be imported; fix them or skip invalid rows'))
+
+      const result = await importTimeEntriesTool.handler({ content: csv, dryRun: false }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Error importing time entries: 1 row(s) could not be imported; fix them or skip invalid rows')
+    })
+  })
+})
@@ -0,0 +1,187 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+// Mock the InvoiceService
+jest.mock('@/lib/services/invoices', () => {
+  const mockServiceMethods = {
+    createInvoice: jest.fn(),
+    listInvoices: jest.fn(),
+    summarizeTotals: jest.fn(),
+    voidInvoice: jest.fn(),
+  }
+
+  return {
+    InvoiceService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Import the tools after mocking
+import { createInvoiceTool, listInvoicesTool, voidInvoiceTool } from '@/lib/mcp-tools/invoice-tools'
+
+// Get the mock service methods for assertions
+const mockInvoiceService = (require('@/lib/services/invoices') as any).__mockServiceMethods
+
+const mockInvoice = (overrides = {}) => ({
+  id: 'invoice-1',
+  invoiceNumber: 'INV-2024-0001',
+  clientId: 'client-1',
+  userId: 'test-user-123',
+  status: 'issued' as const,
+  periodStart: new Date('2024-01-01T00:00:00Z'),
+  periodEnd: new Date('2024-01-31T23:59:59Z'),
+  issueDate: new Date('2024-02-01T09:00:00Z'),
+  dueDate: new Date('2024-03-02T09:00:00Z'),
+  subtotal: '1500.00',
+  discountTotal: '150.00',
+  taxTotal: '270.00',
+  total: '1620.00',
+  notes: null,
+  voidedAt: null,
+  voidReason: null,
+  createdAt: new Date('2024-02-01T09:00:00Z'),
+  updatedAt: new Date('2024-02-01T09:00:00Z'),
+  ...overrides,
+})
+
+const mockLines = [
+  { id: 'line-1', invoiceId: 'invoice-1', type: 'time', projectId: 'project-1', description: 'Website Redesign', quantity: '20.00', unitPrice: '75.00', ratePercent: null, amount: '1500.00', sortOrder: 0, createdAt: new Date() },
+  { id: 'line-2', invoiceId: 'invoice-1', type: 'discount', projectId: null, description: 'Discount (10%)', quantity: null, unitPrice: null, ratePercent: '10.00', amount: '-150.00', sortOrder: 1, createdAt: new Date() },
+  { id: 'line-3', invoiceId: 'invoice-1', type: 'tax', projectId: null, description: 'VAT (20%)', quantity: null, unitPrice: null, ratePercent: '20.00', amount: '270.00', sortOrder: 2, createdAt: new Date() },
+]
+
+describe('Invoice MCP Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('createInvoiceTool', () => {
+    it('should create an invoice and list its lines', async () => {
+      mockInvoiceService.createInvoice.mockResolvedValueOnce({
+        invoice: mockInvoice(),
+        client: { id: 'client-1', name: 'Acme Corp' },
+        lines: mockLines,
+      })
+
+      const result = await createInvoiceTool.handler({
+        clientId: 'client-1',
+        periodStart: '2024-01-01T00:00:00Z',
+        periodEnd: '2024-01-31T23:59:59Z',
+        discountPercent: 10,
+        taxRate: 20,
+        taxLabel: 'VAT',
+      }, 'test-user-123')
+
+      expect(mockInvoiceService.createInvoice).toHaveBeenCalledWith('test-user-123', expect.objectContaining({
+        clientId: 'client-1',
+        periodStart: new Date('2024-01-01T00:00:00Z'),
+        periodEnd: new Date('2024-01-31T23:59:59Z'),
+        discountPercent: 10,
+        taxRate: 20,
+      }))
+      expect(result.content[0].text).toContain('Invoice INV-2024-0001 created for Acme Corp')
+      expect(result.content[0].text).toContain('Website Redesign: 20.00h × $75.00 = $1500.00')
+      expect(result.content[0].text).toContain('Discount (10%): -$150.00')
+      expect(result.content[0].text).toContain('Total: $1620.00')
+      expect(result.structuredContent?.lines).toHaveLength(3)
+    })
+
+    it('should handle creation errors', async () => {
+      mockInvoiceService.createInvoice.mockRejectedValueOnce(
+        new Error('No uninvoiced billable time entries found for this client and period')
+      )
+
+      const result = await createInvoiceTool.handler({
+        clientId: 'client-1',
+        periodStart: '2024-01-01T00:00:00Z',
+        periodEnd: '2024-01-31T23:59:59Z',
+      }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Error creating invoice: No uninvoiced billable time entries')
+    })
+  })
+
+  describe('listInvoicesTool', () => {
+    it('should list invoices with client names', async () => {
+      mockInvoiceService.listInvoices.mockResolvedValueOnce([
+        { invoice: mockInvoice(), clientName: 'Acme Corp' },
+        { invoice: mockInvoice({ id: 'invoice-2', invoiceNumber: 'INV-2024-0002', status: 'void' }), clientName: 'Acme Corp' },
+      ])
+
+      const result = await listInvoicesTool.handler({ clientId: 'client-1' }, 'test-user-123')
+
+      expect(mockInvoiceService.listInvoices).toHaveBeenCalledWith('test-user-123', { clientId: 'client-1' })
+      expect(result.content[0].text).toContain('Found 2 invoice(s)')
+      expect(result.content[0].text).toContain('INV-2024-0002 (Acme Corp): $1620.00, issued 2024-02-01 [VOID]')
+      expect(result.structuredContent?.invoices[0].clientName).toBe('Acme Corp')
+    })
+
+    it('should add per-currency totals when a reporting currency is given', async () => {
+      const invoices = [
+        { invoice: mockInvoice(), clientName: 'Acme Corp' },
+        { invoice: mockInvoice({ id: 'invoice-2', invoiceNumber: 'INV-2024-0002', currency: 'EUR', total: '500.00' }), clientName: 'Globex' },
+      ]
+      mockInvoiceService.listInvoices.mockResolvedValueOnce(invoices)
+      mockInvoiceService.summarizeTotals.mockResolvedValueOnce({
+        reportingCurrency: 'USD',
+        subtotals: [
+          { currency: 'EUR', invoiceCount: 1, total: 500, convertedTotal: 550 },
+          { currency: 'USD', invoiceCount: 1, total: 1620, convertedTotal: 1620 },
+        ],
+        total: 2170,
+        missingRates: [],
+      })
+
+      const result = await listInvoicesTool.handler({ reportingCurrency: 'USD' }, 'test-user-123')
+
+      expect(mockInvoiceService.listInvoices).toHaveBeenCalledWith('test-user-123', {})
+      expect(mockInvoiceService.summarizeTotals).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 'invoice-1' }), expect.objectContaining({ id: 'invoice-2', currency: 'EUR' })],
+        'USD'
+      )
+      expect(result.content[0].text).toContain('INV-2024-0002 (Globex): €500.00')
+      expect(result.content[0].text).toContain('- EUR: €500.00 across 1 invoice(s) (≈ $550.00)')
+      expect(result.content[0].text).toContain('Total: $2170.00 (USD)')
+      expect(result.structuredContent?.totals?.total).toBe(2170)
+    })
+
+    it('should handle no invoices', async () => {
+      mockInvoiceService.listInvoices.mockResolvedValueOnce([])
+
+      const result = await listInvoicesTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toBe('No invoices found.')
+    })
+  })
+
+  describe('voidInvoiceTool', () => {
+    it('should void an invoice', async () => {
+      mockInvoiceService.voidInvoice.mockResolvedValueOnce(
+        mockInvoice({ status: 'void', voidedAt: new Date(), voidReason: 'Wrong client' })
+      )
+
+      const result = await voidInvoiceTool.handler({ invoiceId: 'invoice-1', reason: 'Wrong client' }, 'test-user-123')
+
+      expect(mockInvoiceService.voidInvoice).toHaveBeenCalledWith('test-user-123', 'invoice-1', 'Wrong client')
+      expect(result.content[0].text).toContain('Invoice INV-2024-0001 voided')
+      expect(result.content[0].text).toContain('Reason: Wrong client')
+    })
+
+    it('should handle already void invoices', async () => {
+      mockInvoiceService.voidInvoice.mockRejectedValueOnce(new Error('Invoice is already void'))
+
+      const result = await voidInvoiceTool.handler({ invoiceId: 'invoice-1' }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Error voiding invoice: Invoice is already void')
+    })
+  })
+})
@@ -63,6 +63,19 @@ jest.mock('@/lib/services/projects', () => {
   }
 })
 
+// Mock the BudgetService; projects have no budgets unless a test sets one
+jest.mock('@/lib/services/budgets', () => {
+  const mockServiceMethods = {
+    getBudgetStatuses: jest.fn().mockResolvedValue(new Map()),
+  }
+
+  return {
+    ...jest.requireActual('@/lib/services/budgets'),
+    BudgetService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
 // Import the tools after mocking
 import {
   createProjectTool,
@@ -70,9 +83,13 @@ import {
   updateProjectTool,
   deactivateProjectTool,
 } from '@/lib/mcp-tools/project-tools'
+import { createAuthorizationContext } from '@/lib/authorization'
 
 // Get the mock service methods for assertions
 const mockProjectService = (require('@/lib/services/projects') as any).__mockServiceMethods
+const mockBudgetService = (require('@/lib/services/budgets') as any).__mockServiceMethods
+
+const adminContext = createAuthorizationContext('test-user-123', 'admin')
 
 describe('Project MCP Tools', () => {
   beforeEach(() => {
@@ -98,7 +115,8 @@ describe('Project MCP Tools', () => {
           clientId: 'test-client-1',
           hourlyRate: "75",
         },
-        'test-user-123'
+        'test-user-123',
+        adminContext
       )
 
       expect(mockProjectService.createProject).toHaveBeenCalledWith(
@@ -120,6 +138,22 @@ describe('Project MCP Tools', () => {
       expect(result.content[0].text).toContain('$75')
     })
 
+    it('should refuse an hourly rate from users who do not manage the organization', async () => {
+      const result = await createProjectTool.handler(
+        {
+          name: 'New Project',
+          clientId: 'test-client-1',
+          hourlyRate: 75,
+        },
+        'test-user-123',
+        createAuthorizationContext('test-user-123', 'user')
+      )
+
+      expect(mockProjectService.createProject).not.toHaveBeenCalled()
+      expect(result.content[0].text).toContain("Only users who manage the organization can set a project's hourlyRate or currency")
+      expect(result.isError).toBe(true)
+    })
+
     it('should handle create project errors', async () => {
       mockProjectService.createProject.mockRejectedValueOnce(
         new Error('Client not found')
@@ -132,7 +166,8 @@ describe('Project MCP Tools', () => {
           clientId: 'non-existent',
           hourlyRate: "75",
         },
-        'test-user-123'
+        'test-user-123',
+        adminContext
       )
 
       expect(result.content).toHaveLength(1)
@@ -167,6 +202,34 @@ describe('Project MCP Tools', () => {
       expect(result.content[0].text).toContain('Mobile App')
     })
 
+    it('should show budget consumption for budgeted projects', async () => {
+      mockProjectService.listProjects.mockResolvedValueOnce(mockProjects)
+      mockBudgetService.getBudgetStatuses.mockResolvedValueOnce(new Map([
+        ['test-project-1', {
+          budget: { type: 'hours', period: 'monthly' },
+          unit: 'hours',
+          amount: 40,
+          consumed: 42.5,
+          remaining: -2.5,
+          percentUsed: 106.3,
+        }],
+      ]))
+
+      const result = await listProjectsTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toContain('Budget: 42.50h of 40.00h this month (106.3%) [OVER BUDGET]')
+      expect(result.structuredContent?.projects?.[0].budget).toEqual({
+        type: 'hours',
+        period: 'monthly',
+        unit: 'hours',
+        amount: 40,
+        consumed: 42.5,
+        remaining: -2.5,
+        percentUsed: 106.3,
+      })
+      expect(result.structuredContent?.projects?.[1].budget).toBeNull()
+    })
+
     it('should list projects for specific client', async () => {
       const clientProjects = mockProjects.filter(p => p.clientId === 'test-client-1')
       mockProjectService.listProjects.mockResolvedValueOnce(clientProjects)
@@ -230,7 +293,8 @@ describe('Project MCP Tools', () => {
           description: 'Updated description',
           hourlyRate: "85",
         },
-        'test-user-123'
+        'test-user-123',
+        adminContext
       )
 
       expect(mockProjectService.updateProject).toHaveBeenCalledWith(
@@ -266,6 +330,20 @@ describe('Project MCP Tools', () => {
       expect(result.isError).toBe(true)
     })
 
+    it('should refuse a currency change from users who do not manage the organization', async () => {
+      const result = await updateProjectTool.handler(
+        {
+          projectId: 'test-project-1',
+          currency: 'EUR',
+        },
+        'test-user-123',
+        createAuthorizationContext('test-user-123', 'manager')
+      )
+
+      expect(mockProjectService.updateProject).not.toHaveBeenCalled()
+      expect(result.isError).toBe(true)
+    })
+
     it('should handle update errors', async () => {
       mockProjectService.updateProject.mockRejectedValueOnce(
         new Error('Validation error')
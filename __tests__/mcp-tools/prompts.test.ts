@@ -0,0 +1,84 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+  },
+}))
+
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn(() => 'test-id'),
+}))
+
+const mockGetTimesheetWeek = jest.fn()
+jest.mock('@/lib/mcp-tools/resources', () => ({
+  getTimesheetWeek: (...args: unknown[]) => mockGetTimesheetWeek(...args),
+}))
+
+jest.mock('@/lib/services/recent-activities', () => ({
+  RecentActivityService: jest.fn().mockImplementation(() => ({
+    getRecentActivities: jest.fn().mockResolvedValue([
+      { projectId: 'project-1', projectName: 'Website', clientName: 'Acme', description: 'Homepage', useCount: 4 },
+    ]),
+  })),
+}))
+
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js'
+import { findTimesheetGaps, weeklyStatusReportPrompt, fillTimesheetGapsPrompt } from '@/lib/mcp-tools/prompts'
+
+const week = (minutesPerDay: number[]) => ({
+  uri: 'timetracker://timesheet/2024-03-04',
+  weekStart: '2024-03-04',
+  weekEnd: '2024-03-10',
+  timeZone: 'UTC',
+  status: 'draft' as const,
+  reviewComment: null,
+  totalMinutes: minutesPerDay.reduce((sum, minutes) => sum + minutes, 0),
+  billableMinutes: 0,
+  days: minutesPerDay.map((minutes, index) => ({ date: `2024-03-${String(4 + index).padStart(2, '0')}`, minutes })),
+  projects: [{ projectId: 'project-1', projectName: 'Website', clientName: 'Acme', minutes: 600 }],
+  entries: [],
+})
+
+const textOf = (message: GetPromptResult['messages'][number]) => message.content.type === 'text' ? message.content.text : ''
+
+describe('findTimesheetGaps', () => {
+  it('reports working days up to today with less than the expected hours', () => {
+    const gaps = findTimesheetGaps(week([480, 300, 0, 0, 0, 0, 0]), 8, '2024-03-06')
+
+    expect(gaps).toEqual([
+      { date: '2024-03-05', minutes: 300, missingMinutes: 180 },
+      { date: '2024-03-06', minutes: 0, missingMinutes: 480 },
+    ])
+  })
+
+  it('ignores weekends', () => {
+    expect(findTimesheetGaps(week([480, 480, 480, 480, 480, 0, 0]), 8, '2024-03-10')).toEqual([])
+  })
+})
+
+describe('prompts', () => {
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('templates the weekly status report with the week embedded', async () => {
+    mockGetTimesheetWeek.mockResolvedValueOnce(week([300, 300, 0, 0, 0, 0, 0]))
+
+    const result = await weeklyStatusReportPrompt.handler({ week: 'previous', audience: 'the client' }, 'user-1')
+
+    expect(mockGetTimesheetWeek).toHaveBeenCalledWith('user-1', 'previous')
+    expect(result.messages[0].content).toMatchObject({ type: 'resource', resource: { uri: 'timetracker://timesheet/2024-03-04' } })
+    expect(textOf(result.messages[1])).toContain('in the week of 2024-03-04 to 2024-03-10 for the client')
+    expect(textOf(result.messages[1])).toContain('- Acme > Website: 10.0h')
+  })
+
+  it('lists the gaps and recent work when filling the timesheet', async () => {
+    mockGetTimesheetWeek.mockResolvedValueOnce(week([480, 240, 480, 480, 480, 0, 0]))
+
+    const result = await fillTimesheetGapsPrompt.handler({ week: '2024-03-04', hoursPerDay: '7.5' }, 'user-1')
+    const text = textOf(result.messages[1])
+
+    expect(text).toContain('expecting 7.5h a day:\n- Tuesday 2024-03-05: 4.0h tracked, 3.5h missing\n\n')
+    expect(text).toContain('"Homepage" on Website (Acme)')
+    expect(text).toContain('wait for my confirmation')
+  })
+})
@@ -0,0 +1,182 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+// Mock the RecurringTemplateService
+jest.mock('@/lib/services/recurring-templates', () => {
+  const mockServiceMethods = {
+    createTemplate: jest.fn(),
+    listTemplates: jest.fn(),
+    updateTemplate: jest.fn(),
+    deleteTemplate: jest.fn(),
+    setOccurrenceException: jest.fn(),
+  }
+
+  return {
+    RecurringTemplateService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+const mockConfirmDraftEntries = jest.fn()
+jest.mock('@/lib/services/time-entries', () => ({
+  TimeEntryService: jest.fn().mockImplementation(() => ({
+    confirmDraftEntries: (...args: unknown[]) => mockConfirmDraftEntries(...args),
+  })),
+}))
+
+// Import the tools after mocking
+import {
+  createRecurringTemplateTool,
+  listRecurringTemplatesTool,
+  updateRecurringTemplateTool,
+  skipRecurringOccurrenceTool,
+  overrideRecurringOccurrenceTool,
+  confirmDraftEntriesTool,
+} from '@/lib/mcp-tools/recurring-template-tools'
+
+// Get the mock service methods for assertions
+const mockRecurringTemplateService = (require('@/lib/services/recurring-templates') as any).__mockServiceMethods
+
+const mockTemplate = {
+  id: 'template-1',
+  userId: 'test-user-123',
+  projectId: 'test-project-1',
+  description: 'Stand-up',
+  rrule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+  startsOn: '2024-03-04',
+  startTime: '09:00',
+  durationMinutes: 15,
+  timeZone: 'Europe/Berlin',
+  billable: null,
+  taskId: null,
+  entryStatus: 'draft' as const,
+  active: true,
+  materialisedThrough: '2024-03-03',
+  createdAt: new Date('2024-03-01T00:00:00Z'),
+  updatedAt: new Date('2024-03-01T00:00:00Z'),
+}
+
+describe('Recurring Template Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('create_recurring_template', () => {
+    it('creates a template', async () => {
+      mockRecurringTemplateService.createTemplate.mockResolvedValue(mockTemplate)
+
+      const params = { projectId: 'test-project-1', description: 'Stand-up', rrule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR', startTime: '09:00', durationMinutes: 15, timeZone: 'Europe/Berlin' }
+      const result = await createRecurringTemplateTool.handler(params, 'test-user-123')
+
+      expect(mockRecurringTemplateService.createTemplate).toHaveBeenCalledWith('test-user-123', params)
+      expect(result.content[0].text).toContain('Recurring template created successfully')
+      expect(result.content[0].text).toContain('Stand-up at 09:00 for 15 min (Europe/Berlin)')
+      expect(result.structuredContent).toEqual({ template: mockTemplate })
+    })
+
+    it('returns service errors', async () => {
+      mockRecurringTemplateService.createTemplate.mockRejectedValue(new Error('FREQ must be DAILY, WEEKLY or MONTHLY'))
+
+      const result = await createRecurringTemplateTool.handler(
+        { projectId: 'test-project-1', description: 'Stand-up', rrule: 'FREQ=YEARLY', startTime: '09:00', durationMinutes: 15 },
+        'test-user-123'
+      )
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Error creating recurring template: FREQ must be DAILY, WEEKLY or MONTHLY')
+    })
+  })
+
+  describe('list_recurring_templates', () => {
+    it('lists templates with their next occurrences and exceptions', async () => {
+      mockRecurringTemplateService.listTemplates.mockResolvedValue([{
+        ...mockTemplate,
+        projectName: 'Website',
+        schedule: 'every week on MO, WE, FR',
+        nextOccurrences: ['2024-03-04', '2024-03-06'],
+        exceptions: [{ id: 'exception-1', templateId: 'template-1', occurrenceDate: '2024-03-08', action: 'skip', description: null, startTime: null, durationMinutes: null, createdAt: new Date() }],
+      }])
+
+      const result = await listRecurringTemplatesTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toContain('Stand-up (Website), every week on MO, WE, FR at 09:00 Europe/Berlin')
+      expect(result.content[0].text).toContain('Next: 2024-03-04, 2024-03-06')
+      expect(result.content[0].text).toContain('Exceptions: 2024-03-08 skipped')
+    })
+  })
+
+  describe('update_recurring_template', () => {
+    it('reports templates that are not found', async () => {
+      mockRecurringTemplateService.updateTemplate.mockResolvedValue(null)
+
+      const result = await updateRecurringTemplateTool.handler({ templateId: 'missing', active: false }, 'test-user-123')
+
+      expect(mockRecurringTemplateService.updateTemplate).toHaveBeenCalledWith('test-user-123', 'missing', { active: false })
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Recurring template not found.')
+    })
+  })
+
+  describe('occurrence exceptions', () => {
+    it('skips an occurrence', async () => {
+      mockRecurringTemplateService.setOccurrenceException.mockResolvedValue({ occurrenceDate: '2024-03-08', action: 'skip' })
+
+      const result = await skipRecurringOccurrenceTool.handler({ templateId: 'template-1', occurrenceDate: '2024-03-08' }, 'test-user-123')
+
+      expect(mockRecurringTemplateService.setOccurrenceException).toHaveBeenCalledWith('test-user-123', 'template-1', '2024-03-08', null)
+      expect(result.content[0].text).toBe('Occurrence on 2024-03-08 will be skipped')
+    })
+
+    it('changes an occurrence', async () => {
+      mockRecurringTemplateService.setOccurrenceException.mockResolvedValue({ occurrenceDate: '2024-03-08', action: 'override', description: null, startTime: '10:00', durationMinutes: 30 })
+
+      const result = await overrideRecurringOccurrenceTool.handler(
+        { templateId: 'template-1', occurrenceDate: '2024-03-08', startTime: '10:00', durationMinutes: 30 },
+        'test-user-123'
+      )
+
+      expect(mockRecurringTemplateService.setOccurrenceException).toHaveBeenCalledWith('test-user-123', 'template-1', '2024-03-08', { startTime: '10:00', durationMinutes: 30 })
+      expect(result.content[0].text).toBe('Occurrence on 2024-03-08 changed: start 10:00, 30 min')
+    })
+  })
+
+  describe('confirm_draft_entries', () => {
+    it('confirms the given drafts', async () => {
+      mockConfirmDraftEntries.mockResolvedValue({
+        confirmed: [{ id: 'entry-1', description: 'Stand-up', startTime: new Date('2024-03-04T08:00:00Z'), durationMinutes: 15 }],
+        skipped: [],
+      })
+
+      const result = await confirmDraftEntriesTool.handler({ entryIds: ['entry-1'] }, 'test-user-123')
+
+      expect(mockConfirmDraftEntries).toHaveBeenCalledWith('test-user-123', ['entry-1'])
+      expect(result.content[0].text).toContain('Confirmed 1 draft time entries')
+    })
+
+    it('says when there is nothing to confirm', async () => {
+      mockConfirmDraftEntries.mockResolvedValue({ confirmed: [], skipped: [] })
+
+      const result = await confirmDraftEntriesTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toBe('No draft time entries to confirm.')
+    })
+
+    it('reports drafts skipped in locked weeks', async () => {
+      const skipped = { id: 'entry-2', description: 'Stand-up', startTime: new Date('2024-02-26T08:00:00Z'), durationMinutes: 15 }
+      mockConfirmDraftEntries.mockResolvedValue({ confirmed: [], skipped: [skipped] })
+
+      const result = await confirmDraftEntriesTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toContain('Skipped 1 draft time entries in a submitted or approved week')
+      expect(result.content[0].text).toContain('ID: entry-2')
+      expect(result.structuredContent?.skippedEntries).toEqual([skipped])
+    })
+  })
+})
@@ -0,0 +1,92 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+  },
+}))
+
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn(() => 'test-id'),
+}))
+
+import { toolRegistry, getAllowedTools, registerToolsForContext, getToolCapabilities } from '@/lib/mcp-tools/registry'
+import { ApiScope, createAuthorizationContext } from '@/lib/authorization'
+
+const reviewTools = ['approve_timesheet', 'reject_timesheet', 'list_pending_timesheets']
+const organizationTools = [
+  'set_exchange_rate',
+  'delete_exchange_rate',
+  'set_hourly_rate',
+  'list_hourly_rates',
+  'delete_hourly_rate',
+  'update_tag',
+  'delete_tag',
+  'set_project_budget',
+  'remove_project_budget',
+]
+
+describe('tool registry', () => {
+  it('lists every tool once', () => {
+    const names = toolRegistry.map(tool => tool.name)
+
+    expect(new Set(names).size).toBe(names.length)
+    expect(names).toEqual(expect.arrayContaining(['start_time_tracking', 'list_time_entries', ...reviewTools, ...organizationTools]))
+  })
+
+  it('leaves timesheet review and organization tools out for regular users', () => {
+    const names = getAllowedTools(createAuthorizationContext('user-1', 'user')).map(tool => tool.name)
+
+    expect(names).toContain('start_time_tracking')
+    expect(names).not.toContain('approve_timesheet')
+    organizationTools.forEach(name => expect(names).not.toContain(name))
+    expect(names).toHaveLength(toolRegistry.length - reviewTools.length - organizationTools.length)
+  })
+
+  it.each(['manager', 'hr'])('offers timesheet review tools but not organization tools to %s', (role) => {
+    const names = getAllowedTools(createAuthorizationContext('user-1', role)).map(tool => tool.name)
+
+    expect(names).toEqual(expect.arrayContaining(reviewTools))
+    expect(names).toHaveLength(toolRegistry.length - organizationTools.length)
+  })
+
+  it('offers every tool to admins', () => {
+    const names = getAllowedTools(createAuthorizationContext('user-1', 'admin')).map(tool => tool.name)
+
+    expect(names).toEqual(expect.arrayContaining([...reviewTools, ...organizationTools]))
+    expect(names).toHaveLength(toolRegistry.length)
+  })
+
+  it('offers only read-only tools to API keys with just the read scope', () => {
+    const names = getAllowedTools(createAuthorizationContext('user-1', 'manager', { apiScopes: [ApiScope.READ] })).map(tool => tool.name)
+
+    expect(names).toEqual(expect.arrayContaining(['list_time_entries', 'get_time_summary', 'list_pending_timesheets']))
+    expect(names).not.toContain('start_time_tracking')
+    expect(names).not.toContain('approve_timesheet')
+  })
+
+  it('advertises only the allowed tools', () => {
+    const capabilities = getToolCapabilities(createAuthorizationContext('user-1', null))
+
+    expect(capabilities.start_time_tracking.description).toContain('Start tracking time')
+    expect(capabilities.approve_timesheet).toBeUndefined()
+  })
+
+  it('registers the allowed tools with handlers that receive the authorization context', async () => {
+    const server = { registerTool: jest.fn() }
+    const context = createAuthorizationContext('user-1', 'user')
+
+    registerToolsForContext(server as any, context)
+
+    const registered = server.registerTool.mock.calls.map(([name]) => name)
+    expect(registered).toHaveLength(toolRegistry.length - reviewTools.length - organizationTools.length)
+    expect(registered).not.toContain('approve_timesheet')
+    expect(registered).not.toContain('set_hourly_rate')
+
+    const [, config, callback] = server.registerTool.mock.calls.find(([name]) => name === 'list_time_entries')!
+    expect(config.title).toBe('list_time_entries')
+
+    // A regular user's context can't report on someone else
+    const result = await callback({ targetUserId: 'user-2' })
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toContain('cannot view timesheets for user user-2')
+  })
+})
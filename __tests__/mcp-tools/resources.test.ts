@@ -0,0 +1,137 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+  },
+}))
+
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn(() => 'test-id'),
+}))
+
+const mockGetTimeEntriesWithDetails = jest.fn()
+jest.mock('@/lib/services/time-entries', () => ({
+  TimeEntryService: jest.fn().mockImplementation(() => ({
+    getTimeEntriesWithDetails: (...args: unknown[]) => mockGetTimeEntriesWithDetails(...args),
+  })),
+}))
+
+const mockGetTimesheet = jest.fn()
+jest.mock('@/lib/services/timesheets', () => ({
+  ...jest.requireActual('@/lib/services/timesheets'),
+  TimesheetService: jest.fn().mockImplementation(() => ({
+    getTimesheet: (...args: unknown[]) => mockGetTimesheet(...args),
+    listTimesheets: jest.fn().mockResolvedValue([]),
+  })),
+}))
+
+jest.mock('@/lib/services/user-settings', () => ({
+  UserSettingsService: jest.fn().mockImplementation(() => ({
+    getSettings: jest.fn().mockResolvedValue({ timeZone: 'Europe/Berlin' }),
+  })),
+}))
+
+const mockGetProject = jest.fn()
+jest.mock('@/lib/services/projects', () => ({
+  ProjectService: jest.fn().mockImplementation(() => ({
+    getProject: (...args: unknown[]) => mockGetProject(...args),
+  })),
+}))
+
+import { parseWeek, getTimesheetWeek, projectResource } from '@/lib/mcp-tools/resources'
+
+const project = { id: 'project-1', name: 'Website', billable: true }
+const client = { id: 'client-1', name: 'Acme' }
+
+const entry = (id: string, startTime: string, durationMinutes: number | null, overrides: Record<string, unknown> = {}) => ({
+  timeEntry: {
+    id,
+    description: `Entry ${id}`,
+    startTime: new Date(startTime),
+    endTime: durationMinutes === null ? null : new Date(new Date(startTime).getTime() + durationMinutes * 60000),
+    durationMinutes,
+    billable: null,
+    isActive: durationMinutes === null,
+    isDraft: false,
+    tags: [],
+    ...overrides,
+  },
+  project,
+  client,
+})
+
+describe('parseWeek', () => {
+  const now = new Date('2024-03-06T12:00:00Z')
+
+  it('reads current and previous weeks relative to now', () => {
+    expect(parseWeek('current', now).toISOString()).toBe('2024-03-04T00:00:00.000Z')
+    expect(parseWeek('previous', now).toISOString()).toBe('2024-02-26T00:00:00.000Z')
+  })
+
+  it('reads any date in the week and ISO weeks', () => {
+    expect(parseWeek('2024-03-10', now).toISOString()).toBe('2024-03-04T00:00:00.000Z')
+    expect(parseWeek('2024-W10', now).toISOString()).toBe('2024-03-04T00:00:00.000Z')
+    expect(parseWeek('2021-W01', now).toISOString()).toBe('2021-01-04T00:00:00.000Z')
+  })
+
+  it('rejects anything else', () => {
+    expect(() => parseWeek('next month', now)).toThrow('Unknown week "next month"')
+  })
+})
+
+describe('getTimesheetWeek', () => {
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('totals completed time per local day and project', async () => {
+    mockGetTimesheet.mockResolvedValueOnce({ status: 'rejected', reviewComment: 'Missing Friday' })
+    mockGetTimeEntriesWithDetails.mockResolvedValueOnce([
+      entry('late', '2024-03-05T23:30:00Z', 60, { billable: false }),
+      entry('draft', '2024-03-05T08:00:00Z', 120, { isDraft: true }),
+      entry('first', '2024-03-04T08:00:00Z', 90),
+      entry('running', '2024-03-08T08:00:00Z', null),
+    ])
+
+    const week = await getTimesheetWeek('user-1', '2024-W10')
+
+    expect(mockGetTimeEntriesWithDetails).toHaveBeenCalledWith(
+      'user-1', new Date('2024-03-04T00:00:00Z'), new Date('2024-03-10T23:59:59.999Z'), 1000
+    )
+    expect(week).toMatchObject({
+      uri: 'timetracker://timesheet/2024-03-04',
+      weekStart: '2024-03-04',
+      weekEnd: '2024-03-10',
+      status: 'rejected',
+      reviewComment: 'Missing Friday',
+      totalMinutes: 150,
+      billableMinutes: 90,
+      projects: [{ projectId: 'project-1', projectName: 'Website', clientName: 'Acme', minutes: 150 }],
+    })
+    // 23:30 UTC on Tuesday is already Wednesday in Berlin
+    expect(week.days.slice(0, 3)).toEqual([
+      { date: '2024-03-04', minutes: 90 },
+      { date: '2024-03-05', minutes: 0 },
+      { date: '2024-03-06', minutes: 60 },
+    ])
+    expect(week.entries.map(item => item.id)).toEqual(['first', 'draft', 'late', 'running'])
+  })
+
+  it('treats weeks without a timesheet as drafts', async () => {
+    mockGetTimesheet.mockResolvedValueOnce(null)
+    mockGetTimeEntriesWithDetails.mockResolvedValueOnce([])
+
+    const week = await getTimesheetWeek('user-1', '2024-03-06')
+
+    expect(week.status).toBe('draft')
+    expect(week.days).toHaveLength(7)
+  })
+})
+
+describe('projectResource', () => {
+  it('fails for unknown projects', async () => {
+    mockGetProject.mockResolvedValueOnce(null)
+
+    await expect(projectResource.read(new URL('timetracker://projects/missing'), { id: 'missing' }, 'user-1'))
+      .rejects.toThrow('Project missing not found')
+  })
+})
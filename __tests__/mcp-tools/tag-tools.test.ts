@@ -0,0 +1,111 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+// Mock the TagService
+jest.mock('@/lib/services/tags', () => {
+  const mockServiceMethods = {
+    createTag: jest.fn(),
+    listTags: jest.fn(),
+    updateTag: jest.fn(),
+    deleteTag: jest.fn(),
+  }
+
+  return {
+    TagService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Import the tools after mocking
+import { createTagTool, listTagsTool, updateTagTool, deleteTagTool } from '@/lib/mcp-tools/tag-tools'
+import { mockTags } from '../mocks/mock-data'
+
+// Get the mock service methods for assertions
+const mockTagService = (require('@/lib/services/tags') as any).__mockServiceMethods
+
+describe('Tag MCP Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('createTagTool', () => {
+    it('should create a tag', async () => {
+      mockTagService.createTag.mockResolvedValueOnce(mockTags[0])
+
+      const result = await createTagTool.handler({ name: 'Frontend', color: '#3b82f6' }, 'test-user-123')
+
+      expect(mockTagService.createTag).toHaveBeenCalledWith('test-user-123', { name: 'Frontend', color: '#3b82f6' })
+      expect(result.content[0].text).toContain('Tag created successfully')
+      expect(result.content[0].text).toContain('Name: frontend')
+      expect(result.content[0].text).toContain('Color: #3b82f6')
+    })
+
+    it('should report duplicate tags', async () => {
+      mockTagService.createTag.mockRejectedValueOnce(new Error('Tag already exists: frontend'))
+
+      const result = await createTagTool.handler({ name: 'frontend' }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Error creating tag: Tag already exists: frontend')
+    })
+  })
+
+  describe('listTagsTool', () => {
+    it('should list tags', async () => {
+      mockTagService.listTags.mockResolvedValueOnce(mockTags)
+
+      const result = await listTagsTool.handler()
+
+      expect(result.content[0].text).toContain('- frontend (#3b82f6) (ID: test-tag-1)')
+      expect(result.content[0].text).toContain('- bugfix (ID: test-tag-2)')
+      expect(result.structuredContent?.tags).toHaveLength(2)
+    })
+
+    it('should handle no tags', async () => {
+      mockTagService.listTags.mockResolvedValueOnce([])
+
+      const result = await listTagsTool.handler()
+
+      expect(result.content[0].text).toBe('No tags found.')
+      expect(result.structuredContent?.tags).toEqual([])
+    })
+  })
+
+  describe('updateTagTool', () => {
+    it('should rename a tag', async () => {
+      mockTagService.updateTag.mockResolvedValueOnce({ ...mockTags[1], name: 'bug' })
+
+      const result = await updateTagTool.handler({ tagId: 'test-tag-2', name: 'Bug' })
+
+      expect(mockTagService.updateTag).toHaveBeenCalledWith('test-tag-2', { name: 'Bug' })
+      expect(result.content[0].text).toContain('Name: bug')
+    })
+
+    it('should handle tag not found', async () => {
+      mockTagService.updateTag.mockResolvedValueOnce(null)
+
+      const result = await updateTagTool.handler({ tagId: 'missing', name: 'bug' })
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Tag not found.')
+    })
+  })
+
+  describe('deleteTagTool', () => {
+    it('should delete a tag', async () => {
+      mockTagService.deleteTag.mockResolvedValueOnce(true)
+
+      const result = await deleteTagTool.handler({ tagId: 'test-tag-1' })
+
+      expect(result.content[0].text).toBe('Tag deleted successfully.')
+      expect(result.structuredContent?.success).toBe(true)
+    })
+  })
+})
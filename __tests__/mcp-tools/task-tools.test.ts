@@ -0,0 +1,110 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+// Mock the TaskService
+jest.mock('@/lib/services/tasks', () => {
+  const mockServiceMethods = {
+    createTask: jest.fn(),
+    listTasks: jest.fn(),
+    closeTask: jest.fn(),
+  }
+
+  return {
+    TaskService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Import the tools after mocking
+import { createTaskTool, listTasksTool, closeTaskTool } from '@/lib/mcp-tools/task-tools'
+import { mockTasks } from '../mocks/mock-data'
+
+// Get the mock service methods for assertions
+const mockTaskService = (require('@/lib/services/tasks') as any).__mockServiceMethods
+
+describe('Task MCP Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('createTaskTool', () => {
+    it('should create a task with an estimate', async () => {
+      mockTaskService.createTask.mockResolvedValueOnce({ ...mockTasks[0], status: 'open' })
+
+      const params = { projectId: 'test-project-1', name: 'Homepage redesign', estimateHours: 10, assigneeId: 'test-user-123' }
+      const result = await createTaskTool.handler(params, 'test-user-123')
+
+      expect(mockTaskService.createTask).toHaveBeenCalledWith('test-user-123', params)
+      expect(result.content[0].text).toContain('Task created successfully')
+      expect(result.content[0].text).toContain('Estimate: 10.00h')
+      expect(result.content[0].text).toContain('Assignee: test-user-123')
+    })
+
+    it('should report a missing project', async () => {
+      mockTaskService.createTask.mockRejectedValueOnce(new Error('Project not found'))
+
+      const result = await createTaskTool.handler({ projectId: 'missing', name: 'Task' }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Error creating task: Project not found')
+    })
+  })
+
+  describe('listTasksTool', () => {
+    it('should list tasks with status and estimate', async () => {
+      mockTaskService.listTasks.mockResolvedValueOnce(mockTasks)
+
+      const result = await listTasksTool.handler({ projectId: 'test-project-1' })
+
+      expect(mockTaskService.listTasks).toHaveBeenCalledWith({ projectId: 'test-project-1' })
+      expect(result.content[0].text).toContain('- Homepage redesign [in_progress] (10.00h estimated) (ID: test-task-1)')
+      expect(result.content[0].text).toContain('- Fix login bug [open] (ID: test-task-2)')
+      expect(result.structuredContent?.tasks).toHaveLength(2)
+    })
+
+    it('should handle no tasks', async () => {
+      mockTaskService.listTasks.mockResolvedValueOnce([])
+
+      const result = await listTasksTool.handler({})
+
+      expect(result.content[0].text).toBe('No tasks found.')
+      expect(result.structuredContent?.tasks).toEqual([])
+    })
+  })
+
+  describe('closeTaskTool', () => {
+    it('should close a task', async () => {
+      mockTaskService.closeTask.mockResolvedValueOnce({ ...mockTasks[0], status: 'done', closedAt: new Date() })
+
+      const result = await closeTaskTool.handler({ taskId: 'test-task-1' })
+
+      expect(result.content[0].text).toContain('Task closed successfully')
+      expect(result.content[0].text).toContain('Status: done')
+    })
+
+    it('should handle task not found', async () => {
+      mockTaskService.closeTask.mockResolvedValueOnce(null)
+
+      const result = await closeTaskTool.handler({ taskId: 'missing' })
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Task not found.')
+    })
+
+    it('should report tasks that are already closed', async () => {
+      mockTaskService.closeTask.mockRejectedValueOnce(new Error('Task is already closed'))
+
+      const result = await closeTaskTool.handler({ taskId: 'test-task-1' })
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Error closing task: Task is already closed')
+    })
+  })
+})
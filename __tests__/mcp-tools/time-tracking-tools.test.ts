@@ -56,28 +56,88 @@ jest.mock('@/lib/services/time-entries', () => {
   const mockServiceMethods = {
     startTimeTracking: jest.fn(),
     stopTimeTracking: jest.fn(),
+    switchTimeTracking: jest.fn(),
+    pauseTimeTracking: jest.fn(),
+    resumeTimeTracking: jest.fn(),
     getActiveTimeEntry: jest.fn(),
+    getActiveTimeEntries: jest.fn(),
+    getTimeEntryBreaks: jest.fn().mockResolvedValue([]),
     addManualTimeEntry: jest.fn(),
     updateTimeEntry: jest.fn(),
+    findOverlappingPairs: jest.fn(),
   }
   
   return {
+    ...jest.requireActual('@/lib/services/time-entries'),
     TimeEntryService: jest.fn().mockImplementation(() => mockServiceMethods),
     __mockServiceMethods: mockServiceMethods, // Export for testing
   }
 })
 
+// Mock the IdleTimerService; timers aren't idle unless a test says so
+jest.mock('@/lib/services/idle-timers', () => {
+  const mockServiceMethods = {
+    getIdleCutoff: jest.fn().mockResolvedValue(null),
+  }
+
+  return {
+    ...jest.requireActual('@/lib/services/idle-timers'),
+    IdleTimerService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Mock the RecentActivityService
+jest.mock('@/lib/services/recent-activities', () => {
+  const mockServiceMethods = {
+    getRecentActivities: jest.fn(),
+  }
+
+  return {
+    RecentActivityService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Mock the services log_time reads projects, clients and the user's time zone from
+const mockListProjects = jest.fn()
+jest.mock('@/lib/services/projects', () => ({
+  ProjectService: jest.fn().mockImplementation(() => ({
+    listProjects: (...args: unknown[]) => mockListProjects(...args),
+  })),
+}))
+
+jest.mock('@/lib/services/clients', () => ({
+  ClientService: jest.fn().mockImplementation(() => ({
+    listClients: jest.fn().mockResolvedValue([{ id: 'client-1', name: 'Acme' }]),
+  })),
+}))
+
+jest.mock('@/lib/services/user-settings', () => ({
+  UserSettingsService: jest.fn().mockImplementation(() => ({
+    getSettings: jest.fn().mockResolvedValue({ timeZone: 'UTC' }),
+  })),
+}))
+
 // Import the tools after mocking
 import { 
   startTimeTrackingTool,
   stopTimeTrackingTool,
+  switchTimeTrackingTool,
+  pauseTimeTrackingTool,
+  resumeTimeTrackingTool,
   getActiveTimeEntryTool,
   addManualTimeEntryTool,
-  updateTimeEntryTool
+  updateTimeEntryTool,
+  findOverlappingEntriesTool,
+  listRecentActivitiesTool,
+  logTimeTool
 } from '@/lib/mcp-tools/time-tracking-tools'
 
 // Get the mock service methods for assertions
 const mockTimeEntryService = (require('@/lib/services/time-entries') as any).__mockServiceMethods
+const mockIdleTimerService = (require('@/lib/services/idle-timers') as any).__mockServiceMethods
+const mockRecentActivityService = (require('@/lib/services/recent-activities') as any).__mockServiceMethods
 
 describe('Time Tracking MCP Tools', () => {
   beforeEach(() => {
@@ -94,7 +154,7 @@ describe('Time Tracking MCP Tools', () => {
         isActive: true,
       })
 
-      mockTimeEntryService.startTimeTracking.mockResolvedValueOnce(mockEntry)
+      mockTimeEntryService.startTimeTracking.mockResolvedValueOnce({ ...mockEntry, tags: [] })
 
       const result = await startTimeTrackingTool.handler(
         { projectId: 'test-project-1', description: 'Working on feature' },
@@ -104,7 +164,8 @@ describe('Time Tracking MCP Tools', () => {
       expect(mockTimeEntryService.startTimeTracking).toHaveBeenCalledWith(
         'test-user-123',
         'test-project-1',
-        'Working on feature'
+        'Working on feature',
+        { tags: undefined, billable: undefined, taskId: undefined }
       )
 
       expect(result.content).toHaveLength(1)
@@ -112,6 +173,62 @@ describe('Time Tracking MCP Tools', () => {
       expect(result.content[0].text).toContain('Time tracking started successfully')
       expect(result.content[0].text).toContain('new-entry-id')
       expect(result.content[0].text).toContain('test-project-1')
+      expect(result.content[0].text).not.toContain('Tags:')
+    })
+
+    it('should start time tracking on a project given by name', async () => {
+      mockListProjects.mockResolvedValueOnce([
+        { id: 'test-project-1', name: 'Website', clientId: 'client-1', userId: 'test-user-123' },
+        { id: 'test-project-2', name: 'Website Redesign', clientId: 'client-1', userId: 'test-user-123' },
+      ])
+      mockTimeEntryService.startTimeTracking.mockResolvedValueOnce({ ...mockTimeEntry({ projectId: 'test-project-2' }), tags: [] })
+
+      await startTimeTrackingTool.handler({ projectName: 'website redesign', description: 'Working on feature' }, 'test-user-123')
+
+      expect(mockTimeEntryService.startTimeTracking).toHaveBeenCalledWith(
+        'test-user-123',
+        'test-project-2',
+        'Working on feature',
+        { tags: undefined, billable: undefined, taskId: undefined }
+      )
+    })
+
+    it('should list the candidates when the project name is ambiguous', async () => {
+      mockListProjects.mockResolvedValueOnce([
+        { id: 'test-project-1', name: 'Website', clientId: 'client-1', userId: 'test-user-123' },
+        { id: 'test-project-2', name: 'Website Redesign', clientId: 'client-1', userId: 'test-user-123' },
+      ])
+
+      const result = await startTimeTrackingTool.handler({ projectName: 'web', description: 'Working on feature' }, 'test-user-123')
+
+      expect(mockTimeEntryService.startTimeTracking).not.toHaveBeenCalled()
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Website (Acme, ID: test-project-1); Website Redesign (Acme, ID: test-project-2)')
+    })
+
+    it('should start time tracking with tags', async () => {
+      const mockEntry = mockTimeEntry({
+        id: 'tagged-entry-id',
+        projectId: 'test-project-1',
+        description: 'Sprint planning',
+        isActive: true,
+      })
+
+      mockTimeEntryService.startTimeTracking.mockResolvedValueOnce({ ...mockEntry, tags: ['meeting', 'planning'] })
+
+      const result = await startTimeTrackingTool.handler(
+        { projectId: 'test-project-1', description: 'Sprint planning', tags: ['Meeting', 'planning'] },
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.startTimeTracking).toHaveBeenCalledWith(
+        'test-user-123',
+        'test-project-1',
+        'Sprint planning',
+        { tags: ['Meeting', 'planning'], billable: undefined, taskId: undefined }
+      )
+      expect(result.content[0].text).toContain('Tags: meeting, planning')
+      expect(result.structuredContent?.timeEntry?.tags).toEqual(['meeting', 'planning'])
     })
 
     it('should handle start tracking errors', async () => {
@@ -220,6 +337,132 @@ describe('Time Tracking MCP Tools', () => {
     })
   })
 
+  describe('switchTimeTrackingTool', () => {
+    it('should stop the running entry and start the new one', async () => {
+      const switchedAt = new Date('2024-01-01T11:30:00Z')
+      mockTimeEntryService.switchTimeTracking.mockResolvedValueOnce({
+        stopped: mockTimeEntry({ id: 'old-entry', description: 'Feature work', endTime: switchedAt, durationMinutes: 90, isActive: false }),
+        started: { ...mockTimeEntry({ id: 'new-entry', projectId: 'project-2', description: 'Code review', startTime: switchedAt, isActive: true }), tags: [] },
+      })
+
+      const result = await switchTimeTrackingTool.handler(
+        { projectId: 'project-2', description: 'Code review' },
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.switchTimeTracking).toHaveBeenCalledWith('test-user-123', {
+        projectId: 'project-2',
+        description: 'Code review',
+      })
+      expect(result.content[0].text).toContain('Stopped: Feature work (Entry ID: old-entry, 1h 30m)')
+      expect(result.content[0].text).toContain('Started: Code review (Entry ID: new-entry)')
+      expect(result.structuredContent?.started?.id).toBe('new-entry')
+    })
+
+    it('should ask for a project unless continuing the previous entry', async () => {
+      const result = await switchTimeTrackingTool.handler({ description: 'Code review' }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(mockTimeEntryService.switchTimeTracking).not.toHaveBeenCalled()
+    })
+
+    it('should report switch errors', async () => {
+      mockTimeEntryService.switchTimeTracking.mockRejectedValueOnce(new Error('No active time entry found'))
+
+      const result = await switchTimeTrackingTool.handler({ continuePrevious: true }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Error switching time tracking: No active time entry found')
+    })
+  })
+
+  describe('pauseTimeTrackingTool', () => {
+    it('should pause time tracking successfully', async () => {
+      const mockEntry = mockTimeEntry({
+        id: 'entry-id',
+        endTime: null,
+        durationMinutes: null,
+        isActive: true,
+        isPaused: true,
+      })
+
+      mockTimeEntryService.pauseTimeTracking.mockResolvedValueOnce(mockEntry)
+
+      const result = await pauseTimeTrackingTool.handler(
+        { entryId: 'entry-id' },
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.pauseTimeTracking).toHaveBeenCalledWith(
+        'test-user-123',
+        'entry-id'
+      )
+
+      expect(result.content).toHaveLength(1)
+      expect(result.content[0].text).toContain('Time tracking paused')
+      expect(result.content[0].text).toContain('entry-id')
+      expect(result.structuredContent?.timeEntry?.isPaused).toBe(true)
+    })
+
+    it('should handle pause errors', async () => {
+      mockTimeEntryService.pauseTimeTracking.mockRejectedValueOnce(
+        new Error('Time entry is already paused')
+      )
+
+      const result = await pauseTimeTrackingTool.handler(
+        {},
+        'test-user-123'
+      )
+
+      expect(result.content[0].text).toContain('Error pausing time tracking')
+      expect(result.content[0].text).toContain('Time entry is already paused')
+      expect(result.isError).toBe(true)
+    })
+  })
+
+  describe('resumeTimeTrackingTool', () => {
+    it('should resume time tracking successfully', async () => {
+      const mockEntry = mockTimeEntry({
+        id: 'entry-id',
+        endTime: null,
+        durationMinutes: null,
+        isActive: true,
+        isPaused: false,
+      })
+
+      mockTimeEntryService.resumeTimeTracking.mockResolvedValueOnce(mockEntry)
+
+      const result = await resumeTimeTrackingTool.handler(
+        {},
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.resumeTimeTracking).toHaveBeenCalledWith(
+        'test-user-123',
+        undefined
+      )
+
+      expect(result.content).toHaveLength(1)
+      expect(result.content[0].text).toContain('Time tracking resumed')
+      expect(result.structuredContent?.timeEntry?.isPaused).toBe(false)
+    })
+
+    it('should handle resume errors', async () => {
+      mockTimeEntryService.resumeTimeTracking.mockRejectedValueOnce(
+        new Error('Time entry is not paused')
+      )
+
+      const result = await resumeTimeTrackingTool.handler(
+        {},
+        'test-user-123'
+      )
+
+      expect(result.content[0].text).toContain('Error resuming time tracking')
+      expect(result.content[0].text).toContain('Time entry is not paused')
+      expect(result.isError).toBe(true)
+    })
+  })
+
   describe('getActiveTimeEntryTool', () => {
     it('should return active time entry', async () => {
       const mockEntry = mockTimeEntry({
@@ -230,7 +473,7 @@ describe('Time Tracking MCP Tools', () => {
         isActive: true,
       })
 
-      mockTimeEntryService.getActiveTimeEntry.mockResolvedValueOnce(mockEntry)
+      mockTimeEntryService.getActiveTimeEntries.mockResolvedValueOnce([mockEntry])
 
       // Mock current time for elapsed calculation
       const mockNow = new Date('2024-01-01T10:30:00Z')
@@ -250,7 +493,7 @@ describe('Time Tracking MCP Tools', () => {
         'test-user-123'
       )
 
-      expect(mockTimeEntryService.getActiveTimeEntry).toHaveBeenCalledWith('test-user-123')
+      expect(mockTimeEntryService.getActiveTimeEntries).toHaveBeenCalledWith('test-user-123')
 
       expect(result.content).toHaveLength(1)
       expect(result.content[0].text).toContain('Active time tracking')
@@ -264,8 +507,45 @@ describe('Time Tracking MCP Tools', () => {
       dateSpy.mockRestore()
     })
 
+    it('should warn about a timer that looks forgotten', async () => {
+      const mockEntry = mockTimeEntry({
+        id: 'forgotten-entry',
+        startTime: new Date('2024-01-01T09:00:00Z'),
+        isActive: true,
+      })
+
+      mockTimeEntryService.getActiveTimeEntries.mockResolvedValueOnce([mockEntry])
+      mockIdleTimerService.getIdleCutoff.mockResolvedValueOnce({
+        reason: 'idle_limit',
+        cutoff: new Date('2024-01-01T19:00:00Z'),
+        settings: { idleTimerHours: 10, workdayEnd: null, timeZone: 'UTC' },
+      })
+
+      const result = await getActiveTimeEntryTool.handler({}, 'test-user-123')
+
+      const [userId, entry] = mockIdleTimerService.getIdleCutoff.mock.calls[0]
+      expect(userId).toBe('test-user-123')
+      expect(entry).toBe(mockEntry)
+      expect(result.content[0].text).toContain('forgotten-entry')
+      expect(result.content[0].text).toContain('Warning: this timer has been running for more than 10 hours')
+    })
+
+    it('should list every running timer and ask for an entry ID', async () => {
+      mockTimeEntryService.getActiveTimeEntries.mockResolvedValueOnce([
+        mockTimeEntry({ id: 'first-entry', description: 'Feature work', isActive: true }),
+        mockTimeEntry({ id: 'second-entry', description: 'Support call', isActive: true }),
+      ])
+
+      const result = await getActiveTimeEntryTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toContain('2 active time entries found. Pass entryId')
+      expect(result.content[0].text).toContain('first-entry')
+      expect(result.content[0].text).toContain('second-entry')
+      expect(result.structuredContent?.timeEntries).toHaveLength(2)
+    })
+
     it('should handle no active entry', async () => {
-      mockTimeEntryService.getActiveTimeEntry.mockResolvedValueOnce(null)
+      mockTimeEntryService.getActiveTimeEntries.mockResolvedValueOnce([])
 
       const result = await getActiveTimeEntryTool.handler(
         {},
@@ -277,7 +557,7 @@ describe('Time Tracking MCP Tools', () => {
     })
 
     it('should handle get active entry errors', async () => {
-      mockTimeEntryService.getActiveTimeEntry.mockRejectedValueOnce(
+      mockTimeEntryService.getActiveTimeEntries.mockRejectedValueOnce(
         new Error('Database error')
       )
 
@@ -305,7 +585,7 @@ describe('Time Tracking MCP Tools', () => {
         isActive: false,
       })
 
-      mockTimeEntryService.addManualTimeEntry.mockResolvedValueOnce(mockEntry)
+      mockTimeEntryService.addManualTimeEntry.mockResolvedValueOnce({ ...mockEntry, tags: [], overlaps: [], trimmed: false })
 
       const result = await addManualTimeEntryTool.handler(
         {
@@ -322,7 +602,8 @@ describe('Time Tracking MCP Tools', () => {
         'project-1',
         'Manual work',
         new Date('2024-01-01T10:00:00Z'),
-        new Date('2024-01-01T12:00:00Z')
+        new Date('2024-01-01T12:00:00Z'),
+        { tags: undefined, billable: undefined, taskId: undefined, overlapPolicy: undefined }
       )
 
       expect(result.content).toHaveLength(1)
@@ -332,6 +613,71 @@ describe('Time Tracking MCP Tools', () => {
       expect(result.content[0].text).toContain('120 minutes')
     })
 
+    it('should add a non-billable manual time entry', async () => {
+      const mockEntry = mockTimeEntry({
+        id: 'internal-entry',
+        description: 'Team retro',
+        billable: false,
+      })
+
+      mockTimeEntryService.addManualTimeEntry.mockResolvedValueOnce({ ...mockEntry, tags: [], overlaps: [], trimmed: false })
+
+      const result = await addManualTimeEntryTool.handler(
+        {
+          projectId: 'test-project-1',
+          description: 'Team retro',
+          startTime: '2024-01-01T09:00:00Z',
+          endTime: '2024-01-01T10:00:00Z',
+          billable: false,
+        },
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.addManualTimeEntry).toHaveBeenCalledWith(
+        'test-user-123',
+        'test-project-1',
+        'Team retro',
+        new Date('2024-01-01T09:00:00Z'),
+        new Date('2024-01-01T10:00:00Z'),
+        { tags: undefined, billable: false }
+      )
+      expect(result.content[0].text).toContain('Billable: No')
+    })
+
+    it('should pass the overlap policy and report overlapping entries', async () => {
+      const existing = mockTimeEntry({
+        id: 'existing-entry',
+        description: 'Standup',
+        startTime: new Date('2024-01-01T09:30:00Z'),
+        endTime: new Date('2024-01-01T09:45:00Z'),
+      })
+      const mockEntry = mockTimeEntry({ id: 'overlapping-entry', description: 'Planning' })
+
+      mockTimeEntryService.addManualTimeEntry.mockResolvedValueOnce({ ...mockEntry, tags: [], overlaps: [existing], trimmed: false })
+
+      const result = await addManualTimeEntryTool.handler(
+        {
+          projectId: 'test-project-1',
+          description: 'Planning',
+          startTime: '2024-01-01T09:00:00Z',
+          endTime: '2024-01-01T10:00:00Z',
+          overlapPolicy: 'warn',
+        },
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.addManualTimeEntry).toHaveBeenCalledWith(
+        'test-user-123',
+        'test-project-1',
+        'Planning',
+        new Date('2024-01-01T09:00:00Z'),
+        new Date('2024-01-01T10:00:00Z'),
+        { tags: undefined, billable: undefined, taskId: undefined, overlapPolicy: 'warn' }
+      )
+      expect(result.content[0].text).toContain('Warning: overlaps "Standup"')
+      expect(result.content[0].text).toContain('existing-entry')
+    })
+
     it('should handle add manual entry errors', async () => {
       mockTimeEntryService.addManualTimeEntry.mockRejectedValueOnce(
         new Error('Invalid date range')
@@ -371,7 +717,7 @@ describe('Time Tracking MCP Tools', () => {
         endTime: new Date('2024-01-01T13:00:00Z'),
       })
 
-      mockTimeEntryService.updateTimeEntry.mockResolvedValueOnce(mockEntry)
+      mockTimeEntryService.updateTimeEntry.mockResolvedValueOnce({ ...mockEntry, overlaps: [], trimmed: false })
 
       const result = await updateTimeEntryTool.handler(
         {
@@ -390,7 +736,8 @@ describe('Time Tracking MCP Tools', () => {
           description: 'Updated description',
           startTime: new Date('2024-01-01T10:00:00Z'),
           endTime: new Date('2024-01-01T13:00:00Z'),
-        }
+        },
+        { overlapPolicy: undefined }
       )
 
       expect(result.content).toHaveLength(1)
@@ -445,4 +792,169 @@ describe('Time Tracking MCP Tools', () => {
       expect(updateTimeEntryTool.schema.endTime).toBeDefined()
     })
   })
-})
\ No newline at end of file
+
+  describe('findOverlappingEntriesTool', () => {
+    it('should list overlapping pairs', async () => {
+      const entry = mockTimeEntry({
+        id: 'entry-a',
+        description: 'Client call',
+        startTime: new Date('2024-01-01T10:00:00Z'),
+        endTime: new Date('2024-01-01T11:00:00Z'),
+      })
+      const overlapsWith = mockTimeEntry({
+        id: 'entry-b',
+        description: 'Code review',
+        startTime: new Date('2024-01-01T10:30:00Z'),
+        endTime: new Date('2024-01-01T12:00:00Z'),
+      })
+
+      mockTimeEntryService.findOverlappingPairs.mockResolvedValueOnce([{ entry, overlapsWith, overlapMinutes: 30 }])
+
+      const result = await findOverlappingEntriesTool.handler(
+        { startDate: '2024-01-01T00:00:00Z', endDate: '2024-01-08T00:00:00Z' },
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.findOverlappingPairs).toHaveBeenCalledWith(
+        'test-user-123',
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-01-08T00:00:00Z')
+      )
+      expect(result.content[0].text).toContain('Found 1 overlapping pair(s)')
+      expect(result.content[0].text).toContain('"Client call"')
+      expect(result.content[0].text).toContain('by 30 minutes')
+    })
+
+    it('should default to the last 30 days', async () => {
+      mockTimeEntryService.findOverlappingPairs.mockResolvedValueOnce([])
+
+      const result = await findOverlappingEntriesTool.handler({}, 'test-user-123')
+
+      const [, startDate, endDate] = mockTimeEntryService.findOverlappingPairs.mock.calls[0]
+      expect(endDate.getTime() - startDate.getTime()).toBe(30 * 24 * 60 * 60 * 1000)
+      expect(result.content[0].text).toContain('No overlapping time entries')
+    })
+
+    it('should reject an end date before the start date', async () => {
+      const result = await findOverlappingEntriesTool.handler(
+        { startDate: '2024-01-08T00:00:00Z', endDate: '2024-01-01T00:00:00Z' },
+        'test-user-123'
+      )
+
+      expect(result.isError).toBe(true)
+      expect(mockTimeEntryService.findOverlappingPairs).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('listRecentActivitiesTool', () => {
+    it('should list ranked activities with favourites marked', async () => {
+      mockRecentActivityService.getRecentActivities.mockResolvedValueOnce([
+        {
+          projectId: 'test-project-1',
+          projectName: 'Website',
+          clientName: 'Acme',
+          description: 'Homepage redesign',
+          lastUsedAt: new Date('2024-01-08T09:00:00Z'),
+          useCount: 4,
+          totalMinutes: 390,
+          favourite: true,
+          score: 3.2,
+        },
+      ])
+
+      const result = await listRecentActivitiesTool.handler({ days: 7, limit: 5 }, 'test-user-123')
+
+      expect(mockRecentActivityService.getRecentActivities).toHaveBeenCalledWith('test-user-123', { days: 7, limit: 5 })
+      expect(result.content[0].text).toContain('Recent activities from the last 7 days')
+      expect(result.content[0].text).toContain('[favourite] "Homepage redesign" on Website (Acme)')
+      expect(result.content[0].text).toContain('4 entries, 6.5h (Project ID: test-project-1)')
+    })
+
+    it('should say when nothing was tracked', async () => {
+      mockRecentActivityService.getRecentActivities.mockResolvedValueOnce([])
+
+      const result = await listRecentActivitiesTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toBe('No time tracked in the last 30 days.')
+    })
+  })
+
+  describe('logTimeTool', () => {
+    beforeEach(() => {
+      // Parsing reads the clock, which a failing test above can leave mocked
+      jest.restoreAllMocks()
+      mockListProjects.mockResolvedValue([
+        { id: 'test-project-1', name: 'Website', clientId: 'client-1', userId: 'test-user-123' },
+        { id: 'test-project-2', name: 'Website Redesign', clientId: 'client-1', userId: 'test-user-123' },
+        { id: 'other-project', name: 'Login Service', clientId: 'client-1', userId: 'someone-else' },
+      ])
+    })
+
+    it('should return a preview without saving by default', async () => {
+      const result = await logTimeTool.handler({ text: '2h on Acme website redesign yesterday afternoon fixing login' }, 'test-user-123')
+
+      expect(mockTimeEntryService.addManualTimeEntry).not.toHaveBeenCalled()
+      expect(result.content[0].text).toContain('Time entry preview (not saved yet)')
+      expect(result.content[0].text).toContain('- Project: Website Redesign (Acme)')
+      expect(result.content[0].text).toContain('- Description: Fixing login')
+      expect(result.structuredContent?.preview.durationMinutes).toBe(120)
+      expect(result.structuredContent?.timeEntry).toBeNull()
+    })
+
+    it('should save the parsed entry when committing', async () => {
+      mockTimeEntryService.addManualTimeEntry.mockResolvedValueOnce({
+        ...mockTimeEntry,
+        id: 'logged-entry',
+        tags: [],
+        overlaps: [],
+        trimmed: false,
+      })
+
+      const result = await logTimeTool.handler(
+        { text: 'website redesign 9-11 2024-03-04 copy edits', commit: true, tags: ['content'] },
+        'test-user-123'
+      )
+
+      expect(mockTimeEntryService.addManualTimeEntry).toHaveBeenCalledWith(
+        'test-user-123',
+        'test-project-2',
+        'Copy edits',
+        new Date('2024-03-04T09:00:00Z'),
+        new Date('2024-03-04T11:00:00Z'),
+        { tags: ['content'], billable: undefined, overlapPolicy: undefined }
+      )
+      expect(result.content[0].text).toContain('Time logged successfully')
+      expect(result.content[0].text).toContain('Entry ID: logged-entry')
+    })
+
+    it('should refuse to commit when the project is ambiguous', async () => {
+      const result = await logTimeTool.handler({ text: '1h acme at 9 calls', commit: true }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Could not tell which project to log to; it could be Website (Acme)')
+      expect(mockTimeEntryService.addManualTimeEntry).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to commit without a description', async () => {
+      const result = await logTimeTool.handler({ text: '2h website redesign yesterday', commit: true }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toContain('Could not find a description in the text')
+      expect(mockTimeEntryService.addManualTimeEntry).not.toHaveBeenCalled()
+    })
+
+    it('should use the given projectId over the parsed one', async () => {
+      const result = await logTimeTool.handler({ text: '1h acme at 9 calls 2024-03-04', projectId: 'test-project-1' }, 'test-user-123')
+
+      expect(result.structuredContent?.preview.project?.id).toBe('test-project-1')
+      expect(result.structuredContent?.preview.warnings).toEqual([])
+    })
+
+    it('should report phrases without a duration', async () => {
+      const result = await logTimeTool.handler({ text: 'website stuff' }, 'test-user-123')
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('Error logging time: Could not find a duration or time range in "website stuff"')
+    })
+  })
+})
@@ -0,0 +1,185 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn().mockReturnThis(),
+    from: jest.fn().mockReturnThis(),
+    where: jest.fn().mockResolvedValue([]), // No reporting lines
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}))
+
+// Mock the TimesheetService
+jest.mock('@/lib/services/timesheets', () => {
+  const mockServiceMethods = {
+    submitTimesheet: jest.fn(),
+    reviewTimesheet: jest.fn(),
+    listPendingTimesheets: jest.fn(),
+  }
+
+  return {
+    TimesheetService: jest.fn().mockImplementation(() => mockServiceMethods),
+    __mockServiceMethods: mockServiceMethods,
+  }
+})
+
+// Import the tools after mocking
+import {
+  submitTimesheetTool,
+  approveTimesheetTool,
+  rejectTimesheetTool,
+  listPendingTimesheetsTool,
+} from '@/lib/mcp-tools/timesheet-tools'
+import { UserRole, createAuthorizationContext } from '@/lib/authorization'
+
+// Get the mock service methods for assertions
+const mockTimesheetService = (require('@/lib/services/timesheets') as any).__mockServiceMethods
+
+const mockTimesheet = (overrides = {}) => ({
+  id: 'timesheet-1',
+  userId: 'test-user-123',
+  weekStart: new Date('2024-01-15T00:00:00Z'),
+  status: 'submitted' as const,
+  totalMinutes: 2430,
+  submittedAt: new Date('2024-01-19T17:00:00Z'),
+  reviewedBy: null,
+  reviewedAt: null,
+  reviewComment: null,
+  createdAt: new Date('2024-01-19T17:00:00Z'),
+  updatedAt: new Date('2024-01-19T17:00:00Z'),
+  ...overrides,
+})
+
+describe('Timesheet MCP Tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('submitTimesheetTool', () => {
+    it('should submit the week containing weekOf', async () => {
+      mockTimesheetService.submitTimesheet.mockResolvedValueOnce(mockTimesheet())
+
+      const result = await submitTimesheetTool.handler(
+        { weekOf: '2024-01-17T12:00:00Z' },
+        'test-user-123'
+      )
+
+      expect(mockTimesheetService.submitTimesheet).toHaveBeenCalledWith(
+        'test-user-123',
+        new Date('2024-01-17T12:00:00Z')
+      )
+      expect(result.content[0].text).toContain('Timesheet submitted for approval')
+      expect(result.content[0].text).toContain('Week of: 2024-01-15')
+      expect(result.content[0].text).toContain('Total Time: 40h 30m')
+      expect(result.structuredContent?.timesheet?.status).toBe('submitted')
+    })
+
+    it('should handle submit errors', async () => {
+      mockTimesheetService.submitTimesheet.mockRejectedValueOnce(
+        new Error('Timesheet has already been approved')
+      )
+
+      const result = await submitTimesheetTool.handler({}, 'test-user-123')
+
+      expect(result.content[0].text).toContain('Error submitting timesheet')
+      expect(result.content[0].text).toContain('already been approved')
+      expect(result.isError).toBe(true)
+    })
+  })
+
+  describe('approveTimesheetTool', () => {
+    it('should approve with the reviewer\'s role in the authorization context', async () => {
+      mockTimesheetService.reviewTimesheet.mockResolvedValueOnce(
+        mockTimesheet({ status: 'approved', reviewedBy: 'user_hr', reviewComment: 'Looks good' })
+      )
+
+      const result = await approveTimesheetTool.handler(
+        { timesheetId: 'timesheet-1', comment: 'Looks good' },
+        'user_hr',
+        createAuthorizationContext('user_hr', 'hr')
+      )
+
+      expect(mockTimesheetService.reviewTimesheet).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user_hr', roles: [UserRole.HR] }),
+        'timesheet-1',
+        'approved',
+        'Looks good'
+      )
+      expect(result.content[0].text).toContain('Timesheet approved')
+      expect(result.content[0].text).toContain('Comment: Looks good')
+    })
+
+    it('should surface authorization failures', async () => {
+      mockTimesheetService.reviewTimesheet.mockRejectedValueOnce(
+        new Error('User with roles [user] cannot approve timesheets')
+      )
+
+      const result = await approveTimesheetTool.handler(
+        { timesheetId: 'timesheet-1' },
+        'test-user-456',
+        createAuthorizationContext('test-user-456', 'user')
+      )
+
+      expect(result.content[0].text).toContain('Error approving timesheet')
+      expect(result.content[0].text).toContain('cannot approve timesheets')
+      expect(result.isError).toBe(true)
+    })
+  })
+
+  describe('rejectTimesheetTool', () => {
+    it('should reject with a comment', async () => {
+      mockTimesheetService.reviewTimesheet.mockResolvedValueOnce(
+        mockTimesheet({ status: 'rejected', reviewedBy: 'user_manager', reviewComment: 'Missing Friday' })
+      )
+
+      const result = await rejectTimesheetTool.handler(
+        { timesheetId: 'timesheet-1', comment: 'Missing Friday' },
+        'user_manager',
+        createAuthorizationContext('user_manager', 'manager')
+      )
+
+      expect(mockTimesheetService.reviewTimesheet).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user_manager', roles: [UserRole.MANAGER] }),
+        'timesheet-1',
+        'rejected',
+        'Missing Friday'
+      )
+      expect(result.content[0].text).toContain('Timesheet rejected')
+      expect(result.content[0].text).toContain('Missing Friday')
+    })
+  })
+
+  describe('listPendingTimesheetsTool', () => {
+    it('should list pending timesheets with submitter names', async () => {
+      mockTimesheetService.listPendingTimesheets.mockResolvedValueOnce([
+        { timesheet: mockTimesheet(), userName: 'Test User', userEmail: 'test@example.com' },
+      ])
+
+      const result = await listPendingTimesheetsTool.handler({}, 'user_hr', createAuthorizationContext('user_hr', 'hr'))
+
+      expect(result.content[0].text).toContain('Timesheets awaiting approval (1)')
+      expect(result.content[0].text).toContain('Test User: week of 2024-01-15, 40h 30m')
+      expect(result.structuredContent?.timesheets[0].userName).toBe('Test User')
+    })
+
+    it('should handle an empty queue', async () => {
+      mockTimesheetService.listPendingTimesheets.mockResolvedValueOnce([])
+
+      const result = await listPendingTimesheetsTool.handler({}, 'user_hr', createAuthorizationContext('user_hr', 'hr'))
+
+      expect(result.content[0].text).toContain('No timesheets are awaiting your approval')
+    })
+
+    it('should handle errors for users who cannot review', async () => {
+      mockTimesheetService.listPendingTimesheets.mockRejectedValueOnce(
+        new Error('User with roles [user] cannot review timesheets')
+      )
+
+      const result = await listPendingTimesheetsTool.handler({}, 'test-user-123', createAuthorizationContext('test-user-123', 'user'))
+
+      expect(result.content[0].text).toContain('Error listing pending timesheets')
+      expect(result.isError).toBe(true)
+    })
+  })
+})
@@ -100,8 +100,57 @@ export const mockTimeEntries = [
   },
 ]
 
+export const mockTags = [
+  {
+    id: 'test-tag-1',
+    name: 'frontend',
+    color: '#3b82f6',
+    userId: 'test-user-123',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  {
+    id: 'test-tag-2',
+    name: 'bugfix',
+    color: null,
+    userId: 'test-user-123',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  },
+]
+
+export const mockTasks = [
+  {
+    id: 'test-task-1',
+    projectId: 'test-project-1',
+    name: 'Homepage redesign',
+    description: null,
+    estimateHours: '10.00',
+    status: 'in_progress' as const,
+    assigneeId: 'test-user-123',
+    userId: 'test-user-123',
+    closedAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  },
+  {
+    id: 'test-task-2',
+    projectId: 'test-project-1',
+    name: 'Fix login bug',
+    description: 'Users are logged out after 5 minutes',
+    estimateHours: null,
+    status: 'open' as const,
+    assigneeId: null,
+    userId: 'test-user-123',
+    closedAt: null,
+    createdAt: new Date('2024-01-02T00:00:00Z'),
+    updatedAt: new Date('2024-01-02T00:00:00Z'),
+  },
+]
+
 export const mockTimeEntriesWithDetails = mockTimeEntries.map(entry => ({
   ...entry,
+  tags: entry.id === 'test-entry-2' ? ['bugfix', 'frontend'] : [],
   projectName: mockProjects.find(p => p.id === entry.projectId)?.name || 'Unknown Project',
   clientName: mockClients.find(c => c.id === mockProjects.find(p => p.id === entry.projectId)?.clientId)?.name || 'Unknown Client',
 }))
@@ -120,5 +169,6 @@ export const mockApiResponses = {
     clientName: mockClients.find(c => c.id === project.clientId)?.name || 'Unknown Client',
   })),
   users: mockUsers,
+  tags: mockTags,
   activeEntry: mockActiveTimeEntry,
 }
\ No newline at end of file
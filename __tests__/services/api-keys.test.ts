@@ -0,0 +1,96 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+    update: jest.fn(),
+  },
+}))
+
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn(() => 'test-id'),
+}))
+
+import { ApiKeyService, getApiKeyFromHeaders, getRequiredScope, parseApiScopes } from '@/lib/services/api-keys'
+import { ApiScope } from '@/lib/authorization'
+import { db } from '@/drizzle/connection'
+
+const mockDb = db as any
+
+describe('parseApiScopes', () => {
+  it('returns known scopes in a fixed order without duplicates', () => {
+    expect(parseApiScopes(['team', 'read', 'read'])).toEqual([ApiScope.READ, ApiScope.TEAM])
+  })
+
+  it('rejects unknown scopes and non-lists', () => {
+    expect(parseApiScopes(['read', 'admin'])).toBeNull()
+    expect(parseApiScopes('read')).toBeNull()
+  })
+})
+
+describe('getApiKeyFromHeaders', () => {
+  it('reads personal keys from x-api-key or a bearer token', () => {
+    expect(getApiKeyFromHeaders(new Headers({ 'x-api-key': 'tt_abc' }))).toBe('tt_abc')
+    expect(getApiKeyFromHeaders(new Headers({ authorization: 'Bearer tt_abc' }))).toBe('tt_abc')
+  })
+
+  it('ignores other bearer tokens', () => {
+    expect(getApiKeyFromHeaders(new Headers({ authorization: 'Bearer oauth-access-token' }))).toBeNull()
+    expect(getApiKeyFromHeaders(new Headers())).toBeNull()
+  })
+})
+
+describe('getRequiredScope', () => {
+  it('needs read for safe methods and write for the rest', () => {
+    expect(getRequiredScope('GET')).toBe(ApiScope.READ)
+    expect(getRequiredScope('POST')).toBe(ApiScope.WRITE)
+    expect(getRequiredScope('delete')).toBe(ApiScope.WRITE)
+  })
+})
+
+describe('ApiKeyService.authenticate', () => {
+  const now = new Date('2024-03-06T12:00:00Z')
+  let service: ApiKeyService
+  let updateSet: jest.Mock
+
+  const mockKeyLookup = (rows: unknown[]) => {
+    mockDb.select.mockReturnValueOnce({
+      from: () => ({
+        innerJoin: () => ({
+          where: () => ({
+            limit: () => Promise.resolve(rows),
+          }),
+        }),
+      }),
+    })
+  }
+
+  const owner = (scopes: string[]) => ({ keyId: 'key-1', scopes, userId: 'user-1', role: 'manager', email: 'a@example.com', name: 'A' })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new ApiKeyService()
+    updateSet = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) })
+    mockDb.update.mockReturnValue({ set: updateSet })
+  })
+
+  it('acts as a regular user without the team scope and records the use', async () => {
+    mockKeyLookup([owner(['read', 'write'])])
+
+    const result = await service.authenticate('tt_abc', now)
+
+    expect(result).toMatchObject({ userId: 'user-1', role: null, scopes: [ApiScope.READ, ApiScope.WRITE] })
+    expect(updateSet).toHaveBeenCalledWith({ lastUsedAt: now })
+  })
+
+  it('keeps the owner role with the team scope', async () => {
+    mockKeyLookup([owner(['read', 'team'])])
+
+    expect(await service.authenticate('tt_abc', now)).toMatchObject({ role: 'manager' })
+  })
+
+  it('returns null for unknown, revoked or expired keys', async () => {
+    mockKeyLookup([])
+
+    expect(await service.authenticate('tt_abc', now)).toBeNull()
+    expect(mockDb.update).not.toHaveBeenCalled()
+  })
+})
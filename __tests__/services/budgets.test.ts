@@ -0,0 +1,51 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+import { getBudgetPeriod, normalizeAlertThresholds, formatBudgetAmount } from '@/lib/services/budgets'
+
+describe('getBudgetPeriod', () => {
+  it('covers the calendar month for monthly budgets', () => {
+    const { start, end } = getBudgetPeriod('monthly', new Date('2024-02-14T15:30:00Z'))
+
+    expect(start).toEqual(new Date('2024-02-01T00:00:00Z'))
+    expect(end).toEqual(new Date('2024-03-01T00:00:00Z'))
+  })
+
+  it('rolls over into the next year in December', () => {
+    const { end } = getBudgetPeriod('monthly', new Date('2024-12-31T23:59:59Z'))
+
+    expect(end).toEqual(new Date('2025-01-01T00:00:00Z'))
+  })
+
+  it('covers all time for total budgets', () => {
+    expect(getBudgetPeriod('total', new Date('2024-02-14T15:30:00Z'))).toEqual({ start: new Date(0), end: null })
+  })
+})
+
+describe('normalizeAlertThresholds', () => {
+  it('sorts thresholds and drops duplicates', () => {
+    expect(normalizeAlertThresholds([100, 50, 80, 100])).toEqual([50, 80, 100])
+  })
+
+  it('allows alerts beyond the budget', () => {
+    expect(normalizeAlertThresholds([120])).toEqual([120])
+  })
+
+  it('rejects thresholds that are not whole positive percentages', () => {
+    expect(() => normalizeAlertThresholds([0])).toThrow('Invalid alert threshold: 0')
+    expect(() => normalizeAlertThresholds([75.5])).toThrow('Invalid alert threshold: 75.5')
+  })
+})
+
+describe('formatBudgetAmount', () => {
+  it('formats hour and money budgets', () => {
+    expect(formatBudgetAmount(12.5, 'hours')).toBe('12.50h')
+    expect(formatBudgetAmount(1500, 'EUR')).toBe('€1500.00')
+  })
+})
@@ -0,0 +1,88 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+import { applyImportOverlapPolicy, matchCalendarRule } from '@/lib/services/calendar-imports'
+import { type IcsEvent } from '@/lib/services/icalendar'
+
+const event: IcsEvent = {
+  id: 'event-1',
+  summary: 'Weekly Sync with Acme',
+  description: '',
+  startTime: new Date('2024-03-15T09:00:00Z'),
+  endTime: new Date('2024-03-15T10:00:00Z'),
+  allDay: false,
+  recurring: false,
+  cancelled: false,
+  organizerEmail: 'me@example.com',
+  attendees: [{ email: 'jane@eu.globex.com', participationStatus: 'ACCEPTED' }],
+}
+
+describe('matchCalendarRule', () => {
+  it('should match title rules case-insensitively', () => {
+    const rule = { matchType: 'title' as const, pattern: 'weekly sync', projectId: 'project-1' }
+
+    expect(matchCalendarRule(event, [rule])).toBe(rule)
+  })
+
+  it('should match attendee domains and their subdomains', () => {
+    const rules = [
+      { matchType: 'attendee_domain' as const, pattern: 'lobex.com', projectId: 'project-1' },
+      { matchType: 'attendee_domain' as const, pattern: '@Globex.com', projectId: 'project-2' },
+    ]
+
+    expect(matchCalendarRule(event, rules)).toBe(rules[1])
+  })
+
+  it('should return the first matching rule or null', () => {
+    const rules = [
+      { matchType: 'attendee_domain' as const, pattern: 'example.com', projectId: 'internal' },
+      { matchType: 'title' as const, pattern: 'acme', projectId: 'acme' },
+    ]
+
+    expect(matchCalendarRule(event, rules)?.projectId).toBe('internal')
+    expect(matchCalendarRule(event, [{ matchType: 'title', pattern: 'retro', projectId: 'project-1' }])).toBeNull()
+  })
+})
+
+describe('applyImportOverlapPolicy', () => {
+  const draft = (title: string, start: string, end: string, existing: { startTime: Date; endTime: Date | null }[] = []) => ({
+    title,
+    startTime: new Date(start),
+    endTime: new Date(end),
+    durationMinutes: (new Date(end).getTime() - new Date(start).getTime()) / 60000,
+    overlaps: existing.map(entry => ({ eventId: null, timeEntryId: 'entry-1', description: 'Tracked work', ...entry })),
+  })
+
+  const tracked = { startTime: new Date('2024-03-15T09:00:00Z'), endTime: new Date('2024-03-15T09:30:00Z') }
+  const drafts = [
+    draft('Lunch', '2024-03-15T12:00:00Z', '2024-03-15T13:00:00Z'),
+    draft('Acme sync', '2024-03-15T09:00:00Z', '2024-03-15T10:00:00Z', [tracked]),
+    draft('Standup', '2024-03-15T09:30:00Z', '2024-03-15T09:45:00Z'),
+  ]
+
+  it('should take overlapping events as they are under "warn"', () => {
+    expect(applyImportOverlapPolicy(drafts, 'warn')).toEqual({ entries: drafts, trimmed: 0, covered: 0 })
+  })
+
+  it('should refuse overlapping events under "reject"', () => {
+    expect(() => applyImportOverlapPolicy(drafts, 'reject')).toThrow('Event "Acme sync" (2024-03-15T09:00:00.000Z) overlaps "Tracked work"')
+  })
+
+  it('should trim events around tracked time and earlier events under "trim"', () => {
+    const { entries, trimmed, covered } = applyImportOverlapPolicy(drafts, 'trim')
+
+    expect(entries.map(({ title, startTime, endTime, durationMinutes }) => [title, startTime.toISOString(), endTime.toISOString(), durationMinutes])).toEqual([
+      ['Acme sync', '2024-03-15T09:30:00.000Z', '2024-03-15T10:00:00.000Z', 30],
+      ['Lunch', '2024-03-15T12:00:00.000Z', '2024-03-15T13:00:00.000Z', 60],
+    ])
+    expect(trimmed).toBe(1)
+    expect(covered).toBe(1)
+  })
+})
@@ -0,0 +1,64 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+import { findExchangeRate, formatMoney, normalizeCurrency } from '@/lib/services/currency'
+
+const rate = (baseCurrency: string, quoteCurrency: string, value: string, effectiveDate: string) => ({
+  id: `${baseCurrency}-${quoteCurrency}-${effectiveDate}`,
+  baseCurrency,
+  quoteCurrency,
+  rate: value,
+  effectiveDate: new Date(effectiveDate),
+  createdBy: 'user_admin',
+  createdAt: new Date(effectiveDate),
+  updatedAt: new Date(effectiveDate),
+})
+
+describe('findExchangeRate', () => {
+  const rates = [
+    rate('EUR', 'USD', '1.10', '2024-01-01T00:00:00Z'),
+    rate('EUR', 'USD', '1.20', '2024-03-01T00:00:00Z'),
+    rate('USD', 'GBP', '0.80', '2024-01-01T00:00:00Z'),
+  ]
+
+  it('should return 1 for the same currency', () => {
+    expect(findExchangeRate([], 'USD', 'USD', new Date())).toBe(1)
+  })
+
+  it('should use the latest rate effective on the date', () => {
+    expect(findExchangeRate(rates, 'EUR', 'USD', new Date('2024-02-15T00:00:00Z'))).toBe(1.1)
+    expect(findExchangeRate(rates, 'EUR', 'USD', new Date('2024-03-01T00:00:00Z'))).toBe(1.2)
+  })
+
+  it('should fall back to the inverse rate', () => {
+    expect(findExchangeRate(rates, 'GBP', 'USD', new Date('2024-02-01T00:00:00Z'))).toBeCloseTo(1.25)
+  })
+
+  it('should return null when no rate was effective yet', () => {
+    expect(findExchangeRate(rates, 'EUR', 'USD', new Date('2023-12-31T00:00:00Z'))).toBeNull()
+    expect(findExchangeRate(rates, 'JPY', 'USD', new Date('2024-02-01T00:00:00Z'))).toBeNull()
+  })
+})
+
+describe('normalizeCurrency', () => {
+  it('should uppercase valid codes', () => {
+    expect(normalizeCurrency(' eur ')).toBe('EUR')
+  })
+
+  it('should reject invalid codes', () => {
+    expect(() => normalizeCurrency('EURO')).toThrow('Invalid currency code: EURO')
+  })
+})
+
+describe('formatMoney', () => {
+  it('should format amounts in their currency', () => {
+    expect(formatMoney('-12.5')).toBe('-$12.50')
+    expect(formatMoney(1500, 'EUR')).toBe('€1500.00')
+  })
+})
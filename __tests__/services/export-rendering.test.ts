@@ -0,0 +1,86 @@
+import { ReadableStream } from 'stream/web'
+import { TextEncoder } from 'util'
+import ExcelJS from 'exceljs'
+import { PDFDocument } from 'pdf-lib'
+import {
+  toCsvStream,
+  toXlsxStream,
+  renderPdfTable,
+  createExportDateFormatter,
+  type ExportColumn,
+} from '@/lib/services/export-rendering'
+
+type Row = { name: string; hours: number }
+
+const columns: ExportColumn<Row>[] = [
+  { header: 'Name', value: row => row.name, width: 200 },
+  { header: 'Hours', value: row => row.hours, width: 60, align: 'right' },
+]
+
+// jsdom lacks the web stream globals the exports stream through
+Object.assign(global, { ReadableStream, TextEncoder })
+
+async function* rows(...items: Row[]) {
+  yield* items
+}
+
+const readAll = async (stream: globalThis.ReadableStream<Uint8Array>) => {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+describe('Export rendering', () => {
+  describe('createExportDateFormatter', () => {
+    it('should format dates and times in the given time zone', () => {
+      const format = createExportDateFormatter('America/New_York')
+      const value = new Date('2024-03-15T02:30:00Z')
+
+      expect(format.date(value)).toBe('2024-03-14')
+      expect(format.time(value)).toBe('22:30')
+    })
+
+    it('should reject unknown time zones', () => {
+      expect(() => createExportDateFormatter('Mars/Olympus')).toThrow(RangeError)
+    })
+  })
+
+  describe('toCsvStream', () => {
+    it('should stream a header and escaped rows', async () => {
+      const csv = await readAll(toCsvStream(columns, rows({ name: 'Design, "v2"', hours: 1.5 }, { name: 'Review', hours: 2 })))
+
+      expect(csv.toString('utf-8')).toBe('Name,Hours\r\n"Design, ""v2""",1.5\r\nReview,2\r\n')
+    })
+  })
+
+  describe('toXlsxStream', () => {
+    it('should stream a workbook with a header row and typed cells', async () => {
+      const content = await readAll(toXlsxStream('Report', columns, rows({ name: 'Design', hours: 1.5 })))
+
+      const workbook = new ExcelJS.Workbook()
+      await workbook.xlsx.load(content as unknown as ExcelJS.Buffer)
+      const sheet = workbook.getWorksheet('Report')!
+
+      expect(sheet.getRow(1).values).toEqual([undefined, 'Name', 'Hours'])
+      expect(sheet.getRow(2).values).toEqual([undefined, 'Design', 1.5])
+    })
+  })
+
+  describe('renderPdfTable', () => {
+    it('should render a PDF across pages for long tables', async () => {
+      const pdf = await renderPdfTable({
+        title: 'Timesheet',
+        details: ['Period: 2024-03-01 to 2024-03-31'],
+        columns,
+        rows: Array.from({ length: 80 }, (_, index) => ({ name: `Entry ${index}`, hours: 1 })),
+        totals: { Name: 'Total', Hours: 80 },
+        signatures: ['Employee signature', 'Approver signature'],
+      })
+
+      expect(Buffer.from(pdf).subarray(0, 5).toString()).toBe('%PDF-')
+      expect((await PDFDocument.load(pdf)).getPageCount()).toBe(3)
+    })
+  })
+})
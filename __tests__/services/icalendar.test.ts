@@ -0,0 +1,181 @@
+import {
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDateTime,
+  parseIcsEvents,
+  renderTimeEntriesCalendar,
+  unescapeIcsText,
+  type CalendarEntry,
+} from '@/lib/services/icalendar'
+
+const createEntry = (overrides: Partial<CalendarEntry['timeEntry']> = {}): CalendarEntry => ({
+  timeEntry: {
+    id: 'entry-1',
+    userId: 'user-1',
+    projectId: 'project-1',
+    taskId: null,
+    invoiceId: null,
+    isPaused: false,
+    description: 'Homepage, hero section',
+    startTime: new Date('2024-03-15T09:00:00Z'),
+    endTime: new Date('2024-03-15T10:30:00Z'),
+    durationMinutes: 90,
+    isActive: false,
+    billable: null,
+    createdAt: new Date('2024-03-15T09:00:00Z'),
+    updatedAt: new Date('2024-03-15T10:30:00Z'),
+    tags: ['design'],
+    ...overrides,
+  } as CalendarEntry['timeEntry'],
+  project: { id: 'project-1', name: 'Website' } as CalendarEntry['project'],
+  client: { id: 'client-1', name: 'Acme; Inc' } as CalendarEntry['client'],
+})
+
+describe('iCalendar rendering', () => {
+  it('should escape text values', () => {
+    expect(escapeIcsText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne')
+  })
+
+  it('should format dates as UTC date-times', () => {
+    expect(formatIcsDateTime(new Date('2024-03-15T09:05:07.123Z'))).toBe('20240315T090507Z')
+  })
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'é'.repeat(80)}`)
+    const lines = folded.split('\r\n')
+
+    expect(lines.length).toBeGreaterThan(1)
+    lines.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75))
+    expect(lines.map((line, index) => index === 0 ? line : line.slice(1)).join('')).toBe(`SUMMARY:${'é'.repeat(80)}`)
+  })
+
+  it('should render one event per entry with project, client and tags', () => {
+    // Unfold continuation lines so that long properties can be matched whole
+    const ics = renderTimeEntriesCalendar([createEntry()], 'Time Entries').replace(/\r\n /g, '')
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('UID:entry-1@timetracker-mcp')
+    expect(ics).toContain('DTSTART:20240315T090000Z')
+    expect(ics).toContain('DTEND:20240315T103000Z')
+    expect(ics).toContain('SUMMARY:Website: Homepage\\, hero section')
+    expect(ics).toContain('DESCRIPTION:Client: Acme\\; Inc\\nProject: Website\\nDuration: 1h 30m\\nTags: design')
+    expect(ics).toContain('CATEGORIES:design')
+    expect(ics).toContain('STATUS:CONFIRMED')
+  })
+
+  it('should end running entries at the current time', () => {
+    const now = new Date('2024-03-15T11:00:00Z')
+    const ics = renderTimeEntriesCalendar(
+      [createEntry({ endTime: null, durationMinutes: null, isActive: true, tags: [] })],
+      'Time Entries',
+      now
+    )
+
+    expect(ics).toContain('DTEND:20240315T110000Z')
+    expect(ics).toContain('SUMMARY:[Running] Website: Homepage\\, hero section')
+    expect(ics).toContain('STATUS:TENTATIVE')
+    expect(ics).not.toContain('CATEGORIES')
+  })
+
+  it('should reverse text escaping', () => {
+    expect(unescapeIcsText(escapeIcsText('a\\b;c,d\ne'))).toBe('a\\b;c,d\ne')
+  })
+})
+
+describe('iCalendar parsing', () => {
+  const calendar = (...events: string[]) =>
+    ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n')
+
+  it('should read events with attendees, unfolding long lines', () => {
+    const { events, errors } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:abc@example.com',
+      'SUMMARY:Sprint planning\\, Acme',
+      'DTSTART:20240315T090000Z',
+      'DTEND:20240315T100000Z',
+      'ORGANIZER;CN=Jane:mailto:Jane@Acme.com',
+      'ATTENDEE;CN="Doe, John";PARTSTAT=DECLINED:mailto:john@example.org',
+      'DESCRIPTION:A very long description that goes on and on and is folded over',
+      '  two lines',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT'
+    ))
+
+    expect(errors).toEqual([])
+    expect(events).toEqual([{
+      id: 'abc@example.com',
+      summary: 'Sprint planning, Acme',
+      description: 'A very long description that goes on and on and is folded over two lines',
+      startTime: new Date('2024-03-15T09:00:00Z'),
+      endTime: new Date('2024-03-15T10:00:00Z'),
+      allDay: false,
+      recurring: false,
+      cancelled: false,
+      organizerEmail: 'jane@acme.com',
+      attendees: [{ email: 'john@example.org', participationStatus: 'DECLINED' }],
+    }])
+  })
+
+  it('should resolve TZID, floating times and durations', () => {
+    const { events } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:zoned',
+      'DTSTART;TZID=Europe/Berlin:20240701T090000',
+      'DURATION:PT1H30M',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:floating',
+      'DTSTART:20240115T090000',
+      'DTEND:20240115T093000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:outlook',
+      'DTSTART;TZID=W. Europe Standard Time:20240115T090000',
+      'DTEND;TZID=W. Europe Standard Time:20240115T093000',
+      'END:VEVENT'
+    ), 'America/New_York')
+
+    expect(events.map(event => [event.id, event.startTime.toISOString(), event.endTime.toISOString()])).toEqual([
+      ['zoned', '2024-07-01T07:00:00.000Z', '2024-07-01T08:30:00.000Z'],
+      ['floating', '2024-01-15T14:00:00.000Z', '2024-01-15T14:30:00.000Z'],
+      ['outlook', '2024-01-15T14:00:00.000Z', '2024-01-15T14:30:00.000Z'],
+    ])
+  })
+
+  it('should flag all-day, recurring and cancelled events and report invalid ones', () => {
+    const { events, errors } = parseIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:holiday',
+      'DTSTART;VALUE=DATE:20240315',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'DTSTART:20240315T090000Z',
+      'DTEND:20240315T091500Z',
+      'RRULE:FREQ=DAILY',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'RECURRENCE-ID:20240316T090000Z',
+      'DTSTART:20240316T100000Z',
+      'DTEND:20240316T101500Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:broken',
+      'SUMMARY:No start',
+      'END:VEVENT'
+    ))
+
+    expect(events.map(({ id, allDay, recurring, cancelled, endTime }) => ({ id, allDay, recurring, cancelled, endTime }))).toEqual([
+      { id: 'holiday', allDay: true, recurring: false, cancelled: false, endTime: new Date('2024-03-16T00:00:00Z') },
+      { id: 'standup', allDay: false, recurring: true, cancelled: true, endTime: new Date('2024-03-15T09:15:00Z') },
+      { id: 'standup/20240316T090000Z', allDay: false, recurring: false, cancelled: false, endTime: new Date('2024-03-16T10:15:00Z') },
+    ])
+    expect(errors).toEqual([{ id: 'broken', summary: 'No start', message: 'Missing or invalid DTSTART' }])
+  })
+})
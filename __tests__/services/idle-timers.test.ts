@@ -0,0 +1,201 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+    update: jest.fn(),
+  },
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+const mockStopTimeTracking = jest.fn()
+jest.mock('@/lib/services/time-entries', () => ({
+  TimeEntryService: jest.fn().mockImplementation(() => ({
+    stopTimeTracking: (...args: unknown[]) => mockStopTimeTracking(...args),
+  })),
+}))
+
+const mockNotify = jest.fn()
+jest.mock('@/lib/services/notifications', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({
+    notify: (...args: unknown[]) => mockNotify(...args),
+  })),
+}))
+
+import { findIdleCutoff, getWorkdayEndAfter, IdleTimerService } from '@/lib/services/idle-timers'
+import { db } from '@/drizzle/connection'
+import { PgDialect } from 'drizzle-orm/pg-core'
+
+const mockDb = db as any
+
+const settings = (overrides: Record<string, unknown> = {}) => ({
+  idleTimerHours: 10,
+  workdayEnd: null,
+  timeZone: 'UTC',
+  autoStopIdleTimers: false,
+  ...overrides,
+})
+
+describe('getWorkdayEndAfter', () => {
+  it('returns the end of the day the timer started on', () => {
+    expect(getWorkdayEndAfter(new Date('2024-03-04T09:00:00Z'), '18:00', 'UTC')).toEqual(new Date('2024-03-04T18:00:00Z'))
+  })
+
+  it('moves to the next day for timers started after the end of the day', () => {
+    expect(getWorkdayEndAfter(new Date('2024-03-04T19:30:00Z'), '18:00', 'UTC')).toEqual(new Date('2024-03-05T18:00:00Z'))
+  })
+
+  it('reads the end of the day in the user time zone', () => {
+    // 07:00 UTC is already 16:00 in Tokyo
+    expect(getWorkdayEndAfter(new Date('2024-03-04T07:00:00Z'), '18:00', 'Asia/Tokyo')).toEqual(new Date('2024-03-04T09:00:00Z'))
+    expect(getWorkdayEndAfter(new Date('2024-07-04T12:00:00Z'), '17:30', 'Europe/Berlin')).toEqual(new Date('2024-07-04T15:30:00Z'))
+  })
+
+  it('falls back to UTC for unknown time zones', () => {
+    expect(getWorkdayEndAfter(new Date('2024-03-04T09:00:00Z'), '18:00', 'Mars/Olympus')).toEqual(new Date('2024-03-04T18:00:00Z'))
+  })
+
+  it('ignores a missing or malformed end of day', () => {
+    expect(getWorkdayEndAfter(new Date('2024-03-04T09:00:00Z'), null, 'UTC')).toBeNull()
+    expect(getWorkdayEndAfter(new Date('2024-03-04T09:00:00Z'), '25:00', 'UTC')).toBeNull()
+  })
+})
+
+describe('findIdleCutoff', () => {
+  const startTime = new Date('2024-03-04T09:00:00Z')
+
+  it('returns null while the timer is within its limits', () => {
+    expect(findIdleCutoff(startTime, settings({ workdayEnd: '18:00' }), new Date('2024-03-04T17:00:00Z'))).toBeNull()
+  })
+
+  it('flags timers running longer than the idle limit', () => {
+    expect(findIdleCutoff(startTime, settings(), new Date('2024-03-04T20:00:00Z'))).toEqual({
+      reason: 'idle_limit',
+      cutoff: new Date('2024-03-04T19:00:00Z'),
+    })
+  })
+
+  it('flags timers running past the end of the day first when that comes earlier', () => {
+    expect(findIdleCutoff(startTime, settings({ workdayEnd: '18:00' }), new Date('2024-03-04T20:00:00Z'))).toEqual({
+      reason: 'end_of_day',
+      cutoff: new Date('2024-03-04T18:00:00Z'),
+    })
+  })
+
+  it('never flags timers when both checks are disabled', () => {
+    expect(findIdleCutoff(startTime, settings({ idleTimerHours: null }), new Date('2024-03-10T00:00:00Z'))).toBeNull()
+  })
+})
+
+describe('IdleTimerService.checkIdleTimers', () => {
+  const now = new Date('2024-03-04T21:00:00Z')
+  const timeEntry = {
+    id: 'entry-1',
+    userId: 'user-1',
+    projectId: 'project-1',
+    description: 'Refactoring',
+    startTime: new Date('2024-03-04T09:00:00Z'),
+    updatedAt: new Date('2024-03-04T09:00:00Z'),
+  }
+
+  let service: IdleTimerService
+  let updateSet: jest.Mock
+
+  const mockCandidates = (rows: unknown[]) => {
+    mockDb.select.mockReturnValueOnce({
+      from: () => ({
+        innerJoin: () => ({
+          leftJoin: () => ({
+            where: () => Promise.resolve(rows),
+          }),
+        }),
+      }),
+    })
+  }
+
+  const mockLastActivity = (breaks: unknown[], lastUpdatedAt: Date | null) => {
+    const otherEntriesWhere = jest.fn().mockResolvedValue([{ lastUpdatedAt }])
+    mockDb.select
+      .mockReturnValueOnce({ from: () => ({ where: () => Promise.resolve(breaks) }) })
+      .mockReturnValueOnce({ from: () => ({ where: otherEntriesWhere }) })
+    return otherEntriesWhere
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new IdleTimerService()
+    updateSet = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) })
+    mockDb.update.mockReturnValue({ set: updateSet })
+  })
+
+  it('notifies about forgotten timers and marks them as notified', async () => {
+    mockCandidates([{ timeEntry, projectName: 'Website', settings: null }])
+
+    const result = await service.checkIdleTimers(now)
+
+    expect(result).toEqual({ notified: 1, stopped: 0 })
+    expect(mockStopTimeTracking).not.toHaveBeenCalled()
+    expect(mockNotify).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      type: 'idle_timer',
+      projectId: 'project-1',
+      title: 'Timer for Website is still running',
+    }))
+    expect(updateSet).toHaveBeenCalledWith({ idleNotifiedAt: now })
+  })
+
+  it('leaves timers within their limits alone', async () => {
+    mockCandidates([{ timeEntry, projectName: 'Website', settings: settings({ idleTimerHours: 24 }) }])
+
+    const result = await service.checkIdleTimers(now)
+
+    expect(result).toEqual({ notified: 0, stopped: 0 })
+    expect(mockNotify).not.toHaveBeenCalled()
+  })
+
+  it('auto-stops at the last activity when the user opted in', async () => {
+    mockCandidates([{ timeEntry, projectName: 'Website', settings: settings({ autoStopIdleTimers: true }) }])
+    mockLastActivity(
+      [{ startTime: new Date('2024-03-04T12:00:00Z'), endTime: new Date('2024-03-04T13:00:00Z') }],
+      new Date('2024-03-04T16:45:00Z')
+    )
+    mockStopTimeTracking.mockResolvedValueOnce({ ...timeEntry, durationMinutes: 405 })
+
+    const result = await service.checkIdleTimers(now)
+
+    expect(result).toEqual({ notified: 1, stopped: 1 })
+    expect(mockStopTimeTracking).toHaveBeenCalledWith('user-1', 'entry-1', {
+      endTime: new Date('2024-03-04T16:45:00Z'),
+      automatic: true,
+    })
+    expect(mockNotify).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      title: 'Timer for Website was stopped automatically',
+    }))
+  })
+
+  it('auto-stops at the cutoff when there was no activity since the timer started', async () => {
+    mockCandidates([{ timeEntry, projectName: 'Website', settings: settings({ autoStopIdleTimers: true, workdayEnd: '17:00' }) }])
+    mockLastActivity([], null)
+    mockStopTimeTracking.mockResolvedValueOnce({ ...timeEntry, durationMinutes: 480 })
+
+    await service.checkIdleTimers(now)
+
+    expect(mockStopTimeTracking).toHaveBeenCalledWith('user-1', 'entry-1', {
+      endTime: new Date('2024-03-04T17:00:00Z'),
+      automatic: true,
+    })
+  })
+
+  it('does not count entries the system wrote as activity', async () => {
+    mockCandidates([{ timeEntry, projectName: 'Website', settings: settings({ autoStopIdleTimers: true }) }])
+    const otherEntriesWhere = mockLastActivity([], null)
+    mockStopTimeTracking.mockResolvedValueOnce({ ...timeEntry, durationMinutes: 600 })
+
+    await service.checkIdleTimers(now)
+
+    const { sql } = new PgDialect().sqlToQuery(otherEntriesWhere.mock.calls[0][0])
+    expect(sql).toContain('"time_entries"."auto_stopped" = $')
+    expect(sql).toContain('"time_entries"."recurring_template_id" is null')
+  })
+})
@@ -0,0 +1,164 @@
+// Mock the database connection first
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('mock-id'),
+}))
+
+import ExcelJS from 'exceljs'
+import {
+  parseCsv,
+  readImportFile,
+  detectImportFormat,
+  mapImportRecords,
+  parseImportDateTime,
+  parseImportHours,
+} from '@/lib/services/import-formats'
+import { ServiceError } from '@/lib/services/errors'
+
+describe('Import formats', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted fields, escaped quotes and embedded newlines', () => {
+      const rows = parseCsv('﻿Project,Description\r\n"Web, Inc","Said ""hi""\nthen left"\r\n\r\nApp,Plain\n')
+
+      expect(rows).toEqual([
+        ['Project', 'Description'],
+        ['Web, Inc', 'Said "hi"\nthen left'],
+        ['App', 'Plain'],
+      ])
+    })
+
+    it('should detect semicolon delimiters', () => {
+      expect(parseCsv('Project;Hours\nWeb;1,5')).toEqual([['Project', 'Hours'], ['Web', '1,5']])
+    })
+  })
+
+  describe('detectImportFormat', () => {
+    it('should recognise each export by its columns', () => {
+      expect(detectImportFormat(['User', 'Client', 'Project', 'Description', 'Start date', 'Start time', 'End date', 'End time'])).toBe('toggl')
+      expect(detectImportFormat(['Date', 'Client', 'Project', 'Task', 'Notes', 'Hours'])).toBe('harvest')
+      expect(detectImportFormat(['Project', 'Client', 'Description', 'Start Date', 'Start Time', 'End Date', 'End Time', 'Duration (decimal)'])).toBe('clockify')
+      expect(detectImportFormat(['project', 'description', 'start', 'end'])).toBe('generic')
+      expect(detectImportFormat(['Foo', 'Bar'])).toBeNull()
+    })
+  })
+
+  describe('parseImportDateTime', () => {
+    it('should parse supported date and time notations as UTC', () => {
+      expect(parseImportDateTime('2024-03-15', '09:30:00')).toEqual(new Date('2024-03-15T09:30:00Z'))
+      expect(parseImportDateTime('03/15/2024', '01:15 PM')).toEqual(new Date('2024-03-15T13:15:00Z'))
+      expect(parseImportDateTime('15.03.2024')).toEqual(new Date('2024-03-15T00:00:00Z'))
+      expect(parseImportDateTime('2024-03-15T10:00:00+02:00')).toEqual(new Date('2024-03-15T08:00:00Z'))
+    })
+
+    it('should reject invalid dates', () => {
+      expect(parseImportDateTime('02/30/2024')).toBeNull()
+      expect(parseImportDateTime('yesterday')).toBeNull()
+      expect(parseImportDateTime('2024-03-15', '25h')).toBeNull()
+    })
+  })
+
+  describe('parseImportHours', () => {
+    it('should parse decimal hours and hours with minutes', () => {
+      expect(parseImportHours('1.5')).toBe(1.5)
+      expect(parseImportHours('1,25')).toBe(1.25)
+      expect(parseImportHours('2:30')).toBe(2.5)
+      expect(parseImportHours('abc')).toBeNull()
+    })
+  })
+
+  describe('mapImportRecords', () => {
+    it('should map Toggl rows with tags and billable flags', () => {
+      const { rows, errors } = mapImportRecords([
+        {
+          Client: 'Acme',
+          Project: 'Website',
+          Description: 'Homepage',
+          Tags: 'Design, Meeting',
+          Billable: 'Yes',
+          'Start date': '2024-03-15',
+          'Start time': '09:00:00',
+          'End date': '2024-03-15',
+          'End time': '10:30:00',
+        },
+      ], 'toggl')
+
+      expect(errors).toEqual([])
+      expect(rows).toEqual([{
+        rowNumber: 2,
+        clientName: 'Acme',
+        projectName: 'Website',
+        description: 'Homepage',
+        startTime: new Date('2024-03-15T09:00:00Z'),
+        endTime: new Date('2024-03-15T10:30:00Z'),
+        tags: ['design', 'meeting'],
+        billable: true,
+      }])
+    })
+
+    it('should place Harvest entries of a day back to back from 09:00', () => {
+      const { rows } = mapImportRecords([
+        { Date: '2024-03-15', Client: 'Acme', Project: 'Website', Task: 'Design', Notes: '', Hours: '2' },
+        { Date: '2024-03-15', Client: 'Acme', Project: 'Website', Task: 'Dev', Notes: 'API work', Hours: '1:30' },
+      ], 'harvest')
+
+      expect(rows.map(row => [row.description, row.startTime.toISOString(), row.endTime.toISOString()])).toEqual([
+        ['Design', '2024-03-15T09:00:00.000Z', '2024-03-15T11:00:00.000Z'],
+        ['API work', '2024-03-15T11:00:00.000Z', '2024-03-15T12:30:00.000Z'],
+      ])
+      expect(rows[0].billable).toBeNull()
+    })
+
+    it('should report rows that cannot be mapped', () => {
+      const { rows, errors } = mapImportRecords([
+        { project: '', start: '2024-03-15T09:00:00Z', end: '2024-03-15T10:00:00Z' },
+        { project: 'Website', start: 'soon', end: '2024-03-15T10:00:00Z' },
+        { project: 'Website', start: '2024-03-15T10:00:00Z', end: '2024-03-15T09:00:00Z' },
+        { project: 'Website', start: '2024-03-15T10:00:00Z' },
+      ], 'generic')
+
+      expect(rows).toEqual([])
+      expect(errors).toEqual([
+        { rowNumber: 2, message: 'Project is required' },
+        { rowNumber: 3, message: 'Invalid start date or time: "soon"' },
+        { rowNumber: 4, message: 'End time must be after start time' },
+        { rowNumber: 5, message: 'An end time or hours are required' },
+      ])
+    })
+  })
+
+  describe('readImportFile', () => {
+    it('should read JSON arrays and entries objects', async () => {
+      const records = await readImportFile(
+        Buffer.from(JSON.stringify({ entries: [{ project: 'Website', hours: 2, tags: ['a', 'b'] }] })),
+        'json'
+      )
+
+      expect(records).toEqual([{ project: 'Website', hours: '2', tags: 'a, b' }])
+    })
+
+    it('should reject JSON without entries', async () => {
+      await expect(readImportFile(Buffer.from('{"foo": 1}'), 'json')).rejects.toThrow('JSON imports must be an array')
+    })
+
+    it('should read the first worksheet of an XLSX file', async () => {
+      const workbook = new ExcelJS.Workbook()
+      const sheet = workbook.addWorksheet('Report')
+      sheet.addRow(['Project', 'Start date', 'Hours'])
+      sheet.addRow(['Website', new Date('2024-03-15T00:00:00Z'), 1.5])
+      const content = Buffer.from(await workbook.xlsx.writeBuffer())
+
+      const records = await readImportFile(content, 'xlsx')
+
+      expect(records).toEqual([{ Project: 'Website', 'Start date': '2024-03-15', Hours: '1.5' }])
+    })
+
+    it('should report unreadable files as a problem with the file', async () => {
+      await expect(readImportFile(Buffer.from('not a workbook'), 'xlsx')).rejects.toThrow(ServiceError)
+      await expect(readImportFile(Buffer.from('{'), 'json')).rejects.toThrow('The file is not valid JSON')
+    })
+  })
+})
@@ -0,0 +1,62 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {},
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+import { buildInvoiceLines, formatInvoiceNumber } from '@/lib/services/invoices'
+
+const entry = (projectId: string, name: string, hourlyRate: string | null, durationMinutes: number) => ({
+  timeEntry: { id: `${projectId}-${durationMinutes}`, projectId, durationMinutes } as any,
+  project: { id: projectId, name, hourlyRate } as any,
+})
+
+describe('buildInvoiceLines', () => {
+  it('should group time by project, sorted by project name', () => {
+    const result = buildInvoiceLines([
+      entry('p2', 'Website', '80.00', 90),
+      entry('p1', 'Audit', '100.00', 60),
+      entry('p2', 'Website', '80.00', 30),
+    ])
+
+    expect(result.lines).toEqual([
+      expect.objectContaining({ type: 'time', projectId: 'p1', quantity: '1.00', unitPrice: '100.00', amount: '100.00', sortOrder: 0 }),
+      expect.objectContaining({ type: 'time', projectId: 'p2', quantity: '2.00', unitPrice: '80.00', amount: '160.00', sortOrder: 1 }),
+    ])
+    expect(result.subtotal).toBe('260.00')
+    expect(result.total).toBe('260.00')
+  })
+
+  it('should apply tax on the discounted subtotal', () => {
+    const result = buildInvoiceLines(
+      [entry('p1', 'Audit', '100.00', 600)],
+      { discountPercent: 10, taxRate: 20, taxLabel: 'VAT' }
+    )
+
+    expect(result.lines.map(line => [line.type, line.description, line.amount])).toEqual([
+      ['time', 'Audit', '1000.00'],
+      ['discount', 'Discount (10%)', '-100.00'],
+      ['tax', 'VAT (20%)', '180.00'],
+    ])
+    expect(result.discountTotal).toBe('100.00')
+    expect(result.taxTotal).toBe('180.00')
+    expect(result.total).toBe('1080.00')
+  })
+
+  it('should round partial hours to the cent', () => {
+    const result = buildInvoiceLines([entry('p1', 'Audit', '95.00', 20)])
+
+    expect(result.lines[0].quantity).toBe('0.33')
+    expect(result.subtotal).toBe('31.67')
+  })
+})
+
+describe('formatInvoiceNumber', () => {
+  it('should zero-pad the sequence', () => {
+    expect(formatInvoiceNumber(2024, 7)).toBe('INV-2024-0007')
+    expect(formatInvoiceNumber(2025, 12345)).toBe('INV-2025-12345')
+  })
+})
@@ -0,0 +1,129 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+  },
+}))
+
+const mockListProjects = jest.fn()
+jest.mock('@/lib/services/projects', () => ({
+  ProjectService: jest.fn().mockImplementation(() => ({
+    listProjects: (...args: unknown[]) => mockListProjects(...args),
+  })),
+}))
+
+const mockListClients = jest.fn()
+jest.mock('@/lib/services/clients', () => ({
+  ClientService: jest.fn().mockImplementation(() => ({
+    listClients: (...args: unknown[]) => mockListClients(...args),
+  })),
+}))
+
+import { scoreName, rankByName, pickBestMatch, NameResolver } from '@/lib/services/name-resolver'
+
+const userId = 'user-1'
+
+const project = (id: string, name: string, clientId: string, overrides: Record<string, unknown> = {}) => ({
+  id, name, clientId, userId, active: true, ...overrides,
+})
+
+describe('scoreName', () => {
+  it('ignores case, accents and punctuation for exact matches', () => {
+    expect(scoreName('cafe-website', 'Café Website')).toBe(1)
+  })
+
+  it('ranks prefixes above word prefixes above typos', () => {
+    const prefix = scoreName('acme', 'Acme Website')
+    const words = scoreName('acm web', 'Acme Website')
+    const typo = scoreName('acme websit', 'Acme Webstie')
+
+    expect(prefix).toBeGreaterThan(words)
+    expect(words).toBeGreaterThan(typo)
+    expect(typo).toBeGreaterThanOrEqual(0.5)
+  })
+
+  it('scores unrelated names low', () => {
+    expect(scoreName('payroll', 'Acme Website')).toBeLessThan(0.5)
+  })
+})
+
+describe('pickBestMatch', () => {
+  const names = ['Website', 'Website Redesign', 'Mobile App']
+  const pick = (query: string) => pickBestMatch(rankByName(query, names, name => name), 'project', query, name => name)
+
+  it('picks the only exact match over prefix matches', () => {
+    expect(pick('website')).toBe('Website')
+  })
+
+  it('picks a match clearly better than the rest', () => {
+    expect(pick('mobil ap')).toBe('Mobile App')
+  })
+
+  it('lists the candidates when several match about as well', () => {
+    expect(() => pick('web')).toThrow('The project name "web" is ambiguous. Candidates: Website; Website Redesign. Pass the projectId or a more specific name.')
+  })
+
+  it('reports names nothing matches', () => {
+    expect(() => pick('payroll')).toThrow('No project matches "payroll"')
+  })
+})
+
+describe('NameResolver', () => {
+  const resolver = new NameResolver()
+
+  beforeEach(() => {
+    mockListProjects.mockResolvedValue([
+      project('project-1', 'Website', 'client-1'),
+      project('project-2', 'Website', 'client-2'),
+      project('project-3', 'Support', 'client-2'),
+      project('project-4', 'Website Relaunch', 'client-3', { userId: 'someone-else' }),
+    ])
+    mockListClients.mockResolvedValue([
+      { id: 'client-1', name: 'Acme', active: true },
+      { id: 'client-2', name: 'Globex', active: true },
+      { id: 'client-3', name: 'Initech', active: false },
+    ])
+  })
+
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('passes IDs through without looking anything up', async () => {
+    await expect(resolver.resolveProjectId(userId, { projectId: 'project-9', projectName: 'Website' })).resolves.toBe('project-9')
+    expect(mockListProjects).not.toHaveBeenCalled()
+  })
+
+  it('lists same-named projects of different clients with their clients', async () => {
+    await expect(resolver.resolveProjectId(userId, { projectName: 'website' }))
+      .rejects.toThrow('Candidates: Website (Acme, ID: project-1); Website (Globex, ID: project-2)')
+  })
+
+  it('narrows projects down by client name', async () => {
+    await expect(resolver.resolveProjectId(userId, { projectName: 'website', clientName: 'globx' })).resolves.toBe('project-2')
+  })
+
+  it("picks a client's only project from the client name alone", async () => {
+    await expect(resolver.findProjectId(userId, { clientName: 'acme' })).resolves.toBe('project-1')
+  })
+
+  it("only matches the user's own projects", async () => {
+    await expect(resolver.resolveProjectId(userId, { projectName: 'relaunch' })).rejects.toThrow('No project matches "relaunch"')
+  })
+
+  it('looks up active projects unless asked for inactive ones too', async () => {
+    await resolver.resolveProjectId(userId, { projectName: 'support' })
+    await resolver.resolveProjectId(userId, { projectName: 'support' }, { includeInactive: true })
+
+    expect(mockListProjects).toHaveBeenNthCalledWith(1, userId, undefined, true)
+    expect(mockListProjects).toHaveBeenNthCalledWith(2, userId, undefined, false)
+  })
+
+  it('returns undefined when nothing is named and requires a name when resolving', async () => {
+    await expect(resolver.findProjectId(userId, {})).resolves.toBeUndefined()
+    await expect(resolver.resolveClientId(userId, {})).rejects.toThrow('Give a clientId or clientName')
+  })
+
+  it('resolves clients by name, inactive ones included', async () => {
+    await expect(resolver.resolveClientId(userId, { clientName: 'initech' })).resolves.toBe('client-3')
+  })
+})
@@ -0,0 +1,162 @@
+const mockTx = {
+  select: jest.fn().mockReturnThis(),
+  from: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  orderBy: jest.fn(),
+  update: jest.fn().mockReturnThis(),
+  set: jest.fn().mockReturnThis(),
+  insert: jest.fn().mockReturnThis(),
+  values: jest.fn().mockReturnThis(),
+  returning: jest.fn(),
+}
+
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn().mockReturnThis(),
+    from: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    limit: jest.fn(),
+    transaction: jest.fn((callback: (tx: unknown) => unknown) => callback(mockTx)),
+  },
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+import { RateCardService, resolveRate, getRateScope } from '@/lib/services/rate-cards'
+import { db } from '@/drizzle/connection'
+
+const mockDb = db as any
+
+const card = (overrides: Record<string, unknown>) => ({
+  id: 'rate-1',
+  scope: 'project' as const,
+  clientId: null,
+  projectId: 'project-1',
+  userId: null,
+  hourlyRate: '100.00',
+  currency: 'USD',
+  validFrom: new Date(0),
+  validTo: null,
+  createdBy: 'user_admin',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+}) as any
+
+const lookup = (at: string, userId = 'user_123') => ({
+  userId,
+  projectId: 'project-1',
+  clientId: 'client-1',
+  at: new Date(at),
+})
+
+describe('resolveRate', () => {
+  const cards = [
+    card({ id: 'client-rate', scope: 'client', clientId: 'client-1', projectId: null, hourlyRate: '80.00' }),
+    card({ id: 'project-old', hourlyRate: '100.00', validTo: new Date('2024-03-01T00:00:00Z') }),
+    card({ id: 'project-new', hourlyRate: '120.00', validFrom: new Date('2024-03-01T00:00:00Z') }),
+    card({
+      id: 'member-rate',
+      scope: 'member',
+      userId: 'user_senior',
+      hourlyRate: '150.00',
+      validFrom: new Date('2024-02-01T00:00:00Z'),
+      validTo: new Date('2024-04-01T00:00:00Z'),
+    }),
+  ]
+
+  it('should use the project rate valid at the entry start', () => {
+    expect(resolveRate(cards, lookup('2024-02-15T10:00:00Z'))?.id).toBe('project-old')
+    expect(resolveRate(cards, lookup('2024-03-01T00:00:00Z'))?.id).toBe('project-new')
+  })
+
+  it('should prefer a member override while it is valid', () => {
+    expect(resolveRate(cards, lookup('2024-02-15T10:00:00Z', 'user_senior'))?.id).toBe('member-rate')
+    expect(resolveRate(cards, lookup('2024-04-15T10:00:00Z', 'user_senior'))?.id).toBe('project-new')
+  })
+
+  it('should fall back to the client default', () => {
+    expect(resolveRate(cards.filter(c => c.scope === 'client'), lookup('2024-02-15T10:00:00Z'))?.id).toBe('client-rate')
+    expect(resolveRate([], lookup('2024-02-15T10:00:00Z'))).toBeNull()
+  })
+})
+
+describe('getRateScope', () => {
+  it('should derive the scope from the target', () => {
+    expect(getRateScope({ clientId: 'client-1' })).toBe('client')
+    expect(getRateScope({ clientId: 'client-1', projectId: 'project-1' })).toBe('project')
+    expect(getRateScope({ projectId: 'project-1', userId: 'user_123' })).toBe('member')
+  })
+
+  it('should reject incomplete targets', () => {
+    expect(() => getRateScope({ userId: 'user_123' })).toThrow('A member rate requires a projectId')
+    expect(() => getRateScope({})).toThrow('A rate requires a clientId or projectId')
+  })
+})
+
+describe('RateCardService.setRate', () => {
+  const rateCardService = new RateCardService()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.limit.mockResolvedValue([{ id: 'project-1', currency: 'EUR' }])
+  })
+
+  it('should end the running rate where the new one starts', async () => {
+    const running = card({ id: 'project-old' })
+    mockTx.orderBy.mockResolvedValueOnce([running])
+    mockTx.returning.mockResolvedValueOnce([card({ id: 'test-generated-id', hourlyRate: '120' })])
+
+    await rateCardService.setRate('user_admin', {
+      projectId: 'project-1',
+      hourlyRate: 120,
+      validFrom: new Date('2024-03-01T00:00:00Z'),
+    })
+
+    expect(mockTx.set).toHaveBeenCalledWith(expect.objectContaining({ validTo: new Date('2024-03-01T00:00:00Z') }))
+    expect(mockTx.values).toHaveBeenCalledTimes(1)
+    expect(mockTx.values).toHaveBeenCalledWith(expect.objectContaining({
+      scope: 'project',
+      projectId: 'project-1',
+      hourlyRate: '120',
+      currency: 'EUR',
+      validTo: null,
+    }))
+  })
+
+  it('should resume the running rate after a temporary override', async () => {
+    mockTx.orderBy.mockResolvedValueOnce([card({ id: 'project-old' })])
+    mockTx.returning.mockResolvedValueOnce([card({ id: 'test-generated-id' })])
+
+    await rateCardService.setRate('user_admin', {
+      projectId: 'project-1',
+      hourlyRate: 90,
+      validFrom: new Date('2024-03-01T00:00:00Z'),
+      validTo: new Date('2024-04-01T00:00:00Z'),
+    })
+
+    expect(mockTx.values).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      hourlyRate: '100.00',
+      validFrom: new Date('2024-04-01T00:00:00Z'),
+      validTo: null,
+    }))
+    expect(mockTx.values).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      hourlyRate: '90',
+      validTo: new Date('2024-04-01T00:00:00Z'),
+    }))
+  })
+
+  it('should reject a bounded rate overlapping a later one', async () => {
+    mockTx.orderBy.mockResolvedValueOnce([card({ id: 'project-new', validFrom: new Date('2024-03-15T00:00:00Z') })])
+
+    await expect(rateCardService.setRate('user_admin', {
+      projectId: 'project-1',
+      hourlyRate: 90,
+      validFrom: new Date('2024-03-01T00:00:00Z'),
+      validTo: new Date('2024-04-01T00:00:00Z'),
+    })).rejects.toThrow('Rate overlaps an existing rate starting on 2024-03-15')
+  })
+})
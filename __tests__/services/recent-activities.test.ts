@@ -0,0 +1,88 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+  },
+}))
+
+import { rankActivities, RecentActivityService } from '@/lib/services/recent-activities'
+import { db } from '@/drizzle/connection'
+
+const mockDb = db as any
+
+const now = new Date('2024-03-15T12:00:00Z')
+
+const activity = (overrides: Record<string, unknown> = {}) => ({
+  projectId: 'project-1',
+  projectName: 'Website',
+  clientName: 'Acme',
+  description: 'Homepage',
+  lastUsedAt: new Date('2024-03-15T09:00:00Z'),
+  useCount: 1,
+  totalMinutes: 60,
+  ...overrides,
+})
+
+describe('rankActivities', () => {
+  it('ranks frequent work above one-off work from the same day', () => {
+    const ranked = rankActivities([
+      activity({ description: 'One-off' }),
+      activity({ description: 'Daily', useCount: 5 }),
+    ], now)
+
+    expect(ranked.map(item => item.description)).toEqual(['Daily', 'One-off'])
+    expect(ranked[0].favourite).toBe(true)
+    expect(ranked[1].favourite).toBe(false)
+  })
+
+  it('lets recent work overtake frequent work from weeks ago', () => {
+    const ranked = rankActivities([
+      activity({ description: 'Old project', useCount: 6, lastUsedAt: new Date('2024-02-09T12:00:00Z') }),
+      activity({ description: 'Yesterday', lastUsedAt: new Date('2024-03-14T12:00:00Z') }),
+    ], now)
+
+    expect(ranked.map(item => item.description)).toEqual(['Yesterday', 'Old project'])
+  })
+
+  it('halves the score each week', () => {
+    const [ranked] = rankActivities([activity({ useCount: 4, lastUsedAt: new Date('2024-03-08T12:00:00Z') })], now)
+
+    expect(ranked.score).toBe(2)
+  })
+})
+
+describe('RecentActivityService.getRecentActivities', () => {
+  let groupBy: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    groupBy = jest.fn()
+    mockDb.select.mockReturnValue({
+      from: () => ({
+        innerJoin: () => ({
+          innerJoin: () => ({
+            where: () => ({ groupBy }),
+          }),
+        }),
+      }),
+    })
+  })
+
+  it('converts aggregates and returns the best ranked pairs up to the limit', async () => {
+    groupBy.mockResolvedValue([
+      { ...activity({ description: 'A' }), lastUsedAt: '2024-03-01T09:00:00Z', useCount: '2', totalMinutes: '120' },
+      { ...activity({ description: 'B' }), lastUsedAt: '2024-03-15T08:00:00Z', useCount: '3', totalMinutes: '90' },
+    ])
+
+    const activities = await new RecentActivityService().getRecentActivities('user-1', { now, limit: 1 })
+
+    expect(activities).toEqual([
+      expect.objectContaining({
+        description: 'B',
+        lastUsedAt: new Date('2024-03-15T08:00:00Z'),
+        useCount: 3,
+        totalMinutes: 90,
+        favourite: true,
+      }),
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import { parseRecurrenceRule, listOccurrences, describeRecurrenceRule, addDays } from '@/lib/services/recurrence'
+
+describe('parseRecurrenceRule', () => {
+  it('parses the supported parts with or without the RRULE prefix', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=6')).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      byDay: [1, 5],
+      byMonthDay: [],
+      count: 6,
+      until: null,
+    })
+    expect(parseRecurrenceRule('freq=monthly;bymonthday=-1;until=20241231').until).toBe('2024-12-31')
+  })
+
+  it('rejects rules outside the supported subset', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow('FREQ must be DAILY, WEEKLY or MONTHLY')
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('Unsupported recurrence rule parts: BYSETPOS')
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1MO')).toThrow('Unsupported BYDAY value: 1MO')
+    expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20241231')).toThrow('Use either COUNT or UNTIL, not both')
+    expect(() => parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toThrow('INTERVAL must be a positive whole number')
+  })
+})
+
+describe('listOccurrences', () => {
+  it('lists weekdays of a weekly rule within the range', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,WE,FR')
+
+    // 2024-03-04 is a Monday
+    expect(listOccurrences(rule, '2024-03-04', '2024-03-06', '2024-03-11')).toEqual(['2024-03-06', '2024-03-08', '2024-03-11'])
+  })
+
+  it('skips weeks for weekly intervals, counting weeks from Monday', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU')
+
+    expect(listOccurrences(rule, '2024-03-04', '2024-03-01', '2024-03-31')).toEqual(['2024-03-05', '2024-03-19'])
+  })
+
+  it('uses the weekday or day of month of the first day when none is given', () => {
+    expect(listOccurrences(parseRecurrenceRule('FREQ=WEEKLY'), '2024-03-06', '2024-03-01', '2024-03-20')).toEqual(['2024-03-06', '2024-03-13', '2024-03-20'])
+    expect(listOccurrences(parseRecurrenceRule('FREQ=MONTHLY'), '2024-01-15', '2024-01-01', '2024-03-31')).toEqual(['2024-01-15', '2024-02-15', '2024-03-15'])
+  })
+
+  it('counts negative month days back from the end of the month', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1')
+
+    expect(listOccurrences(rule, '2024-01-01', '2024-01-01', '2024-03-31')).toEqual(['2024-01-31', '2024-02-29', '2024-03-31'])
+  })
+
+  it('counts COUNT from the first day, including occurrences before the range', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;COUNT=3')
+
+    expect(listOccurrences(rule, '2024-03-01', '2024-03-02', '2024-03-10')).toEqual(['2024-03-02', '2024-03-03'])
+  })
+
+  it('stops at UNTIL and never before the first day', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20240303')
+
+    expect(listOccurrences(rule, '2024-03-01', '2024-02-20', '2024-03-10')).toEqual(['2024-03-01', '2024-03-02', '2024-03-03'])
+  })
+})
+
+describe('describeRecurrenceRule', () => {
+  it('summarises a rule', () => {
+    expect(describeRecurrenceRule(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4'))).toBe('every 2 weeks on MO, WE, 4 times')
+    expect(describeRecurrenceRule(parseRecurrenceRule('FREQ=DAILY'))).toBe('every day')
+  })
+})
+
+describe('addDays', () => {
+  it('moves across month and year ends', () => {
+    expect(addDays('2024-02-28', 2)).toBe('2024-03-01')
+    expect(addDays('2025-01-01', -1)).toBe('2024-12-31')
+  })
+})
@@ -0,0 +1,258 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+  },
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+const mockAddManualTimeEntry = jest.fn()
+jest.mock('@/lib/services/time-entries', () => ({
+  TimeEntryService: jest.fn().mockImplementation(() => ({
+    addManualTimeEntry: (...args: unknown[]) => mockAddManualTimeEntry(...args),
+  })),
+}))
+
+const mockAssertTaskForEntry = jest.fn()
+jest.mock('@/lib/services/tasks', () => ({
+  TaskService: jest.fn().mockImplementation(() => ({
+    assertTaskForEntry: (...args: unknown[]) => mockAssertTaskForEntry(...args),
+  })),
+}))
+
+import { getLocalDate, getOccurrenceTimes, RecurringTemplateService } from '@/lib/services/recurring-templates'
+import { ServiceError } from '@/lib/services/errors'
+import { db } from '@/drizzle/connection'
+
+const mockDb = db as any
+
+const template = (overrides: Record<string, unknown> = {}) => ({
+  id: 'template-1',
+  userId: 'user-1',
+  projectId: 'project-1',
+  description: 'Stand-up',
+  rrule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+  startsOn: '2024-03-01',
+  startTime: '09:00',
+  durationMinutes: 15,
+  timeZone: 'UTC',
+  billable: null,
+  taskId: null,
+  entryStatus: 'draft',
+  active: true,
+  materialisedThrough: '2024-03-03',
+  createdAt: new Date('2024-03-01T00:00:00Z'),
+  updatedAt: new Date('2024-03-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('getLocalDate', () => {
+  it('returns the day in the time zone', () => {
+    expect(getLocalDate(new Date('2024-03-04T23:30:00Z'), 'UTC')).toBe('2024-03-04')
+    expect(getLocalDate(new Date('2024-03-04T23:30:00Z'), 'Asia/Tokyo')).toBe('2024-03-05')
+  })
+})
+
+describe('getOccurrenceTimes', () => {
+  it('reads the start time in the template time zone', () => {
+    expect(getOccurrenceTimes(template({ timeZone: 'Europe/Berlin' }) as any, '2024-07-04')).toEqual({
+      description: 'Stand-up',
+      startTime: new Date('2024-07-04T07:00:00Z'),
+      endTime: new Date('2024-07-04T07:15:00Z'),
+    })
+  })
+
+  it('applies an override', () => {
+    expect(getOccurrenceTimes(template() as any, '2024-03-04', { description: 'Planning', startTime: '10:30', durationMinutes: null })).toEqual({
+      description: 'Planning',
+      startTime: new Date('2024-03-04T10:30:00Z'),
+      endTime: new Date('2024-03-04T10:45:00Z'),
+    })
+  })
+})
+
+describe('RecurringTemplateService', () => {
+  let service: RecurringTemplateService
+  let updateSet: jest.Mock
+
+  const mockSelectWhere = (rows: unknown[]) => {
+    mockDb.select.mockReturnValueOnce({ from: () => ({ where: () => Promise.resolve(rows) }) })
+  }
+
+  const mockSelectOne = (rows: unknown[]) => {
+    mockDb.select.mockReturnValueOnce({ from: () => ({ where: () => ({ limit: () => Promise.resolve(rows) }) }) })
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new RecurringTemplateService()
+    updateSet = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) })
+    mockDb.update.mockReturnValue({ set: updateSet })
+  })
+
+  describe('materialiseDue', () => {
+    it('logs ended occurrences as drafts and stops at one still to come', async () => {
+      mockSelectWhere([template()])
+      mockSelectWhere([])
+      mockSelectWhere([])
+      mockAddManualTimeEntry.mockResolvedValue({ id: 'entry-1' })
+
+      // Wednesday's stand-up hasn't ended yet
+      const result = await service.materialiseDue(new Date('2024-03-06T09:05:00Z'))
+
+      expect(result).toEqual({ created: 1, skipped: 0, failed: 0 })
+      expect(mockAddManualTimeEntry).toHaveBeenCalledTimes(1)
+      expect(mockAddManualTimeEntry).toHaveBeenCalledWith(
+        'user-1',
+        'project-1',
+        'Stand-up',
+        new Date('2024-03-04T09:00:00Z'),
+        new Date('2024-03-04T09:15:00Z'),
+        { billable: undefined, taskId: undefined, draft: true, recurringTemplateId: 'template-1', recurringOccurrenceDate: '2024-03-04' }
+      )
+      expect(updateSet).toHaveBeenCalledWith({ materialisedThrough: '2024-03-05' })
+    })
+
+    it('skips and overrides occurrences, counting failures without stopping', async () => {
+      mockSelectWhere([template({ entryStatus: 'confirmed' })])
+      mockSelectWhere([
+        { occurrenceDate: '2024-03-04', action: 'skip', description: null, startTime: null, durationMinutes: null },
+        { occurrenceDate: '2024-03-06', action: 'override', description: 'Retro', startTime: null, durationMinutes: 60 },
+      ])
+      mockSelectWhere([])
+      mockAddManualTimeEntry
+        .mockResolvedValueOnce({ id: 'entry-1' })
+        .mockRejectedValueOnce(new ServiceError('Time entry overlaps'))
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await service.materialiseDue(new Date('2024-03-08T12:00:00Z'))
+
+      expect(result).toEqual({ created: 1, skipped: 1, failed: 1 })
+      expect(mockAddManualTimeEntry).toHaveBeenNthCalledWith(
+        1,
+        'user-1',
+        'project-1',
+        'Retro',
+        new Date('2024-03-06T09:00:00Z'),
+        new Date('2024-03-06T10:00:00Z'),
+        expect.objectContaining({ draft: false })
+      )
+      expect(updateSet).toHaveBeenCalledWith({ materialisedThrough: '2024-03-08' })
+      consoleError.mockRestore()
+    })
+
+    it('retries occurrences that failed for a reason other than the entry itself', async () => {
+      mockSelectWhere([template()])
+      mockSelectWhere([])
+      mockSelectWhere([])
+      mockAddManualTimeEntry
+        .mockResolvedValueOnce({ id: 'entry-1' })
+        .mockRejectedValueOnce(new Error('Connection terminated'))
+        .mockResolvedValueOnce({ id: 'entry-3' })
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await service.materialiseDue(new Date('2024-03-08T12:00:00Z'))
+
+      expect(result).toEqual({ created: 2, skipped: 0, failed: 1 })
+      expect(updateSet).toHaveBeenCalledWith({ materialisedThrough: '2024-03-05' })
+      consoleError.mockRestore()
+    })
+
+    it('does not log an occurrence again', async () => {
+      mockSelectWhere([template({ materialisedThrough: '2024-03-01' })])
+      mockSelectWhere([])
+      mockSelectWhere([{ occurrenceDate: '2024-03-04' }])
+      mockAddManualTimeEntry.mockResolvedValue({ id: 'entry-2' })
+
+      const result = await service.materialiseDue(new Date('2024-03-06T12:00:00Z'))
+
+      expect(result).toEqual({ created: 1, skipped: 0, failed: 0 })
+      expect(mockAddManualTimeEntry).toHaveBeenCalledTimes(1)
+      expect(mockAddManualTimeEntry).toHaveBeenCalledWith(
+        'user-1',
+        'project-1',
+        'Stand-up',
+        new Date('2024-03-06T09:00:00Z'),
+        new Date('2024-03-06T09:15:00Z'),
+        expect.objectContaining({ recurringOccurrenceDate: '2024-03-06' })
+      )
+      expect(updateSet).toHaveBeenCalledWith({ materialisedThrough: '2024-03-06' })
+    })
+
+    it('does nothing for templates that start later', async () => {
+      mockSelectWhere([template({ startsOn: '2024-04-01', materialisedThrough: '2024-03-31' })])
+
+      const result = await service.materialiseDue(new Date('2024-03-08T12:00:00Z'))
+
+      expect(result).toEqual({ created: 0, skipped: 0, failed: 0 })
+      expect(mockDb.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createTemplate', () => {
+    it('rejects invalid rules and times before touching the database', async () => {
+      const input = { projectId: 'project-1', description: 'Stand-up', rrule: 'FREQ=DAILY', startTime: '09:00', durationMinutes: 15 }
+
+      await expect(service.createTemplate('user-1', { ...input, rrule: 'FREQ=HOURLY' })).rejects.toThrow('FREQ must be DAILY, WEEKLY or MONTHLY')
+      await expect(service.createTemplate('user-1', { ...input, startTime: '9am' })).rejects.toThrow('Start time must be in HH:MM format')
+      await expect(service.createTemplate('user-1', { ...input, timeZone: 'Mars/Olympus' })).rejects.toThrow('Unknown time zone: Mars/Olympus')
+      expect(mockDb.select).not.toHaveBeenCalled()
+    })
+
+    it('starts logging from today', async () => {
+      mockSelectOne([{ id: 'project-1' }])
+      const values = jest.fn().mockReturnValue({ returning: () => Promise.resolve([template()]) })
+      mockDb.insert.mockReturnValue({ values })
+
+      await service.createTemplate(
+        'user-1',
+        { projectId: 'project-1', description: ' Stand-up ', rrule: 'RRULE:FREQ=DAILY', startsOn: '2024-01-01', startTime: '09:00', durationMinutes: 15 },
+        new Date('2024-03-06T12:00:00Z')
+      )
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        description: 'Stand-up',
+        rrule: 'FREQ=DAILY',
+        startsOn: '2024-01-01',
+        timeZone: 'UTC',
+        entryStatus: 'draft',
+        materialisedThrough: '2024-03-05',
+      }))
+    })
+  })
+
+  describe('setOccurrenceException', () => {
+    it('rejects days the template does not occur on', async () => {
+      mockSelectOne([template()])
+
+      await expect(service.setOccurrenceException('user-1', 'template-1', '2024-03-05', null))
+        .rejects.toThrow('The template has no occurrence on 2024-03-05')
+    })
+
+    it('rejects occurrences that have already been logged', async () => {
+      mockSelectOne([template()])
+
+      await expect(service.setOccurrenceException('user-1', 'template-1', '2024-03-01', null))
+        .rejects.toThrow('has already been handled')
+    })
+
+    it('upserts a skip for the day', async () => {
+      mockSelectOne([template()])
+      const onConflictDoUpdate = jest.fn().mockReturnValue({ returning: () => Promise.resolve([{ id: 'exception-1' }]) })
+      const values = jest.fn().mockReturnValue({ onConflictDoUpdate })
+      mockDb.insert.mockReturnValue({ values })
+
+      await service.setOccurrenceException('user-1', 'template-1', '2024-03-06', null)
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ templateId: 'template-1', occurrenceDate: '2024-03-06', action: 'skip' }))
+      expect(onConflictDoUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        set: { action: 'skip', description: null, startTime: null, durationMinutes: null },
+      }))
+    })
+  })
+})
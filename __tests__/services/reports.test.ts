@@ -0,0 +1,135 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn().mockReturnThis(),
+    from: jest.fn().mockReturnThis(),
+    innerJoin: jest.fn().mockReturnThis(),
+    where: jest.fn(),
+  },
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+// Every entry is priced at 100 USD/hr
+jest.mock('@/lib/services/rate-cards', () => ({
+  RateCardService: jest.fn().mockImplementation(() => ({
+    createResolver: jest.fn().mockResolvedValue(() => ({ hourlyRate: '100.00', currency: 'USD' })),
+  })),
+}))
+
+import { getEarningsReport, compareToEstimate } from '@/lib/services/reports'
+import { calculateUtilisation } from '@/lib/services/time-entries'
+import { db } from '@/drizzle/connection'
+import { PgDialect } from 'drizzle-orm/pg-core'
+
+const mockDb = db as any
+
+const client = { id: 'client-1', name: 'Acme Corp', currency: 'USD' }
+const project = (overrides: Record<string, unknown> = {}) => ({
+  id: 'project-1',
+  name: 'Website',
+  clientId: 'client-1',
+  currency: 'USD',
+  billable: true,
+  ...overrides,
+})
+const row = (durationMinutes: number, billable: boolean | null, projectOverrides: Record<string, unknown> = {}) => ({
+  timeEntry: {
+    id: `entry-${durationMinutes}`,
+    userId: 'user-1',
+    startTime: new Date('2024-03-01T09:00:00Z'),
+    durationMinutes,
+    billable,
+  },
+  project: project(projectOverrides),
+  client,
+})
+
+describe('calculateUtilisation', () => {
+  it('returns the billable share as a percentage with one decimal', () => {
+    expect(calculateUtilisation(6, 8)).toBe(75)
+    expect(calculateUtilisation(1, 3)).toBe(33.3)
+  })
+
+  it('returns 0 when nothing was tracked', () => {
+    expect(calculateUtilisation(0, 0)).toBe(0)
+  })
+})
+
+describe('getEarningsReport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('only prices billable time and reports utilisation', async () => {
+    mockDb.where.mockResolvedValueOnce([
+      row(360, null),   // follows the billable project
+      row(120, false),  // overridden as non-billable
+    ])
+
+    const report = await getEarningsReport('user-1')
+
+    expect(report.items).toHaveLength(1)
+    expect(report.items[0]).toMatchObject({ totalHours: 8, billableHours: 6, earnings: 600 })
+    expect(report.totalHours).toBe(8)
+    expect(report.billableHours).toBe(6)
+    expect(report.nonBillableHours).toBe(2)
+    expect(report.utilisation).toBe(75)
+    expect(report.totalEarnings).toBe(600)
+  })
+
+  it('lets entries override a non-billable project', async () => {
+    mockDb.where.mockResolvedValueOnce([
+      row(60, null, { billable: false }),
+      row(90, true, { billable: false }),
+    ])
+
+    const report = await getEarningsReport('user-1')
+
+    expect(report.billableHours).toBe(1.5)
+    expect(report.nonBillableHours).toBe(1)
+    expect(report.totalEarnings).toBe(150)
+  })
+
+  it('leaves out drafts', async () => {
+    mockDb.where.mockResolvedValueOnce([])
+
+    await getEarningsReport('user-1')
+
+    const { sql, params } = new PgDialect().sqlToQuery(mockDb.where.mock.calls[0][0])
+    expect(sql).toContain('"time_entries"."is_draft" = $')
+    expect(params).toContain(false)
+  })
+})
+
+describe('compareToEstimate', () => {
+  it('reports remaining hours and usage within the estimate', () => {
+    expect(compareToEstimate(7.5, 10)).toEqual({
+      estimateHours: 10,
+      trackedHours: 7.5,
+      remainingHours: 2.5,
+      percentUsed: 75,
+      overBudget: false,
+    })
+  })
+
+  it('flags tracked time beyond the estimate', () => {
+    expect(compareToEstimate(12.25, 10)).toMatchObject({
+      remainingHours: -2.25,
+      percentUsed: 122.5,
+      overBudget: true,
+    })
+  })
+
+  it('never flags work without an estimate', () => {
+    expect(compareToEstimate(40, null)).toEqual({
+      estimateHours: null,
+      trackedHours: 40,
+      remainingHours: null,
+      percentUsed: null,
+      overBudget: false,
+    })
+  })
+})
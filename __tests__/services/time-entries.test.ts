@@ -1,6 +1,8 @@
-import { TimeEntryService } from '@/lib/services/time-entries'
+import { TimeEntryService, trimToFreeInterval } from '@/lib/services/time-entries'
 import { mockTimeEntry, mockProject } from '../utils/test-helpers'
 import { mockTimeEntries, mockProjects } from '../mocks/mock-data'
+import { timeEntries } from '@/drizzle/schema'
+import { and, eq } from 'drizzle-orm'
 
 // Mock the database connection
 jest.mock('@/drizzle/connection', () => ({
@@ -17,14 +19,16 @@ jest.mock('@/drizzle/connection', () => ({
     delete: jest.fn().mockReturnThis(),
     orderBy: jest.fn().mockReturnThis(),
     innerJoin: jest.fn().mockReturnThis(),
+    leftJoin: jest.fn().mockReturnThis(),
     groupBy: jest.fn().mockReturnThis(),
   },
 }))
 
 const mockDb = require('@/drizzle/connection').db
 
-// Mock drizzle operators
+// Mock drizzle operators; the schema still needs the real relations()
 jest.mock('drizzle-orm', () => ({
+  ...jest.requireActual('drizzle-orm'),
   eq: jest.fn(),
   and: jest.fn(),
   isNotNull: jest.fn(),
@@ -39,12 +43,57 @@ jest.mock('nanoid', () => ({
   nanoid: jest.fn().mockReturnValue('test-generated-id'),
 }))
 
+// Collaborating services; unlocked periods, no tags and the default overlap policy
+const mockAssertPeriodUnlocked = jest.fn()
+const mockIsPeriodLocked = jest.fn()
+jest.mock('@/lib/services/timesheets', () => ({
+  TimesheetService: jest.fn().mockImplementation(() => ({
+    assertPeriodUnlocked: (...args: unknown[]) => mockAssertPeriodUnlocked(...args),
+    isPeriodLocked: (...args: unknown[]) => mockIsPeriodLocked(...args),
+  })),
+}))
+
+jest.mock('@/lib/services/tags', () => ({
+  ...jest.requireActual('@/lib/services/tags'),
+  TagService: jest.fn().mockImplementation(() => ({
+    resolveTags: jest.fn().mockResolvedValue([]),
+    setEntryTags: jest.fn().mockResolvedValue(undefined),
+    getTagsForEntries: jest.fn().mockResolvedValue(new Map()),
+  })),
+}))
+
+jest.mock('@/lib/services/tasks', () => ({
+  TaskService: jest.fn().mockImplementation(() => ({
+    assertTaskForEntry: jest.fn().mockResolvedValue(undefined),
+  })),
+}))
+
+jest.mock('@/lib/services/budgets', () => ({
+  BudgetService: jest.fn().mockImplementation(() => ({
+    checkAlerts: jest.fn().mockResolvedValue(undefined),
+  })),
+}))
+
+const mockGetSettings = jest.fn()
+jest.mock('@/lib/services/user-settings', () => ({
+  UserSettingsService: jest.fn().mockImplementation(() => ({
+    getSettings: (...args: unknown[]) => mockGetSettings(...args),
+  })),
+}))
+
 describe('TimeEntryService', () => {
   let service: TimeEntryService
 
   beforeEach(() => {
     service = new TimeEntryService()
     jest.clearAllMocks()
+    mockGetSettings.mockResolvedValue({ overlapPolicy: 'warn', maxConcurrentTimers: 1 })
+    mockAssertPeriodUnlocked.mockResolvedValue(undefined)
+    mockIsPeriodLocked.mockResolvedValue(false)
+
+    // Entries have no breaks and don't overlap unless a test says otherwise
+    jest.spyOn(service, 'getTimeEntryBreaks').mockResolvedValue([])
+    jest.spyOn(service, 'findOverlappingEntries').mockResolvedValue([])
   })
 
   describe('startTimeTracking', () => {
@@ -154,9 +203,67 @@ describe('TimeEntryService', () => {
         service.startTimeTracking(userId, projectId, description)
       ).rejects.toThrow('There is already an active time entry. Stop it first.')
     })
+
+    it('should allow another timer while below the concurrent timer limit', async () => {
+      mockGetSettings.mockResolvedValue({ overlapPolicy: 'warn', maxConcurrentTimers: 2 })
+      const activeLimit = jest.fn(() => Promise.resolve([mockTimeEntries[2]]))
+      const created = { ...mockTimeEntries[2], id: 'test-generated-id' }
+
+      mockDb.select
+        .mockImplementationOnce(() => ({
+          from: () => ({ where: () => ({ limit: () => Promise.resolve([mockProjects[0]]) }) })
+        }))
+        .mockImplementationOnce(() => ({
+          from: () => ({ where: () => ({ limit: activeLimit }) })
+        }))
+      mockDb.insert.mockImplementation(() => mockDb)
+      mockDb.values.mockImplementation(() => mockDb)
+      mockDb.returning.mockImplementation(() => Promise.resolve([created]))
+
+      const result = await service.startTimeTracking('test-user-123', 'test-project-1', 'Second task')
+
+      expect(activeLimit).toHaveBeenCalledWith(2)
+      expect(result.id).toBe('test-generated-id')
+    })
+
+    it('should throw error when the concurrent timer limit is reached', async () => {
+      mockGetSettings.mockResolvedValue({ overlapPolicy: 'warn', maxConcurrentTimers: 2 })
+
+      mockDb.select
+        .mockImplementationOnce(() => ({
+          from: () => ({ where: () => ({ limit: () => Promise.resolve([mockProjects[0]]) }) })
+        }))
+        .mockImplementationOnce(() => ({
+          from: () => ({ where: () => ({ limit: () => Promise.resolve([mockTimeEntries[2], { ...mockTimeEntries[2], id: 'test-entry-4' }]) }) })
+        }))
+
+      await expect(
+        service.startTimeTracking('test-user-123', 'test-project-1', 'Third task')
+      ).rejects.toThrow('There are already 2 active time entries, the most your settings allow. Stop one first.')
+    })
+
+    it('should not start a timer in a submitted week', async () => {
+      mockDb.select
+        .mockImplementationOnce(() => ({
+          from: () => ({ where: () => ({ limit: () => Promise.resolve([mockProjects[0]]) }) })
+        }))
+        .mockImplementationOnce(() => ({
+          from: () => ({ where: () => ({ limit: () => Promise.resolve([]) }) })
+        }))
+      mockAssertPeriodUnlocked.mockRejectedValueOnce(new Error('Time entries in a submitted timesheet cannot be modified'))
+
+      await expect(
+        service.startTimeTracking('test-user-123', 'test-project-1', 'Late task')
+      ).rejects.toThrow('Time entries in a submitted timesheet cannot be modified')
+      expect(mockDb.insert).not.toHaveBeenCalled()
+    })
   })
 
   describe('stopTimeTracking', () => {
+    beforeEach(() => {
+      mockDb.transaction = jest.fn((callback: (tx: unknown) => unknown) => callback(mockDb))
+    })
+
     it('should stop time tracking successfully', async () => {
       const userId = 'test-user-123'
       const activeEntry = mockTimeEntries[2] // Active entry
@@ -227,6 +334,31 @@ describe('TimeEntryService', () => {
       expect(result.durationMinutes).toBe(90)
     })
 
+    it('should refuse to stop a timer another request has already stopped', async () => {
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => ({
+            ...mockDb,
+            limit: () => Promise.resolve([mockTimeEntries[2]])
+          })
+        })
+      }))
+
+      // The update guarded on isActive matches no row
+      mockDb.update.mockImplementation(() => mockDb)
+      mockDb.set.mockImplementation(() => mockDb)
+      mockDb.where.mockImplementation(() => mockDb)
+      mockDb.returning.mockImplementation(() => Promise.resolve([]))
+
+      await expect(service.stopTimeTracking('test-user-123')).rejects.toMatchObject({
+        message: 'Time entry is already stopped',
+        kind: 'conflict',
+      })
+      expect(eq).toHaveBeenCalledWith(timeEntries.isActive, true)
+    })
+
     it('should throw error when no active entry found', async () => {
       const userId = 'test-user-123'
 
@@ -246,6 +378,123 @@ describe('TimeEntryService', () => {
         service.stopTimeTracking(userId)
       ).rejects.toThrow('No active time entry found')
     })
+
+    it('should require an entry ID when several timers are running', async () => {
+      mockDb.select.mockImplementationOnce(() => ({
+        from: () => ({
+          where: () => ({
+            limit: () => Promise.resolve([mockTimeEntries[2], { ...mockTimeEntries[2], id: 'test-entry-4' }])
+          })
+        })
+      }))
+
+      await expect(
+        service.stopTimeTracking('test-user-123')
+      ).rejects.toThrow('More than one timer is running. Specify which one with entryId.')
+    })
+  })
+
+  describe('switchTimeTracking', () => {
+    const activeEntry = mockTimeEntries[2]
+    let txUpdateReturning: jest.Mock
+    let txInsertValues: jest.Mock
+
+    const mockSelectOnce = (rows: unknown[]) => {
+      mockDb.select.mockImplementationOnce(() => ({
+        from: () => ({ where: () => ({ limit: () => Promise.resolve(rows) }) })
+      }))
+    }
+
+    beforeEach(() => {
+      txUpdateReturning = jest.fn().mockImplementation(() => Promise.resolve([{ ...activeEntry, isActive: false, durationMinutes: 60 }]))
+      txInsertValues = jest.fn().mockImplementation((values: Record<string, unknown>) => ({
+        returning: () => Promise.resolve([values]),
+      }))
+      const tx = {
+        update: () => ({ set: (values: Record<string, unknown>) => ({ where: () => ({ returning: () => txUpdateReturning(values) }) }) }),
+        insert: () => ({ values: txInsertValues }),
+      }
+      mockDb.transaction = jest.fn((callback: (tx: unknown) => unknown) => callback(tx))
+    })
+
+    it('should stop the running entry and start the next one at the same instant', async () => {
+      mockSelectOnce([activeEntry])
+      mockSelectOnce([mockProjects[0]])
+
+      const result = await service.switchTimeTracking('test-user-123', {
+        projectId: 'test-project-1',
+        description: 'Code review',
+      })
+
+      const [stopValues] = txUpdateReturning.mock.calls[0]
+      const [startValues] = txInsertValues.mock.calls[0]
+      expect(stopValues.isActive).toBe(false)
+      expect(startValues).toEqual(expect.objectContaining({
+        projectId: 'test-project-1',
+        description: 'Code review',
+        isActive: true,
+      }))
+      expect(startValues.startTime).toBe(stopValues.endTime)
+      expect(result.stopped.id).toBe('test-entry-3')
+      expect(result.started.tags).toEqual([])
+    })
+
+    it('should continue the last stopped entry when asked', async () => {
+      mockSelectOnce([activeEntry])
+      mockDb.select.mockImplementationOnce(() => ({
+        from: () => ({ where: () => ({ orderBy: () => ({ limit: () => Promise.resolve([mockTimeEntries[0]]) }) }) })
+      }))
+      mockSelectOnce([mockProjects[0]])
+
+      const result = await service.switchTimeTracking('test-user-123', { continuePrevious: true })
+
+      expect(result.started).toEqual(expect.objectContaining({
+        projectId: 'test-project-1',
+        description: 'Working on homepage',
+      }))
+    })
+
+    it('should throw error when there is no previous entry to continue', async () => {
+      mockSelectOnce([activeEntry])
+      mockDb.select.mockImplementationOnce(() => ({
+        from: () => ({ where: () => ({ orderBy: () => ({ limit: () => Promise.resolve([]) }) }) })
+      }))
+
+      await expect(
+        service.switchTimeTracking('test-user-123', { continuePrevious: true })
+      ).rejects.toThrow('There is no previous time entry to continue')
+      expect(mockDb.transaction).not.toHaveBeenCalled()
+    })
+
+    it('should not start a new entry when the running one was stopped in the meantime', async () => {
+      mockSelectOnce([activeEntry])
+      mockSelectOnce([mockProjects[0]])
+      txUpdateReturning.mockImplementationOnce(() => Promise.resolve([]))
+
+      await expect(
+        service.switchTimeTracking('test-user-123', { projectId: 'test-project-1', description: 'Code review' })
+      ).rejects.toThrow('No active time entry found')
+      expect(txInsertValues).not.toHaveBeenCalled()
+    })
+
+    it('should not start a new entry in a submitted week', async () => {
+      mockSelectOnce([activeEntry])
+      mockSelectOnce([mockProjects[0]])
+      mockAssertPeriodUnlocked.mockRejectedValueOnce(new Error('Time entries in a submitted timesheet cannot be modified'))
+
+      await expect(
+        service.switchTimeTracking('test-user-123', { projectId: 'test-project-1', description: 'Code review' })
+      ).rejects.toThrow('Time entries in a submitted timesheet cannot be modified')
+      expect(mockDb.transaction).not.toHaveBeenCalled()
+    })
+
+    it('should throw error when nothing is running', async () => {
+      mockSelectOnce([])
+
+      await expect(
+        service.switchTimeTracking('test-user-123', { projectId: 'test-project-1', description: 'Code review' })
+      ).rejects.toThrow('No active time entry found')
+    })
   })
 
   describe('getActiveTimeEntry', () => {
@@ -433,6 +682,18 @@ describe('TimeEntryService', () => {
       const entryId = 'non-existent'
       const updateData = { description: 'Updated description' }
 
+      // Mock entry not found
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => ({
+            ...mockDb,
+            limit: () => Promise.resolve([])
+          })
+        })
+      }))
+
       // Mock update returning nothing
       mockDb.update.mockImplementation(() => mockDb)
       mockDb.set.mockImplementation(() => mockDb)
@@ -443,6 +704,214 @@ describe('TimeEntryService', () => {
 
       expect(result).toBeNull()
     })
+
+    it('should only subtract the breaks inside the new times of a paused entry', async () => {
+      // 09:00-10:30 with breaks at 09:10-09:20 and 10:00-10:20, moved to 09:15-10:00
+      jest.spyOn(service, 'getTimeEntryBreaks').mockResolvedValue([
+        { id: 'break-1', timeEntryId: 'test-entry-1', startTime: new Date('2024-01-01T09:10:00Z'), endTime: new Date('2024-01-01T09:20:00Z') },
+        { id: 'break-2', timeEntryId: 'test-entry-1', startTime: new Date('2024-01-01T10:00:00Z'), endTime: new Date('2024-01-01T10:20:00Z') },
+      ] as any)
+      mockDb.select.mockImplementationOnce(() => ({
+        from: () => ({ where: () => ({ limit: () => Promise.resolve([mockTimeEntries[0]]) }) })
+      }))
+      mockDb.update.mockImplementation(() => mockDb)
+      mockDb.set.mockImplementation(() => mockDb)
+      mockDb.where.mockImplementation(() => mockDb)
+      mockDb.returning.mockImplementation(() => Promise.resolve([mockTimeEntries[0]]))
+
+      await service.updateTimeEntry('test-user-123', 'test-entry-1', {
+        startTime: new Date('2024-01-01T09:15:00Z'),
+        endTime: new Date('2024-01-01T10:00:00Z'),
+      })
+
+      // 45 minutes less the 5 minutes of the first break still inside the range
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ durationMinutes: 40 }))
+    })
+  })
+
+  describe('pauseTimeTracking', () => {
+    it('should not open a second break when the entry was paused in the meantime', async () => {
+      mockDb.select.mockImplementationOnce(() => ({
+        from: () => ({ where: () => ({ limit: () => Promise.resolve([mockTimeEntries[2]]) }) })
+      }))
+      const txInsert = jest.fn()
+      const tx = {
+        update: () => ({ set: () => ({ where: () => ({ returning: () => Promise.resolve([]) }) }) }),
+        insert: txInsert,
+      }
+      mockDb.transaction = jest.fn((callback: (tx: unknown) => unknown) => callback(tx))
+
+      await expect(service.pauseTimeTracking('test-user-123')).rejects.toThrow('Time entry is already paused')
+      expect(txInsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('overlap policies', () => {
+    const userId = 'test-user-123'
+    const projectId = 'test-project-1'
+    const existing = mockTimeEntries[1] as any // 14:00-16:00
+
+    const mockProjectFound = () => {
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => ({
+            ...mockDb,
+            limit: () => Promise.resolve([mockProjects[0]])
+          })
+        })
+      }))
+    }
+
+    const mockInsertReturningValues = () => {
+      mockDb.insert.mockImplementation(() => mockDb)
+      mockDb.values.mockImplementation((values: unknown) => ({
+        returning: () => Promise.resolve([values]),
+      }))
+    }
+
+    it('should save overlapping entries and report the overlaps under the warn policy', async () => {
+      jest.spyOn(service, 'findOverlappingEntries').mockResolvedValue([existing])
+      mockProjectFound()
+      mockInsertReturningValues()
+
+      const result = await service.addManualTimeEntry(
+        userId,
+        projectId,
+        'Overlapping work',
+        new Date('2024-01-01T15:00:00Z'),
+        new Date('2024-01-01T17:00:00Z')
+      )
+
+      expect(result.startTime).toEqual(new Date('2024-01-01T15:00:00Z'))
+      expect(result.durationMinutes).toBe(120)
+      expect(result.overlaps).toEqual([existing])
+      expect(result.trimmed).toBe(false)
+    })
+
+    it('should reject overlapping entries under the reject policy', async () => {
+      jest.spyOn(service, 'findOverlappingEntries').mockResolvedValue([existing])
+      mockGetSettings.mockResolvedValue({ overlapPolicy: 'reject' })
+      mockProjectFound()
+
+      await expect(
+        service.addManualTimeEntry(
+          userId,
+          projectId,
+          'Overlapping work',
+          new Date('2024-01-01T15:00:00Z'),
+          new Date('2024-01-01T17:00:00Z')
+        )
+      ).rejects.toThrow('Time entry overlaps an existing entry: "Fixing bugs"')
+      expect(mockDb.insert).not.toHaveBeenCalled()
+    })
+
+    it('should trim entries to the free time when asked, overriding the user setting', async () => {
+      jest.spyOn(service, 'findOverlappingEntries').mockResolvedValue([existing])
+      mockGetSettings.mockResolvedValue({ overlapPolicy: 'reject' })
+      mockProjectFound()
+      mockInsertReturningValues()
+
+      const result = await service.addManualTimeEntry(
+        userId,
+        projectId,
+        'Overlapping work',
+        new Date('2024-01-01T15:00:00Z'),
+        new Date('2024-01-01T17:00:00Z'),
+        { overlapPolicy: 'trim' }
+      )
+
+      expect(result.startTime).toEqual(new Date('2024-01-01T16:00:00Z'))
+      expect(result.endTime).toEqual(new Date('2024-01-01T17:00:00Z'))
+      expect(result.durationMinutes).toBe(60)
+      expect(result.trimmed).toBe(true)
+      expect(mockGetSettings).not.toHaveBeenCalled()
+    })
+
+    it('should reject trimming an entry that is entirely covered', async () => {
+      jest.spyOn(service, 'findOverlappingEntries').mockResolvedValue([existing])
+      mockProjectFound()
+
+      await expect(
+        service.addManualTimeEntry(
+          userId,
+          projectId,
+          'Covered work',
+          new Date('2024-01-01T14:30:00Z'),
+          new Date('2024-01-01T15:30:00Z'),
+          { overlapPolicy: 'trim' }
+        )
+      ).rejects.toThrow('Time entry is entirely covered by existing entries')
+    })
+
+    it('should not count the entry being updated as an overlap', async () => {
+      jest.spyOn(service, 'findOverlappingEntries').mockResolvedValue([mockTimeEntries[0] as any])
+      mockGetSettings.mockResolvedValue({ overlapPolicy: 'reject' })
+
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => ({
+            ...mockDb,
+            limit: () => Promise.resolve([mockTimeEntries[0]])
+          })
+        })
+      }))
+
+      mockDb.update.mockImplementation(() => mockDb)
+      mockDb.set.mockImplementation(() => mockDb)
+      mockDb.where.mockImplementation(() => mockDb)
+      mockDb.returning.mockImplementation(() => Promise.resolve([{ ...mockTimeEntries[0], durationMinutes: 120 }]))
+
+      const result = await service.updateTimeEntry(userId, 'test-entry-1', {
+        endTime: new Date('2024-01-01T11:00:00Z'),
+      })
+
+      expect(result?.overlaps).toEqual([])
+      expect(result?.trimmed).toBe(false)
+    })
+
+    it('should list pairs of overlapping entries with the shared minutes', async () => {
+      const entries = [
+        { ...mockTimeEntries[0], id: 'a', startTime: new Date('2024-01-01T09:00:00Z'), endTime: new Date('2024-01-01T11:00:00Z') },
+        { ...mockTimeEntries[0], id: 'b', startTime: new Date('2024-01-01T10:30:00Z'), endTime: new Date('2024-01-01T12:00:00Z') },
+        { ...mockTimeEntries[0], id: 'c', startTime: new Date('2024-01-01T12:00:00Z'), endTime: new Date('2024-01-01T13:00:00Z') },
+      ] as any[]
+      jest.spyOn(service, 'findOverlappingEntries').mockResolvedValue(entries)
+
+      const pairs = await service.findOverlappingPairs(userId, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'))
+
+      expect(pairs).toHaveLength(1)
+      expect(pairs[0].entry.id).toBe('a')
+      expect(pairs[0].overlapsWith.id).toBe('b')
+      expect(pairs[0].overlapMinutes).toBe(30)
+    })
+  })
+
+  describe('trimToFreeInterval', () => {
+    const at = (time: string) => new Date(`2024-01-01T${time}:00Z`)
+
+    it('should return the range unchanged when nothing is busy', () => {
+      expect(trimToFreeInterval(at('09:00'), at('12:00'), [])).toEqual({ startTime: at('09:00'), endTime: at('12:00') })
+    })
+
+    it('should keep the longest free part around busy ranges', () => {
+      const free = trimToFreeInterval(at('09:00'), at('17:00'), [
+        { startTime: at('10:00'), endTime: at('11:00') },
+        { startTime: at('15:00'), endTime: at('18:00') },
+      ])
+
+      expect(free).toEqual({ startTime: at('11:00'), endTime: at('15:00') })
+    })
+
+    it('should return null when busy ranges cover the whole range', () => {
+      expect(trimToFreeInterval(at('10:00'), at('11:00'), [
+        { startTime: at('09:00'), endTime: at('10:30') },
+        { startTime: at('10:30'), endTime: at('12:00') },
+      ])).toBeNull()
+    })
   })
 
   describe('listTimeEntries', () => {
@@ -458,7 +927,7 @@ describe('TimeEntryService', () => {
 
       const result = await service.listTimeEntries(userId)
 
-      expect(result).toEqual(userEntries)
+      expect(result).toEqual(userEntries.map(entry => ({ ...entry, tags: [] })))
     })
 
     it('should list time entries with filters', async () => {
@@ -480,7 +949,71 @@ describe('TimeEntryService', () => {
 
       const result = await service.listTimeEntries(userId, projectId, startDate, endDate, limit)
 
-      expect(result).toEqual(filteredEntries)
+      expect(result).toEqual(filteredEntries.map(entry => ({ ...entry, tags: [] })))
+    })
+  })
+
+  describe('getTimeSummary', () => {
+    afterEach(() => {
+      ;(eq as jest.Mock).mockReset()
+    })
+
+    it.each(['project', 'tag'] as const)('leaves drafts out when grouping by %s', async (groupBy) => {
+      const draftCondition = { draft: false }
+      ;(eq as jest.Mock).mockImplementation((column, value) =>
+        column === timeEntries.isDraft && value === false ? draftCondition : {}
+      )
+      mockDb.select.mockImplementation(() => mockDb)
+      mockDb.from.mockImplementation(() => mockDb)
+      mockDb.where.mockImplementation(() => mockDb)
+      mockDb.orderBy.mockImplementation(() => Promise.resolve([]))
+
+      await service.getTimeSummary('test-user-123', undefined, undefined, groupBy)
+
+      expect((and as jest.Mock).mock.calls[0]).toContain(draftCondition)
+    })
+  })
+
+  describe('confirmDraftEntries', () => {
+    it('leaves drafts in locked weeks unconfirmed', async () => {
+      const lockedDraft = { ...mockTimeEntries[0], id: 'draft-locked', isDraft: true, startTime: new Date('2024-02-26T09:00:00Z') }
+      const openDraft = { ...mockTimeEntries[0], id: 'draft-open', isDraft: true, startTime: new Date('2024-03-04T09:00:00Z') }
+
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => Promise.resolve([lockedDraft, openDraft])
+        })
+      }))
+      mockIsPeriodLocked.mockImplementation((_userId: string, date: Date) => Promise.resolve(date < new Date('2024-03-04T00:00:00Z')))
+      mockDb.update.mockImplementation(() => mockDb)
+      mockDb.set.mockImplementation(() => mockDb)
+      mockDb.where.mockImplementation(() => mockDb)
+      mockDb.returning.mockImplementation(() => Promise.resolve([{ ...openDraft, isDraft: false }]))
+
+      const result = await service.confirmDraftEntries('test-user-123')
+
+      expect(result.confirmed.map(entry => entry.id)).toEqual(['draft-open'])
+      expect(result.skipped.map(entry => entry.id)).toEqual(['draft-locked'])
+      expect(mockDb.update).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not update anything when every draft is in a locked week', async () => {
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => Promise.resolve([{ ...mockTimeEntries[0], isDraft: true }])
+        })
+      }))
+      mockIsPeriodLocked.mockResolvedValue(true)
+
+      const result = await service.confirmDraftEntries('test-user-123')
+
+      expect(result.confirmed).toEqual([])
+      expect(result.skipped).toHaveLength(1)
+      expect(mockDb.update).not.toHaveBeenCalled()
     })
   })
 
@@ -489,6 +1022,18 @@ describe('TimeEntryService', () => {
       const userId = 'test-user-123'
       const entryId = 'test-entry-1'
 
+      // Mock finding the entry
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => ({
+            ...mockDb,
+            limit: () => Promise.resolve([mockTimeEntries[0]])
+          })
+        })
+      }))
+
       mockDb.delete.mockImplementation(() => mockDb)
       mockDb.where.mockImplementation(() => ({ rowCount: 1 }))
 
@@ -501,6 +1046,18 @@ describe('TimeEntryService', () => {
       const userId = 'test-user-123'
       const entryId = 'non-existent'
 
+      // Mock finding the entry
+      mockDb.select.mockImplementationOnce(() => ({
+        ...mockDb,
+        from: () => ({
+          ...mockDb,
+          where: () => ({
+            ...mockDb,
+            limit: () => Promise.resolve([mockTimeEntries[0]])
+          })
+        })
+      }))
+
       mockDb.delete.mockImplementation(() => mockDb)
       mockDb.where.mockImplementation(() => ({ rowCount: 0 }))
 
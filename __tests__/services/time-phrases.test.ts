@@ -0,0 +1,107 @@
+import { parseTimePhrase, matchProjects } from '@/lib/services/time-phrases'
+
+const projects = [
+  { id: 'project-1', name: 'Website', clientName: 'Acme' },
+  { id: 'project-2', name: 'Mobile App', clientName: 'Acme' },
+  { id: 'project-3', name: 'Website', clientName: 'Globex' },
+  { id: 'project-4', name: 'Internal', clientName: null },
+]
+
+// A Wednesday
+const now = new Date('2024-03-06T15:00:00Z')
+
+const parse = (phrase: string, timeZone = 'UTC') => parseTimePhrase(phrase, projects, { now, timeZone })
+
+describe('parseTimePhrase', () => {
+  it('reads duration, relative day, part of day, project and description', () => {
+    const parsed = parse('2h on Acme website yesterday afternoon fixing login')
+
+    expect(parsed.startTime).toEqual(new Date('2024-03-05T13:00:00Z'))
+    expect(parsed.endTime).toEqual(new Date('2024-03-05T15:00:00Z'))
+    expect(parsed.durationMinutes).toBe(120)
+    expect(parsed.project?.id).toBe('project-1')
+    expect(parsed.description).toBe('Fixing login')
+    expect(parsed.warnings).toEqual([])
+  })
+
+  it('reads time ranges, treating early hours without am/pm as afternoon', () => {
+    expect(parse('Internal planning 9-11:30 today')).toMatchObject({
+      startTime: new Date('2024-03-06T09:00:00Z'),
+      endTime: new Date('2024-03-06T11:30:00Z'),
+      description: 'Planning',
+    })
+    expect(parse('mobile app from 2 to 4 on monday')).toMatchObject({
+      startTime: new Date('2024-03-04T14:00:00Z'),
+      endTime: new Date('2024-03-04T16:00:00Z'),
+    })
+    expect(parse('acme mobile app between 11am and 1pm reviewing PRs')).toMatchObject({
+      startTime: new Date('2024-03-06T11:00:00Z'),
+      endTime: new Date('2024-03-06T13:00:00Z'),
+      description: 'Reviewing PRs',
+    })
+  })
+
+  it('counts a duration back from now when no start is given for today', () => {
+    const parsed = parse('45 min internal email')
+
+    expect(parsed.startTime).toEqual(new Date('2024-03-06T14:15:00Z'))
+    expect(parsed.endTime).toEqual(now)
+  })
+
+  it('starts earlier days at 09:00 when no start is given, with a warning', () => {
+    const parsed = parse('1h30 internal admin 3 days ago')
+
+    expect(parsed.startTime).toEqual(new Date('2024-03-03T09:00:00Z'))
+    expect(parsed.durationMinutes).toBe(90)
+    expect(parsed.warnings).toContain('No start time given; assumed 09:00')
+  })
+
+  it('reads start times with a duration', () => {
+    expect(parse('half an hour at 14:30 internal sync last wednesday')).toMatchObject({
+      startTime: new Date('2024-02-28T14:30:00Z'),
+      endTime: new Date('2024-02-28T15:00:00Z'),
+      description: 'Sync',
+    })
+  })
+
+  it('reads calendar dates', () => {
+    expect(parse('internal 1h at 10am on march 1').startTime).toEqual(new Date('2024-03-01T10:00:00Z'))
+    expect(parse('internal 1h at 10am 2 Dec').startTime).toEqual(new Date('2023-12-02T10:00:00Z'))
+    expect(parse('internal 1h at 10am 2024-02-29').startTime).toEqual(new Date('2024-02-29T10:00:00Z'))
+  })
+
+  it('reads times in the given time zone', () => {
+    expect(parse('internal 9-10 yesterday', 'Europe/Berlin')).toMatchObject({
+      startTime: new Date('2024-03-05T08:00:00Z'),
+      endTime: new Date('2024-03-05T09:00:00Z'),
+    })
+  })
+
+  it('prefers the time range over a conflicting duration', () => {
+    const parsed = parse('internal 2h 9-10 today')
+
+    expect(parsed.durationMinutes).toBe(60)
+    expect(parsed.warnings[0]).toContain('instead of the duration of 120 minutes')
+  })
+
+  it('reports ambiguous and missing projects', () => {
+    const ambiguous = parse('1h website copy at 9')
+    expect(ambiguous.project).toBeNull()
+    expect(ambiguous.projectCandidates.map(project => project.id)).toEqual(['project-1', 'project-3'])
+
+    const missing = parse('1h at 9 reading')
+    expect(missing.project).toBeNull()
+    expect(missing.warnings).toContain('No project name found')
+  })
+
+  it('needs a duration or a time range', () => {
+    expect(() => parse('acme website yesterday')).toThrow('Could not find a duration or time range')
+  })
+})
+
+describe('matchProjects', () => {
+  it('prefers projects whose name matches over those whose client matches', () => {
+    expect(matchProjects('globex websites', projects).candidates.map(project => project.id)).toEqual(['project-3'])
+    expect(matchProjects('acme', projects).candidates.map(project => project.id)).toEqual(['project-1', 'project-2'])
+  })
+})
@@ -0,0 +1,81 @@
+jest.mock('@/drizzle/connection', () => ({
+  db: {
+    select: jest.fn(),
+    update: jest.fn(),
+  },
+}))
+
+// Mock nanoid
+jest.mock('nanoid', () => ({
+  nanoid: jest.fn().mockReturnValue('test-generated-id'),
+}))
+
+import { TimesheetService } from '@/lib/services/timesheets'
+import { createAuthorizationContext } from '@/lib/authorization'
+import { db } from '@/drizzle/connection'
+import { PgDialect } from 'drizzle-orm/pg-core'
+
+const mockDb = db as any
+
+const submitted = {
+  id: 'timesheet-1',
+  userId: 'employee-1',
+  weekStart: new Date('2024-03-04T00:00:00Z'),
+  status: 'submitted',
+}
+
+const mockTimesheet = (timesheet: unknown) => {
+  mockDb.select.mockReturnValueOnce({
+    from: () => ({ where: () => ({ limit: () => Promise.resolve(timesheet ? [timesheet] : []) }) }),
+  })
+}
+
+const mockUpdate = (rows: unknown[]) => {
+  const where = jest.fn(() => ({ returning: () => Promise.resolve(rows) }))
+  mockDb.update.mockReturnValueOnce({ set: () => ({ where }) })
+  return where
+}
+
+describe('TimesheetService.reviewTimesheet', () => {
+  const service = new TimesheetService()
+  const hr = createAuthorizationContext('hr-1', 'hr')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('approves a submitted timesheet only while it is still submitted', async () => {
+    mockTimesheet(submitted)
+    const where = mockUpdate([{ ...submitted, status: 'approved' }])
+
+    await expect(service.reviewTimesheet(hr, 'timesheet-1', 'approved')).resolves.toMatchObject({ status: 'approved' })
+
+    const { sql } = new PgDialect().sqlToQuery((where.mock.calls[0] as unknown[])[0] as any)
+    expect(sql).toContain('"timesheets"."status" = $')
+  })
+
+  it('reports a conflict when another review got there first', async () => {
+    mockTimesheet(submitted)
+    mockUpdate([])
+
+    await expect(service.reviewTimesheet(hr, 'timesheet-1', 'rejected', 'Missing Friday')).rejects.toMatchObject({
+      message: 'Only submitted timesheets can be reviewed',
+      kind: 'conflict',
+    })
+  })
+
+  it('tells a missing timesheet from one the reviewer may not review', async () => {
+    mockTimesheet(null)
+    await expect(service.reviewTimesheet(hr, 'missing', 'approved')).rejects.toMatchObject({ kind: 'not_found' })
+
+    mockTimesheet({ ...submitted, userId: 'hr-1' })
+    await expect(service.reviewTimesheet(hr, 'timesheet-1', 'approved')).rejects.toMatchObject({ kind: 'forbidden' })
+    expect(mockDb.update).not.toHaveBeenCalled()
+  })
+
+  it('requires a comment to reject', async () => {
+    mockTimesheet(submitted)
+
+    await expect(service.reviewTimesheet(hr, 'timesheet-1', 'rejected', ' ')).rejects.toMatchObject({ kind: 'invalid' })
+  })
+})
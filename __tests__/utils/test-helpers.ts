@@ -45,6 +45,8 @@ export const mockTimeEntry = (overrides?: Partial<any>) => ({
   endTime: new Date('2024-01-01T10:00:00Z'),
   durationMinutes: 60,
   isActive: false,
+  billable: null,
+  taskId: null,
   createdAt: new Date('2024-01-01T09:00:00Z'),
   updatedAt: new Date('2024-01-01T10:00:00Z'),
   ...overrides,
@@ -3,6 +3,8 @@
 import React from 'react';
 import ActiveTimer from '@/components/dashboard/ActiveTimer';
 import TrendCards from '@/components/dashboard/TrendCards';
+import BudgetWarnings from '@/components/dashboard/BudgetWarnings';
+import QuickRestart from '@/components/dashboard/QuickRestart';
 import AdminHeader from '@/components/navigation/AdminHeader';
 import EnhancedTimeEntriesList from '@/components/time-entries/EnhancedTimeEntriesList';
 
@@ -17,6 +19,12 @@ export default function Dashboard() {
         {/* Trends */}
         <TrendCards />
 
+        {/* Over-budget tasks and projects */}
+        <BudgetWarnings />
+
+        {/* One-click restart of recent and favourite work */}
+        <QuickRestart />
+
         {/* Active Timer - Mobile/Tablet only */}
         <div className="block lg:hidden">
           <ActiveTimer />
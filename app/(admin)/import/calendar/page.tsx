@@ -0,0 +1,383 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CalendarDays, Eye, Loader2, AlertCircle, CheckCircle, AlertTriangle, Plus, Trash2, Upload } from 'lucide-react';
+import AdminHeader from '@/components/navigation/AdminHeader';
+
+interface ProjectOption {
+  id: string;
+  name: string;
+  clientName: string;
+  active: boolean;
+}
+
+interface ImportRule {
+  id: string;
+  matchType: 'title' | 'attendee_domain';
+  pattern: string;
+  projectId: string;
+  projectName: string;
+}
+
+interface Draft {
+  eventId: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  attendeeDomains: string[];
+  projectId: string | null;
+  matchedRule: { matchType: string; pattern: string } | null;
+  overlaps: { eventId: string | null; timeEntryId: string | null }[];
+}
+
+interface CalendarPreview {
+  drafts: Draft[];
+  skipped: { eventId: string | null; title: string | null; reason: string }[];
+  unassignedCount: number;
+  overlapCount: number;
+  totalHours: number;
+}
+
+// Select value for events left out of the import
+const SKIP = 'skip';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+export default function CalendarImportPage() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [projectOptions, setProjectOptions] = useState<ProjectOption[]>([]);
+  const [rules, setRules] = useState<ImportRule[]>([]);
+  const [newRule, setNewRule] = useState<{ matchType: ImportRule['matchType']; pattern: string; projectId: string }>({ matchType: 'title', pattern: '', projectId: '' });
+  const [skipOverlapping, setSkipOverlapping] = useState(true);
+  const [preview, setPreview] = useState<CalendarPreview | null>(null);
+  // Project chosen per event during review; SKIP leaves it out
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    fetch('/api/projects')
+      .then(response => response.ok ? response.json() : [])
+      .then((list: ProjectOption[]) => setProjectOptions(list.filter(project => project.active)));
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    const response = await fetch('/api/calendar-import-rules');
+    if (response.ok) {
+      setRules(await response.json());
+    }
+  };
+
+  const addRule = async () => {
+    setMessage(null);
+    const response = await fetch('/api/calendar-import-rules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(newRule),
+    });
+
+    if (!response.ok) {
+      setMessage({ type: 'error', text: await response.text() });
+      return;
+    }
+
+    setNewRule({ ...newRule, pattern: '' });
+    setPreview(null);
+    await loadRules();
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    await fetch(`/api/calendar-import-rules/${ruleId}`, { method: 'DELETE' });
+    setPreview(null);
+    await loadRules();
+  };
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('timeZone', timeZone);
+      body.append('dryRun', String(dryRun));
+      body.append('skipOverlapping', String(skipOverlapping));
+      if (!dryRun) {
+        body.append('assignments', JSON.stringify(Object.fromEntries(
+          Object.entries(assignments).map(([eventId, projectId]) => [eventId, projectId === SKIP ? null : projectId])
+        )));
+      }
+
+      const response = await fetch('/api/time-entries/import-calendar', { method: 'POST', body });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      if (dryRun) {
+        const result: CalendarPreview = await response.json();
+        setPreview(result);
+        setAssignments(Object.fromEntries(result.drafts.map(draft => [draft.eventId, draft.projectId ?? SKIP])));
+      } else {
+        const result = await response.json();
+        setMessage({
+          type: 'success',
+          text: `Imported ${result.imported} events (${result.totalHours}h).${result.skippedOverlapping ? ` Skipped ${result.skippedOverlapping} overlapping.` : ''}${result.skippedUnassigned ? ` Left out ${result.skippedUnassigned} without a project.` : ''}`,
+        });
+        setPreview(null);
+        setAssignments({});
+      }
+    } catch (error) {
+      console.error('Error importing calendar events:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import calendar events' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const headerActions = (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => router.push('/import')}
+      className="flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to Import
+    </Button>
+  );
+
+  const selectedCount = Object.values(assignments).filter(projectId => projectId !== SKIP).length;
+
+  return (
+    <>
+      <AdminHeader actions={headerActions} />
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-8">
+
+          {/* Page Title */}
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              Import Calendar Events
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Turn meetings from an .ics export into time entries
+            </p>
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-8">
+            <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Upload className="h-5 w-5" />
+                  Upload Calendar
+                </CardTitle>
+                <CardDescription>
+                  All-day, cancelled and declined events are left out. Times without a zone are read as {timeZone}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {message && (
+                  <div className={`p-3 rounded-md flex items-center gap-2 ${
+                    message.type === 'success'
+                      ? 'bg-green-50 text-green-800 border border-green-200'
+                      : 'bg-red-50 text-red-800 border border-red-200'
+                  }`}>
+                    {message.type === 'success' ? (
+                      <CheckCircle className="h-4 w-4" />
+                    ) : (
+                      <AlertCircle className="h-4 w-4" />
+                    )}
+                    <span className="text-sm">{message.text}</span>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="file">Calendar file</Label>
+                  <Input
+                    id="file"
+                    type="file"
+                    accept=".ics,text/calendar"
+                    onChange={(e) => {
+                      setFile(e.target.files?.[0] ?? null);
+                      setPreview(null);
+                    }}
+                  />
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skipOverlapping"
+                    checked={skipOverlapping}
+                    onCheckedChange={(checked) => setSkipOverlapping(checked === true)}
+                  />
+                  <Label htmlFor="skipOverlapping">Skip events overlapping existing entries</Label>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => upload(true)} disabled={!file || isLoading}>
+                    {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                    Preview
+                  </Button>
+                  <Button onClick={() => upload(false)} disabled={!preview || selectedCount === 0 || isLoading}>
+                    {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                    Import {preview ? `${selectedCount} events` : ''}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5" />
+                  Project Rules
+                </CardTitle>
+                <CardDescription>
+                  Events get the project of the first matching rule: a word in the title, or an attendee&apos;s email domain.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {rules.map(rule => (
+                  <div key={rule.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {rule.matchType === 'title' ? 'Title contains' : 'Attendee from'} <strong>{rule.pattern}</strong> → {rule.projectName}
+                    </span>
+                    <Button variant="ghost" size="icon" onClick={() => deleteRule(rule.id)} title="Delete rule">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={newRule.matchType}
+                    onValueChange={(value) => setNewRule({ ...newRule, matchType: value as ImportRule['matchType'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="title">Title contains</SelectItem>
+                      <SelectItem value="attendee_domain">Attendee domain</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={newRule.pattern}
+                    onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+                    placeholder={newRule.matchType === 'title' ? 'e.g. standup' : 'e.g. acme.com'}
+                  />
+                  <Select
+                    value={newRule.projectId}
+                    onValueChange={(value) => setNewRule({ ...newRule, projectId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projectOptions.map(project => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name} ({project.clientName})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={addRule} disabled={!newRule.pattern.trim() || !newRule.projectId}>
+                    <Plus className="h-4 w-4" />
+                    Add Rule
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {preview && (
+            <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Eye className="h-5 w-5" />
+                  Review
+                </CardTitle>
+                <CardDescription>
+                  {preview.drafts.length} events ({preview.totalHours}h)
+                  {preview.unassignedCount > 0 && ` · ${preview.unassignedCount} without a project`}
+                  {preview.overlapCount > 0 && ` · ${preview.overlapCount} overlapping`}
+                  {preview.skipped.length > 0 && ` · ${preview.skipped.length} left out`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {preview.skipped.length > 0 && (
+                  <div className="p-3 rounded-md bg-amber-50 text-amber-800 border border-amber-200 text-sm space-y-1">
+                    {preview.skipped.map((event, index) => (
+                      <p key={`${event.eventId}-${index}`}>{event.title || event.eventId || 'Untitled event'}: {event.reason}</p>
+                    ))}
+                  </div>
+                )}
+
+                {preview.drafts.map(draft => (
+                  <div
+                    key={draft.eventId}
+                    className="flex items-center justify-between gap-4 py-2 border-b last:border-b-0"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{draft.title}</span>
+                        {draft.matchedRule && (
+                          <Badge variant="secondary" className="text-xs">
+                            {draft.matchedRule.matchType === 'title' ? 'title' : 'domain'}: {draft.matchedRule.pattern}
+                          </Badge>
+                        )}
+                        {draft.overlaps.length > 0 && (
+                          <Badge variant="destructive" className="text-xs flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            overlaps {draft.overlaps.some(overlap => overlap.timeEntryId) ? 'existing entry' : 'another event'}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDateTime(draft.startTime)} – {formatDateTime(draft.endTime)} · {(draft.durationMinutes / 60).toFixed(2)}h
+                        {draft.attendeeDomains.length > 0 && ` · ${draft.attendeeDomains.join(', ')}`}
+                      </p>
+                    </div>
+                    <Select
+                      value={assignments[draft.eventId] ?? SKIP}
+                      onValueChange={(value) => setAssignments({ ...assignments, [draft.eventId]: value })}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP}>Don&apos;t import</SelectItem>
+                        {projectOptions.map(project => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.name} ({project.clientName})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
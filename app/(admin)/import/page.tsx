@@ -0,0 +1,301 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CalendarDays, Upload, Eye, Loader2, AlertCircle, CheckCircle, AlertTriangle } from 'lucide-react';
+import AdminHeader from '@/components/navigation/AdminHeader';
+
+interface PreviewEntry {
+  rowNumber: number;
+  clientName: string;
+  projectName: string;
+  projectId: string | null;
+  description: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  tags: string[];
+  overlaps: { rowNumber: number | null; timeEntryId: string | null }[];
+}
+
+interface ImportPreview {
+  format: string;
+  entries: PreviewEntry[];
+  errors: { rowNumber: number; message: string }[];
+  newClients: string[];
+  newProjects: { clientName: string; projectName: string }[];
+  overlapCount: number;
+  totalHours: number;
+}
+
+interface ImportResult {
+  imported: number;
+  skippedInvalid: number;
+  skippedOverlapping: number;
+  createdClients: string[];
+  createdProjects: string[];
+  totalHours: number;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+export default function ImportPage() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState('auto');
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [skipOverlapping, setSkipOverlapping] = useState(true);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('format', format);
+      body.append('dryRun', String(dryRun));
+      body.append('skipInvalid', String(skipInvalid));
+      body.append('skipOverlapping', String(skipOverlapping));
+
+      const response = await fetch('/api/time-entries/import', { method: 'POST', body });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      if (dryRun) {
+        setPreview(await response.json());
+      } else {
+        const result: ImportResult = await response.json();
+        const created = [...result.createdClients.map(name => `client ${name}`), ...result.createdProjects.map(name => `project ${name}`)];
+        setMessage({
+          type: 'success',
+          text: `Imported ${result.imported} entries (${result.totalHours}h).${result.skippedOverlapping ? ` Skipped ${result.skippedOverlapping} overlapping.` : ''}${result.skippedInvalid ? ` Skipped ${result.skippedInvalid} invalid.` : ''}${created.length ? ` Created ${created.join(', ')}.` : ''}`,
+        });
+        setPreview(null);
+      }
+    } catch (error) {
+      console.error('Error importing time entries:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import time entries' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const headerActions = (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => router.push('/import/calendar')}
+        className="flex items-center gap-2"
+      >
+        <CalendarDays className="h-4 w-4" />
+        Import Calendar
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => router.push('/dashboard')}
+        className="flex items-center gap-2"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Dashboard
+      </Button>
+    </div>
+  );
+
+  const canCommit = preview && preview.entries.length > 0 && (preview.errors.length === 0 || skipInvalid);
+
+  return (
+    <>
+      <AdminHeader actions={headerActions} />
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-8">
+
+          {/* Page Title */}
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              Import Time Entries
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Bring in historical time from Toggl, Clockify or Harvest exports
+            </p>
+          </div>
+
+          <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5" />
+                Upload File
+              </CardTitle>
+              <CardDescription>
+                CSV, XLSX or JSON. Clients and projects are matched by name and created when missing. Times without a zone are read as UTC.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {message && (
+                <div className={`p-3 rounded-md flex items-center gap-2 ${
+                  message.type === 'success'
+                    ? 'bg-green-50 text-green-800 border border-green-200'
+                    : 'bg-red-50 text-red-800 border border-red-200'
+                }`}>
+                  {message.type === 'success' ? (
+                    <CheckCircle className="h-4 w-4" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4" />
+                  )}
+                  <span className="text-sm">{message.text}</span>
+                </div>
+              )}
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="file">File</Label>
+                  <Input
+                    id="file"
+                    type="file"
+                    accept=".csv,.xlsx,.json"
+                    onChange={(e) => {
+                      setFile(e.target.files?.[0] ?? null);
+                      setPreview(null);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="format">Format</Label>
+                  <Select
+                    value={format}
+                    onValueChange={(value) => {
+                      setFormat(value);
+                      setPreview(null);
+                    }}
+                  >
+                    <SelectTrigger id="format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Detect automatically</SelectItem>
+                      <SelectItem value="toggl">Toggl Track</SelectItem>
+                      <SelectItem value="clockify">Clockify</SelectItem>
+                      <SelectItem value="harvest">Harvest</SelectItem>
+                      <SelectItem value="generic">Generic (client, project, description, start, end)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skipOverlapping"
+                    checked={skipOverlapping}
+                    onCheckedChange={(checked) => setSkipOverlapping(checked === true)}
+                  />
+                  <Label htmlFor="skipOverlapping">Skip rows overlapping existing entries</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skipInvalid"
+                    checked={skipInvalid}
+                    onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                  />
+                  <Label htmlFor="skipInvalid">Skip invalid rows</Label>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => upload(true)} disabled={!file || isLoading}>
+                  {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                  Preview
+                </Button>
+                <Button onClick={() => upload(false)} disabled={!canCommit || isLoading}>
+                  {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  Import
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {preview && (
+            <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Eye className="h-5 w-5" />
+                  Preview
+                </CardTitle>
+                <CardDescription>
+                  {preview.entries.length} entries ({preview.totalHours}h) in {preview.format} format
+                  {preview.overlapCount > 0 && ` · ${preview.overlapCount} overlapping`}
+                  {preview.errors.length > 0 && ` · ${preview.errors.length} invalid`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {(preview.newClients.length > 0 || preview.newProjects.length > 0) && (
+                  <div className="text-sm">
+                    <p className="font-medium">Will be created:</p>
+                    <ul className="list-disc pl-5 text-muted-foreground">
+                      {preview.newClients.map(name => <li key={`client-${name}`}>Client {name}</li>)}
+                      {preview.newProjects.map(project => (
+                        <li key={`project-${project.clientName}-${project.projectName}`}>
+                          Project {project.projectName} ({project.clientName})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {preview.errors.length > 0 && (
+                  <div className="p-3 rounded-md bg-red-50 text-red-800 border border-red-200 text-sm space-y-1">
+                    {preview.errors.map(error => (
+                      <p key={`${error.rowNumber}-${error.message}`}>Row {error.rowNumber}: {error.message}</p>
+                    ))}
+                  </div>
+                )}
+
+                {preview.entries.map(entry => (
+                  <div
+                    key={entry.rowNumber}
+                    className="flex items-center justify-between gap-4 py-2 border-b last:border-b-0"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{entry.description}</span>
+                        {!entry.projectId && <Badge variant="secondary" className="text-xs">new project</Badge>}
+                        {entry.overlaps.length > 0 && (
+                          <Badge variant="destructive" className="text-xs flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            overlaps {entry.overlaps.map(overlap => overlap.rowNumber ? `row ${overlap.rowNumber}` : 'existing entry').join(', ')}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Row {entry.rowNumber} · {entry.clientName ? `${entry.clientName} / ` : ''}{entry.projectName} · {formatDateTime(entry.startTime)} – {formatDateTime(entry.endTime)}
+                        {entry.tags.length > 0 && ` · ${entry.tags.join(', ')}`}
+                      </p>
+                    </div>
+                    <span className="font-semibold whitespace-nowrap">{(entry.durationMinutes / 60).toFixed(2)}h</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,356 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, FileText, Download, Ban, Plus, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import AdminHeader from '@/components/navigation/AdminHeader';
+
+interface Client {
+  id: string;
+  name: string;
+  currency: string;
+}
+
+interface InvoiceSummary {
+  id: string;
+  invoiceNumber: string;
+  clientName: string;
+  status: 'issued' | 'void';
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  issueDate: string;
+  dueDate: string;
+  total: string;
+}
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error('Failed to fetch');
+  return r.json();
+});
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+const formatMoney = (value: string, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(value));
+
+export default function InvoicesPage() {
+  const router = useRouter();
+  const [isCreating, setIsCreating] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [formData, setFormData] = useState({
+    clientId: '',
+    periodStart: '',
+    periodEnd: '',
+    discountPercent: '',
+    taxRate: '',
+    taxLabel: '',
+    notes: '',
+  });
+
+  const { data: clients } = useSWR<Client[]>('/api/clients', fetcher);
+  const { data: invoices, error, isLoading, mutate } = useSWR<InvoiceSummary[]>('/api/invoices', fetcher);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.clientId || !formData.periodStart || !formData.periodEnd) return;
+
+    setIsCreating(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clientId: formData.clientId,
+          // The period covers both selected days in full
+          periodStart: new Date(`${formData.periodStart}T00:00:00`).toISOString(),
+          periodEnd: new Date(`${formData.periodEnd}T23:59:59.999`).toISOString(),
+          discountPercent: formData.discountPercent || undefined,
+          taxRate: formData.taxRate || undefined,
+          taxLabel: formData.taxLabel || undefined,
+          notes: formData.notes || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      const { invoice } = await response.json();
+      setMessage({ type: 'success', text: `Invoice ${invoice.invoiceNumber} created.` });
+      setFormData({ ...formData, discountPercent: '', taxRate: '', taxLabel: '', notes: '' });
+      await mutate();
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to create invoice' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleVoid = async (invoice: InvoiceSummary) => {
+    const reason = window.prompt(`Void invoice ${invoice.invoiceNumber}? Optionally enter a reason.`);
+    if (reason === null) return;
+
+    try {
+      const response = await fetch(`/api/invoices/${invoice.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'void', reason: reason || undefined }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      await mutate();
+    } catch (error) {
+      console.error('Error voiding invoice:', error);
+      alert(`Failed to void invoice: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const headerActions = (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => router.push('/dashboard')}
+      className="flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to Dashboard
+    </Button>
+  );
+
+  return (
+    <>
+      <AdminHeader actions={headerActions} />
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-8">
+
+          {/* Page Title */}
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              Invoices
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Bill clients for your completed, uninvoiced time
+            </p>
+          </div>
+
+          <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                New Invoice
+              </CardTitle>
+              <CardDescription>
+                Time is billed at the rate valid when it was tracked, with one line per project and rate.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                {message && (
+                  <div className={`p-3 rounded-md flex items-center gap-2 ${
+                    message.type === 'success'
+                      ? 'bg-green-50 text-green-800 border border-green-200'
+                      : 'bg-red-50 text-red-800 border border-red-200'
+                  }`}>
+                    {message.type === 'success' ? (
+                      <CheckCircle className="h-4 w-4" />
+                    ) : (
+                      <AlertCircle className="h-4 w-4" />
+                    )}
+                    <span className="text-sm">{message.text}</span>
+                  </div>
+                )}
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="clientId">Client</Label>
+                    <Select
+                      value={formData.clientId}
+                      onValueChange={(clientId) => setFormData({ ...formData, clientId })}
+                    >
+                      <SelectTrigger id="clientId">
+                        <SelectValue placeholder="Select a client" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {clients?.map(client => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name} ({client.currency})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="periodStart">From</Label>
+                    <Input
+                      id="periodStart"
+                      type="date"
+                      value={formData.periodStart}
+                      onChange={(e) => setFormData({ ...formData, periodStart: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="periodEnd">To</Label>
+                    <Input
+                      id="periodEnd"
+                      type="date"
+                      value={formData.periodEnd}
+                      onChange={(e) => setFormData({ ...formData, periodEnd: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="discountPercent">Discount (%)</Label>
+                    <Input
+                      id="discountPercent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={formData.discountPercent}
+                      onChange={(e) => setFormData({ ...formData, discountPercent: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="taxRate">Tax rate (%)</Label>
+                    <Input
+                      id="taxRate"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={formData.taxRate}
+                      onChange={(e) => setFormData({ ...formData, taxRate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="taxLabel">Tax label</Label>
+                    <Input
+                      id="taxLabel"
+                      placeholder="Tax"
+                      value={formData.taxLabel}
+                      onChange={(e) => setFormData({ ...formData, taxLabel: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    placeholder="Payment instructions, references..."
+                  />
+                </div>
+
+                <Button type="submit" disabled={isCreating || !formData.clientId}>
+                  {isCreating ? (
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Creating Invoice...
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      Create Invoice
+                    </div>
+                  )}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Issued Invoices
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading invoices...
+                </div>
+              )}
+
+              {error && <p className="text-sm text-muted-foreground">Unable to load invoices.</p>}
+
+              {invoices?.length === 0 && (
+                <p className="text-sm text-muted-foreground">No invoices yet.</p>
+              )}
+
+              {invoices?.map(invoice => (
+                <div
+                  key={invoice.id}
+                  className="flex items-center justify-between gap-4 py-3 border-b last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{invoice.invoiceNumber}</span>
+                      <Badge variant={invoice.status === 'void' ? 'destructive' : 'secondary'} className="text-xs">
+                        {invoice.status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {invoice.clientName} · {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)} · Due {formatDate(invoice.dueDate)}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold ${invoice.status === 'void' ? 'line-through text-muted-foreground' : ''}`}>
+                      {formatMoney(invoice.total, invoice.currency)}
+                    </span>
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/invoices/${invoice.id}?format=html`} target="_blank" rel="noopener noreferrer">
+                        <FileText className="h-4 w-4" />
+                        View
+                      </a>
+                    </Button>
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/invoices/${invoice.id}?format=pdf`}>
+                        <Download className="h-4 w-4" />
+                        PDF
+                      </a>
+                    </Button>
+                    {invoice.status === 'issued' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleVoid(invoice)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Ban className="h-4 w-4" />
+                        Void
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
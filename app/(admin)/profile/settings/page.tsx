@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { authClient } from '@/lib/authClient';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,6 +8,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Key, 
   Shield, 
@@ -15,9 +17,24 @@ import {
   Save,
   CheckCircle,
   AlertCircle,
-  Lock
+  Lock,
+  CalendarDays,
+  Copy,
+  RefreshCw,
+  Trash2,
+  Clock
 } from 'lucide-react';
 import AdminHeader from '@/components/navigation/AdminHeader';
+import ApiKeysCard from '@/components/profile/ApiKeysCard';
+
+interface TimeTrackingPreferences {
+  overlapPolicy: 'reject' | 'warn' | 'trim';
+  idleTimerHours: number | null;
+  workdayEnd: string | null;
+  timeZone: string;
+  autoStopIdleTimers: boolean;
+  maxConcurrentTimers: number;
+}
 
 export default function ProfileSettings() {
   const router = useRouter();
@@ -33,6 +50,104 @@ export default function ProfileSettings() {
     confirmPassword: '',
   });
 
+  // Calendar feed state; the feed URL is only known right after it's issued
+  const [calendarFeed, setCalendarFeed] = useState<{ enabled: boolean; lastUsedAt: string | null } | null>(null);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null);
+  const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+  const [feedMessage, setFeedMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  // Time tracking preferences, edited locally and saved together
+  const [preferences, setPreferences] = useState<TimeTrackingPreferences | null>(null);
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false);
+  const [preferencesMessage, setPreferencesMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  useEffect(() => {
+    fetch('/api/profile/calendar-feed')
+      .then(response => response.ok ? response.json() : null)
+      .then(setCalendarFeed)
+      .catch(() => setCalendarFeed(null));
+
+    fetch('/api/profile/preferences')
+      .then(response => response.ok ? response.json() : null)
+      .then(setPreferences)
+      .catch(() => setPreferences(null));
+  }, []);
+
+  const handlePreferencesSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setIsSavingPreferences(true);
+    setPreferencesMessage(null);
+
+    try {
+      const response = await fetch('/api/profile/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Failed to save preferences');
+      }
+
+      setPreferences(await response.json());
+      setPreferencesMessage({ type: 'success', text: 'Preferences saved.' });
+    } catch (error) {
+      setPreferencesMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save preferences' });
+    } finally {
+      setIsSavingPreferences(false);
+    }
+  };
+
+  const handleRotateFeed = async () => {
+    if (calendarFeed?.enabled && !confirm('Generate a new feed URL? Calendars subscribed to the current URL will stop updating.')) {
+      return;
+    }
+
+    setIsUpdatingFeed(true);
+    setFeedMessage(null);
+
+    try {
+      const response = await fetch('/api/profile/calendar-feed', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to generate calendar feed URL');
+      }
+
+      const { url } = await response.json();
+      setCalendarFeedUrl(url);
+      setCalendarFeed({ enabled: true, lastUsedAt: null });
+      setFeedMessage({ type: 'success', text: 'Copy this URL now; it will not be shown again.' });
+    } catch (error) {
+      setFeedMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to generate calendar feed URL' });
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleRevokeFeed = async () => {
+    if (!confirm('Disable the calendar feed? Subscribed calendars will stop updating.')) {
+      return;
+    }
+
+    setIsUpdatingFeed(true);
+    setFeedMessage(null);
+
+    try {
+      const response = await fetch('/api/profile/calendar-feed', { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw new Error('Failed to disable calendar feed');
+      }
+
+      setCalendarFeedUrl(null);
+      setCalendarFeed({ enabled: false, lastUsedAt: null });
+      setFeedMessage({ type: 'success', text: 'Calendar feed disabled.' });
+    } catch (error) {
+      setFeedMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to disable calendar feed' });
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!session?.user) return;
@@ -262,6 +377,205 @@ export default function ProfileSettings() {
               </CardContent>
             </Card>
           </div>
+
+          {/* Time Tracking Preferences */}
+          <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Time Tracking
+              </CardTitle>
+              <CardDescription>
+                Choose how overlapping entries and forgotten timers are handled.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {preferencesMessage && (
+                <div className={`p-3 rounded-md flex items-center gap-2 ${
+                  preferencesMessage.type === 'success' 
+                    ? 'bg-green-50 text-green-800 border border-green-200' 
+                    : 'bg-red-50 text-red-800 border border-red-200'
+                }`}>
+                  {preferencesMessage.type === 'success' ? (
+                    <CheckCircle className="h-4 w-4" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4" />
+                  )}
+                  <span className="text-sm">{preferencesMessage.text}</span>
+                </div>
+              )}
+
+              <form onSubmit={handlePreferencesSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="overlapPolicy">Overlapping entries</Label>
+                  <Select
+                    value={preferences?.overlapPolicy}
+                    onValueChange={(overlapPolicy) => preferences && setPreferences({ ...preferences, overlapPolicy: overlapPolicy as TimeTrackingPreferences['overlapPolicy'] })}
+                    disabled={!preferences}
+                  >
+                    <SelectTrigger id="overlapPolicy" className="w-full md:w-80">
+                      <SelectValue placeholder="Loading..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="warn">Save and warn me</SelectItem>
+                      <SelectItem value="trim">Trim to the free time</SelectItem>
+                      <SelectItem value="reject">Reject the entry</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Trimming keeps the longest part of the entry that doesn&apos;t overlap existing entries.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="maxConcurrentTimers">Timers running at once</Label>
+                  <Input
+                    id="maxConcurrentTimers"
+                    type="number"
+                    min={1}
+                    max={10}
+                    className="w-full md:w-80"
+                    value={preferences?.maxConcurrentTimers ?? ''}
+                    onChange={(e) => preferences && setPreferences({ ...preferences, maxConcurrentTimers: Number(e.target.value) || 1 })}
+                    disabled={!preferences}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Allow more than one to track parallel work, such as a meeting while a build runs. With several running, say which one to stop.
+                  </p>
+                </div>
+
+                <Separator />
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="idleTimerHours">Forgotten timer after (hours)</Label>
+                    <Input
+                      id="idleTimerHours"
+                      type="number"
+                      min={1}
+                      max={72}
+                      value={preferences?.idleTimerHours ?? ''}
+                      onChange={(e) => preferences && setPreferences({ ...preferences, idleTimerHours: e.target.value ? Number(e.target.value) : null })}
+                      placeholder="Off"
+                      disabled={!preferences}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="workdayEnd">End of workday</Label>
+                    <Input
+                      id="workdayEnd"
+                      type="time"
+                      value={preferences?.workdayEnd ?? ''}
+                      onChange={(e) => preferences && setPreferences({ ...preferences, workdayEnd: e.target.value || null })}
+                      disabled={!preferences}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="timeZone">Time zone</Label>
+                    <Input
+                      id="timeZone"
+                      value={preferences?.timeZone ?? ''}
+                      onChange={(e) => preferences && setPreferences({ ...preferences, timeZone: e.target.value })}
+                      placeholder="e.g. Europe/Berlin"
+                      disabled={!preferences}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="autoStopIdleTimers"
+                    checked={preferences?.autoStopIdleTimers ?? false}
+                    onCheckedChange={(checked) => preferences && setPreferences({ ...preferences, autoStopIdleTimers: checked === true })}
+                    disabled={!preferences}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="autoStopIdleTimers">Stop forgotten timers automatically</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Timers running longer than the limit or past the end of your workday are stopped at your last activity. Otherwise you only get a notification.
+                    </p>
+                  </div>
+                </div>
+
+                <Button type="submit" disabled={!preferences || isSavingPreferences} className="flex items-center gap-2">
+                  <Save className="h-4 w-4" />
+                  {isSavingPreferences ? 'Saving...' : 'Save Preferences'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Calendar Feed */}
+          <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                Calendar Feed
+              </CardTitle>
+              <CardDescription>
+                Subscribe to your time entries from Google Calendar, Outlook or Apple Calendar.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {feedMessage && (
+                <div className={`p-3 rounded-md flex items-center gap-2 ${
+                  feedMessage.type === 'success' 
+                    ? 'bg-green-50 text-green-800 border border-green-200' 
+                    : 'bg-red-50 text-red-800 border border-red-200'
+                }`}>
+                  {feedMessage.type === 'success' ? (
+                    <CheckCircle className="h-4 w-4" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4" />
+                  )}
+                  <span className="text-sm">{feedMessage.text}</span>
+                </div>
+              )}
+
+              {calendarFeedUrl ? (
+                <div className="space-y-2">
+                  <Label htmlFor="calendarFeedUrl">Feed URL</Label>
+                  <div className="flex gap-2">
+                    <Input id="calendarFeedUrl" value={calendarFeedUrl} readOnly onFocus={(e) => e.target.select()} />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => navigator.clipboard.writeText(calendarFeedUrl)}
+                      title="Copy feed URL"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Add <code>?projects=ID1,ID2</code> to limit the feed to some projects, and <code>from</code>/<code>to</code> (YYYY-MM-DD) or <code>days</code> to change the date window (default: the last 90 days).
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {calendarFeed?.enabled
+                    ? `Your calendar feed is enabled${calendarFeed.lastUsedAt ? ` and was last synced ${new Date(calendarFeed.lastUsedAt).toLocaleString()}` : ''}. Generate a new URL if you've lost it or it may have been shared.`
+                    : 'Your calendar feed is disabled.'}
+                </p>
+              )}
+
+              <Separator />
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleRotateFeed} disabled={isUpdatingFeed} className="flex items-center gap-2">
+                  <RefreshCw className="h-4 w-4" />
+                  {calendarFeed?.enabled ? 'Generate New URL' : 'Enable Calendar Feed'}
+                </Button>
+                {calendarFeed?.enabled && (
+                  <Button variant="outline" onClick={handleRevokeFeed} disabled={isUpdatingFeed} className="flex items-center gap-2">
+                    <Trash2 className="h-4 w-4" />
+                    Disable Feed
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <ApiKeysCard />
         </div>
       </div>
     </>
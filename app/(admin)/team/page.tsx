@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Users, AlertCircle, Loader2 } from 'lucide-react';
+import AdminHeader from '@/components/navigation/AdminHeader';
+
+interface TeamUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string | null;
+}
+
+interface ReportingLine {
+  id: string;
+  managerId: string;
+  employeeId: string;
+}
+
+interface ReportingLinesResponse {
+  reportingLines: ReportingLine[];
+  users: TeamUser[];
+}
+
+// Radix Select does not allow an empty string as an item value
+const NO_MANAGER = 'none';
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error(r.status === 403 ? 'forbidden' : 'Failed to fetch');
+  return r.json();
+});
+
+export default function TeamPage() {
+  const router = useRouter();
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const { data, error, isLoading, mutate } = useSWR<ReportingLinesResponse>('/api/admin/reporting-lines', fetcher);
+
+  const handleManagerChange = async (employeeId: string, managerId: string) => {
+    setSavingUserId(employeeId);
+    setErrorMessage(null);
+
+    try {
+      const response = managerId === NO_MANAGER
+        ? await fetch(`/api/admin/reporting-lines/${encodeURIComponent(employeeId)}`, { method: 'DELETE' })
+        : await fetch('/api/admin/reporting-lines', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ employeeId, managerId }),
+          });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      await mutate();
+    } catch (error) {
+      console.error('Error updating reporting line:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to update reporting line');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const headerActions = (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => router.push('/dashboard')}
+      className="flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to Dashboard
+    </Button>
+  );
+
+  const managerByEmployee = new Map(
+    (data?.reportingLines ?? []).map(line => [line.employeeId, line.managerId])
+  );
+
+  return (
+    <>
+      <AdminHeader actions={headerActions} />
+
+      <div className="container mx-auto px-6 py-8">
+        <div className="max-w-4xl mx-auto space-y-8">
+
+          {/* Page Title */}
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              Reporting Lines
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Assign managers so they can view and approve their team&apos;s timesheets
+            </p>
+          </div>
+
+          <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Team Members
+              </CardTitle>
+              <CardDescription>
+                Each user reports to at most one manager.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {errorMessage && (
+                <div className="p-3 rounded-md flex items-center gap-2 bg-red-50 text-red-800 border border-red-200">
+                  <AlertCircle className="h-4 w-4" />
+                  <span className="text-sm">{errorMessage}</span>
+                </div>
+              )}
+
+              {isLoading && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading team...
+                </div>
+              )}
+
+              {error && (
+                <p className="text-sm text-muted-foreground">
+                  {error.message === 'forbidden'
+                    ? 'Only administrators can manage reporting lines.'
+                    : 'Unable to load reporting lines.'}
+                </p>
+              )}
+
+              {data?.users.map(teamUser => (
+                <div
+                  key={teamUser.id}
+                  className="flex items-center justify-between gap-4 py-3 border-b last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{teamUser.name}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {teamUser.role || 'user'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{teamUser.email}</p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {savingUserId === teamUser.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                    <Select
+                      value={managerByEmployee.get(teamUser.id) ?? NO_MANAGER}
+                      onValueChange={(managerId) => handleManagerChange(teamUser.id, managerId)}
+                      disabled={savingUserId !== null}
+                    >
+                      <SelectTrigger className="w-56" aria-label={`Manager for ${teamUser.name}`}>
+                        <SelectValue placeholder="No manager" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                        {data.users
+                          .filter(candidate => candidate.id !== teamUser.id)
+                          .map(candidate => (
+                            <SelectItem key={candidate.id} value={candidate.id}>
+                              {candidate.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
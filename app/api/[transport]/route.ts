@@ -1,5 +1,6 @@
 import { auth } from "@/lib/auth";
 import { createMcpHandler } from "mcp-handler";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 // Tricking typescript into exporting the correct types
 type McpRegisterFn = Parameters<typeof createMcpHandler>[0];
@@ -11,257 +12,106 @@ import { db } from "@/drizzle/connection";
 import { user as userTable } from "@/drizzle/schema";
 import { eq } from "drizzle-orm";
 
-// Import MCP tools
+import { registerToolsForContext, getToolCapabilities } from "@/lib/mcp-tools/registry";
+import { ApiScope, hasApiScope, loadAuthorizationContext, type AuthorizationContext } from "@/lib/authorization";
+import { ApiKeyService, getApiKeyFromHeaders } from "@/lib/services/api-keys";
 import {
-	createClientTool,
-	listClientsTool,
-	updateClientTool,
-	deactivateClientTool,
-} from "@/lib/mcp-tools/client-tools";
+	clientsResource,
+	projectResource,
+	timesheetResource,
+} from "@/lib/mcp-tools/resources";
 import {
-	createProjectTool,
-	listProjectsTool,
-	updateProjectTool,
-	deactivateProjectTool,
-} from "@/lib/mcp-tools/project-tools";
-import {
-	startTimeTrackingTool,
-	stopTimeTrackingTool,
-	getActiveTimeEntryTool,
-	addManualTimeEntryTool,
-	updateTimeEntryTool,
-} from "@/lib/mcp-tools/time-tracking-tools";
-import {
-	listTimeEntresTool,
-	getTimeSummaryTool,
-	calculateEarningsTool,
-} from "@/lib/mcp-tools/report-tools";
+	weeklyStatusReportPrompt,
+	fillTimesheetGapsPrompt,
+} from "@/lib/mcp-tools/prompts";
 import { NextRequest } from "next/server";
 
-// Helper that registers all tools for a given userId and role onto the MCP server
-function registerToolsForUser(server: McpServer, userId: string, userRole?: string | null) {
-	// Pass role to tools that need it for authorization
-	// For now, tools receive userId; they can fetch role if needed
-	// In the future, we can pass role directly to tool handlers
-	
-	// Client management tools
-	server.registerTool(
-		createClientTool.name,
-		{
-			title: createClientTool.name,
-			description: createClientTool.description,
-			inputSchema: createClientTool.inputSchema,
-			outputSchema: createClientTool.outputSchema,
-		},
-		async (params) => createClientTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		listClientsTool.name,
-		{
-			title: listClientsTool.name,
-			description: listClientsTool.description,
-			inputSchema: listClientsTool.inputSchema,
-			outputSchema: listClientsTool.outputSchema,
-		},
-		async (params) => listClientsTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		updateClientTool.name,
-		{
-			title: updateClientTool.name,
-			description: updateClientTool.description,
-			inputSchema: updateClientTool.inputSchema,
-			outputSchema: updateClientTool.outputSchema,
-		},
-		async (params) => updateClientTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		deactivateClientTool.name,
-		{
-			title: deactivateClientTool.name,
-			description: deactivateClientTool.description,
-			inputSchema: deactivateClientTool.inputSchema,
-			outputSchema: deactivateClientTool.outputSchema,
-		},
-		async (params) => deactivateClientTool.handler(params, userId)
-	);
-
-	// Project management tools
-	server.registerTool(
-		createProjectTool.name,
-		{
-			title: createProjectTool.name,
-			description: createProjectTool.description,
-			inputSchema: createProjectTool.inputSchema,
-			outputSchema: createProjectTool.outputSchema,
-		},
-		async (params) => createProjectTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		listProjectsTool.name,
-		{
-			title: listProjectsTool.name,
-			description: listProjectsTool.description,
-			inputSchema: listProjectsTool.inputSchema,
-			outputSchema: listProjectsTool.outputSchema,
-		},
-		async (params) => listProjectsTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		updateProjectTool.name,
-		{
-			title: updateProjectTool.name,
-			description: updateProjectTool.description,
-			inputSchema: updateProjectTool.inputSchema,
-			outputSchema: updateProjectTool.outputSchema,
-		},
-		async (params) => updateProjectTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		deactivateProjectTool.name,
-		{
-			title: deactivateProjectTool.name,
-			description: deactivateProjectTool.description,
-			inputSchema: deactivateProjectTool.inputSchema,
-			outputSchema: deactivateProjectTool.outputSchema,
-		},
-		async (params) => deactivateProjectTool.handler(params, userId)
-	);
-
-	// Time tracking tools
-	server.registerTool(
-		startTimeTrackingTool.name,
-		{
-			title: startTimeTrackingTool.name,
-			description: startTimeTrackingTool.description,
-			inputSchema: startTimeTrackingTool.inputSchema,
-			outputSchema: startTimeTrackingTool.outputSchema,
-		},
-		async (params) => startTimeTrackingTool.handler(params, userId)
-	);
+const apiKeyService = new ApiKeyService();
 
-	server.registerTool(
-		stopTimeTrackingTool.name,
+// Helper that registers the resources and prompts for a given userId onto the MCP server
+function registerResourcesForUser(server: McpServer, userId: string) {
+	server.registerResource(
+		clientsResource.name,
+		clientsResource.uri,
 		{
-			title: stopTimeTrackingTool.name,
-			description: stopTimeTrackingTool.description,
-			inputSchema: stopTimeTrackingTool.inputSchema,
-			outputSchema: stopTimeTrackingTool.outputSchema,
+			title: clientsResource.title,
+			description: clientsResource.description,
+			mimeType: clientsResource.mimeType,
 		},
-		async (params) => stopTimeTrackingTool.handler(params, userId)
+		async () => clientsResource.read(userId)
 	);
 
-	server.registerTool(
-		getActiveTimeEntryTool.name,
+	server.registerResource(
+		projectResource.name,
+		new ResourceTemplate(projectResource.uriTemplate, {
+			list: async () => projectResource.list(userId),
+		}),
 		{
-			title: getActiveTimeEntryTool.name,
-			description: getActiveTimeEntryTool.description,
-			inputSchema: getActiveTimeEntryTool.inputSchema,
-			outputSchema: getActiveTimeEntryTool.outputSchema,
+			title: projectResource.title,
+			description: projectResource.description,
+			mimeType: projectResource.mimeType,
 		},
-		async (params) => getActiveTimeEntryTool.handler(params, userId)
+		async (uri, variables) => projectResource.read(uri, { id: String(variables.id) }, userId)
 	);
 
-	server.registerTool(
-		addManualTimeEntryTool.name,
+	server.registerResource(
+		timesheetResource.name,
+		new ResourceTemplate(timesheetResource.uriTemplate, {
+			list: async () => timesheetResource.list(userId),
+		}),
 		{
-			title: addManualTimeEntryTool.name,
-			description: addManualTimeEntryTool.description,
-			inputSchema: addManualTimeEntryTool.inputSchema,
-			outputSchema: addManualTimeEntryTool.outputSchema,
+			title: timesheetResource.title,
+			description: timesheetResource.description,
+			mimeType: timesheetResource.mimeType,
 		},
-		async (params) => addManualTimeEntryTool.handler(params, userId)
+		async (uri, variables) => timesheetResource.read(uri, { week: String(variables.week) }, userId)
 	);
 
-	server.registerTool(
-		updateTimeEntryTool.name,
+	server.registerPrompt(
+		weeklyStatusReportPrompt.name,
 		{
-			title: updateTimeEntryTool.name,
-			description: updateTimeEntryTool.description,
-			inputSchema: updateTimeEntryTool.inputSchema,
-			outputSchema: updateTimeEntryTool.outputSchema,
+			title: weeklyStatusReportPrompt.title,
+			description: weeklyStatusReportPrompt.description,
+			argsSchema: weeklyStatusReportPrompt.argsSchema,
 		},
-		async (params) => updateTimeEntryTool.handler(params, userId)
+		async (args) => weeklyStatusReportPrompt.handler(args, userId)
 	);
 
-	// Reporting tools
-	server.registerTool(
-		listTimeEntresTool.name,
+	server.registerPrompt(
+		fillTimesheetGapsPrompt.name,
 		{
-			title: listTimeEntresTool.name,
-			description: listTimeEntresTool.description,
-			inputSchema: listTimeEntresTool.inputSchema,
-			outputSchema: listTimeEntresTool.outputSchema,
+			title: fillTimesheetGapsPrompt.title,
+			description: fillTimesheetGapsPrompt.description,
+			argsSchema: fillTimesheetGapsPrompt.argsSchema,
 		},
-		async (params) => listTimeEntresTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		getTimeSummaryTool.name,
-		{
-			title: getTimeSummaryTool.name,
-			description: getTimeSummaryTool.description,
-			inputSchema: getTimeSummaryTool.inputSchema,
-			outputSchema: getTimeSummaryTool.outputSchema,
-		},
-		async (params) => getTimeSummaryTool.handler(params, userId)
-	);
-
-	server.registerTool(
-		calculateEarningsTool.name,
-		{
-			title: calculateEarningsTool.name,
-			description: calculateEarningsTool.description,
-			inputSchema: calculateEarningsTool.inputSchema,
-			outputSchema: calculateEarningsTool.outputSchema,
-		},
-		async (params) => calculateEarningsTool.handler(params, userId)
+		async (args) => fillTimesheetGapsPrompt.handler(args, userId)
 	);
 }
 
-// Shared capabilities object
-const capabilities = {
-	capabilities: {
-		tools: {
-			// Client management
-			[createClientTool.name]: { description: createClientTool.description },
-			[listClientsTool.name]: { description: listClientsTool.description },
-			[updateClientTool.name]: { description: updateClientTool.description },
-			[deactivateClientTool.name]: { description: deactivateClientTool.description },
-
-			// Project management
-			[createProjectTool.name]: { description: createProjectTool.description },
-			[listProjectsTool.name]: { description: listProjectsTool.description },
-			[updateProjectTool.name]: { description: updateProjectTool.description },
-			[deactivateProjectTool.name]: { description: deactivateProjectTool.description },
+// Look up a user's role in the database
+async function loadUserRole(userId: string): Promise<string | null> {
+	const [user] = await db
+		.select({ role: userTable.role })
+		.from(userTable)
+		.where(eq(userTable.id, userId))
+		.limit(1);
 
-			// Time tracking
-			[startTimeTrackingTool.name]: { description: startTimeTrackingTool.description },
-			[stopTimeTrackingTool.name]: { description: stopTimeTrackingTool.description },
-			[getActiveTimeEntryTool.name]: { description: getActiveTimeEntryTool.description },
-			[addManualTimeEntryTool.name]: { description: addManualTimeEntryTool.description },
-			[updateTimeEntryTool.name]: { description: updateTimeEntryTool.description },
-
-			// Reporting
-			[listTimeEntresTool.name]: { description: listTimeEntresTool.description },
-			[getTimeSummaryTool.name]: { description: getTimeSummaryTool.description },
-			[calculateEarningsTool.name]: { description: calculateEarningsTool.description },
-		},
-	},
-};
+	return user?.role || null;
+}
 
-// Create an MCP handler for a given local userId and role
-function createHandlerForUser(userId: string, userRole?: string | null) {
+// Create an MCP handler offering the tools the caller's authorization context allows
+function createHandlerForUser(context: AuthorizationContext) {
 	return createMcpHandler(
-		(server) => registerToolsForUser(server, userId, userRole),
+		(server) => {
+			registerToolsForContext(server, context);
+			if (hasApiScope(context, ApiScope.READ)) {
+				registerResourcesForUser(server, context.userId);
+			}
+		},
 		{
-			...capabilities,
+			capabilities: {
+				tools: getToolCapabilities(context),
+			},
 		},
 		{
 			redisUrl: env.REDIS_URL,
@@ -272,9 +122,25 @@ function createHandlerForUser(userId: string, userRole?: string | null) {
 	);
 }
 
-// Universal handler that accepts API key, proxy auth, or falls back to OAuth via withMcpAuth
+// Universal handler that accepts API keys, proxy auth, or falls back to OAuth via withMcpAuth
 const universalHandler = async (req: Request) => {
-	// First: check for API key header
+	// First: check for a personal API key; its scopes limit the tools offered
+	const personalKey = getApiKeyFromHeaders(req.headers);
+	if (personalKey) {
+		const owner = await apiKeyService.authenticate(personalKey);
+		if (!owner) {
+			return new Response('Invalid or expired API key', { status: 401 });
+		}
+
+		const context = await loadAuthorizationContext(owner.userId, owner.role);
+		const handler = createHandlerForUser({
+			...context,
+			metadata: { ...context.metadata, apiScopes: owner.scopes },
+		});
+		return handler(req);
+	}
+
+	// Then: check for the static MCP API key
 	const headerKey = (req.headers.get && (req.headers.get('x-api-key') || req.headers.get('authorization'))) || null;
 	if (headerKey) {
 		let keyValue = headerKey;
@@ -284,8 +150,9 @@ const universalHandler = async (req: Request) => {
 
 		if (env.MCP_API_KEY && keyValue === env.MCP_API_KEY) {
 			const userId = env.MCP_API_USER_ID || env.SEED_USER_ID || 'service-user';
-			// API key users get admin role by default
-			const handler = createHandlerForUser(userId, 'admin');
+			// The service user acts with its own role, like any other user
+			const context = await loadAuthorizationContext(userId, await loadUserRole(userId));
+			const handler = createHandlerForUser(context);
 			return handler(req);
 		}
 	}
@@ -297,22 +164,14 @@ const universalHandler = async (req: Request) => {
 			const proxyAuth = await authenticateViaProxy(req as NextRequest);
 			if (proxyAuth.success && proxyAuth.userId) {
 				// Extract role from JWT or fetch from database
-				let userRole = proxyAuth.userInfo?.role || 
+				const userRole = proxyAuth.userInfo?.role || 
 				              (proxyAuth.userInfo?.roles && proxyAuth.userInfo.roles.length > 0 
 				                ? proxyAuth.userInfo.roles[0] 
-				                : null);
-				
-				// If no role from JWT, fetch from database
-				if (!userRole) {
-					const [user] = await db
-						.select({ role: userTable.role })
-						.from(userTable)
-						.where(eq(userTable.id, proxyAuth.userId))
-						.limit(1);
-					userRole = user?.role || null;
-				}
+				                : null) ||
+				              await loadUserRole(proxyAuth.userId);
 				
-				const handler = createHandlerForUser(proxyAuth.userId, userRole);
+				const context = await loadAuthorizationContext(proxyAuth.userId, userRole);
+				const handler = createHandlerForUser(context);
 				return handler(req);
 			}
 			// If proxy auth fails, log and fall through to Better Auth
@@ -330,14 +189,8 @@ const universalHandler = async (req: Request) => {
 		}
 
 		// Fetch user role from database for Better Auth sessions
-		const [user] = await db
-			.select({ role: userTable.role })
-			.from(userTable)
-			.where(eq(userTable.id, userId))
-			.limit(1);
-		
-		const userRole = user?.role || null;
-		const handler = createHandlerForUser(userId, userRole);
+		const context = await loadAuthorizationContext(userId, await loadUserRole(userId));
+		const handler = createHandlerForUser(context);
 		return handler(req);
 	})(req);
 };
@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { createAuthorizationContext, hasPermission, Permission } from "@/lib/authorization";
+import { ReportingLineService } from "@/lib/services/reporting-lines";
+
+const reportingLineService = new ReportingLineService();
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ employeeId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const authContext = createAuthorizationContext(user.userId, user.role);
+
+    if (!hasPermission(authContext, Permission.MANAGE_USERS)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Forbidden',
+          reason: `User with roles [${authContext.roles.join(', ')}] cannot manage reporting lines`,
+        }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { employeeId } = await params;
+    const removed = await reportingLineService.removeManager(employeeId);
+
+    if (!removed) {
+      return new Response("Reporting line not found", { status: 404 });
+    }
+
+    return Response.json({ success: true });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
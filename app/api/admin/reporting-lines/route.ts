@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { createAuthorizationContext, hasPermission, Permission } from "@/lib/authorization";
+import { ReportingLineService } from "@/lib/services/reporting-lines";
+
+const reportingLineService = new ReportingLineService();
+
+function forbidden(roles: string[]) {
+  return new Response(
+    JSON.stringify({
+      error: 'Forbidden',
+      reason: `User with roles [${roles.join(', ')}] cannot manage reporting lines`,
+    }),
+    { status: 403, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const authContext = createAuthorizationContext(user.userId, user.role);
+
+    if (!hasPermission(authContext, Permission.MANAGE_USERS)) {
+      return forbidden(authContext.roles);
+    }
+
+    const [reportingLines, users] = await Promise.all([
+      reportingLineService.listReportingLines(),
+      reportingLineService.listUsers(),
+    ]);
+
+    return Response.json({ reportingLines, users });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const authContext = createAuthorizationContext(user.userId, user.role);
+
+    if (!hasPermission(authContext, Permission.MANAGE_USERS)) {
+      return forbidden(authContext.roles);
+    }
+
+    const body = await req.json();
+    const { employeeId, managerId } = body;
+
+    if (!employeeId || !managerId) {
+      return new Response("employeeId and managerId are required", { status: 400 });
+    }
+
+    const invalidReason = await reportingLineService.validateAssignment(employeeId, managerId);
+    if (invalidReason) {
+      return new Response(invalidReason, { status: 400 });
+    }
+
+    const reportingLine = await reportingLineService.assignManager(employeeId, managerId, user.userId);
+
+    return Response.json({ success: true, reportingLine });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
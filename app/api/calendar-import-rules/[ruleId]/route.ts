@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { CalendarImportService } from "@/lib/services/calendar-imports";
+
+const calendarImportService = new CalendarImportService();
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const { ruleId } = await params;
+    const deleted = await calendarImportService.deleteRule(userId, ruleId);
+
+    if (!deleted) {
+      return new Response("Rule not found", { status: 404 });
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { CalendarImportService } from "@/lib/services/calendar-imports";
+import { ServiceError } from "@/lib/services/errors";
+
+const calendarImportService = new CalendarImportService();
+
+const MATCH_TYPES = ["title", "attendee_domain"];
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const rules = await calendarImportService.listRules(userId);
+
+    return Response.json(rules);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const body = await req.json().catch(() => ({}));
+    const { matchType, pattern, projectId } = body as { matchType?: unknown; pattern?: unknown; projectId?: unknown };
+
+    if (typeof matchType !== "string" || !MATCH_TYPES.includes(matchType)) {
+      return new Response(`matchType must be one of: ${MATCH_TYPES.join(", ")}`, { status: 400 });
+    }
+
+    if (typeof pattern !== "string" || typeof projectId !== "string") {
+      return new Response("pattern and projectId are required", { status: 400 });
+    }
+
+    try {
+      const rule = await calendarImportService.createRule(userId, {
+        matchType: matchType as "title" | "attendee_domain",
+        pattern,
+        projectId,
+      });
+
+      return Response.json(rule, { status: 201 });
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        return new Response(error.message, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
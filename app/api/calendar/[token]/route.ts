@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import { CalendarFeedService } from "@/lib/services/calendar-feeds";
+import { TimeEntryService } from "@/lib/services/time-entries";
+import { renderTimeEntriesCalendar } from "@/lib/services/icalendar";
+
+const calendarFeedService = new CalendarFeedService();
+const timeEntryService = new TimeEntryService();
+
+const DEFAULT_FEED_DAYS = 90;
+const MAX_FEED_DAYS = 366;
+const MAX_FEED_ENTRIES = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ICS subscription feed of the token owner's time entries. Calendar apps can't send auth
+// headers, so the token in the URL is the credential. Optional query parameters:
+// "projects" (comma-separated project IDs), and either "from"/"to" (YYYY-MM-DD) or "days"
+// (look back from today, default 90).
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const userId = await calendarFeedService.resolveToken(token.replace(/\.ics$/, ""));
+
+    if (!userId) {
+      return new Response("Calendar feed not found", { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url!);
+    const projectIds = searchParams.get("projects")?.split(",").map(id => id.trim()).filter(Boolean) ?? [];
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const days = Number(searchParams.get("days") ?? DEFAULT_FEED_DAYS);
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_FEED_DAYS) {
+      return new Response(`days must be a whole number between 1 and ${MAX_FEED_DAYS}`, { status: 400 });
+    }
+
+    const endDate = to ? new Date(`${to}T23:59:59.999Z`) : new Date();
+    const startDate = from ? new Date(`${from}T00:00:00.000Z`) : new Date(endDate.getTime() - days * DAY_MS);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return new Response("from and to must be dates in YYYY-MM-DD format", { status: 400 });
+    }
+
+    if (startDate > endDate || endDate.getTime() - startDate.getTime() > MAX_FEED_DAYS * DAY_MS) {
+      return new Response(`The date window must be between 1 and ${MAX_FEED_DAYS} days`, { status: 400 });
+    }
+
+    const entries = await timeEntryService.getTimeEntriesWithDetails(
+      userId,
+      startDate,
+      endDate,
+      MAX_FEED_ENTRIES,
+      [],
+      projectIds,
+      false
+    );
+
+    return new Response(renderTimeEntriesCalendar(entries, "Time Entries"), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="time-entries.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
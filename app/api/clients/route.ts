@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { ClientService } from "@/lib/services/clients";
+
+const clientService = new ClientService();
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const { searchParams } = new URL(req.url!);
+    const activeOnly = searchParams.get("activeOnly") !== "false";
+
+    const clients = await clientService.listClients(userId, activeOnly);
+
+    return Response.json(clients);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { env } from "@/lib/env";
+import { IdleTimerService } from "@/lib/services/idle-timers";
+
+const idleTimerService = new IdleTimerService();
+
+// Notifies users about forgotten timers (and auto-stops them if they opted in); run by a scheduler
+export async function GET(req: NextRequest) {
+  try {
+    if (!env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const result = await idleTimerService.checkIdleTimers();
+
+    return Response.json(result);
+  } catch (err) {
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
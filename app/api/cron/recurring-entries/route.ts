@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { env } from "@/lib/env";
+import { RecurringTemplateService } from "@/lib/services/recurring-templates";
+
+const recurringTemplateService = new RecurringTemplateService();
+
+// Logs time entries for recurring template occurrences that have ended; run by a scheduler
+export async function GET(req: NextRequest) {
+  try {
+    if (!env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const result = await recurringTemplateService.materialiseDue();
+
+    return Response.json(result);
+  } catch (err) {
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest } from "next/server";
 import { getAuthenticatedUser } from "@/lib/authUtils";
 import { getDashboardSummary } from "@/lib/services/reports";
-import { createAuthorizationContext, canViewUserTimesheets } from "@/lib/authorization";
+import { loadAuthorizationContext, canViewUserTimesheets } from "@/lib/authorization";
 
 export async function GET(req: NextRequest) {
   try {
@@ -13,7 +13,7 @@ export async function GET(req: NextRequest) {
     
     // If requesting another user's dashboard, check authorization
     if (targetUserId && targetUserId !== user.userId) {
-      const authContext = createAuthorizationContext(user.userId, user.role);
+      const authContext = await loadAuthorizationContext(user.userId, user.role);
       const authResult = canViewUserTimesheets(authContext, targetUserId);
       
       if (!authResult.authorized) {
@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser, getUserIdOrThrow } from "@/lib/authUtils";
+import { createAuthorizationContext, hasPermission, Permission } from "@/lib/authorization";
+import { ExchangeRateService, normalizeCurrency } from "@/lib/services/currency";
+
+const exchangeRateService = new ExchangeRateService();
+
+const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z]{3}$/.test(value.trim());
+
+export async function GET(req: NextRequest) {
+  try {
+    await getUserIdOrThrow(req);
+    const url = new URL(req.url!);
+    const currency = url.searchParams.get("currency");
+
+    if (currency && !isCurrencyCode(currency)) {
+      return new Response("Invalid currency code", { status: 400 });
+    }
+
+    const rates = await exchangeRateService.listRates(currency || undefined);
+    return Response.json(rates);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const authContext = createAuthorizationContext(user.userId, user.role);
+
+    if (!hasPermission(authContext, Permission.MANAGE_ORGANIZATION)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Forbidden',
+          reason: `User with roles [${authContext.roles.join(', ')}] cannot change exchange rates`,
+        }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json();
+
+    if (!isCurrencyCode(body.baseCurrency) || !isCurrencyCode(body.quoteCurrency)) {
+      return new Response("Valid baseCurrency and quoteCurrency codes are required", { status: 400 });
+    }
+
+    if (normalizeCurrency(body.baseCurrency) === normalizeCurrency(body.quoteCurrency)) {
+      return new Response("Base and quote currencies must differ", { status: 400 });
+    }
+
+    const rate = Number(body.rate);
+    if (!(rate > 0)) {
+      return new Response("Exchange rate must be positive", { status: 400 });
+    }
+
+    const effectiveDate = new Date(body.effectiveDate);
+    if (!body.effectiveDate || isNaN(effectiveDate.getTime())) {
+      return new Response("A valid effectiveDate is required", { status: 400 });
+    }
+
+    const exchangeRate = await exchangeRateService.setRate(user.userId, {
+      baseCurrency: body.baseCurrency,
+      quoteCurrency: body.quoteCurrency,
+      rate,
+      effectiveDate,
+    });
+
+    return Response.json({ success: true, exchangeRate });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
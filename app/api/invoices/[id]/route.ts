@@ -0,0 +1,81 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { InvoiceService } from "@/lib/services/invoices";
+import { renderInvoiceHtml, renderInvoicePdf } from "@/lib/services/invoice-rendering";
+
+const invoiceService = new InvoiceService();
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const { id } = await params;
+    const format = new URL(req.url!).searchParams.get("format") || "json";
+
+    if (format !== 'json' && format !== 'html' && format !== 'pdf') {
+      return new Response("Invalid format", { status: 400 });
+    }
+
+    const details = await invoiceService.getInvoice(userId, id);
+    if (!details) {
+      return new Response("Invoice not found", { status: 404 });
+    }
+
+    if (format === 'html') {
+      return new Response(renderInvoiceHtml(details), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+
+    if (format === 'pdf') {
+      const pdf = await renderInvoicePdf(details);
+      return new Response(Buffer.from(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${details.invoice.invoiceNumber}.pdf"`,
+        },
+      });
+    }
+
+    return Response.json(details);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const { id } = await params;
+    const body = await req.json();
+    const { action, reason } = body;
+
+    if (action !== 'void') {
+      return new Response("Invalid action", { status: 400 });
+    }
+
+    const details = await invoiceService.getInvoice(userId, id);
+    if (!details) {
+      return new Response("Invoice not found", { status: 404 });
+    }
+
+    if (details.invoice.status === 'void') {
+      return new Response("Invoice is already void", { status: 409 });
+    }
+
+    const invoice = await invoiceService.voidInvoice(userId, id, reason);
+
+    return Response.json({ success: true, invoice });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { InvoiceService, type InvoiceStatus } from "@/lib/services/invoices";
+import { ClientService } from "@/lib/services/clients";
+
+const invoiceService = new InvoiceService();
+const clientService = new ClientService();
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const { searchParams } = new URL(req.url!);
+    const clientId = searchParams.get("clientId") || undefined;
+    const status = searchParams.get("status");
+
+    if (status && status !== 'issued' && status !== 'void') {
+      return new Response("Invalid status", { status: 400 });
+    }
+
+    const results = await invoiceService.listInvoices(userId, {
+      clientId,
+      status: (status as InvoiceStatus) || undefined,
+    });
+
+    return Response.json(results.map(({ invoice, clientName }) => ({ ...invoice, clientName })));
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const body = await req.json();
+    const { clientId, discountPercent, taxRate, taxLabel, dueInDays, notes } = body;
+    const periodStart = new Date(body.periodStart);
+    const periodEnd = new Date(body.periodEnd);
+
+    if (!clientId) {
+      return new Response("Client ID is required", { status: 400 });
+    }
+
+    if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime())) {
+      return new Response("Valid periodStart and periodEnd dates are required", { status: 400 });
+    }
+
+    if (periodEnd <= periodStart) {
+      return new Response("Period end must be after period start", { status: 400 });
+    }
+
+    const client = await clientService.getClient(userId, clientId);
+    if (!client) {
+      return new Response("Client not found", { status: 404 });
+    }
+
+    const entries = await invoiceService.getUninvoicedEntries(userId, clientId, periodStart, periodEnd);
+    if (entries.length === 0) {
+      return new Response("No uninvoiced billable time entries found for this client and period", { status: 422 });
+    }
+
+    const invoice = await invoiceService.createInvoice(userId, {
+      clientId,
+      periodStart,
+      periodEnd,
+      discountPercent: discountPercent ? Number(discountPercent) : undefined,
+      taxRate: taxRate ? Number(taxRate) : undefined,
+      taxLabel,
+      dueInDays: dueInDays ? Number(dueInDays) : undefined,
+      notes,
+    });
+
+    return Response.json({ success: true, ...invoice }, { status: 201 });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
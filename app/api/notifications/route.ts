@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { NotificationService } from "@/lib/services/notifications";
+
+const notificationService = new NotificationService();
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const { searchParams } = new URL(req.url!);
+    const unreadOnly = searchParams.get("unreadOnly") === "true";
+
+    const notifications = await notificationService.listNotifications(userId, unreadOnly);
+
+    return Response.json(notifications);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+// Marks the given notifications as read, or all unread ones when no IDs are sent
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const body = await req.json().catch(() => ({}));
+    const { ids } = body as { ids?: unknown };
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== "string"))) {
+      return new Response("ids must be an array of notification IDs", { status: 400 });
+    }
+
+    const updated = await notificationService.markRead(userId, ids as string[] | undefined);
+
+    return Response.json({ updated });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
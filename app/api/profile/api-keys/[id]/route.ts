@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { ApiKeyService, getApiKeyFromHeaders } from "@/lib/services/api-keys";
+
+const apiKeyService = new ApiKeyService();
+
+// Revokes a key; requests using it fail from then on
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (getApiKeyFromHeaders(req.headers)) {
+      return new Response("API keys can only be managed when signed in", { status: 403 });
+    }
+
+    const userId = await getUserIdOrThrow(req);
+    const { id } = await params;
+    const revoked = await apiKeyService.revokeKey(userId, id);
+
+    if (!revoked) {
+      return new Response("API key not found", { status: 404 });
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
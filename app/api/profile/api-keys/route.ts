@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { ApiKeyService, getApiKeyFromHeaders, parseApiScopes } from "@/lib/services/api-keys";
+
+const apiKeyService = new ApiKeyService();
+
+const MAX_NAME_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys can't be used to manage keys, so a leaked key can't issue itself successors
+const rejectApiKeys = (req: NextRequest) => getApiKeyFromHeaders(req.headers)
+  ? new Response("API keys can only be managed when signed in", { status: 403 })
+  : null;
+
+export async function GET(req: NextRequest) {
+  try {
+    const rejected = rejectApiKeys(req);
+    if (rejected) return rejected;
+
+    const userId = await getUserIdOrThrow(req);
+    const keys = await apiKeyService.listKeys(userId);
+
+    return Response.json(keys);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+// Issues a new key; the response is the only time it's shown
+export async function POST(req: NextRequest) {
+  try {
+    const rejected = rejectApiKeys(req);
+    if (rejected) return rejected;
+
+    const userId = await getUserIdOrThrow(req);
+    const body = await req.json();
+    const { name, scopes, expiresInDays } = body;
+
+    if (typeof name !== "string" || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      return new Response(`Name is required and must be at most ${MAX_NAME_LENGTH} characters`, { status: 400 });
+    }
+
+    const apiScopes = parseApiScopes(scopes);
+    if (!apiScopes || apiScopes.length === 0) {
+      return new Response("Scopes must be a non-empty list of read, write and team", { status: 400 });
+    }
+
+    if (expiresInDays !== null && !(Number.isInteger(expiresInDays) && expiresInDays >= 1 && expiresInDays <= MAX_EXPIRY_DAYS)) {
+      return new Response(`Expiry must be a whole number of days between 1 and ${MAX_EXPIRY_DAYS}, or null`, { status: 400 });
+    }
+
+    try {
+      const created = await apiKeyService.createKey(userId, {
+        name: name.trim(),
+        scopes: apiScopes,
+        expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY_MS),
+      });
+
+      return Response.json(created, { status: 201 });
+    } catch (error) {
+      return new Response(error instanceof Error ? error.message : "Failed to create API key", { status: 400 });
+    }
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { CalendarFeedService } from "@/lib/services/calendar-feeds";
+import { getBaseUrl } from "@/lib/utils/url";
+
+const calendarFeedService = new CalendarFeedService();
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const status = await calendarFeedService.getStatus(userId);
+
+    return Response.json(status);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+// Issues a new feed URL; the previous one stops working immediately
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const token = await calendarFeedService.rotateToken(userId);
+
+    return Response.json({ url: `${getBaseUrl()}/api/calendar/${token}.ics` }, { status: 201 });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const revoked = await calendarFeedService.revokeToken(userId);
+
+    if (!revoked) {
+      return new Response("Calendar feed not found", { status: 404 });
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
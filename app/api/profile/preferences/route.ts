@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { UserSettingsService, type UserSettingsValues } from "@/lib/services/user-settings";
+
+const userSettingsService = new UserSettingsService();
+
+const OVERLAP_POLICIES = ['reject', 'warn', 'trim'] as const;
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const settings = await userSettingsService.getSettings(userId);
+
+    return Response.json(settings);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const body = await req.json();
+    const { overlapPolicy, idleTimerHours, workdayEnd, timeZone, autoStopIdleTimers, maxConcurrentTimers } = body;
+
+    const changes: Partial<UserSettingsValues> = {};
+
+    if (overlapPolicy !== undefined) {
+      if (!OVERLAP_POLICIES.includes(overlapPolicy)) {
+        return new Response("Invalid overlap policy", { status: 400 });
+      }
+      changes.overlapPolicy = overlapPolicy;
+    }
+
+    if (idleTimerHours !== undefined) {
+      if (idleTimerHours !== null && !(Number.isInteger(idleTimerHours) && idleTimerHours >= 1 && idleTimerHours <= 72)) {
+        return new Response("Idle timer hours must be a whole number between 1 and 72, or null", { status: 400 });
+      }
+      changes.idleTimerHours = idleTimerHours;
+    }
+
+    if (workdayEnd !== undefined) {
+      if (workdayEnd !== null && !(typeof workdayEnd === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(workdayEnd))) {
+        return new Response("End of workday must be a time in HH:MM format, or null", { status: 400 });
+      }
+      changes.workdayEnd = workdayEnd;
+    }
+
+    if (timeZone !== undefined) {
+      if (typeof timeZone !== 'string' || !isTimeZone(timeZone)) {
+        return new Response("Invalid time zone", { status: 400 });
+      }
+      changes.timeZone = timeZone;
+    }
+
+    if (autoStopIdleTimers !== undefined) {
+      if (typeof autoStopIdleTimers !== 'boolean') {
+        return new Response("autoStopIdleTimers must be a boolean", { status: 400 });
+      }
+      changes.autoStopIdleTimers = autoStopIdleTimers;
+    }
+
+    if (maxConcurrentTimers !== undefined) {
+      if (!(Number.isInteger(maxConcurrentTimers) && maxConcurrentTimers >= 1 && maxConcurrentTimers <= 10)) {
+        return new Response("Concurrent timers must be a whole number between 1 and 10", { status: 400 });
+      }
+      changes.maxConcurrentTimers = maxConcurrentTimers;
+    }
+
+    const settings = await userSettingsService.updateSettings(userId, changes);
+
+    return Response.json(settings);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -14,6 +14,8 @@ export async function GET(req: NextRequest) {
         name: projects.name,
         description: projects.description,
         hourlyRate: projects.hourlyRate,
+        currency: projects.currency,
+        billable: projects.billable,
         clientName: clients.name,
         active: projects.active,
       })
@@ -1,7 +1,7 @@
 import { NextRequest } from "next/server";
 import { getAuthenticatedUser } from "@/lib/authUtils";
 import { getDailyHours } from "@/lib/services/reports";
-import { createAuthorizationContext, canViewUserTimesheets, canViewAllTimesheets } from "@/lib/authorization";
+import { loadAuthorizationContext, canViewUserTimesheets, canViewAllTimesheets } from "@/lib/authorization";
 
 export async function GET(req: NextRequest) {
   try {
@@ -23,7 +23,7 @@ export async function GET(req: NextRequest) {
     
     // If requesting other users' data, check authorization
     if (targetUserIds && targetUserIds.some(id => id !== user.userId)) {
-      const authContext = createAuthorizationContext(user.userId, user.role);
+      const authContext = await loadAuthorizationContext(user.userId, user.role);
       
       // Check if user can view all timesheets (HR/Admin)
       const canViewAll = canViewAllTimesheets(authContext);
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { getEarningsReport } from "@/lib/services/reports";
+import { normalizeCurrency } from "@/lib/services/currency";
+import { loadAuthorizationContext, canViewUserTimesheets } from "@/lib/authorization";
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const url = new URL(req.url!);
+
+    const targetUserId = url.searchParams.get("userId");
+    const startDateParam = url.searchParams.get("startDate");
+    const endDateParam = url.searchParams.get("endDate");
+    const currencyParam = url.searchParams.get("currency");
+
+    const startDate = startDateParam ? new Date(startDateParam) : undefined;
+    const endDate = endDateParam ? new Date(endDateParam) : undefined;
+
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return new Response("Invalid date", { status: 400 });
+    }
+
+    if (currencyParam && !/^[A-Za-z]{3}$/.test(currencyParam)) {
+      return new Response("Invalid currency code", { status: 400 });
+    }
+    const reportingCurrency = currencyParam ? normalizeCurrency(currencyParam) : undefined;
+
+    // If requesting another user's earnings, check authorization
+    if (targetUserId && targetUserId !== user.userId) {
+      const authContext = await loadAuthorizationContext(user.userId, user.role);
+      const authResult = canViewUserTimesheets(authContext, targetUserId);
+
+      if (!authResult.authorized) {
+        return new Response(
+          JSON.stringify({ error: 'Forbidden', reason: authResult.reason }),
+          { status: 403, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const data = await getEarningsReport(user.userId, { startDate, endDate, reportingCurrency }, { targetUserId });
+      return Response.json(data);
+    }
+
+    const data = await getEarningsReport(user.userId, { startDate, endDate, reportingCurrency });
+    return Response.json(data);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
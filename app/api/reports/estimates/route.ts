@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { getEstimateReport } from "@/lib/services/reports";
+
+// Tasks and projects are shared, so every signed-in user sees the same estimates
+export async function GET(req: NextRequest) {
+  try {
+    await getUserIdOrThrow(req);
+    const url = new URL(req.url!);
+
+    const projectId = url.searchParams.get("projectId") || undefined;
+    const overBudgetOnly = url.searchParams.get("overBudgetOnly") === "true";
+
+    const data = await getEstimateReport({ projectId, overBudgetOnly });
+    return Response.json(data);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
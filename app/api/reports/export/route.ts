@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { parseTimeEntryFilters } from "@/lib/time-entry-filters";
+import { ExportService, SUMMARY_EXPORT_COLUMNS, summarizeExportHours } from "@/lib/services/exports";
+import {
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  toCsvStream,
+  toXlsxStream,
+  renderPdfTable,
+  type ExportFormat,
+} from "@/lib/services/export-rendering";
+
+const exportService = new ExportService();
+
+async function* toAsyncIterable<T>(rows: T[]) {
+  yield* rows;
+}
+
+// Exports hours per user, client and project for the same filters as GET /api/time-entries,
+// as CSV, XLSX or a printable PDF with signature lines
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const { searchParams } = new URL(req.url!);
+    const format = (searchParams.get("format") || "csv") as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return new Response(`Invalid format. Use one of: ${EXPORT_FORMATS.join(", ")}`, { status: 400 });
+    }
+
+    const filters = await parseTimeEntryFilters(searchParams, user);
+    const rows = await exportService.getSummary(filters);
+    const filename = `time-report_${new Date().toISOString().split("T")[0]}.${format}`;
+    const headers = {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    };
+
+    if (format === "csv") {
+      return new Response(toCsvStream(SUMMARY_EXPORT_COLUMNS, toAsyncIterable(rows)), { headers });
+    }
+
+    if (format === "xlsx") {
+      return new Response(toXlsxStream("Time Report", SUMMARY_EXPORT_COLUMNS, toAsyncIterable(rows)), { headers });
+    }
+
+    const dateFrom = searchParams.get("dateFrom");
+    const dateTo = searchParams.get("dateTo");
+    const pdf = await renderPdfTable({
+      title: "Time Report",
+      details: [
+        `Period: ${dateFrom && dateTo ? `${dateFrom} to ${dateTo}` : "All dates"}`,
+        `Generated: ${new Date().toISOString().split("T")[0]}`,
+      ],
+      columns: SUMMARY_EXPORT_COLUMNS,
+      rows,
+      totals: {
+        User: "Total",
+        Entries: rows.reduce((acc, row) => acc + row.entryCount, 0),
+        ...summarizeExportHours(rows),
+      },
+      signatures: ["Prepared by", "Approved by"],
+    });
+
+    return new Response(Buffer.from(pdf), { headers });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
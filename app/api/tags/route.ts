@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { TagService } from "@/lib/services/tags";
+
+const tagService = new TagService();
+
+export async function GET(req: NextRequest) {
+  try {
+    await getUserIdOrThrow(req);
+
+    const tags = await tagService.listTags();
+
+    return Response.json(tags);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -3,18 +3,25 @@ import { getUserIdOrThrow } from "@/lib/authUtils";
 import { db } from "@/drizzle/connection";
 import { timeEntries, projects } from "@/drizzle/schema";
 import { eq, and } from "drizzle-orm";
+import { TimeEntryService, getPausedMilliseconds } from "@/lib/services/time-entries";
+import { UserSettingsService } from "@/lib/services/user-settings";
+import { ServiceError } from "@/lib/services/errors";
+
+const timeEntryService = new TimeEntryService();
+const userSettingsService = new UserSettingsService();
 
 export async function GET(req: NextRequest) {
   try {
     const userId = await getUserIdOrThrow(req);
-    
-    const [activeEntry] = await db
+
+    const activeEntries = await db
       .select({
         id: timeEntries.id,
         projectName: projects.name,
         description: timeEntries.description,
         startTime: timeEntries.startTime,
         isActive: timeEntries.isActive,
+        isPaused: timeEntries.isPaused,
       })
       .from(timeEntries)
       .innerJoin(projects, eq(projects.id, timeEntries.projectId))
@@ -24,13 +31,31 @@ export async function GET(req: NextRequest) {
           eq(timeEntries.isActive, true)
         )
       )
-      .limit(1);
+      .orderBy(timeEntries.startTime);
 
-    if (!activeEntry) {
-      return Response.json({ isActive: false });
+    const { maxConcurrentTimers } = await userSettingsService.getSettings(userId);
+
+    // Closed breaks are reported as a total; the open break (if paused) via pausedAt
+    const entries = [];
+    for (const activeEntry of activeEntries) {
+      const breaks = await timeEntryService.getTimeEntryBreaks(activeEntry.id);
+      const openBreak = breaks.find(entryBreak => !entryBreak.endTime);
+      const pausedSeconds = Math.floor(
+        getPausedMilliseconds(breaks.filter(entryBreak => entryBreak.endTime)) / 1000
+      );
+
+      entries.push({
+        ...activeEntry,
+        pausedAt: openBreak?.startTime ?? null,
+        pausedSeconds,
+      });
     }
 
-    return Response.json(activeEntry);
+    return Response.json({
+      isActive: entries.length > 0,
+      entries,
+      maxConcurrentTimers,
+    });
   } catch (err) {
     if (err instanceof Response) return err;
     console.error(err);
@@ -42,66 +67,60 @@ export async function PATCH(req: NextRequest) {
   try {
     const userId = await getUserIdOrThrow(req);
     const body = await req.json();
-    const { action } = body;
+    const { action, entryId } = body;
 
-    if (action !== 'stop' && action !== 'pause') {
+    if (action !== 'stop' && action !== 'pause' && action !== 'resume') {
       return new Response("Invalid action", { status: 400 });
     }
 
-    // Find the active entry
-    const [activeEntry] = await db
-      .select()
-      .from(timeEntries)
-      .where(
-        and(
-          eq(timeEntries.userId, userId),
-          eq(timeEntries.isActive, true)
-        )
-      )
-      .limit(1);
+    // Find the timer to act on; with several running, the client has to say which
+    const activeEntries = await timeEntryService.getActiveTimeEntries(userId);
+
+    if (!entryId && activeEntries.length > 1) {
+      return new Response("Several timers are running; specify entryId", { status: 400 });
+    }
+
+    const activeEntry = entryId
+      ? activeEntries.find(entry => entry.id === entryId)
+      : activeEntries[0];
 
     if (!activeEntry) {
       return new Response("No active timer found", { status: 404 });
     }
 
-    if (action === 'stop') {
-      // Stop the timer and calculate duration
-      const endTime = new Date();
-      const startTime = new Date(activeEntry.startTime);
-      const durationMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
-      
-      await db
-        .update(timeEntries)
-        .set({
-          endTime: endTime,
-          durationMinutes: durationMinutes,
-          isActive: false,
-          updatedAt: new Date(),
-        })
-        .where(eq(timeEntries.id, activeEntry.id));
-
-      return Response.json({ success: true, action: 'stopped', durationMinutes });
-    } else if (action === 'pause') {
-      // For now, pause just stops the timer (can be enhanced later for resume functionality)
-      const endTime = new Date();
-      const startTime = new Date(activeEntry.startTime);
-      const durationMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
-      
-      await db
-        .update(timeEntries)
-        .set({
-          endTime: endTime,
-          durationMinutes: durationMinutes,
-          isActive: false,
-          updatedAt: new Date(),
-        })
-        .where(eq(timeEntries.id, activeEntry.id));
-
-      return Response.json({ success: true, action: 'paused', durationMinutes });
+    try {
+      if (action === 'stop') {
+        // Stop the timer; paused intervals are excluded from the duration
+        const stoppedEntry = await timeEntryService.stopTimeTracking(userId, activeEntry.id);
+
+        return Response.json({ success: true, action: 'stopped', durationMinutes: stoppedEntry?.durationMinutes ?? 0 });
+      } else if (action === 'pause') {
+        if (activeEntry.isPaused) {
+          return new Response("Timer is already paused", { status: 409 });
+        }
+
+        await timeEntryService.pauseTimeTracking(userId, activeEntry.id);
+
+        return Response.json({ success: true, action: 'paused' });
+      } else {
+        if (!activeEntry.isPaused) {
+          return new Response("Timer is not paused", { status: 409 });
+        }
+
+        await timeEntryService.resumeTimeTracking(userId, activeEntry.id);
+
+        return Response.json({ success: true, action: 'resumed' });
+      }
+    } catch (error) {
+      // The timer was paused, resumed or stopped by another request in the meantime
+      if (error instanceof ServiceError) {
+        return new Response(error.message, { status: error.kind === 'conflict' ? 409 : 400 });
+      }
+      throw error;
     }
   } catch (err) {
     if (err instanceof Response) return err;
     console.error(err);
     return new Response("Internal Server Error", { status: 500 });
   }
-}
\ No newline at end of file
+}
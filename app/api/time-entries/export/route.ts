@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { parseTimeEntryFilters } from "@/lib/time-entry-filters";
+import { ExportService, timeEntryExportColumns, summarizeExportHours, type ExportEntry } from "@/lib/services/exports";
+import {
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  toCsvStream,
+  toXlsxStream,
+  renderPdfTable,
+  type ExportFormat,
+} from "@/lib/services/export-rendering";
+
+const exportService = new ExportService();
+
+// Exports all completed entries matching the same filters as GET /api/time-entries, as CSV,
+// XLSX or a printable PDF timesheet. "timeZone" (IANA name, default UTC) sets how times are shown.
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const { searchParams } = new URL(req.url!);
+    const format = (searchParams.get("format") || "csv") as ExportFormat;
+    const timeZone = searchParams.get("timeZone") || "UTC";
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return new Response(`Invalid format. Use one of: ${EXPORT_FORMATS.join(", ")}`, { status: 400 });
+    }
+
+    let columns;
+    try {
+      columns = timeEntryExportColumns(timeZone);
+    } catch {
+      return new Response(`Unknown time zone: ${timeZone}`, { status: 400 });
+    }
+
+    const filters = await parseTimeEntryFilters(searchParams, user);
+    const filename = `time-entries_${new Date().toISOString().split("T")[0]}.${format}`;
+    const headers = {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    };
+
+    if (format === "csv") {
+      return new Response(toCsvStream(columns, exportService.streamEntries(filters)), { headers });
+    }
+
+    if (format === "xlsx") {
+      return new Response(toXlsxStream("Time Entries", columns, exportService.streamEntries(filters)), { headers });
+    }
+
+    // A PDF is laid out in one go, so its entries are collected first
+    const entries: ExportEntry[] = [];
+    for await (const entry of exportService.streamEntries(filters)) {
+      entries.push(entry);
+    }
+
+    const dateFrom = searchParams.get("dateFrom");
+    const dateTo = searchParams.get("dateTo");
+    const people = Array.from(new Set(entries.map(entry => entry.userName))).sort();
+    const totalHours = summarizeExportHours(entries.map(entry => ({
+      totalHours: entry.durationMinutes / 60,
+      billableHours: entry.billable ? entry.durationMinutes / 60 : 0,
+    })));
+
+    const pdf = await renderPdfTable({
+      title: "Timesheet",
+      details: [
+        `Period: ${dateFrom && dateTo ? `${dateFrom} to ${dateTo}` : "All dates"}`,
+        `${people.length === 1 ? "Employee" : "Employees"}: ${people.join(", ") || "-"}`,
+        `Total: ${totalHours.Hours}h (${totalHours["Billable Hours"]}h billable) · Times in ${timeZone}`,
+      ],
+      columns,
+      rows: entries,
+      totals: { Date: "Total", Hours: totalHours.Hours },
+      signatures: ["Employee signature", "Approver signature"],
+    });
+
+    return new Response(Buffer.from(pdf), { headers });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { CalendarImportService } from "@/lib/services/calendar-imports";
+import { ServiceError } from "@/lib/services/errors";
+
+const calendarImportService = new CalendarImportService();
+
+// Creates time entries from the events of an uploaded .ics file. Multipart fields: "file",
+// plus optional "timeZone", "defaultProjectId", "tags" (comma-separated), "dryRun",
+// "skipOverlapping" and "assignments" (JSON object of event ID to project ID, or null to
+// leave the event out). Dry runs return the drafts without writing anything.
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const formData = await req.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return new Response("A file is required", { status: 400 });
+    }
+
+    if (!file.name.toLowerCase().endsWith(".ics")) {
+      return new Response("Only .ics files can be imported", { status: 400 });
+    }
+
+    let assignments: Record<string, string | null> | undefined;
+    const rawAssignments = formData.get("assignments") as string | null;
+    if (rawAssignments) {
+      try {
+        assignments = JSON.parse(rawAssignments);
+      } catch {
+        return new Response("assignments must be a JSON object", { status: 400 });
+      }
+
+      if (typeof assignments !== "object" || assignments === null || Array.isArray(assignments)
+        || Object.values(assignments).some(projectId => projectId !== null && typeof projectId !== "string")) {
+        return new Response("assignments must map event IDs to project IDs or null", { status: 400 });
+      }
+    }
+
+    const content = await file.text();
+    const options = {
+      timeZone: (formData.get("timeZone") as string | null) || undefined,
+      defaultProjectId: (formData.get("defaultProjectId") as string | null) || undefined,
+      tags: ((formData.get("tags") as string | null) ?? "").split(",").map(tag => tag.trim()).filter(Boolean),
+    };
+
+    try {
+      if (formData.get("dryRun") !== "false") {
+        return Response.json(await calendarImportService.preview(userId, content, options));
+      }
+
+      const result = await calendarImportService.commit(userId, content, {
+        ...options,
+        assignments,
+        skipOverlapping: formData.get("skipOverlapping") !== "false",
+      });
+
+      return Response.json(result, { status: 201 });
+    } catch (error) {
+      // Problems with the file or the chosen projects
+      if (error instanceof ServiceError) {
+        return new Response(error.message, { status: 422 });
+      }
+      throw error;
+    }
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { ImportService } from "@/lib/services/imports";
+import { type ImportFileType, type ImportFormat } from "@/lib/services/import-formats";
+import { ServiceError } from "@/lib/services/errors";
+
+const importService = new ImportService();
+
+const FILE_TYPES: ImportFileType[] = ["csv", "xlsx", "json"];
+const FORMATS: (ImportFormat | "auto")[] = ["auto", "toggl", "clockify", "harvest", "generic"];
+
+// Imports a multipart upload ("file", plus optional "format", "dryRun", "skipInvalid" and
+// "skipOverlapping" fields). Dry runs return the preview without writing anything.
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const formData = await req.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return new Response("A file is required", { status: 400 });
+    }
+
+    const fileType = file.name.split(".").pop()?.toLowerCase() as ImportFileType;
+    if (!FILE_TYPES.includes(fileType)) {
+      return new Response("Only .csv, .xlsx and .json files can be imported", { status: 400 });
+    }
+
+    const format = (formData.get("format") as string | null) || "auto";
+    if (!FORMATS.includes(format as ImportFormat | "auto")) {
+      return new Response(`Invalid format. Use one of: ${FORMATS.join(", ")}`, { status: 400 });
+    }
+
+    const content = Buffer.from(await file.arrayBuffer());
+    const options = { fileType, format: format as ImportFormat | "auto" };
+
+    try {
+      if (formData.get("dryRun") !== "false") {
+        return Response.json(await importService.preview(userId, content, options));
+      }
+
+      const result = await importService.commit(userId, content, {
+        ...options,
+        skipInvalid: formData.get("skipInvalid") === "true",
+        skipOverlapping: formData.get("skipOverlapping") !== "false",
+      });
+
+      return Response.json(result, { status: 201 });
+    } catch (error) {
+      // Problems with the file itself or its rows; anything else is a server fault
+      if (error instanceof ServiceError) {
+        return new Response(error.message, { status: 422 });
+      }
+      throw error;
+    }
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest } from "next/server";
 import { getAuthenticatedUser } from "@/lib/authUtils";
 import { db } from "@/drizzle/connection";
-import { timeEntries, projects, clients } from "@/drizzle/schema";
-import { eq, desc, sql, and, inArray } from "drizzle-orm";
-import { createAuthorizationContext, canViewAllTimesheets, canViewUserTimesheets } from "@/lib/authorization";
+import { timeEntries, timeEntryTags, tags, projects, clients } from "@/drizzle/schema";
+import { eq, sql, and, inArray } from "drizzle-orm";
+import { parseTimeEntryFilters, entryIsBillable, entryOverlapsAnother } from "@/lib/time-entry-filters";
+import { UserSettingsService } from "@/lib/services/user-settings";
+
+const userSettingsService = new UserSettingsService();
 
 export async function GET(req: NextRequest) {
   try {
@@ -12,118 +15,7 @@ export async function GET(req: NextRequest) {
     const page = Number(searchParams.get("page")) || 1;
     const limit = Number(searchParams.get("limit")) || 10;
     const offset = (page - 1) * limit;
-    
-    // Filter parameters
-    const search = searchParams.get("search") || "";
-    const projectFilter = searchParams.get("projects"); // Can be "all" or comma-separated project names
-    const dateFrom = searchParams.get("dateFrom");
-    const dateTo = searchParams.get("dateTo");
-    const sortBy = searchParams.get("sortBy") || "date";
-    const sortOrder = searchParams.get("sortOrder") || "desc";
-    const userFilter = searchParams.get("users"); // Can be "all" or comma-separated user IDs
-
-    // Build WHERE conditions
-    const conditions = [];
-    
-    // User filter logic with authorization
-    if (userFilter === "all") {
-      // Check if user has permission to view all timesheets
-      const authContext = createAuthorizationContext(user.userId, user.role);
-      const authResult = canViewAllTimesheets(authContext);
-      
-      if (!authResult.authorized) {
-        return new Response(
-          JSON.stringify({ error: 'Forbidden', reason: authResult.reason }), 
-          { status: 403, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-      // Don't add user filter - show all users
-    } else if (userFilter) {
-      // Filter by specific user IDs using OR logic
-      const userIds = userFilter.split(',').map(id => id.trim()).filter(Boolean);
-      
-      // Check authorization for each requested user
-      if (userIds.some(id => id !== user.userId)) {
-        const authContext = createAuthorizationContext(user.userId, user.role);
-        
-        // Check if user can view all timesheets (HR/Admin)
-        const canViewAll = canViewAllTimesheets(authContext);
-        
-        if (!canViewAll.authorized) {
-          // Check each user individually (for Manager role)
-          for (const targetId of userIds) {
-            if (targetId === user.userId) continue; // Can always view own data
-            
-            const authResult = canViewUserTimesheets(authContext, targetId);
-            if (!authResult.authorized) {
-              return new Response(
-                JSON.stringify({ error: 'Forbidden', reason: authResult.reason }), 
-                { status: 403, headers: { 'Content-Type': 'application/json' } }
-              );
-            }
-          }
-        }
-      }
-      
-      if (userIds.length === 1) {
-        conditions.push(eq(timeEntries.userId, userIds[0]));
-      } else if (userIds.length > 1) {
-        // Use inArray for proper OR filtering
-        conditions.push(inArray(timeEntries.userId, userIds));
-      }
-    } else {
-      // Default: show only current user's entries
-      conditions.push(eq(timeEntries.userId, user.userId));
-    }
-    
-    // Search filter
-    if (search) {
-      conditions.push(
-        sql`(
-          LOWER(${timeEntries.description}) LIKE LOWER('%' || ${search} || '%') OR
-          LOWER(${projects.name}) LIKE LOWER('%' || ${search} || '%') OR
-          LOWER(${clients.name}) LIKE LOWER('%' || ${search} || '%')
-        )`
-      );
-    }
-    
-    // Project filter logic
-    if (projectFilter === "all") {
-      // If "all" is specified, don't filter by project
-    } else if (projectFilter) {
-      // Filter by specific project names using OR logic
-      const projectNames = projectFilter.split(',').map(name => name.trim()).filter(Boolean);
-      if (projectNames.length === 1) {
-        conditions.push(eq(projects.name, projectNames[0]));
-      } else if (projectNames.length > 1) {
-        // Use inArray for proper OR filtering
-        conditions.push(inArray(projects.name, projectNames));
-      }
-    }
-    
-    // Date range filter
-    if (dateFrom && dateTo) {
-      conditions.push(
-        sql`DATE(${timeEntries.startTime}) >= DATE(${dateFrom}) AND DATE(${timeEntries.startTime}) <= DATE(${dateTo})`
-      );
-    }
-
-    // Build ORDER BY clause
-    let orderByClause;
-    const isAsc = sortOrder === 'asc';
-    
-    switch (sortBy) {
-      case 'duration':
-        orderByClause = isAsc ? timeEntries.durationMinutes : desc(timeEntries.durationMinutes);
-        break;
-      case 'project':
-        orderByClause = isAsc ? projects.name : desc(projects.name);
-        break;
-      case 'date':
-      default:
-        orderByClause = isAsc ? timeEntries.startTime : desc(timeEntries.startTime);
-        break;
-    }
+    const { conditions, orderBy } = await parseTimeEntryFilters(searchParams, user);
 
     const entries = await db
       .select({
@@ -137,12 +29,16 @@ export async function GET(req: NextRequest) {
         projectName: projects.name,
         clientName: clients.name,
         isActive: timeEntries.isActive,
+        billable: entryIsBillable(),
+        overlapping: entryOverlapsAnother(),
+        autoStopped: timeEntries.autoStopped,
+        isDraft: timeEntries.isDraft,
       })
       .from(timeEntries)
       .innerJoin(projects, eq(projects.id, timeEntries.projectId))
       .innerJoin(clients, eq(clients.id, projects.clientId))
       .where(and(...conditions))
-      .orderBy(orderByClause)
+      .orderBy(orderBy)
       .limit(limit)
       .offset(offset);
 
@@ -154,7 +50,22 @@ export async function GET(req: NextRequest) {
       .innerJoin(clients, eq(clients.id, projects.clientId))
       .where(and(...conditions));
 
-    return Response.json({ entries, page, limit, total: count });
+    // Tag names for the entries on this page
+    const entryTags = entries.length > 0
+      ? await db
+          .select({ timeEntryId: timeEntryTags.timeEntryId, name: tags.name })
+          .from(timeEntryTags)
+          .innerJoin(tags, eq(tags.id, timeEntryTags.tagId))
+          .where(inArray(timeEntryTags.timeEntryId, entries.map(entry => entry.id)))
+          .orderBy(tags.name)
+      : [];
+
+    const entriesWithTags = entries.map(entry => ({
+      ...entry,
+      tags: entryTags.filter(tag => tag.timeEntryId === entry.id).map(tag => tag.name),
+    }));
+
+    return Response.json({ entries: entriesWithTags, page, limit, total: count });
   } catch (err) {
     if (err instanceof Response) return err;
     console.error(err);
@@ -172,8 +83,9 @@ export async function POST(req: NextRequest) {
       return new Response("Project ID is required", { status: 400 });
     }
 
-    // Check if user already has an active timer
-    const [existingActive] = await db
+    // Check if user already has as many active timers as they allow (one by default)
+    const { maxConcurrentTimers } = await userSettingsService.getSettings(user.userId);
+    const existingActive = await db
       .select()
       .from(timeEntries)
       .where(
@@ -182,10 +94,15 @@ export async function POST(req: NextRequest) {
           eq(timeEntries.isActive, true)
         )
       )
-      .limit(1);
+      .limit(maxConcurrentTimers);
 
-    if (existingActive) {
-      return new Response("An active timer is already running", { status: 400 });
+    if (existingActive.length >= maxConcurrentTimers) {
+      return new Response(
+        maxConcurrentTimers === 1
+          ? "An active timer is already running"
+          : `${maxConcurrentTimers} timers are already running, the most your settings allow`,
+        { status: 400 }
+      );
     }
 
     // Verify project exists (don't check ownership - any user can track time on any project)
@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { RecentActivityService } from "@/lib/services/recent-activities";
+
+const recentActivityService = new RecentActivityService();
+
+// Recent and favourite project/description pairs, ranked for restarting. Query: days (1-365), limit (1-50)
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const { searchParams } = new URL(req.url!);
+    const days = Number(searchParams.get("days") ?? 30);
+    const limit = Number(searchParams.get("limit") ?? 10);
+
+    if (!(Number.isInteger(days) && days >= 1 && days <= 365)) {
+      return new Response("days must be a whole number between 1 and 365", { status: 400 });
+    }
+
+    if (!(Number.isInteger(limit) && limit >= 1 && limit <= 50)) {
+      return new Response("limit must be a whole number between 1 and 50", { status: 400 });
+    }
+
+    const suggestions = await recentActivityService.getRecentActivities(userId, { days, limit });
+
+    return Response.json(suggestions);
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { getUserIdOrThrow } from "@/lib/authUtils";
+import { TimeEntryService } from "@/lib/services/time-entries";
+import { ServiceError } from "@/lib/services/errors";
+
+const timeEntryService = new TimeEntryService();
+
+// Stops the running timer and starts another at the same instant. Body: { projectId, description }
+// for a new entry, or { continuePrevious: true } to restart the last stopped one; entryId picks
+// the timer to stop when several are running.
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdOrThrow(req);
+    const body = await req.json();
+    const { entryId, projectId, description, continuePrevious = false, tags, billable, taskId } = body;
+
+    if (!continuePrevious && (!projectId || !description)) {
+      return new Response("Project ID and description are required unless continuing the previous entry", { status: 400 });
+    }
+
+    if (tags !== undefined && !(Array.isArray(tags) && tags.every(tag => typeof tag === 'string'))) {
+      return new Response("Tags must be a list of names", { status: 400 });
+    }
+
+    if (billable !== undefined && typeof billable !== 'boolean') {
+      return new Response("billable must be a boolean", { status: 400 });
+    }
+
+    try {
+      const result = await timeEntryService.switchTimeTracking(userId, {
+        entryId,
+        projectId,
+        description,
+        continuePrevious: continuePrevious === true,
+        tags,
+        billable,
+        taskId,
+      });
+
+      return Response.json(result, { status: 201 });
+    } catch (error) {
+      // Nothing to stop, an unknown project or task, no previous entry to continue, or a locked week
+      if (error instanceof ServiceError) {
+        return new Response(error.message, { status: error.kind === 'conflict' ? 409 : 400 });
+      }
+      throw error;
+    }
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
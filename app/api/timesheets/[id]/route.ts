@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { loadAuthorizationContext, canApproveTimesheets } from "@/lib/authorization";
+import { TimesheetService } from "@/lib/services/timesheets";
+import { ServiceError } from "@/lib/services/errors";
+
+const timesheetService = new TimesheetService();
+
+const REVIEW_ERROR_STATUS: Record<ServiceError['kind'], number> = {
+  invalid: 400,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+};
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const { id } = await params;
+    const body = await req.json();
+    const { action, comment } = body;
+
+    if (action !== 'approve' && action !== 'reject') {
+      return new Response("Invalid action", { status: 400 });
+    }
+
+    if (action === 'reject' && !(typeof comment === 'string' && comment.trim())) {
+      return new Response("A comment is required when rejecting a timesheet", { status: 400 });
+    }
+
+    const timesheet = await timesheetService.getTimesheetById(id);
+    if (!timesheet) {
+      return new Response("Timesheet not found", { status: 404 });
+    }
+
+    const authContext = await loadAuthorizationContext(user.userId, user.role);
+    const authResult = canApproveTimesheets(authContext, timesheet.userId);
+
+    if (!authResult.authorized) {
+      return new Response(
+        JSON.stringify({ error: 'Forbidden', reason: authResult.reason }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (timesheet.status !== 'submitted') {
+      return new Response("Only submitted timesheets can be reviewed", { status: 409 });
+    }
+
+    try {
+      const reviewed = await timesheetService.reviewTimesheet(
+        authContext,
+        id,
+        action === 'approve' ? 'approved' : 'rejected',
+        comment
+      );
+
+      return Response.json({ success: true, timesheet: reviewed });
+    } catch (error) {
+      // Someone else reviewed the timesheet in the meantime
+      if (error instanceof ServiceError) {
+        return new Response(error.message, { status: REVIEW_ERROR_STATUS[error.kind] });
+      }
+      throw error;
+    }
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { loadAuthorizationContext, hasPermission, Permission } from "@/lib/authorization";
+import { TimesheetService } from "@/lib/services/timesheets";
+
+const timesheetService = new TimesheetService();
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const authContext = await loadAuthorizationContext(user.userId, user.role);
+
+    if (!hasPermission(authContext, Permission.APPROVE_TIMESHEETS)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Forbidden',
+          reason: `User with roles [${authContext.roles.join(', ')}] cannot review timesheets`,
+        }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const pending = await timesheetService.listPendingTimesheets(authContext);
+
+    return Response.json({
+      timesheets: pending.map(({ timesheet, userName, userEmail }) => ({
+        ...timesheet,
+        userName,
+        userEmail,
+      })),
+    });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
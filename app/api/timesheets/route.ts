@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { getAuthenticatedUser } from "@/lib/authUtils";
+import { loadAuthorizationContext, canViewUserTimesheets } from "@/lib/authorization";
+import { TimesheetService } from "@/lib/services/timesheets";
+import { ServiceError } from "@/lib/services/errors";
+
+const timesheetService = new TimesheetService();
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const { searchParams } = new URL(req.url!);
+    const limit = Number(searchParams.get("limit")) || 12;
+    const targetUserId = searchParams.get("userId") || user.userId;
+
+    if (targetUserId !== user.userId) {
+      const authContext = await loadAuthorizationContext(user.userId, user.role);
+      const authResult = canViewUserTimesheets(authContext, targetUserId);
+
+      if (!authResult.authorized) {
+        return new Response(
+          JSON.stringify({ error: 'Forbidden', reason: authResult.reason }),
+          { status: 403, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const timesheets = await timesheetService.listTimesheets(targetUserId, limit);
+
+    return Response.json({ timesheets });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    const body = await req.json().catch(() => ({}));
+    const weekOf = body.weekOf ? new Date(body.weekOf) : new Date();
+
+    if (isNaN(weekOf.getTime())) {
+      return new Response("Invalid weekOf date", { status: 400 });
+    }
+
+    const timesheet = await timesheetService.submitTimesheet(user.userId, weekOf);
+
+    return Response.json({ success: true, timesheet }, { status: 201 });
+  } catch (err) {
+    if (err instanceof Response) return err;
+    // Already submitted or approved, or a timer is still running in the week
+    if (err instanceof ServiceError) {
+      return new Response(err.message, { status: err.kind === 'conflict' ? 409 : 400 });
+    }
+    console.error(err);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
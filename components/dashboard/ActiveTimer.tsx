@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Square, Clock } from 'lucide-react';
+import { Square, Clock, Pause, Play } from 'lucide-react';
 import useSWR, { mutate } from 'swr';
 import StartTimer from './StartTimer';
 
@@ -12,6 +12,9 @@ interface ActiveTimeEntry {
   description: string;
   startTime: string;
   isActive: boolean;
+  isPaused?: boolean;
+  pausedAt?: string | null;
+  pausedSeconds?: number;
 }
 
 const fetcher = (url: string) => fetch(url).then((r) => {
@@ -19,56 +22,68 @@ const fetcher = (url: string) => fetch(url).then((r) => {
   return r.json();
 });
 
+const timerActionLabels = {
+  pause: 'pausing',
+  resume: 'resuming',
+  stop: 'stopping',
+} as const;
+
+interface ActiveTimersResponse {
+  isActive: boolean;
+  entries: ActiveTimeEntry[];
+  maxConcurrentTimers: number;
+}
+
 interface ActiveTimerProps {
   mode?: 'header' | 'standalone';
 }
 
-export default function ActiveTimer({ mode = 'header' }: ActiveTimerProps) {
-  const { data: activeEntry, error } = useSWR<ActiveTimeEntry>('/api/time-entries/active', fetcher, {
-    refreshInterval: 10000, // Refresh every 10 seconds
-  });
+const formatTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
 
+function RunningTimer({ activeEntry }: { activeEntry: ActiveTimeEntry }) {
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [pausedTime, setPausedTime] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
-    if (activeEntry?.isActive && activeEntry.startTime) {
-      const startTime = new Date(activeEntry.startTime).getTime();
-      
-      const updateElapsed = () => {
-        const now = Date.now();
-        const elapsed = Math.floor((now - startTime) / 1000);
-        setElapsedTime(elapsed);
-      };
-
-      updateElapsed();
-      const interval = setInterval(updateElapsed, 1000);
-
-      return () => clearInterval(interval);
-    } else {
-      setElapsedTime(0);
-    }
-  }, [activeEntry]);
-
-  const formatTime = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
+    const startTime = new Date(activeEntry.startTime).getTime();
+    const pausedAt = activeEntry.isPaused && activeEntry.pausedAt
+      ? new Date(activeEntry.pausedAt).getTime()
+      : null;
     
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
+    const updateElapsed = () => {
+      const now = Date.now();
+      // Completed breaks plus the break in progress (if paused)
+      const paused = (activeEntry.pausedSeconds ?? 0) + (pausedAt ? Math.floor((now - pausedAt) / 1000) : 0);
+      const elapsed = Math.max(0, Math.floor((now - startTime) / 1000) - paused);
+      setElapsedTime(elapsed);
+      setPausedTime(paused);
+    };
+
+    updateElapsed();
+    const interval = setInterval(updateElapsed, 1000);
+
+    return () => clearInterval(interval);
+  }, [activeEntry]);
 
-  const handleTimerAction = async (action: 'pause' | 'stop') => {
-    if (!activeEntry?.id || isLoading) return;
+  const handleTimerAction = async (action: 'pause' | 'resume' | 'stop') => {
+    if (isLoading) return;
     
     setIsLoading(true);
     try {
+      // Name the entry so the right timer is used when several are running
       const response = await fetch('/api/time-entries/active', {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ action }),
+        body: JSON.stringify({ action, entryId: activeEntry.id }),
       });
 
       if (!response.ok) {
@@ -93,56 +108,108 @@ export default function ActiveTimer({ mode = 'header' }: ActiveTimerProps) {
         }, 100);
       }
     } catch (error) {
-      console.error(`Error ${action}ing timer:`, error);
+      console.error(`Error ${timerActionLabels[action]} timer:`, error);
       // You could add toast notifications here
     } finally {
       setIsLoading(false);
     }
   };
 
-  if (error) {
-    return (
-      <div className="flex items-center gap-2 px-3 py-1.5 bg-red-50 dark:bg-red-950 rounded-lg border border-red-200 dark:border-red-800">
-        <Clock className="h-4 w-4 text-red-600 dark:text-red-400" />
-        <span className="text-sm text-red-600 dark:text-red-400">Timer Error</span>
-      </div>
-    );
-  }
-
-  if (!activeEntry || !activeEntry.isActive) {
-    return <StartTimer mode={mode} />;
-  }
+  const isPaused = !!activeEntry.isPaused;
 
   return (
-    <div className="flex items-center gap-3 px-3 py-2 bg-emerald-50 dark:bg-emerald-950 rounded-lg border border-emerald-200 dark:border-emerald-800">
+    <div className={`flex items-center gap-3 px-3 py-2 rounded-lg border ${
+      isPaused
+        ? 'bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-800'
+        : 'bg-emerald-50 dark:bg-emerald-950 border-emerald-200 dark:border-emerald-800'
+    }`}>
       {/* Active indicator */}
-      <div className="relative">
-        <div className="h-2 w-2 bg-emerald-500 rounded-full animate-pulse" />
-        <div className="absolute inset-0 h-2 w-2 bg-emerald-500 rounded-full animate-ping opacity-75" />
-      </div>
+      {isPaused ? (
+        <div className="h-2 w-2 bg-amber-500 rounded-full" />
+      ) : (
+        <div className="relative">
+          <div className="h-2 w-2 bg-emerald-500 rounded-full animate-pulse" />
+          <div className="absolute inset-0 h-2 w-2 bg-emerald-500 rounded-full animate-ping opacity-75" />
+        </div>
+      )}
       
       {/* Project name */}
       <div className="flex-1 min-w-0">
-        <span className="text-sm font-medium text-emerald-900 dark:text-emerald-100 truncate block">
+        <span className={`text-sm font-medium truncate block ${
+          isPaused ? 'text-amber-900 dark:text-amber-100' : 'text-emerald-900 dark:text-emerald-100'
+        }`}>
           {activeEntry.projectName}
         </span>
+        {(isPaused || pausedTime > 0) && (
+          <span className="text-xs text-amber-700 dark:text-amber-300 block">
+            {isPaused ? 'Paused' : 'Breaks'} · {formatTime(pausedTime)}
+          </span>
+        )}
       </div>
       
       {/* Timer display */}
-      <div className="text-sm font-mono font-bold text-emerald-700 dark:text-emerald-300">
+      <div className={`text-sm font-mono font-bold ${
+        isPaused ? 'text-amber-700 dark:text-amber-300' : 'text-emerald-700 dark:text-emerald-300'
+      }`}>
         {formatTime(elapsedTime)}
       </div>
       
+      {/* Pause / resume button */}
+      <Button 
+        size="sm" 
+        variant="outline" 
+        className="h-8 w-8 p-0 shadow-sm" 
+        disabled={isLoading}
+        aria-label={isPaused ? 'Resume timer' : 'Pause timer'}
+        onClick={() => handleTimerAction(isPaused ? 'resume' : 'pause')}
+      >
+        {isPaused ? <Play className="h-3 w-3" /> : <Pause className="h-3 w-3" />}
+      </Button>
+      
       {/* Stop button */}
       <Button 
         size="sm" 
         variant="destructive" 
         className="h-8 w-8 p-0 bg-red-500 hover:bg-red-600 shadow-sm" 
         disabled={isLoading}
+        aria-label="Stop timer"
         onClick={() => handleTimerAction('stop')}
       >
         <Square className="h-3 w-3" />
       </Button>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function ActiveTimer({ mode = 'header' }: ActiveTimerProps) {
+  const { data, error } = useSWR<ActiveTimersResponse>('/api/time-entries/active', fetcher, {
+    refreshInterval: 10000, // Refresh every 10 seconds
+  });
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 px-3 py-1.5 bg-red-50 dark:bg-red-950 rounded-lg border border-red-200 dark:border-red-800">
+        <Clock className="h-4 w-4 text-red-600 dark:text-red-400" />
+        <span className="text-sm text-red-600 dark:text-red-400">Timer Error</span>
+      </div>
+    );
+  }
+
+  const entries = data?.entries ?? [];
+
+  if (entries.length === 0) {
+    return <StartTimer mode={mode} />;
+  }
+
+  // Users who allow several concurrent timers can start another one until they reach the limit
+  const canStartAnother = entries.length < (data?.maxConcurrentTimers ?? 1);
+
+  return (
+    <div className={`flex gap-2 ${mode === 'header' ? 'items-center flex-wrap' : 'flex-col'}`}>
+      {entries.map(entry => (
+        <RunningTimer key={entry.id} activeEntry={entry} />
+      ))}
+      {canStartAnother && <StartTimer mode={mode} />}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import useSWR from 'swr';
+
+interface EstimateItem {
+  estimateHours: number | null;
+  trackedHours: number;
+  percentUsed: number | null;
+  overBudget: boolean;
+}
+
+interface TaskEstimate extends EstimateItem {
+  taskId: string;
+  taskName: string;
+  projectName: string;
+}
+
+interface ProjectEstimate extends EstimateItem {
+  projectId: string;
+  projectName: string;
+}
+
+interface EstimateReport {
+  tasks: TaskEstimate[];
+  projects: ProjectEstimate[];
+}
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error('Failed to fetch');
+  return r.json();
+});
+
+export default function BudgetWarnings() {
+  const { data: report } = useSWR<EstimateReport>('/api/reports/estimates?overBudgetOnly=true', fetcher);
+
+  const projects = report?.projects.filter(project => project.overBudget) ?? [];
+  const tasks = report?.tasks ?? [];
+
+  if (projects.length === 0 && tasks.length === 0) {
+    return null;
+  }
+
+  const describe = (item: EstimateItem) =>
+    `${item.trackedHours.toFixed(1)}h of ${item.estimateHours?.toFixed(1)}h estimated (${item.percentUsed?.toFixed(0)}%)`;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle />
+      <AlertTitle>Over budget</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-1">
+          {projects.map(project => (
+            <li key={project.projectId}>
+              <span className="font-medium">{project.projectName}</span>: {describe(project)}
+            </li>
+          ))}
+          {tasks.map(task => (
+            <li key={task.taskId}>
+              <span className="font-medium">{task.projectName} / {task.taskName}</span>: {describe(task)}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
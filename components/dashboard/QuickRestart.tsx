@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Play, Star, History, Loader2 } from 'lucide-react';
+import useSWR, { mutate } from 'swr';
+
+interface RecentActivity {
+  projectId: string;
+  projectName: string;
+  clientName: string;
+  description: string;
+  lastUsedAt: string;
+  useCount: number;
+  favourite: boolean;
+}
+
+interface ActiveTimers {
+  entries: { id: string; projectId: string; description: string }[];
+  maxConcurrentTimers: number;
+}
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error('Failed to fetch');
+  return r.json();
+});
+
+const SUGGESTIONS_URL = '/api/time-entries/suggestions?limit=6';
+
+export default function QuickRestart() {
+  const { data: suggestions } = useSWR<RecentActivity[]>(SUGGESTIONS_URL, fetcher);
+  const { data: active } = useSWR<ActiveTimers>('/api/time-entries/active', fetcher);
+  const [restarting, setRestarting] = useState<number | null>(null);
+
+  const running = active?.entries ?? [];
+  const visible = (suggestions ?? []).filter(suggestion =>
+    !running.some(entry => entry.projectId === suggestion.projectId && entry.description.trim() === suggestion.description)
+  );
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const handleRestart = async (suggestion: RecentActivity, index: number) => {
+    if (restarting !== null) return;
+
+    setRestarting(index);
+    try {
+      // Once the user's limit is reached, switch from the oldest timer instead of starting alongside it
+      const switching = running.length > 0 && running.length >= (active?.maxConcurrentTimers ?? 1);
+      const response = await fetch(switching ? '/api/time-entries/switch' : '/api/time-entries', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectId: suggestion.projectId,
+          description: suggestion.description,
+          ...(switching ? { entryId: running[0].id } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      await mutate('/api/time-entries/active');
+      await mutate(SUGGESTIONS_URL);
+    } catch (error) {
+      console.error('Error restarting timer:', error);
+      alert(`Failed to start timer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRestarting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Pick up where you left off
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {visible.map((suggestion, index) => (
+          <Button
+            key={`${suggestion.projectId}-${suggestion.description}`}
+            variant="outline"
+            className="h-auto justify-start gap-3 py-2 text-left"
+            disabled={restarting !== null}
+            onClick={() => handleRestart(suggestion, index)}
+            title={`Used ${suggestion.useCount} times, last on ${new Date(suggestion.lastUsedAt).toLocaleDateString()}`}
+          >
+            {restarting === index ? (
+              <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4 shrink-0" />
+            )}
+            <span className="flex min-w-0 flex-col">
+              <span className="truncate font-medium">{suggestion.description || 'No description'}</span>
+              <span className="truncate text-xs text-muted-foreground">
+                {suggestion.projectName} · {suggestion.clientName}
+              </span>
+            </span>
+            {suggestion.favourite && (
+              <Star className="ml-auto h-3 w-3 shrink-0 fill-yellow-400 text-yellow-400" aria-label="Favourite" />
+            )}
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
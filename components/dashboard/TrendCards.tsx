@@ -7,6 +7,8 @@ import useSWR from 'swr';
 interface DashboardSummary {
   lastActivity: string | null;
   totalHours: string;
+  billableHours?: string;
+  utilisation?: number;
   weeklyHours?: string;
   weeklyTrend?: number;
   averageDaily?: string;
@@ -47,6 +49,8 @@ export default function TrendCards() {
   }
 
   const totalHours = parseFloat(summary.totalHours);
+  const billableHours = parseFloat(summary.billableHours || '0');
+  const utilisation = summary.utilisation || 0;
   const weeklyHours = parseFloat(summary.weeklyHours || '0');
   const weeklyTrend = summary.weeklyTrend || 0;
   const averageDaily = parseFloat(summary.averageDaily || '0');
@@ -57,7 +61,7 @@ export default function TrendCards() {
       title: 'This Month',
       value: totalHours,
       unit: 'hours',
-      description: 'Total hours tracked',
+      description: `${billableHours.toFixed(1)}h billable · ${utilisation.toFixed(1)}% utilisation`,
       icon: Clock,
       color: 'text-blue-600',
       bgColor: 'bg-blue-50',
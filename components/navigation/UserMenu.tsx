@@ -24,6 +24,9 @@ import {
   TrendingUp,
   Home,
   BookOpen,
+  Users,
+  Receipt,
+  Upload,
 } from 'lucide-react';
 
 export default function UserMenu() {
@@ -128,6 +131,23 @@ export default function UserMenu() {
             <span>Reports</span>
           </DropdownMenuItem>
           
+          <DropdownMenuItem onClick={() => router.push('/invoices')}>
+            <Receipt className="mr-2 h-4 w-4" />
+            <span>Invoices</span>
+          </DropdownMenuItem>
+          
+          <DropdownMenuItem onClick={() => router.push('/import')}>
+            <Upload className="mr-2 h-4 w-4" />
+            <span>Import</span>
+          </DropdownMenuItem>
+          
+          {user.role === 'admin' && (
+            <DropdownMenuItem onClick={() => router.push('/team')}>
+              <Users className="mr-2 h-4 w-4" />
+              <span>Reporting Lines</span>
+            </DropdownMenuItem>
+          )}
+          
           <DropdownMenuItem onClick={() => router.push('/mcp-help')}>
             <BookOpen className="mr-2 h-4 w-4" />
             <span>MCP Setup Guide</span>
@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeyRound, Plus, Copy, Trash2, CheckCircle, AlertCircle } from 'lucide-react';
+
+type ApiScope = 'read' | 'write' | 'team';
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const scopeOptions: { value: ApiScope; label: string; description: string }[] = [
+  { value: 'read', label: 'Read', description: 'View your time, projects and reports' },
+  { value: 'write', label: 'Write', description: 'Track time and change your data' },
+  { value: 'team', label: 'Team', description: 'Use your role for other users\' time, such as team reports and timesheet approval' },
+];
+
+const expiryOptions = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+];
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+export default function ApiKeysCard() {
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiScope[]>(['read', 'write']);
+  const [expiry, setExpiry] = useState('90');
+  // The new key is only known right after it's created
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  useEffect(() => {
+    fetch('/api/profile/api-keys')
+      .then(response => response.ok ? response.json() : [])
+      .then(setApiKeys)
+      .catch(() => setApiKeys([]));
+  }, []);
+
+  const toggleScope = (scope: ApiScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(item => item !== scope));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUpdating(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/profile/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes, expiresInDays: expiry === 'never' ? null : Number(expiry) }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Failed to create API key');
+      }
+
+      const { key, apiKey } = await response.json();
+      setNewKey(key);
+      setApiKeys(current => [apiKey, ...current]);
+      setName('');
+      setMessage({ type: 'success', text: 'Copy this key now; it will not be shown again.' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to create API key' });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeySummary) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Anything using it will stop working.`)) {
+      return;
+    }
+
+    setIsUpdating(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/profile/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to revoke API key');
+      }
+
+      setApiKeys(current => current.filter(item => item.id !== apiKey.id));
+      setNewKey(null);
+      setMessage({ type: 'success', text: `"${apiKey.name}" revoked.` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to revoke API key' });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 dark:bg-gray-950/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Personal keys for scripts and MCP clients. Send one in the <code>x-api-key</code> header or as a bearer token.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <div className={`p-3 rounded-md flex items-center gap-2 ${
+            message.type === 'success'
+              ? 'bg-green-50 text-green-800 border border-green-200'
+              : 'bg-red-50 text-red-800 border border-red-200'
+          }`}>
+            {message.type === 'success' ? (
+              <CheckCircle className="h-4 w-4" />
+            ) : (
+              <AlertCircle className="h-4 w-4" />
+            )}
+            <span className="text-sm">{message.text}</span>
+          </div>
+        )}
+
+        {newKey && (
+          <div className="space-y-2">
+            <Label htmlFor="newApiKey">New API key</Label>
+            <div className="flex gap-2">
+              <Input id="newApiKey" value={newKey} readOnly onFocus={(e) => e.target.select()} />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => navigator.clipboard.writeText(newKey)}
+                title="Copy API key"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {apiKeys.length > 0 ? (
+          <ul className="divide-y rounded-md border">
+            {apiKeys.map(apiKey => {
+              const expired = apiKey.expiresAt !== null && new Date(apiKey.expiresAt) <= new Date();
+
+              return (
+                <li key={apiKey.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium truncate">{apiKey.name}</span>
+                      <code className="text-xs text-muted-foreground">{apiKey.keyPrefix}…</code>
+                      {apiKey.scopes.map(scope => (
+                        <Badge key={scope} variant="secondary">{scope}</Badge>
+                      ))}
+                      {expired && <Badge variant="destructive">Expired</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatDate(apiKey.createdAt)}
+                      {' · '}
+                      {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : 'Never used'}
+                      {' · '}
+                      {apiKey.expiresAt ? `${expired ? 'Expired' : 'Expires'} ${formatDate(apiKey.expiresAt)}` : 'Does not expire'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={isUpdating}
+                    className="flex items-center gap-2 shrink-0"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Revoke
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">You have no API keys.</p>
+        )}
+
+        <Separator />
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyName">Name</Label>
+              <Input
+                id="apiKeyName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Laptop MCP client"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apiKeyExpiry">Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="apiKeyExpiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {scopeOptions.map(option => (
+              <div key={option.value} className="flex items-start gap-2">
+                <Checkbox
+                  id={`apiKeyScope-${option.value}`}
+                  checked={scopes.includes(option.value)}
+                  onCheckedChange={(checked) => toggleScope(option.value, checked === true)}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor={`apiKeyScope-${option.value}`}>{option.label}</Label>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Button type="submit" disabled={isUpdating || !name.trim() || scopes.length === 0} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Create API Key
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -25,7 +25,8 @@ import {
   ArrowRight,
   Filter,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  AlertTriangle
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -40,6 +41,10 @@ interface TimeEntry {
   description: string;
   durationMinutes: number;
   isActive: boolean;
+  overlapping?: boolean;
+  autoStopped?: boolean;
+  isDraft?: boolean;
+  tags?: string[];
 }
 
 interface TimeEntryList {
@@ -53,6 +58,11 @@ interface Project {
   clientName: string;
 }
 
+interface Tag {
+  id: string;
+  name: string;
+}
+
 interface User {
   id: string;
   name: string;
@@ -135,6 +145,8 @@ function getUserImage(userId: string, users: User[]): string | null {
 }
 
 
+type ExportFormat = 'csv' | 'xlsx' | 'pdf' | 'summary-csv' | 'summary-xlsx' | 'summary-pdf';
+
 interface EnhancedTimeEntriesListProps {
   mode?: 'dashboard' | 'full';
   maxEntries?: number;
@@ -145,12 +157,15 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedProjects, setSelectedProjects] = useState<string[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]); // Array of user IDs, empty means current user only
+  const [selectedTags, setSelectedTags] = useState<string[]>([]); // Tag names; entries with any of them match
   const [dateRange, setDateRange] = useState<{ from?: Date; to?: Date }>({});
   const [sortBy, setSortBy] = useState<'date' | 'duration' | 'project'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(mode === 'dashboard' ? (maxEntries || 5) : 10);
   const [isExporting, setIsExporting] = useState(false);
+  // "summary-" formats export hours per user and project instead of the entries
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
   const [showFilters, setShowFilters] = useState(false);
 
   // Debounced search term
@@ -191,6 +206,10 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
         }
       }
       
+      if (selectedTags.length > 0) {
+        params.set('tags', selectedTags.join(','));
+      }
+      
       if (dateRange.from && dateRange.to) {
         params.set('dateFrom', dateRange.from.toISOString().split('T')[0]);
         params.set('dateTo', dateRange.to.toISOString().split('T')[0]);
@@ -201,7 +220,7 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
     }
     
     return `/api/time-entries?${params.toString()}`;
-  }, [mode, page, pageSize, debouncedSearchTerm, selectedProjects, selectedUsers, dateRange, sortBy, sortOrder]);
+  }, [mode, page, pageSize, debouncedSearchTerm, selectedProjects, selectedUsers, selectedTags, dateRange, sortBy, sortOrder]);
 
   // Memoize the current API URL to prevent unnecessary re-fetches
   const currentApiUrl = useMemo(() => buildApiUrl(), [buildApiUrl]);
@@ -224,6 +243,8 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
 
   const { data: activeEntry } = useSWR('/api/time-entries/active', fetcher);
 
+  const { data: tagsData } = useSWR<Tag[]>('/api/tags', fetcher);
+
   // Filter out active entries - they should only appear in the sidebar
   const displayEntries = useMemo(() => {
     if (!timeEntriesData?.entries) return [];
@@ -238,26 +259,17 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
     setSearchTerm('');
     setSelectedProjects([]);
     setSelectedUsers([]);
+    setSelectedTags([]);
     setDateRange({});
     setPage(1);
   }, []);
 
-  // Utility function to escape CSV fields
-  const escapeCSVField = (field: string | null | undefined): string => {
-    if (!field) return '';
-    const stringField = String(field);
-    // If field contains comma, quote, or newline, wrap in quotes and escape internal quotes
-    if (stringField.includes(',') || stringField.includes('"') || stringField.includes('\n')) {
-      return `"${stringField.replace(/"/g, '""')}"`;
-    }
-    return stringField;
-  };
-
-  // Function to fetch all entries with current filters (no pagination)
-  const fetchAllEntries = useCallback(async (): Promise<TimeEntry[]> => {
+  // Export URL with the current filters; the server exports every matching entry
+  const buildExportUrl = useCallback((): string => {
+    const isSummary = exportFormat.startsWith('summary-');
     const params = new URLSearchParams();
-    params.set('limit', '10000'); // Large limit to get all entries
-    params.set('page', '1');
+    params.set('format', exportFormat.replace('summary-', ''));
+    params.set('timeZone', Intl.DateTimeFormat().resolvedOptions().timeZone);
     
     if (debouncedSearchTerm) {
       params.set('search', debouncedSearchTerm);
@@ -279,6 +291,10 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
       }
     }
     
+    if (selectedTags.length > 0) {
+      params.set('tags', selectedTags.join(','));
+    }
+    
     if (dateRange.from && dateRange.to) {
       params.set('dateFrom', dateRange.from.toISOString().split('T')[0]);
       params.set('dateTo', dateRange.to.toISOString().split('T')[0]);
@@ -287,55 +303,11 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
     params.set('sortBy', sortBy);
     params.set('sortOrder', sortOrder);
     
-    const response = await fetch(`/api/time-entries?${params.toString()}`);
-    if (!response.ok) {
-      throw new Error('Failed to fetch entries for export');
-    }
-    
-    const data: TimeEntryList = await response.json();
-    return data.entries.filter(entry => !entry.isActive);
-  }, [debouncedSearchTerm, selectedProjects, selectedUsers, dateRange, sortBy, sortOrder]);
-
-  // Function to generate CSV content
-  const generateCSV = useCallback((entries: TimeEntry[]): string => {
-    const headers = [
-      'Date',
-      'Start Time',
-      'End Time',
-      'Duration',
-      'Project',
-      'Client',
-      'User',
-      'Description'
-    ];
-    
-    const csvRows = [headers.join(',')];
-    
-    entries.forEach(entry => {
-      const startDate = new Date(entry.startTime);
-      const endDate = entry.endTime ? new Date(entry.endTime) : null;
-      const userName = getUserDisplayName(entry.userId, usersData || []);
-      
-      const row = [
-        format(startDate, 'yyyy-MM-dd'),
-        format(startDate, 'HH:mm'),
-        endDate ? format(endDate, 'HH:mm') : 'Active',
-        formatDuration(entry.durationMinutes || 0),
-        escapeCSVField(entry.projectName),
-        escapeCSVField(entry.clientName || ''),
-        escapeCSVField(userName),
-        escapeCSVField(entry.description)
-      ];
-      
-      csvRows.push(row.join(','));
-    });
-    
-    return csvRows.join('\n');
-  }, [usersData]);
+    return `${isSummary ? '/api/reports/export' : '/api/time-entries/export'}?${params.toString()}`;
+  }, [exportFormat, debouncedSearchTerm, selectedProjects, selectedUsers, selectedTags, dateRange, sortBy, sortOrder]);
 
-  // Function to download CSV file
-  const downloadCSV = useCallback((csvContent: string, filename: string) => {
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  // Function to download the exported file
+  const downloadFile = useCallback((blob: Blob, filename: string) => {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     
@@ -352,27 +324,31 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
 
   // Export functionality
   const handleExport = useCallback(async () => {
-    if (isExporting || !usersData) return;
+    if (isExporting) return;
     
     setIsExporting(true);
     
     try {
-      const entries = await fetchAllEntries();
-      const csvContent = generateCSV(entries);
+      const response = await fetch(buildExportUrl());
+      if (!response.ok) {
+        throw new Error('Failed to export entries');
+      }
       
       // Generate filename with current date
       const now = new Date();
       const dateString = format(now, 'yyyy-MM-dd_HH-mm');
-      const filename = `time-entries_${dateString}.csv`;
+      const filename = exportFormat.startsWith('summary-')
+        ? `time-report_${dateString}.${exportFormat.replace('summary-', '')}`
+        : `time-entries_${dateString}.${exportFormat}`;
       
-      downloadCSV(csvContent, filename);
+      downloadFile(await response.blob(), filename);
     } catch (error) {
       console.error('Export failed:', error);
       // TODO: Show error message to user
     } finally {
       setIsExporting(false);
     }
-  }, [isExporting, usersData, fetchAllEntries, generateCSV, downloadCSV]);
+  }, [isExporting, exportFormat, buildExportUrl, downloadFile]);
 
   // Timer control functions - simplified for play only
   const [actionLoading, setActionLoading] = useState<string | null>(null);
@@ -395,14 +371,15 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
     setActionLoading(`start-${projectId}`);
     
     try {
-      // First stop any active timer if exists
-      if (activeEntry && activeEntry.isActive) {
+      // First make room for the new timer: stop the oldest one once the user's limit is reached
+      const runningEntries = activeEntry?.entries ?? [];
+      if (runningEntries.length > 0 && runningEntries.length >= (activeEntry?.maxConcurrentTimers ?? 1)) {
         await fetch('/api/time-entries/active', {
           method: 'PATCH',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ action: 'stop' }),
+          body: JSON.stringify({ action: 'stop', entryId: runningEntries[0].id }),
         });
       }
 
@@ -475,6 +452,12 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
     }))
   ];
 
+  // Prepare tag options for multi-select
+  const tagOptions: Option[] = (tagsData || []).map(tag => ({
+    label: tag.name,
+    value: tag.name
+  }));
+
   return (
     <Card className="overflow-hidden">
       <CardHeader className="px-3 md:px-6">
@@ -499,14 +482,29 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
                 <ArrowRight className="h-3 w-3" />
               </Button>
             ) : (
-              <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
-                {isExporting ? (
-                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                ) : (
-                  <Download className="h-4 w-4 mr-1" />
-                )}
-                {isExporting ? 'Exporting...' : 'Export'}
-              </Button>
+              <>
+                <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                  <SelectTrigger className="h-8 w-[140px]" aria-label="Export format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                    <SelectItem value="pdf">PDF timesheet</SelectItem>
+                    <SelectItem value="summary-csv">Summary (CSV)</SelectItem>
+                    <SelectItem value="summary-xlsx">Summary (XLSX)</SelectItem>
+                    <SelectItem value="summary-pdf">Summary (PDF)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-1" />
+                  )}
+                  {isExporting ? 'Exporting...' : 'Export'}
+                </Button>
+              </>
             )}
           </div>
         </div>
@@ -547,7 +545,7 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
                 </Button>
 
                 {/* Clear Filters */}
-                {(searchTerm || selectedProjects.length > 0 || selectedUsers.length > 0 || dateRange.from || dateRange.to) && (
+                {(searchTerm || selectedProjects.length > 0 || selectedUsers.length > 0 || selectedTags.length > 0 || dateRange.from || dateRange.to) && (
                   <Button variant="ghost" size="sm" onClick={clearFilters} className="h-11 px-3">
                     <X className="h-4 w-4" />
                   </Button>
@@ -557,7 +555,7 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
 
             {/* Second Row: Collapsible Filters */}
             {showFilters && (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
                 {/* User Filter */}
                 <MultiSelect
                   options={userOptions}
@@ -580,6 +578,17 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
                   className="w-full min-h-11"
                 />
 
+                {/* Tag Filter */}
+                <MultiSelect
+                  options={tagOptions}
+                  selected={selectedTags}
+                  onChange={setSelectedTags}
+                  placeholder="All tags"
+                  searchPlaceholder="Search tags..."
+                  noResultsText="No tags found."
+                  className="w-full min-h-11"
+                />
+
                 {/* Date Range */}
                 <Popover>
                   <PopoverTrigger asChild>
@@ -649,8 +658,33 @@ export default function EnhancedTimeEntriesList({ mode = 'full', maxEntries = 10
                             {getUserDisplayName(entry.userId, usersData)}
                           </Badge>
                         )}
+                        {entry.overlapping && (
+                          <Badge variant="destructive" className="text-xs shrink-0" title="Overlaps another time entry">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Overlaps
+                          </Badge>
+                        )}
+                        {entry.autoStopped && (
+                          <Badge variant="outline" className="text-xs shrink-0" title="Stopped automatically because the timer looked forgotten">
+                            Auto-stopped
+                          </Badge>
+                        )}
+                        {entry.isDraft && (
+                          <Badge variant="secondary" className="text-xs shrink-0" title="Logged from a recurring template; confirm it to include it in invoices">
+                            Draft
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground line-clamp-2 mb-2">{entry.description}</p>
+                      {entry.tags && entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {entry.tags.map(tag => (
+                            <Badge key={tag} variant="secondary" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex items-center gap-4 text-xs text-muted-foreground">
                         <span>{format(new Date(entry.startTime), 'MMM dd, yyyy • HH:mm')}</span>
                         {entry.endTime && (
@@ -0,0 +1,11 @@
+CREATE TABLE "time_entry_breaks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"time_entry_id" text NOT NULL,
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "is_paused" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "time_entry_breaks" ADD CONSTRAINT "time_entry_breaks_time_entry_id_time_entries_id_fk" FOREIGN KEY ("time_entry_id") REFERENCES "public"."time_entries"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "timesheets" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"week_start" timestamp NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"total_minutes" integer DEFAULT 0 NOT NULL,
+	"submitted_at" timestamp,
+	"reviewed_by" text,
+	"reviewed_at" timestamp,
+	"review_comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "timesheets_user_week_unique" UNIQUE("user_id","week_start")
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "reporting_lines" (
+	"id" text PRIMARY KEY NOT NULL,
+	"manager_id" text NOT NULL,
+	"employee_id" text NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "reporting_lines_employee_id_unique" UNIQUE("employee_id")
+);
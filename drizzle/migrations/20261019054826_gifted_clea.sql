@@ -0,0 +1,47 @@
+CREATE TABLE "invoice_lines" (
+	"id" text PRIMARY KEY NOT NULL,
+	"invoice_id" text NOT NULL,
+	"type" text NOT NULL,
+	"project_id" text,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2),
+	"unit_price" numeric(10, 2),
+	"rate_percent" numeric(5, 2),
+	"amount" numeric(12, 2) NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "invoice_sequences" (
+	"year" integer PRIMARY KEY NOT NULL,
+	"last_number" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "invoices" (
+	"id" text PRIMARY KEY NOT NULL,
+	"invoice_number" text NOT NULL,
+	"client_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"status" text DEFAULT 'issued' NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"issue_date" timestamp NOT NULL,
+	"due_date" timestamp NOT NULL,
+	"subtotal" numeric(12, 2) NOT NULL,
+	"discount_total" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"tax_total" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"total" numeric(12, 2) NOT NULL,
+	"notes" text,
+	"voided_at" timestamp,
+	"void_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "invoices_invoice_number_unique" UNIQUE("invoice_number")
+);
+--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "invoice_id" text;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "exchange_rates" (
+	"id" text PRIMARY KEY NOT NULL,
+	"base_currency" text NOT NULL,
+	"quote_currency" text NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"effective_date" timestamp NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rates_pair_date_unique" UNIQUE("base_currency","quote_currency","effective_date")
+);
+--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;
\ No newline at end of file
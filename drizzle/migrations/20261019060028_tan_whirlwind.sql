@@ -0,0 +1,22 @@
+CREATE TABLE "rate_cards" (
+	"id" text PRIMARY KEY NOT NULL,
+	"scope" text NOT NULL,
+	"client_id" text,
+	"project_id" text,
+	"user_id" text,
+	"hourly_rate" numeric(10, 2) NOT NULL,
+	"currency" text NOT NULL,
+	"valid_from" timestamp NOT NULL,
+	"valid_to" timestamp,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rate_cards" ADD CONSTRAINT "rate_cards_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rate_cards" ADD CONSTRAINT "rate_cards_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Existing project rates become open-ended project rate cards covering all past time
+INSERT INTO "rate_cards" ("id", "scope", "project_id", "hourly_rate", "currency", "valid_from", "created_by")
+SELECT 'rate_' || "id", 'project', "id", "hourly_rate", "currency", '1970-01-01 00:00:00', "user_id"
+FROM "projects"
+WHERE "hourly_rate" IS NOT NULL;
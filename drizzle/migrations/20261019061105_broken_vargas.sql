@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "billable" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "billable" boolean;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "user_settings" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"overlap_policy" text DEFAULT 'warn' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,6 @@
+ALTER TABLE "time_entries" ADD COLUMN "idle_notified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "auto_stopped" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "idle_timer_hours" integer DEFAULT 10;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "workday_end" text;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "time_zone" text DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "auto_stop_idle_timers" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_settings" ADD COLUMN "max_concurrent_timers" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
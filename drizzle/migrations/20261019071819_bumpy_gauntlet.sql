@@ -0,0 +1,37 @@
+CREATE TABLE "recurring_template_exceptions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"template_id" text NOT NULL,
+	"occurrence_date" text NOT NULL,
+	"action" text NOT NULL,
+	"description" text,
+	"start_time" text,
+	"duration_minutes" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "recurring_template_exceptions_occurrence_unique" UNIQUE("template_id","occurrence_date")
+);
+--> statement-breakpoint
+CREATE TABLE "recurring_templates" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"project_id" text NOT NULL,
+	"description" text NOT NULL,
+	"rrule" text NOT NULL,
+	"starts_on" text NOT NULL,
+	"start_time" text NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"time_zone" text DEFAULT 'UTC' NOT NULL,
+	"billable" boolean,
+	"task_id" text,
+	"entry_status" text DEFAULT 'draft' NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"materialised_through" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "is_draft" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD COLUMN "recurring_template_id" text;--> statement-breakpoint
+ALTER TABLE "recurring_template_exceptions" ADD CONSTRAINT "recurring_template_exceptions_template_id_recurring_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."recurring_templates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_templates" ADD CONSTRAINT "recurring_templates_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_templates" ADD CONSTRAINT "recurring_templates_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_recurring_template_id_recurring_templates_id_fk" FOREIGN KEY ("recurring_template_id") REFERENCES "public"."recurring_templates"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "time_entries" ADD COLUMN "recurring_occurrence_date" text;--> statement-breakpoint
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_recurring_occurrence_unique" UNIQUE("recurring_template_id","recurring_occurrence_date");
\ No newline at end of file
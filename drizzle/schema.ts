@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, boolean, integer, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, boolean, integer, decimal, unique, primaryKey } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 // Import Better Auth schema to prevent Drizzle from dropping those tables
 import * as betterAuthSchema from './better-auth-schema';
@@ -9,6 +9,7 @@ export const clients = pgTable('clients', {
   name: text('name').notNull(),
   description: text('description'),
   userId: text('user_id').notNull(), // References better-auth user.id
+  currency: text('currency').notNull().default('USD'), // ISO 4217 code
   active: boolean('active').notNull().default(true),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -22,6 +23,8 @@ export const projects = pgTable('projects', {
   clientId: text('client_id').notNull().references(() => clients.id),
   userId: text('user_id').notNull(), // References better-auth user.id
   hourlyRate: decimal('hourly_rate', { precision: 10, scale: 2 }),
+  currency: text('currency').notNull().default('USD'), // Currency of hourlyRate; defaults to the client's
+  billable: boolean('billable').notNull().default(true), // Default for the project's time entries
   active: boolean('active').notNull().default(true),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -37,10 +40,282 @@ export const timeEntries = pgTable('time_entries', {
   endTime: timestamp('end_time'),
   durationMinutes: integer('duration_minutes'),
   isActive: boolean('is_active').notNull().default(false),
+  isPaused: boolean('is_paused').notNull().default(false),
+  billable: boolean('billable'), // Overrides the project's billable default; null follows the project
+  taskId: text('task_id').references(() => tasks.id), // Optional task within the entry's project
+  invoiceId: text('invoice_id').references(() => invoices.id), // Set once billed; cleared if the invoice is voided
+  idleNotifiedAt: timestamp('idle_notified_at'), // When the user was told the timer looks forgotten
+  autoStopped: boolean('auto_stopped').notNull().default(false), // Stopped by the idle timer check rather than the user
+  isDraft: boolean('is_draft').notNull().default(false), // Logged from a recurring template and waiting for the user to confirm it
+  recurringTemplateId: text('recurring_template_id').references(() => recurringTemplates.id, { onDelete: 'set null' }), // Template the entry was logged from
+  recurringOccurrenceDate: text('recurring_occurrence_date'), // YYYY-MM-DD occurrence of the template the entry was logged for
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  unique('time_entries_recurring_occurrence_unique').on(table.recurringTemplateId, table.recurringOccurrenceDate),
+]);
+
+// Tasks table (units of work within a project, with an optional hour estimate)
+export const tasks = pgTable('tasks', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id').notNull().references(() => projects.id),
+  name: text('name').notNull(),
+  description: text('description'),
+  estimateHours: decimal('estimate_hours', { precision: 10, scale: 2 }), // Null when not estimated
+  status: text('status', { enum: ['open', 'in_progress', 'done'] }).notNull().default('open'),
+  assigneeId: text('assignee_id'), // References better-auth user.id
+  userId: text('user_id').notNull(), // Creator; references better-auth user.id
+  closedAt: timestamp('closed_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Project budgets table (one hour- or money-based budget per project, for its lifetime or per calendar month)
+export const projectBudgets = pgTable('project_budgets', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id').notNull().unique().references(() => projects.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: ['hours', 'money'] }).notNull(),
+  period: text('period', { enum: ['total', 'monthly'] }).notNull().default('total'),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Hours, or money in the project's currency
+  alertThresholds: integer('alert_thresholds').array().notNull().default([80, 100]), // Percentages of the budget
+  userId: text('user_id').notNull(), // References better-auth user.id
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Budget alerts table (thresholds already crossed, so each fires once per budget period)
+export const budgetAlerts = pgTable('budget_alerts', {
+  id: text('id').primaryKey().notNull(),
+  budgetId: text('budget_id').notNull().references(() => projectBudgets.id, { onDelete: 'cascade' }),
+  threshold: integer('threshold').notNull(),
+  periodStart: timestamp('period_start').notNull(), // Start of the month for monthly budgets, epoch for total budgets
+  percentUsed: decimal('percent_used', { precision: 7, scale: 1 }).notNull(), // Consumption when the alert fired
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  unique('budget_alerts_budget_threshold_period_unique').on(table.budgetId, table.threshold, table.periodStart),
+]);
+
+// Notifications table (in-app messages for a user, e.g. budget alerts)
+export const notifications = pgTable('notifications', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull(), // Recipient; references better-auth user.id
+  type: text('type', { enum: ['budget_alert', 'idle_timer'] }).notNull(),
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  projectId: text('project_id').references(() => projects.id, { onDelete: 'cascade' }),
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Time entry breaks table (paused intervals within a time entry)
+export const timeEntryBreaks = pgTable('time_entry_breaks', {
+  id: text('id').primaryKey().notNull(),
+  timeEntryId: text('time_entry_id').notNull().references(() => timeEntries.id, { onDelete: 'cascade' }),
+  startTime: timestamp('start_time').notNull(),
+  endTime: timestamp('end_time'), // Null while the entry is paused
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Timesheets table (weekly approval state per user; weeks without a row are drafts)
+export const timesheets = pgTable('timesheets', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull(), // References better-auth user.id
+  weekStart: timestamp('week_start').notNull(), // Monday 00:00 UTC
+  status: text('status', { enum: ['draft', 'submitted', 'approved', 'rejected'] }).notNull().default('draft'),
+  totalMinutes: integer('total_minutes').notNull().default(0), // Snapshot taken on submission
+  submittedAt: timestamp('submitted_at'),
+  reviewedBy: text('reviewed_by'), // References better-auth user.id
+  reviewedAt: timestamp('reviewed_at'),
+  reviewComment: text('review_comment'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  unique('timesheets_user_week_unique').on(table.userId, table.weekStart),
+]);
+
+// Reporting lines table (manager -> direct report; each employee has at most one manager)
+export const reportingLines = pgTable('reporting_lines', {
+  id: text('id').primaryKey().notNull(),
+  managerId: text('manager_id').notNull(), // References better-auth user.id
+  employeeId: text('employee_id').notNull().unique(), // References better-auth user.id
+  createdBy: text('created_by').notNull(), // Admin who assigned the manager
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Invoices table (bills a user's uninvoiced time for one client and period)
+export const invoices = pgTable('invoices', {
+  id: text('id').primaryKey().notNull(),
+  invoiceNumber: text('invoice_number').notNull().unique(),
+  clientId: text('client_id').notNull().references(() => clients.id),
+  userId: text('user_id').notNull(), // References better-auth user.id
+  status: text('status', { enum: ['issued', 'void'] }).notNull().default('issued'),
+  currency: text('currency').notNull().default('USD'), // The client's currency at issue
+  periodStart: timestamp('period_start').notNull(),
+  periodEnd: timestamp('period_end').notNull(),
+  issueDate: timestamp('issue_date').notNull(),
+  dueDate: timestamp('due_date').notNull(),
+  subtotal: decimal('subtotal', { precision: 12, scale: 2 }).notNull(),
+  discountTotal: decimal('discount_total', { precision: 12, scale: 2 }).notNull().default('0'),
+  taxTotal: decimal('tax_total', { precision: 12, scale: 2 }).notNull().default('0'),
+  total: decimal('total', { precision: 12, scale: 2 }).notNull(),
+  notes: text('notes'),
+  voidedAt: timestamp('voided_at'),
+  voidReason: text('void_reason'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Invoice lines table (time per project, then discount and tax adjustments)
+export const invoiceLines = pgTable('invoice_lines', {
+  id: text('id').primaryKey().notNull(),
+  invoiceId: text('invoice_id').notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: ['time', 'discount', 'tax'] }).notNull(),
+  projectId: text('project_id').references(() => projects.id), // Time lines only
+  description: text('description').notNull(),
+  quantity: decimal('quantity', { precision: 10, scale: 2 }), // Hours, for time lines
+  unitPrice: decimal('unit_price', { precision: 10, scale: 2 }), // Hourly rate, for time lines
+  ratePercent: decimal('rate_percent', { precision: 5, scale: 2 }), // For discount and tax lines
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Negative for discounts
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Invoice number sequences (one counter per year)
+export const invoiceSequences = pgTable('invoice_sequences', {
+  year: integer('year').primaryKey().notNull(),
+  lastNumber: integer('last_number').notNull().default(0),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Rate cards table (hourly rates with validity ranges; member > project > client when resolving)
+export const rateCards = pgTable('rate_cards', {
+  id: text('id').primaryKey().notNull(),
+  scope: text('scope', { enum: ['client', 'project', 'member'] }).notNull(),
+  clientId: text('client_id').references(() => clients.id), // Client scope only
+  projectId: text('project_id').references(() => projects.id), // Project and member scope
+  userId: text('user_id'), // Member scope only; references better-auth user.id
+  hourlyRate: decimal('hourly_rate', { precision: 10, scale: 2 }).notNull(),
+  currency: text('currency').notNull(),
+  validFrom: timestamp('valid_from').notNull(),
+  validTo: timestamp('valid_to'), // Exclusive; null while the rate is current
+  createdBy: text('created_by').notNull(), // References better-auth user.id
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Exchange rates table (1 unit of base currency = rate units of quote currency, from effectiveDate on)
+export const exchangeRates = pgTable('exchange_rates', {
+  id: text('id').primaryKey().notNull(),
+  baseCurrency: text('base_currency').notNull(),
+  quoteCurrency: text('quote_currency').notNull(),
+  rate: decimal('rate', { precision: 18, scale: 8 }).notNull(),
+  effectiveDate: timestamp('effective_date').notNull(),
+  createdBy: text('created_by').notNull(), // References better-auth user.id
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  unique('exchange_rates_pair_date_unique').on(table.baseCurrency, table.quoteCurrency, table.effectiveDate),
+]);
+
+// Tags table (shared labels for time entries; names are stored lowercased)
+export const tags = pgTable('tags', {
+  id: text('id').primaryKey().notNull(),
+  name: text('name').notNull().unique(),
+  color: text('color'), // Optional hex color, e.g. #3b82f6
+  userId: text('user_id').notNull(), // Creator; references better-auth user.id
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Time entry tags table (many-to-many link between time entries and tags)
+export const timeEntryTags = pgTable('time_entry_tags', {
+  timeEntryId: text('time_entry_id').notNull().references(() => timeEntries.id, { onDelete: 'cascade' }),
+  tagId: text('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.timeEntryId, table.tagId] }),
+]);
+
+// Calendar feed tokens table (one per user; authenticates the user's ICS subscription URL)
+export const calendarFeedTokens = pgTable('calendar_feed_tokens', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull().unique(), // References better-auth user.id
+  tokenHash: text('token_hash').notNull().unique(), // SHA-256 of the token; the token itself is only shown once
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// API keys table (personal keys for the MCP server and REST API, limited to their scopes)
+export const apiKeys = pgTable('api_keys', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull(), // References better-auth user.id
+  name: text('name').notNull(),
+  keyPrefix: text('key_prefix').notNull(), // Start of the key, shown to tell keys apart
+  keyHash: text('key_hash').notNull().unique(), // SHA-256 of the key; the key itself is only shown once
+  scopes: text('scopes').array().notNull(), // ApiScope values: read, write, team
+  expiresAt: timestamp('expires_at'), // Null for keys that don't expire
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Calendar import rules table (assigns imported calendar events to projects; the oldest matching rule wins)
+export const calendarImportRules = pgTable('calendar_import_rules', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull(), // References better-auth user.id
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  matchType: text('match_type', { enum: ['title', 'attendee_domain'] }).notNull(),
+  pattern: text('pattern').notNull(), // Case-insensitive title substring, or an attendee email domain (subdomains match too)
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Recurring templates table (standups, weekly syncs, retainers; the scheduler logs an entry for each occurrence)
+export const recurringTemplates = pgTable('recurring_templates', {
+  id: text('id').primaryKey().notNull(),
+  userId: text('user_id').notNull(), // References better-auth user.id
+  projectId: text('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  description: text('description').notNull(),
+  rrule: text('rrule').notNull(), // RRULE subset: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL
+  startsOn: text('starts_on').notNull(), // YYYY-MM-DD; the first day occurrences can fall on
+  startTime: text('start_time').notNull(), // HH:MM in timeZone
+  durationMinutes: integer('duration_minutes').notNull(),
+  timeZone: text('time_zone').notNull().default('UTC'), // IANA time zone for startsOn and startTime
+  billable: boolean('billable'), // Overrides the project's billable default; null follows the project
+  taskId: text('task_id').references(() => tasks.id, { onDelete: 'set null' }),
+  entryStatus: text('entry_status', { enum: ['draft', 'confirmed'] }).notNull().default('draft'), // Draft entries wait for the user to confirm them
+  active: boolean('active').notNull().default(true),
+  materialisedThrough: text('materialised_through'), // YYYY-MM-DD of the last occurrence already handled by the scheduler
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// Recurring template exceptions table (skips or changes a single occurrence before it is logged)
+export const recurringTemplateExceptions = pgTable('recurring_template_exceptions', {
+  id: text('id').primaryKey().notNull(),
+  templateId: text('template_id').notNull().references(() => recurringTemplates.id, { onDelete: 'cascade' }),
+  occurrenceDate: text('occurrence_date').notNull(), // YYYY-MM-DD in the template's time zone
+  action: text('action', { enum: ['skip', 'override'] }).notNull(),
+  description: text('description'), // Overrides; null keeps the template's value
+  startTime: text('start_time'),
+  durationMinutes: integer('duration_minutes'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  unique('recurring_template_exceptions_occurrence_unique').on(table.templateId, table.occurrenceDate),
+]);
+
+// User settings table (one row per user who changed a default)
+export const userSettings = pgTable('user_settings', {
+  userId: text('user_id').primaryKey().notNull(), // References better-auth user.id
+  overlapPolicy: text('overlap_policy', { enum: ['reject', 'warn', 'trim'] }).notNull().default('warn'), // Handling of entries that overlap existing ones
+  idleTimerHours: integer('idle_timer_hours').default(10), // Running timers older than this look forgotten; null disables the check
+  workdayEnd: text('workday_end'), // HH:MM in timeZone; timers still running past it look forgotten
+  timeZone: text('time_zone').notNull().default('UTC'), // IANA time zone for workdayEnd
+  autoStopIdleTimers: boolean('auto_stop_idle_timers').notNull().default(false), // Stop forgotten timers at the last activity instead of only notifying
+  maxConcurrentTimers: integer('max_concurrent_timers').notNull().default(1), // Timers the user may run at once; more than one is opt-in
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
 // Relations
 export const clientsRelations = relations(clients, ({ many }) => ({
   projects: many(projects),
@@ -52,13 +327,74 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     references: [clients.id],
   }),
   timeEntries: many(timeEntries),
+  tasks: many(tasks),
+}));
+
+export const tasksRelations = relations(tasks, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [tasks.projectId],
+    references: [projects.id],
+  }),
+  timeEntries: many(timeEntries),
 }));
 
-export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+export const timeEntriesRelations = relations(timeEntries, ({ one, many }) => ({
   project: one(projects, {
     fields: [timeEntries.projectId],
     references: [projects.id],
   }),
+  task: one(tasks, {
+    fields: [timeEntries.taskId],
+    references: [tasks.id],
+  }),
+  invoice: one(invoices, {
+    fields: [timeEntries.invoiceId],
+    references: [invoices.id],
+  }),
+  breaks: many(timeEntryBreaks),
+  tags: many(timeEntryTags),
+}));
+
+export const timeEntryBreaksRelations = relations(timeEntryBreaks, ({ one }) => ({
+  timeEntry: one(timeEntries, {
+    fields: [timeEntryBreaks.timeEntryId],
+    references: [timeEntries.id],
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  timeEntries: many(timeEntryTags),
+}));
+
+export const timeEntryTagsRelations = relations(timeEntryTags, ({ one }) => ({
+  timeEntry: one(timeEntries, {
+    fields: [timeEntryTags.timeEntryId],
+    references: [timeEntries.id],
+  }),
+  tag: one(tags, {
+    fields: [timeEntryTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  client: one(clients, {
+    fields: [invoices.clientId],
+    references: [clients.id],
+  }),
+  lines: many(invoiceLines),
+  timeEntries: many(timeEntries),
+}));
+
+export const invoiceLinesRelations = relations(invoiceLines, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceLines.invoiceId],
+    references: [invoices.id],
+  }),
+  project: one(projects, {
+    fields: [invoiceLines.projectId],
+    references: [projects.id],
+  }),
 }));
 
 // Export Better Auth schema for Drizzle awareness
@@ -70,4 +406,46 @@ export type NewClient = typeof clients.$inferInsert;
 export type Project = typeof projects.$inferSelect;
 export type NewProject = typeof projects.$inferInsert;
 export type TimeEntry = typeof timeEntries.$inferSelect;
-export type NewTimeEntry = typeof timeEntries.$inferInsert;
\ No newline at end of file
+export type NewTimeEntry = typeof timeEntries.$inferInsert;
+export type Task = typeof tasks.$inferSelect;
+export type NewTask = typeof tasks.$inferInsert;
+export type TaskStatus = Task['status'];
+export type ProjectBudget = typeof projectBudgets.$inferSelect;
+export type NewProjectBudget = typeof projectBudgets.$inferInsert;
+export type BudgetType = ProjectBudget['type'];
+export type BudgetPeriod = ProjectBudget['period'];
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type NotificationType = Notification['type'];
+export type TimeEntryBreak = typeof timeEntryBreaks.$inferSelect;
+export type NewTimeEntryBreak = typeof timeEntryBreaks.$inferInsert;
+export type Timesheet = typeof timesheets.$inferSelect;
+export type NewTimesheet = typeof timesheets.$inferInsert;
+export type TimesheetStatus = Timesheet['status'];
+export type ReportingLine = typeof reportingLines.$inferSelect;
+export type NewReportingLine = typeof reportingLines.$inferInsert;
+export type Invoice = typeof invoices.$inferSelect;
+export type NewInvoice = typeof invoices.$inferInsert;
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+export type NewInvoiceLine = typeof invoiceLines.$inferInsert;
+export type RateCard = typeof rateCards.$inferSelect;
+export type NewRateCard = typeof rateCards.$inferInsert;
+export type RateScope = RateCard['scope'];
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof exchangeRates.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+export type TimeEntryTag = typeof timeEntryTags.$inferSelect;
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type CalendarImportRule = typeof calendarImportRules.$inferSelect;
+export type NewCalendarImportRule = typeof calendarImportRules.$inferInsert;
+export type CalendarImportMatchType = CalendarImportRule['matchType'];
+export type RecurringTemplate = typeof recurringTemplates.$inferSelect;
+export type NewRecurringTemplate = typeof recurringTemplates.$inferInsert;
+export type RecurringEntryStatus = RecurringTemplate['entryStatus'];
+export type RecurringTemplateException = typeof recurringTemplateExceptions.$inferSelect;
+export type RecurringExceptionAction = RecurringTemplateException['action'];
+export type UserSettings = typeof userSettings.$inferSelect;
+export type OverlapPolicy = UserSettings['overlapPolicy'];
@@ -4,6 +4,9 @@ import { getExternalAuthMode, authenticateViaProxy } from './external-auth';
 import { db } from '@/drizzle/connection';
 import { user as userTable } from '@/drizzle/schema';
 import { eq } from 'drizzle-orm';
+import { ApiKeyService, getApiKeyFromHeaders, getRequiredScope, type ApiKeyOwner } from './services/api-keys';
+
+const apiKeyService = new ApiKeyService();
 
 /**
  * User information including role for authorization
@@ -13,14 +16,45 @@ export interface AuthenticatedUser {
   role: string | null;
   email?: string;
   name?: string;
+  /** Scopes of the API key the request was made with, if any */
+  apiScopes?: string[];
+}
+
+/**
+ * Authenticates a request carrying a personal API key, or returns null if it has none.
+ * Throws a 401 Response for an invalid or expired key, and a 403 Response if the key's
+ * scopes don't allow the request method.
+ */
+async function authenticateViaApiKey(req: NextRequest): Promise<ApiKeyOwner | null> {
+  const key = getApiKeyFromHeaders(req.headers);
+  if (!key) {
+    return null;
+  }
+
+  const owner = await apiKeyService.authenticate(key);
+  if (!owner) {
+    throw new Response('Invalid or expired API key', { status: 401 });
+  }
+
+  const scope = getRequiredScope(req.method);
+  if (!owner.scopes.includes(scope)) {
+    throw new Response(`API key lacks the ${scope} scope`, { status: 403 });
+  }
+
+  return owner;
 }
 
 /**
  * Extracts the authenticated user id from the session.
- * Supports both Better Auth sessions and external OAuth proxy authentication.
+ * Supports personal API keys, Better Auth sessions and external OAuth proxy authentication.
  * Throws a 401 Response if the request is unauthenticated.
  */
 export async function getUserIdOrThrow(req: NextRequest): Promise<string> {
+  const apiKeyOwner = await authenticateViaApiKey(req);
+  if (apiKeyOwner) {
+    return apiKeyOwner.userId;
+  }
+
   const externalAuthMode = getExternalAuthMode();
 
   // If proxy mode is enabled, try proxy authentication first
@@ -47,6 +81,18 @@ export async function getUserIdOrThrow(req: NextRequest): Promise<string> {
  * Throws a 401 Response if the request is unauthenticated.
  */
 export async function getAuthenticatedUser(req: NextRequest): Promise<AuthenticatedUser> {
+  // API keys without the team scope act with the regular user role
+  const apiKeyOwner = await authenticateViaApiKey(req);
+  if (apiKeyOwner) {
+    return {
+      userId: apiKeyOwner.userId,
+      role: apiKeyOwner.role,
+      email: apiKeyOwner.email,
+      name: apiKeyOwner.name,
+      apiScopes: apiKeyOwner.scopes,
+    };
+  }
+
   const externalAuthMode = getExternalAuthMode();
 
   // If proxy mode is enabled, try proxy authentication first
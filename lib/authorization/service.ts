@@ -8,10 +8,14 @@
 import { 
   UserRole, 
   Permission, 
+  ApiScope, 
   RolePermissions, 
   AuthorizationContext, 
   AuthorizationResult 
 } from './types';
+import { db } from '@/drizzle/connection';
+import { reportingLines } from '@/drizzle/schema';
+import { inArray } from 'drizzle-orm';
 
 /**
  * Check if a user has a specific permission
@@ -30,6 +34,18 @@ export function hasPermission(
   return false;
 }
 
+/**
+ * Check if the request may act within an API key scope
+ * Always true for requests that weren't authenticated with an API key
+ */
+export function hasApiScope(
+  context: AuthorizationContext,
+  scope: ApiScope
+): boolean {
+  const apiScopes = context.metadata?.apiScopes;
+  return !apiScopes || apiScopes.includes(scope);
+}
+
 /**
  * Check if a user can view all timesheets (HR/Admin access)
  */
@@ -143,6 +159,46 @@ export function canViewReports(
   };
 }
 
+/**
+ * Check if a user can approve or reject a specific user's submitted timesheet
+ * 1. Nobody approves their own timesheet
+ * 2. HR/Admin can approve anyone's timesheet
+ * 3. Managers can approve their direct reports' timesheets
+ */
+export function canApproveTimesheets(
+  context: AuthorizationContext,
+  targetUserId: string
+): AuthorizationResult {
+  if (context.userId === targetUserId) {
+    return {
+      authorized: false,
+      reason: 'Users cannot approve their own timesheets'
+    };
+  }
+
+  if (!hasPermission(context, Permission.APPROVE_TIMESHEETS)) {
+    return {
+      authorized: false,
+      reason: `User with roles [${context.roles.join(', ')}] cannot approve timesheets`
+    };
+  }
+
+  if (hasPermission(context, Permission.VIEW_ALL_TIMESHEETS)) {
+    return { authorized: true };
+  }
+
+  const directReports = context.metadata?.directReports || [];
+
+  if (directReports.includes(targetUserId)) {
+    return { authorized: true };
+  }
+
+  return {
+    authorized: false,
+    reason: `User ${targetUserId} is not in the manager's direct reports`
+  };
+}
+
 /**
  * Utility function to parse role from string (case-insensitive)
  * Returns USER role if the role string is invalid or unknown
@@ -203,17 +259,66 @@ export function createAuthorizationContext(
 }
 
 /**
- * Extension point: Load manager's direct reports from database
- * This is a placeholder for future implementation
+ * Load a manager's direct reports from the reporting lines table
+ * With `transitive`, reports of reports are included at every depth (cycles are ignored)
  */
-export async function loadDirectReports(managerId: string): Promise<string[]> {
-  // TODO: Implement this when adding manager-employee relationship table
-  // Example implementation:
-  // const reports = await db
-  //   .select({ employeeId: employeeRelationships.employeeId })
-  //   .from(employeeRelationships)
-  //   .where(eq(employeeRelationships.managerId, managerId));
-  // return reports.map(r => r.employeeId);
-  
-  return [];
+export async function loadDirectReports(
+  managerId: string,
+  options: { transitive?: boolean } = {}
+): Promise<string[]> {
+  const reports = new Set<string>();
+  let managerIds = [managerId];
+
+  while (managerIds.length > 0) {
+    const rows = await db
+      .select({ employeeId: reportingLines.employeeId })
+      .from(reportingLines)
+      .where(inArray(reportingLines.managerId, managerIds));
+
+    const newReports = rows
+      .map(row => row.employeeId)
+      .filter(employeeId => employeeId !== managerId && !reports.has(employeeId));
+    newReports.forEach(employeeId => reports.add(employeeId));
+
+    if (!options.transitive) {
+      break;
+    }
+    managerIds = newReports;
+  }
+
+  return Array.from(reports);
+}
+
+/**
+ * Create an authorization context with reporting relationships loaded from the database
+ * Direct reports are only loaded for roles that are scoped by them (managers without
+ * blanket access). Transitive loading defaults to MANAGER_TRANSITIVE_REPORTS.
+ *
+ * @param userId - The authenticated user's ID
+ * @param roles - Role(s) as string(s) from JWT, database, or external auth
+ * @param options - Override whether indirect reports are included
+ */
+export async function loadAuthorizationContext(
+  userId: string,
+  roles: string | string[] | null | undefined,
+  options: { transitive?: boolean } = {}
+): Promise<AuthorizationContext> {
+  const context = createAuthorizationContext(userId, roles);
+
+  if (
+    hasPermission(context, Permission.VIEW_ALL_TIMESHEETS) ||
+    !hasPermission(context, Permission.VIEW_USER_TIMESHEETS)
+  ) {
+    return context;
+  }
+
+  // Validated in lib/env; read directly to keep this module free of the env loader
+  const directReports = await loadDirectReports(userId, {
+    transitive: options.transitive ?? process.env.MANAGER_TRANSITIVE_REPORTS === 'true',
+  });
+
+  return {
+    ...context,
+    metadata: { ...context.metadata, directReports },
+  };
 }
@@ -42,6 +42,27 @@ export enum Permission {
   
   /** Can view reports across all users (future permission) */
   VIEW_ALL_REPORTS = 'view_all_reports',
+  
+  /** Can approve or reject submitted timesheets (scoped to direct reports unless VIEW_ALL_TIMESHEETS is also held) */
+  APPROVE_TIMESHEETS = 'approve_timesheets',
+
+  /** Can change data shared across the organization: hourly and exchange rates, tags and project budgets */
+  MANAGE_ORGANIZATION = 'manage_organization',
+}
+
+/**
+ * Scopes a personal API key can be limited to
+ * Requests without an API key are not limited by scopes
+ */
+export enum ApiScope {
+  /** Read data: GET requests, read-only MCP tools, resources and prompts */
+  READ = 'read',
+
+  /** Create, change and delete data */
+  WRITE = 'write',
+
+  /** Use the key owner's role for other users' data (team reports, timesheet approval); without it the key acts as a regular user */
+  TEAM = 'team',
 }
 
 /**
@@ -56,16 +77,20 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
   [UserRole.HR]: [
     Permission.VIEW_ALL_TIMESHEETS,
     Permission.VIEW_ALL_REPORTS,
+    Permission.APPROVE_TIMESHEETS,
   ],
   
   [UserRole.MANAGER]: [
     Permission.VIEW_USER_TIMESHEETS, // With relationship validation
+    Permission.APPROVE_TIMESHEETS, // Direct reports only
   ],
   
   [UserRole.ADMIN]: [
     Permission.VIEW_ALL_TIMESHEETS,
     Permission.VIEW_ALL_REPORTS,
     Permission.MANAGE_USERS,
+    Permission.APPROVE_TIMESHEETS,
+    Permission.MANAGE_ORGANIZATION,
   ],
 };
 
@@ -143,6 +143,21 @@ export const env = createEnv({
       .optional()
       .describe("When MCP_API_KEY is used, associate requests with this local user ID"),
     
+    // Scheduled jobs
+    CRON_SECRET: z
+      .string()
+      .min(16, "CRON_SECRET must be at least 16 characters long")
+      .optional()
+      .describe("Bearer token scheduled job endpoints (e.g. /api/cron/idle-timers) require; the jobs are disabled without it"),
+
+    // Authorization
+    MANAGER_TRANSITIVE_REPORTS: z
+      .enum(["true", "false"])
+      .optional()
+      .default("false")
+      .transform((val) => val === "true")
+      .describe("Let managers see their reports' reports (the whole reporting tree) instead of direct reports only"),
+    
     // Vercel Environment Variables (automatically set by Vercel)
     VERCEL_PROJECT_PRODUCTION_URL: z
       .string()
@@ -235,6 +250,8 @@ export const env = createEnv({
     SEED_USER_ID: process.env.SEED_USER_ID,
     MCP_API_KEY: process.env.MCP_API_KEY,
     MCP_API_USER_ID: process.env.MCP_API_USER_ID,
+    CRON_SECRET: process.env.CRON_SECRET,
+    MANAGER_TRANSITIVE_REPORTS: process.env.MANAGER_TRANSITIVE_REPORTS,
     VERCEL_PROJECT_PRODUCTION_URL: process.env.VERCEL_PROJECT_PRODUCTION_URL,
     VERCEL_BRANCH_URL: process.env.VERCEL_BRANCH_URL,
     VERCEL_URL: process.env.VERCEL_URL,
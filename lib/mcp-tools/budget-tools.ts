@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { BudgetService, formatBudgetAmount, type BudgetStatus } from "../services/budgets";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type ProjectBudget, type BudgetType, type BudgetPeriod } from '../../drizzle/schema';
+
+const budgetService = new BudgetService();
+
+type BudgetResponse = {
+  budget: ProjectBudget | null;
+}
+type BudgetStatusResponse = {
+  status: BudgetStatus | null;
+}
+
+const formatPeriod = (budget: ProjectBudget) => budget.period === 'monthly' ? 'per month' : 'in total';
+
+export const setProjectBudgetTool = {
+  name: "set_project_budget",
+  description: "Set a project's budget in hours or money (in the project's currency), in total or per calendar month. Alerts notify the project owner when consumption reaches each threshold (default 80% and 100%). Replacing a budget resets its alerts.",
+  inputSchema: {
+    projectId: z.string().min(1, "Project ID is required"),
+    type: z.enum(['hours', 'money']),
+    period: z.enum(['total', 'monthly']).optional(),
+    amount: z.number().positive(),
+    alertThresholds: z.array(z.number().int()).optional(),
+  },
+  outputSchema: {
+    budget: z.object({
+      id: z.string(),
+      projectId: z.string(),
+      type: z.enum(['hours', 'money']),
+      period: z.enum(['total', 'monthly']),
+      amount: z.string(),
+      alertThresholds: z.array(z.number()),
+      userId: z.string(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { projectId: string; type: BudgetType; period?: BudgetPeriod; amount: number; alertThresholds?: number[] }, userId: string): Promise<McpResponse<BudgetResponse>> => {
+    try {
+      const { projectId, ...input } = params;
+      const budget = await budgetService.setBudget(userId, projectId, input);
+      const status = await budgetService.getBudgetStatus(projectId);
+      const consumption = status
+        ? `\n- Budget: ${formatBudgetAmount(status.amount, status.unit)} ${formatPeriod(budget)}\n- Consumed so far: ${formatBudgetAmount(status.consumed, status.unit)} (${status.percentUsed}%)`
+        : '';
+
+      return createStructuredMcpResponse(
+        `Budget set successfully:\n- Project ID: ${budget.projectId}${consumption}\n- Alerts at: ${budget.alertThresholds.map(threshold => `${threshold}%`).join(', ')}`,
+        { budget }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error setting project budget: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const getProjectBudgetStatusTool = {
+  name: "get_project_budget_status",
+  description: "Show how much of a project's budget has been consumed in the current period, across all users' completed time. Money budgets price billable time at the rates valid when it was tracked.",
+  inputSchema: {
+    projectId: z.string().min(1, "Project ID is required"),
+  },
+  outputSchema: {
+    status: z.object({
+      budget: z.object({
+        id: z.string(),
+        projectId: z.string(),
+        type: z.enum(['hours', 'money']),
+        period: z.enum(['total', 'monthly']),
+        amount: z.string(),
+        alertThresholds: z.array(z.number()),
+        userId: z.string(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+      }),
+      projectName: z.string(),
+      unit: z.string(),
+      periodStart: z.date(),
+      periodEnd: z.date().nullable(),
+      amount: z.number(),
+      consumed: z.number(),
+      remaining: z.number(),
+      percentUsed: z.number(),
+      reachedThresholds: z.array(z.number()),
+      missingRates: z.array(z.string()),
+    }).nullable(),
+  },
+  handler: async (params: { projectId: string }): Promise<McpResponse<BudgetStatusResponse>> => {
+    try {
+      const status = await budgetService.getBudgetStatus(params.projectId);
+
+      if (!status) {
+        return createStructuredMcpResponse("This project has no budget.", { status: null });
+      }
+
+      const period = status.periodEnd
+        ? `\n- Period: ${status.periodStart.toLocaleDateString()} - ${new Date(status.periodEnd.getTime() - 1).toLocaleDateString()}`
+        : '';
+      const reached = status.reachedThresholds.length > 0
+        ? `\n- Alert thresholds reached: ${status.reachedThresholds.map(threshold => `${threshold}%`).join(', ')}`
+        : '';
+      const missingRatesNote = status.missingRates.length > 0
+        ? `\nWarning: no exchange rate to ${status.unit} for ${status.missingRates.join(', ')}; that time is not counted.`
+        : '';
+
+      return createStructuredMcpResponse(
+        `Budget status for ${status.projectName}:\n- Budget: ${formatBudgetAmount(status.amount, status.unit)} ${formatPeriod(status.budget)}${period}\n- Consumed: ${formatBudgetAmount(status.consumed, status.unit)} (${status.percentUsed}%)\n- Remaining: ${formatBudgetAmount(status.remaining, status.unit)}${status.percentUsed >= 100 ? ' [OVER BUDGET]' : ''}${reached}${missingRatesNote}`,
+        { status }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error getting project budget status: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const removeProjectBudgetTool = {
+  name: "remove_project_budget",
+  description: "Remove a project's budget and its alerts",
+  inputSchema: {
+    projectId: z.string().min(1, "Project ID is required"),
+  },
+  outputSchema: {
+    success: z.boolean(),
+  },
+  handler: async (params: { projectId: string }): Promise<McpResponse<{ success: boolean }>> => {
+    try {
+      const success = await budgetService.removeBudget(params.projectId);
+
+      if (!success) {
+        return createMcpError("This project has no budget.");
+      }
+
+      return createStructuredMcpResponse("Budget removed successfully.", { success });
+    } catch (error) {
+      return createMcpError(
+        `Error removing project budget: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
@@ -0,0 +1,245 @@
+import { z } from "zod";
+import {
+  CalendarImportService,
+  type CalendarImportPreview,
+  type CalendarImportResult,
+  type CalendarImportRuleWithProject,
+  type CalendarRuleInput,
+} from "../services/calendar-imports";
+import { type CalendarImportRule } from "../../drizzle/schema";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+
+const calendarImportService = new CalendarImportService();
+
+type CalendarImportResponse = {
+  preview: CalendarImportPreview | null;
+  result: CalendarImportResult | null;
+}
+
+type CalendarImportRuleResponse = {
+  rule: CalendarImportRule;
+}
+
+type CalendarImportRuleListResponse = {
+  rules: CalendarImportRuleWithProject[];
+}
+
+type DeleteCalendarImportRuleResponse = {
+  success: boolean;
+  ruleId: string;
+}
+
+// Enough events to review the mapping without flooding the conversation
+const PREVIEW_EVENT_LIMIT = 30;
+
+const ruleSchema = z.object({
+  matchType: z.enum(['title', 'attendee_domain']),
+  pattern: z.string().min(1, "Pattern is required"),
+  projectId: z.string().min(1, "Project ID is required"),
+});
+
+const ruleOutputSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  projectId: z.string(),
+  matchType: z.enum(['title', 'attendee_domain']),
+  pattern: z.string(),
+  createdAt: z.date(),
+});
+
+const describeRule = (rule: { matchType: string; pattern: string }) =>
+  rule.matchType === 'title' ? `title contains "${rule.pattern}"` : `attendee from ${rule.pattern}`;
+
+export const importCalendarEventsTool = {
+  name: "import_calendar_events",
+  description: "Create time entries from the events of an iCalendar (.ics) file, such as meetings exported from Google Calendar or Outlook. Events get a project from the first matching rule (inline rules first, then saved ones; see create_calendar_import_rule), else defaultProjectId. All-day, cancelled, declined and recurring-series events are left out. Runs as a dry run by default, returning draft entries with overlaps for review; then call again with dryRun false, optionally passing assignments to change an event's project or leave it out (projectId null). Events without a project are not imported, and the rest follow your overlap policy and timesheet locks.",
+  inputSchema: {
+    content: z.string().min(1, "Calendar content is required"),
+    timeZone: z.string().optional(),
+    rules: z.array(ruleSchema).optional(),
+    defaultProjectId: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    assignments: z.array(
+      z.object({
+        eventId: z.string(),
+        projectId: z.string().nullable(),
+      })
+    ).optional(),
+    dryRun: z.boolean().optional(),
+    skipOverlapping: z.boolean().optional(),
+  },
+  outputSchema: {
+    preview: z.object({
+      drafts: z.array(
+        z.object({
+          eventId: z.string(),
+          title: z.string(),
+          startTime: z.date(),
+          endTime: z.date(),
+          durationMinutes: z.number(),
+          attendeeDomains: z.array(z.string()),
+          projectId: z.string().nullable(),
+          projectName: z.string().nullable(),
+          clientName: z.string().nullable(),
+          matchedRule: z.object({
+            matchType: z.enum(['title', 'attendee_domain']),
+            pattern: z.string(),
+          }).nullable(),
+          overlaps: z.array(
+            z.object({
+              eventId: z.string().nullable(),
+              timeEntryId: z.string().nullable(),
+              description: z.string(),
+              startTime: z.date(),
+              endTime: z.date().nullable(),
+            })
+          ),
+        })
+      ),
+      skipped: z.array(
+        z.object({
+          eventId: z.string().nullable(),
+          title: z.string().nullable(),
+          reason: z.string(),
+        })
+      ),
+      unassignedCount: z.number(),
+      overlapCount: z.number(),
+      totalHours: z.number(),
+    }).nullable(),
+    result: z.object({
+      imported: z.number(),
+      entryIds: z.array(z.string()),
+      skippedUnassigned: z.number(),
+      skippedOverlapping: z.number(),
+      trimmedOverlapping: z.number(),
+      totalHours: z.number(),
+    }).nullable(),
+  },
+  handler: async (params: { content: string; timeZone?: string; rules?: CalendarRuleInput[]; defaultProjectId?: string; tags?: string[]; assignments?: { eventId: string; projectId: string | null }[]; dryRun?: boolean; skipOverlapping?: boolean }, userId: string): Promise<McpResponse<CalendarImportResponse>> => {
+    try {
+      const options = {
+        timeZone: params.timeZone,
+        rules: params.rules,
+        defaultProjectId: params.defaultProjectId,
+        tags: params.tags,
+      };
+
+      if (params.dryRun ?? true) {
+        const preview = await calendarImportService.preview(userId, params.content, options);
+
+        const events = preview.drafts
+          .slice(0, PREVIEW_EVENT_LIMIT)
+          .map(draft => `- [${draft.eventId}] ${draft.title} ${draft.startTime.toISOString()} - ${draft.endTime.toISOString()} -> ${draft.projectName ? `${draft.projectName} (${draft.matchedRule ? describeRule(draft.matchedRule) : 'default'})` : 'NO PROJECT'}${draft.overlaps.length > 0 ? ` [OVERLAPS ${draft.overlaps.map(overlap => overlap.eventId ? `event ${overlap.eventId}` : `entry ${overlap.timeEntryId}`).join(', ')}]` : ''}`)
+          .join('\n');
+        const more = preview.drafts.length > PREVIEW_EVENT_LIMIT ? `\n...and ${preview.drafts.length - PREVIEW_EVENT_LIMIT} more` : '';
+        const skipped = preview.skipped.length > 0
+          ? `\nLeft out:\n${preview.skipped.map(event => `- ${event.title || event.eventId || 'Untitled event'}: ${event.reason}`).join('\n')}`
+          : '';
+
+        return createStructuredMcpResponse(
+          `Calendar import drafts (nothing imported yet): ${preview.drafts.length} events, ${preview.totalHours}h, ${preview.unassignedCount} without a project, ${preview.overlapCount} overlapping\n${events}${more}${skipped}`,
+          { preview, result: null }
+        );
+      }
+
+      const result = await calendarImportService.commit(userId, params.content, {
+        ...options,
+        assignments: params.assignments
+          ? Object.fromEntries(params.assignments.map(assignment => [assignment.eventId, assignment.projectId]))
+          : undefined,
+        skipOverlapping: params.skipOverlapping,
+      });
+
+      return createStructuredMcpResponse(
+        `Calendar import completed successfully:\n- Imported: ${result.imported} events (${result.totalHours}h)\n- Skipped overlapping: ${result.skippedOverlapping}\n- Trimmed to fit: ${result.trimmedOverlapping}\n- Without a project: ${result.skippedUnassigned}`,
+        { preview: null, result }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error importing calendar events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const createCalendarImportRuleTool = {
+  name: "create_calendar_import_rule",
+  description: "Save a rule assigning imported calendar events to a project: matchType \"title\" matches a case-insensitive part of the event title, \"attendee_domain\" matches the email domain of any attendee or the organizer. Rules are tried oldest first.",
+  inputSchema: ruleSchema.shape,
+  outputSchema: {
+    rule: ruleOutputSchema,
+  },
+  handler: async (params: CalendarRuleInput, userId: string): Promise<McpResponse<CalendarImportRuleResponse>> => {
+    try {
+      const rule = await calendarImportService.createRule(userId, params);
+
+      return createStructuredMcpResponse(
+        `Calendar import rule created successfully:\n- Rule: ${describeRule(rule)}\n- Project ID: ${rule.projectId}\n- Rule ID: ${rule.id}`,
+        { rule }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error creating calendar import rule: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listCalendarImportRulesTool = {
+  name: "list_calendar_import_rules",
+  description: "List your saved calendar import rules in the order they are tried",
+  inputSchema: {} as Record<string, never>,
+  outputSchema: {
+    rules: z.array(ruleOutputSchema.extend({ projectName: z.string() })),
+  },
+  handler: async (params: Record<string, never>, userId: string): Promise<McpResponse<CalendarImportRuleListResponse>> => {
+    try {
+      const rules = await calendarImportService.listRules(userId);
+
+      if (rules.length === 0) {
+        return createStructuredMcpResponse("No calendar import rules found.", { rules });
+      }
+
+      const ruleList = rules
+        .map(rule => `- ${describeRule(rule)} -> ${rule.projectName} (ID: ${rule.id})`)
+        .join('\n');
+
+      return createStructuredMcpResponse(`Calendar import rules:\n${ruleList}`, { rules });
+    } catch (error) {
+      return createMcpError(
+        `Error listing calendar import rules: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const deleteCalendarImportRuleTool = {
+  name: "delete_calendar_import_rule",
+  description: "Delete a saved calendar import rule",
+  inputSchema: {
+    ruleId: z.string().min(1, "Rule ID is required"),
+  },
+  outputSchema: {
+    success: z.boolean(),
+    ruleId: z.string(),
+  },
+  handler: async (params: { ruleId: string }, userId: string): Promise<McpResponse<DeleteCalendarImportRuleResponse>> => {
+    try {
+      const deleted = await calendarImportService.deleteRule(userId, params.ruleId);
+
+      if (!deleted) {
+        return createMcpError("Calendar import rule not found.");
+      }
+
+      return createStructuredMcpResponse(
+        `Calendar import rule ${params.ruleId} deleted successfully`,
+        { success: true, ruleId: params.ruleId }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error deleting calendar import rule: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
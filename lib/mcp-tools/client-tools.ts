@@ -1,11 +1,13 @@
 import { z } from "zod";
 import { ClientService } from "../services/clients";
+import { NameResolver } from "../services/name-resolver";
 import { type Client } from '../../drizzle/schema';
 import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
 import { create } from "domain";
 import { input } from "@testing-library/user-event/dist/cjs/event/input.js";
 
 const clientService = new ClientService();
+const nameResolver = new NameResolver();
 
 type ClientResponse = {
   client: Client | null;
@@ -20,6 +22,7 @@ export const createClientTool = {
   inputSchema: {
     name: z.string().min(1, "Client name is required"),
     description: z.string().optional(),
+    currency: z.string().length(3).optional(),
   },
   outputSchema: {
     client: z.object({
@@ -27,16 +30,17 @@ export const createClientTool = {
       name: z.string(),
       description: z.string().nullable(),
       userId: z.string(),
+      currency: z.string(),
       active: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
   },
-  handler: async (params: { name: string; description?: string }, userId: string): Promise<McpResponse<ClientResponse>> => {
+  handler: async (params: { name: string; description?: string; currency?: string }, userId: string): Promise<McpResponse<ClientResponse>> => {
     try {
       const client = await clientService.createClient(userId, params);
       return createStructuredMcpResponse(
-        `Client created successfully:\n- ID: ${client.id}\n- Name: ${client.name}\n- Description: ${client.description || 'None'}`,
+        `Client created successfully:\n- ID: ${client.id}\n- Name: ${client.name}\n- Description: ${client.description || 'None'}\n- Currency: ${client.currency}`,
         { client }
       );
     } catch (error) {
@@ -60,6 +64,7 @@ export const listClientsTool = {
         name: z.string(),
         description: z.string().nullable(),
         userId: z.string(),
+        currency: z.string(),
         active: z.boolean(),
         createdAt: z.date(),
         updatedAt: z.date(),
@@ -95,11 +100,13 @@ export const listClientsTool = {
 
 export const updateClientTool = {
   name: "update_client",
-  description: "Update an existing client",
+  description: "Update an existing client, given by clientId or by its current name as clientName (matched loosely)",
   inputSchema: {
-    clientId: z.string().min(1, "Client ID is required"),
+    clientId: z.string().optional(),
+    clientName: z.string().optional(),
     name: z.string().min(1).optional(),
     description: z.string().optional(),
+    currency: z.string().length(3).optional(),
     active: z.boolean().optional(),
   },
   outputSchema: {
@@ -108,22 +115,24 @@ export const updateClientTool = {
       name: z.string(),
       description: z.string().nullable(),
       userId: z.string(),
+      currency: z.string(),
       active: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
   },
-  handler: async (params: { clientId: string; name?: string; description?: string; active?: boolean }, userId: string): Promise<McpResponse<ClientResponse>> => {
+  handler: async (params: { clientId?: string; clientName?: string; name?: string; description?: string; currency?: string; active?: boolean }, userId: string): Promise<McpResponse<ClientResponse>> => {
     try {
-      const { clientId, ...updateData } = params;
-      const client = await clientService.updateClient(userId, clientId, updateData);
+      const { clientId, clientName, ...updateData } = params;
+      const targetClientId = await nameResolver.resolveClientId(userId, { clientId, clientName });
+      const client = await clientService.updateClient(userId, targetClientId, updateData);
       
       if (!client) {
         return createMcpError("Client not found.");
       }
 
       return createStructuredMcpResponse(
-        `Client updated successfully:\n- ID: ${client.id}\n- Name: ${client.name}\n- Description: ${client.description || 'None'}\n- Active: ${client.active}`,
+        `Client updated successfully:\n- ID: ${client.id}\n- Name: ${client.name}\n- Description: ${client.description || 'None'}\n- Currency: ${client.currency}\n- Active: ${client.active}`,
         { client }
       );
     } catch (error) {
@@ -146,6 +155,7 @@ export const deactivateClientTool = {
       name: z.string(),
       description: z.string().nullable(),
       userId: z.string(),
+      currency: z.string(),
       active: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
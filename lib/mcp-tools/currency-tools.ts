@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { ExchangeRateService } from "../services/currency";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type ExchangeRate } from '../../drizzle/schema';
+
+const exchangeRateService = new ExchangeRateService();
+
+type ExchangeRateResponse = {
+  exchangeRate: ExchangeRate | null;
+}
+type ExchangeRatesResponse = {
+  exchangeRates: ExchangeRate[] | null;
+}
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const setExchangeRateTool = {
+  name: "set_exchange_rate",
+  description: "Set the exchange rate for a currency pair from a date on (1 baseCurrency = rate quoteCurrency). Replaces any rate already set for that pair and date.",
+  inputSchema: {
+    baseCurrency: z.string().length(3),
+    quoteCurrency: z.string().length(3),
+    rate: z.number().positive(),
+    effectiveDate: z.string().datetime(),
+  },
+  outputSchema: {
+    exchangeRate: z.object({
+      id: z.string(),
+      baseCurrency: z.string(),
+      quoteCurrency: z.string(),
+      rate: z.string(),
+      effectiveDate: z.date(),
+      createdBy: z.string(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { baseCurrency: string; quoteCurrency: string; rate: number; effectiveDate: string }, userId: string): Promise<McpResponse<ExchangeRateResponse>> => {
+    try {
+      const exchangeRate = await exchangeRateService.setRate(userId, {
+        ...params,
+        effectiveDate: new Date(params.effectiveDate),
+      });
+
+      return createStructuredMcpResponse(
+        `Exchange rate set:\n- ID: ${exchangeRate.id}\n- Rate: 1 ${exchangeRate.baseCurrency} = ${Number(exchangeRate.rate)} ${exchangeRate.quoteCurrency}\n- Effective from: ${formatDate(exchangeRate.effectiveDate)}`,
+        { exchangeRate }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error setting exchange rate: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listExchangeRatesTool = {
+  name: "list_exchange_rates",
+  description: "List exchange rates, optionally only those involving a currency",
+  inputSchema: {
+    currency: z.string().length(3).optional(),
+  },
+  outputSchema: {
+    exchangeRates: z.array(
+      z.object({
+        id: z.string(),
+        baseCurrency: z.string(),
+        quoteCurrency: z.string(),
+        rate: z.string(),
+        effectiveDate: z.date(),
+        createdBy: z.string(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+      })
+    ).nullable(),
+  },
+  handler: async (params: { currency?: string }): Promise<McpResponse<ExchangeRatesResponse>> => {
+    try {
+      const exchangeRates = await exchangeRateService.listRates(params.currency);
+
+      if (exchangeRates.length === 0) {
+        return createStructuredMcpResponse("No exchange rates found.", { exchangeRates: [] });
+      }
+
+      const rateList = exchangeRates
+        .map(rate => `- 1 ${rate.baseCurrency} = ${Number(rate.rate)} ${rate.quoteCurrency} from ${formatDate(rate.effectiveDate)} (ID: ${rate.id})`)
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Exchange rates:\n${rateList}`,
+        { exchangeRates }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const deleteExchangeRateTool = {
+  name: "delete_exchange_rate",
+  description: "Delete an exchange rate",
+  inputSchema: {
+    exchangeRateId: z.string().min(1, "Exchange rate ID is required"),
+  },
+  outputSchema: {
+    success: z.boolean(),
+  },
+  handler: async (params: { exchangeRateId: string }): Promise<McpResponse<{ success: boolean }>> => {
+    try {
+      const success = await exchangeRateService.deleteRate(params.exchangeRateId);
+
+      if (!success) {
+        return createMcpError("Exchange rate not found.");
+      }
+
+      return createStructuredMcpResponse("Exchange rate deleted successfully.", { success });
+    } catch (error) {
+      return createMcpError(
+        `Error deleting exchange rate: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { ImportService, type ImportPreview, type ImportResult } from "../services/imports";
+import { type ImportFileType, type ImportFormat } from "../services/import-formats";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+
+const importService = new ImportService();
+
+type ImportResponse = {
+  preview: ImportPreview | null;
+  result: ImportResult | null;
+}
+
+// Enough rows to judge the mapping without flooding the conversation
+const PREVIEW_ROW_LIMIT = 20;
+
+export const importTimeEntriesTool = {
+  name: "import_time_entries",
+  description: "Import historical time entries from a Toggl, Clockify or Harvest export, or a generic file with client, project, description, start and end (or hours) columns. Pass CSV or JSON as text and XLSX as base64. Clients and projects are matched by name and created when missing. Runs as a dry run by default, reporting validation errors and overlaps; set dryRun to false to import all entries in one transaction.",
+  inputSchema: {
+    content: z.string().min(1, "File content is required"),
+    fileType: z.enum(['csv', 'xlsx', 'json']).optional(),
+    format: z.enum(['auto', 'toggl', 'clockify', 'harvest', 'generic']).optional(),
+    dryRun: z.boolean().optional(),
+    skipInvalid: z.boolean().optional(),
+    skipOverlapping: z.boolean().optional(),
+  },
+  outputSchema: {
+    preview: z.object({
+      format: z.enum(['toggl', 'clockify', 'harvest', 'generic']),
+      entries: z.array(
+        z.object({
+          rowNumber: z.number(),
+          clientName: z.string(),
+          projectName: z.string(),
+          projectId: z.string().nullable(),
+          description: z.string(),
+          startTime: z.date(),
+          endTime: z.date(),
+          durationMinutes: z.number(),
+          tags: z.array(z.string()),
+          billable: z.boolean().nullable(),
+          overlaps: z.array(
+            z.object({
+              rowNumber: z.number().nullable(),
+              timeEntryId: z.string().nullable(),
+              description: z.string(),
+              startTime: z.date(),
+              endTime: z.date().nullable(),
+            })
+          ),
+        })
+      ),
+      errors: z.array(
+        z.object({
+          rowNumber: z.number(),
+          message: z.string(),
+        })
+      ),
+      newClients: z.array(z.string()),
+      newProjects: z.array(
+        z.object({
+          clientName: z.string(),
+          projectName: z.string(),
+        })
+      ),
+      overlapCount: z.number(),
+      totalHours: z.number(),
+    }).nullable(),
+    result: z.object({
+      format: z.enum(['toggl', 'clockify', 'harvest', 'generic']),
+      imported: z.number(),
+      skippedInvalid: z.number(),
+      skippedOverlapping: z.number(),
+      createdClients: z.array(z.string()),
+      createdProjects: z.array(z.string()),
+      totalHours: z.number(),
+    }).nullable(),
+  },
+  handler: async (params: { content: string; fileType?: ImportFileType; format?: ImportFormat | 'auto'; dryRun?: boolean; skipInvalid?: boolean; skipOverlapping?: boolean }, userId: string): Promise<McpResponse<ImportResponse>> => {
+    try {
+      const fileType = params.fileType ?? 'csv';
+      const content = Buffer.from(params.content, fileType === 'xlsx' ? 'base64' : 'utf-8');
+      const options = { fileType, format: params.format };
+
+      if (params.dryRun ?? true) {
+        const preview = await importService.preview(userId, content, options);
+
+        const rows = preview.entries
+          .slice(0, PREVIEW_ROW_LIMIT)
+          .map(entry => `- Row ${entry.rowNumber}: ${entry.description} (${entry.projectName}${entry.projectId ? '' : ', new'}) ${entry.startTime.toISOString()} - ${entry.endTime.toISOString()}${entry.overlaps.length > 0 ? ` [OVERLAPS ${entry.overlaps.map(overlap => overlap.rowNumber ? `row ${overlap.rowNumber}` : `entry ${overlap.timeEntryId}`).join(', ')}]` : ''}`)
+          .join('\n');
+        const more = preview.entries.length > PREVIEW_ROW_LIMIT ? `\n...and ${preview.entries.length - PREVIEW_ROW_LIMIT} more` : '';
+        const created = preview.newClients.length + preview.newProjects.length > 0
+          ? `\nWill create: ${[...preview.newClients.map(name => `client ${name}`), ...preview.newProjects.map(project => `project ${project.projectName} (${project.clientName})`)].join(', ')}`
+          : '';
+        const errors = preview.errors.length > 0
+          ? `\nErrors:\n${preview.errors.map(error => `- Row ${error.rowNumber}: ${error.message}`).join('\n')}`
+          : '';
+
+        return createStructuredMcpResponse(
+          `Import preview (${preview.format} format, nothing imported yet): ${preview.entries.length} entries, ${preview.totalHours}h, ${preview.overlapCount} overlapping${created}\n${rows}${more}${errors}`,
+          { preview, result: null }
+        );
+      }
+
+      const result = await importService.commit(userId, content, {
+        ...options,
+        skipInvalid: params.skipInvalid,
+        skipOverlapping: params.skipOverlapping,
+      });
+
+      const created = [...result.createdClients.map(name => `client ${name}`), ...result.createdProjects.map(name => `project ${name}`)];
+
+      return createStructuredMcpResponse(
+        `Import completed successfully:\n- Imported: ${result.imported} entries (${result.totalHours}h)\n- Skipped overlapping: ${result.skippedOverlapping}\n- Skipped invalid: ${result.skippedInvalid}${created.length > 0 ? `\n- Created: ${created.join(', ')}` : ''}`,
+        { preview: null, result }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error importing time entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
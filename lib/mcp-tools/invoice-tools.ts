@@ -0,0 +1,244 @@
+import { z } from "zod";
+import { InvoiceService, type InvoiceStatus, type InvoiceTotals } from "../services/invoices";
+import { formatMoney } from "../services/currency";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type Invoice, type InvoiceLine } from '../../drizzle/schema';
+
+const invoiceService = new InvoiceService();
+
+type InvoiceResponse = {
+  invoice: Invoice | null;
+  lines?: InvoiceLine[];
+}
+type InvoicesResponse = {
+  invoices: (Invoice & { clientName: string })[];
+  totals?: InvoiceTotals;
+}
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const createInvoiceTool = {
+  name: "create_invoice",
+  description: "Create an invoice for a client from your completed, not yet invoiced time in a period. Billed entries are marked so they can't be invoiced twice.",
+  inputSchema: {
+    clientId: z.string().min(1, "Client ID is required"),
+    periodStart: z.string().datetime(),
+    periodEnd: z.string().datetime(),
+    discountPercent: z.number().min(0).max(100).optional(),
+    taxRate: z.number().min(0).max(100).optional(),
+    taxLabel: z.string().optional(),
+    dueInDays: z.number().int().min(0).optional(),
+    notes: z.string().optional(),
+  },
+  outputSchema: {
+    invoice: z.object({
+      id: z.string(),
+      invoiceNumber: z.string(),
+      clientId: z.string(),
+      userId: z.string(),
+      status: z.enum(['issued', 'void']),
+      currency: z.string(),
+      periodStart: z.date(),
+      periodEnd: z.date(),
+      issueDate: z.date(),
+      dueDate: z.date(),
+      subtotal: z.string(),
+      discountTotal: z.string(),
+      taxTotal: z.string(),
+      total: z.string(),
+      notes: z.string().nullable(),
+      voidedAt: z.date().nullable(),
+      voidReason: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+    lines: z.array(
+      z.object({
+        id: z.string(),
+        invoiceId: z.string(),
+        type: z.enum(['time', 'discount', 'tax']),
+        projectId: z.string().nullable(),
+        description: z.string(),
+        quantity: z.string().nullable(),
+        unitPrice: z.string().nullable(),
+        ratePercent: z.string().nullable(),
+        amount: z.string(),
+        sortOrder: z.number().int(),
+        createdAt: z.date(),
+      })
+    ).optional(),
+  },
+  handler: async (params: {
+    clientId: string;
+    periodStart: string;
+    periodEnd: string;
+    discountPercent?: number;
+    taxRate?: number;
+    taxLabel?: string;
+    dueInDays?: number;
+    notes?: string;
+  }, userId: string): Promise<McpResponse<InvoiceResponse>> => {
+    try {
+      const { invoice, client, lines } = await invoiceService.createInvoice(userId, {
+        ...params,
+        periodStart: new Date(params.periodStart),
+        periodEnd: new Date(params.periodEnd),
+      });
+
+      const lineList = lines
+        .map(line => line.type === 'time'
+          ? `- ${line.description}: ${line.quantity}h × ${formatMoney(line.unitPrice ?? 0, invoice.currency)} = ${formatMoney(line.amount, invoice.currency)}`
+          : `- ${line.description}: ${formatMoney(line.amount, invoice.currency)}`
+        )
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Invoice ${invoice.invoiceNumber} created for ${client.name}:\n- Invoice ID: ${invoice.id}\n- Period: ${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)}\n- Due: ${formatDate(invoice.dueDate)}\n\nLines:\n${lineList}\n\nTotal: ${formatMoney(invoice.total, invoice.currency)}`,
+        { invoice, lines }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error creating invoice: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listInvoicesTool = {
+  name: "list_invoices",
+  description: "List your invoices, optionally filtered by client or status. Pass reportingCurrency to get per-currency subtotals and a converted total of issued invoices.",
+  inputSchema: {
+    clientId: z.string().optional(),
+    status: z.enum(['issued', 'void']).optional(),
+    limit: z.number().int().min(1).max(200).optional().default(50),
+    reportingCurrency: z.string().length(3).optional(),
+  },
+  outputSchema: {
+    invoices: z.array(
+      z.object({
+        id: z.string(),
+        invoiceNumber: z.string(),
+        clientId: z.string(),
+        clientName: z.string(),
+        userId: z.string(),
+        status: z.enum(['issued', 'void']),
+        currency: z.string(),
+        periodStart: z.date(),
+        periodEnd: z.date(),
+        issueDate: z.date(),
+        dueDate: z.date(),
+        subtotal: z.string(),
+        discountTotal: z.string(),
+        taxTotal: z.string(),
+        total: z.string(),
+        notes: z.string().nullable(),
+        voidedAt: z.date().nullable(),
+        voidReason: z.string().nullable(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+      })
+    ),
+    totals: z.object({
+      reportingCurrency: z.string(),
+      subtotals: z.array(
+        z.object({
+          currency: z.string(),
+          invoiceCount: z.number(),
+          total: z.number(),
+          convertedTotal: z.number().nullable(),
+        })
+      ),
+      total: z.number(),
+      missingRates: z.array(z.string()),
+    }).optional(),
+  },
+  handler: async (params: { clientId?: string; status?: InvoiceStatus; limit?: number; reportingCurrency?: string }, userId: string): Promise<McpResponse<InvoicesResponse>> => {
+    try {
+      const { reportingCurrency, ...filters } = params;
+      const results = await invoiceService.listInvoices(userId, filters);
+      const invoices = results.map(({ invoice, clientName }) => ({ ...invoice, clientName }));
+
+      if (invoices.length === 0) {
+        return createStructuredMcpResponse("No invoices found.", { invoices });
+      }
+
+      const invoiceList = invoices
+        .map(invoice =>
+          `- ${invoice.invoiceNumber} (${invoice.clientName}): ${formatMoney(invoice.total, invoice.currency)}, issued ${formatDate(invoice.issueDate)}${invoice.status === 'void' ? ' [VOID]' : ''} (ID: ${invoice.id})`
+        )
+        .join('\n');
+
+      if (!reportingCurrency) {
+        return createStructuredMcpResponse(
+          `Found ${invoices.length} invoice(s):\n${invoiceList}`,
+          { invoices }
+        );
+      }
+
+      const totals = await invoiceService.summarizeTotals(invoices, reportingCurrency);
+      const subtotalList = totals.subtotals
+        .map(subtotal =>
+          `- ${subtotal.currency}: ${formatMoney(subtotal.total, subtotal.currency)} across ${subtotal.invoiceCount} invoice(s)${subtotal.currency !== totals.reportingCurrency && subtotal.convertedTotal !== null ? ` (≈ ${formatMoney(subtotal.convertedTotal, totals.reportingCurrency)})` : ''}`
+        )
+        .join('\n');
+      const missingRatesNote = totals.missingRates.length > 0
+        ? `\nWarning: no exchange rate to ${totals.reportingCurrency} for ${totals.missingRates.join(', ')}; those invoices are excluded from the total.`
+        : '';
+
+      return createStructuredMcpResponse(
+        `Found ${invoices.length} invoice(s):\n${invoiceList}\n\nIssued totals by currency:\n${subtotalList || '- None'}\n\nTotal: ${formatMoney(totals.total, totals.reportingCurrency)} (${totals.reportingCurrency})${missingRatesNote}`,
+        { invoices, totals }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing invoices: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const voidInvoiceTool = {
+  name: "void_invoice",
+  description: "Void an issued invoice. Its time entries are released and can be invoiced again.",
+  inputSchema: {
+    invoiceId: z.string().min(1, "Invoice ID is required"),
+    reason: z.string().optional(),
+  },
+  outputSchema: {
+    invoice: z.object({
+      id: z.string(),
+      invoiceNumber: z.string(),
+      clientId: z.string(),
+      userId: z.string(),
+      status: z.enum(['issued', 'void']),
+      currency: z.string(),
+      periodStart: z.date(),
+      periodEnd: z.date(),
+      issueDate: z.date(),
+      dueDate: z.date(),
+      subtotal: z.string(),
+      discountTotal: z.string(),
+      taxTotal: z.string(),
+      total: z.string(),
+      notes: z.string().nullable(),
+      voidedAt: z.date().nullable(),
+      voidReason: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { invoiceId: string; reason?: string }, userId: string): Promise<McpResponse<InvoiceResponse>> => {
+    try {
+      const invoice = await invoiceService.voidInvoice(userId, params.invoiceId, params.reason);
+
+      return createStructuredMcpResponse(
+        `Invoice ${invoice.invoiceNumber} voided:\n- Invoice ID: ${invoice.id}\n- Reason: ${invoice.voidReason || 'None'}\nIts time entries can be invoiced again.`,
+        { invoice }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error voiding invoice: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
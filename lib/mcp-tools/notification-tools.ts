@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { NotificationService } from "../services/notifications";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type Notification } from '../../drizzle/schema';
+
+const notificationService = new NotificationService();
+
+type NotificationsResponse = {
+  notifications: Notification[] | null;
+}
+
+export const listNotificationsTool = {
+  name: "list_notifications",
+  description: "List your notifications, such as budget alerts, newest first. Listed notifications are marked as read unless markRead is false.",
+  inputSchema: {
+    unreadOnly: z.boolean().optional().default(true),
+    markRead: z.boolean().optional().default(true),
+  },
+  outputSchema: {
+    notifications: z.array(
+      z.object({
+        id: z.string(),
+        userId: z.string(),
+        type: z.enum(['budget_alert']),
+        title: z.string(),
+        message: z.string(),
+        projectId: z.string().nullable(),
+        readAt: z.date().nullable(),
+        createdAt: z.date(),
+      })
+    ).nullable(),
+  },
+  handler: async (params: { unreadOnly?: boolean; markRead?: boolean }, userId: string): Promise<McpResponse<NotificationsResponse>> => {
+    try {
+      const notifications = await notificationService.listNotifications(userId, params.unreadOnly ?? true);
+
+      if (notifications.length === 0) {
+        return createStructuredMcpResponse("No notifications.", { notifications: [] });
+      }
+
+      if (params.markRead ?? true) {
+        await notificationService.markRead(userId, notifications.map(notification => notification.id));
+      }
+
+      const notificationList = notifications
+        .map(notification => `- [${notification.createdAt.toLocaleString()}] ${notification.title}${notification.readAt ? '' : ' (new)'}\n  ${notification.message}`)
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Notifications:\n${notificationList}`,
+        { notifications }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing notifications: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
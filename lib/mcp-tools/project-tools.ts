@@ -2,25 +2,61 @@ import { z } from "zod";
 import { ProjectService } from "../services/projects";
 import { type Project, type NewProject, user } from '../../drizzle/schema';
 import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { formatMoney } from "../services/currency";
+import { BudgetService, summarizeBudget, formatBudgetAmount, type BudgetSummary } from "../services/budgets";
+import { NameResolver } from "../services/name-resolver";
+import { type AuthorizationContext, Permission, createAuthorizationContext, hasPermission } from "../authorization";
 import { input } from "@testing-library/user-event/dist/cjs/event/index.js";
 
 const projectService = new ProjectService();
+const budgetService = new BudgetService();
+const nameResolver = new NameResolver();
 
 type ProjectResponse = {
   project: Project | null;
 }
 type ProjectsResponse = {
-  projects: Project[] | null;
+  projects: (Project & { budget: BudgetSummary | null })[] | null;
+}
+
+const formatBudget = (budget: BudgetSummary | null) => budget
+  ? ` - Budget: ${formatBudgetAmount(budget.consumed, budget.unit)} of ${formatBudgetAmount(budget.amount, budget.unit)}${budget.period === 'monthly' ? ' this month' : ''} (${budget.percentUsed}%)${budget.percentUsed >= 100 ? ' [OVER BUDGET]' : ''}`
+  : '';
+
+/**
+ * A project's rate becomes a rate card for everyone's time on it, so like set_hourly_rate it
+ * needs permission to manage the organization
+ */
+function checkRatePermission(params: { hourlyRate?: number; currency?: string }, context: AuthorizationContext): string | null {
+  if ((params.hourlyRate !== undefined || params.currency !== undefined) && !hasPermission(context, Permission.MANAGE_ORGANIZATION)) {
+    return "Only users who manage the organization can set a project's hourlyRate or currency.";
+  }
+
+  return null;
+}
+
+/**
+ * Attaches each project's current budget consumption, or null when it has no budget
+ */
+async function withBudgets(projects: Project[]): Promise<(Project & { budget: BudgetSummary | null })[]> {
+  const statuses = await budgetService.getBudgetStatuses(projects.map(project => project.id));
+  return projects.map(project => {
+    const status = statuses.get(project.id);
+    return { ...project, budget: status ? summarizeBudget(status) : null };
+  });
 }
 
 export const createProjectTool = {
   name: "create_project",
-  description: "Create a new project for a client",
+  description: "Create a new project for a client, given by clientId or by clientName (matched loosely). Projects are billable unless billable is false; entries can override this. Setting hourlyRate or currency requires permission to manage the organization.",
   inputSchema: {
     name: z.string().min(1, "Project name is required"),
-    clientId: z.string().min(1, "Client ID is required"),
+    clientId: z.string().optional(),
+    clientName: z.string().optional(),
     description: z.string().optional(),
     hourlyRate: z.number().positive().optional(),
+    currency: z.string().length(3).optional(),
+    billable: z.boolean().optional(),
   },
   outputSchema: {
     project: z.object({
@@ -30,20 +66,29 @@ export const createProjectTool = {
       description: z.string().nullable(),
       userId: z.string(),
       hourlyRate: z.string().nullable(),
+      currency: z.string(),
+      billable: z.boolean(),
       active: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
   },
-  handler: async (params: { name: string; clientId: string; description?: string; hourlyRate?: number }, userId: string): Promise<McpResponse<ProjectResponse>> => {
+  handler: async (params: { name: string; clientId?: string; clientName?: string; description?: string; hourlyRate?: number; currency?: string; billable?: boolean }, userId: string, context: AuthorizationContext = createAuthorizationContext(userId, null)): Promise<McpResponse<ProjectResponse>> => {
+    const rateError = checkRatePermission(params, context);
+    if (rateError) {
+      return createMcpError(rateError);
+    }
+
     try {
+      const { clientName, ...data } = params;
       const projectData = {
-        ...params,
+        ...data,
+        clientId: await nameResolver.resolveClientId(userId, { clientId: params.clientId, clientName }),
         hourlyRate: params.hourlyRate?.toString(),
       };
       const project = await projectService.createProject(userId, projectData);
       return createStructuredMcpResponse(
-        `Project created successfully:\n- ID: ${project.id}\n- Name: ${project.name}\n- Client ID: ${project.clientId}\n- Description: ${project.description || 'None'}\n- Hourly Rate: ${project.hourlyRate ? `$${project.hourlyRate}` : 'None'}`,
+        `Project created successfully:\n- ID: ${project.id}\n- Name: ${project.name}\n- Client ID: ${project.clientId}\n- Description: ${project.description || 'None'}\n- Hourly Rate: ${project.hourlyRate ? formatMoney(project.hourlyRate, project.currency) : 'None'}\n- Billable: ${project.billable ? 'Yes' : 'No'}`,
         { project }
       );
     } catch (error) {
@@ -56,7 +101,7 @@ export const createProjectTool = {
 
 export const listProjectsTool = {
   name: "list_projects",
-  description: "List all projects (shared across all users), optionally filtered by client",
+  description: "List all projects (shared across all users), optionally filtered by client. Projects with a budget include its current consumption.",
   inputSchema: {
     clientId: z.string().optional(),
     activeOnly: z.boolean().optional().default(true),
@@ -71,9 +116,20 @@ export const listProjectsTool = {
         description: z.string().nullable(),
         userId: z.string(),
         hourlyRate: z.string().nullable(),
+        currency: z.string(),
+        billable: z.boolean(),
         active: z.boolean(),
         createdAt: z.date(),
         updatedAt: z.date(),
+        budget: z.object({
+          type: z.enum(['hours', 'money']),
+          period: z.enum(['total', 'monthly']),
+          unit: z.string(),
+          amount: z.number(),
+          consumed: z.number(),
+          remaining: z.number(),
+          percentUsed: z.number(),
+        }).nullable(),
       })
     ).nullable(),
   },
@@ -81,6 +137,7 @@ export const listProjectsTool = {
     try {
       if (params.withClient) {
         const projectsWithClient = await projectService.getProjectsWithClient(userId, params.activeOnly);
+        const projects = await withBudgets(projectsWithClient.map(({ project }) => project));
         
         if (projectsWithClient.length === 0) {
           return createStructuredMcpResponse(
@@ -89,16 +146,16 @@ export const listProjectsTool = {
           );
         }
 
-        const projectList = projectsWithClient.map(({ project, client }) => 
-          `- ${project.name} (ID: ${project.id}) - Client: ${client.name}${project.description ? ` - ${project.description}` : ''}${project.hourlyRate ? ` - $${project.hourlyRate}/hr` : ''}${!project.active ? ' [INACTIVE]' : ''}`
+        const projectList = projects.map((project, index) => 
+          `- ${project.name} (ID: ${project.id}) - Client: ${projectsWithClient[index].client.name}${project.description ? ` - ${project.description}` : ''}${project.hourlyRate ? ` - ${formatMoney(project.hourlyRate, project.currency)}/hr` : ''}${!project.billable ? ' [NON-BILLABLE]' : ''}${formatBudget(project.budget)}${!project.active ? ' [INACTIVE]' : ''}`
         ).join('\n');
 
         return createStructuredMcpResponse(
           `Available projects:\n${projectList}`,
-          { projects: projectsWithClient.map(pwc => pwc.project) }
+          { projects }
         );
       } else {
-        const projects = await projectService.listProjects(userId, params.clientId, params.activeOnly);
+        const projects = await withBudgets(await projectService.listProjects(userId, params.clientId, params.activeOnly));
         
         if (projects.length === 0) {
           return createStructuredMcpResponse(
@@ -108,7 +165,7 @@ export const listProjectsTool = {
         }
 
         const projectList = projects.map(project => 
-          `- ${project.name} (ID: ${project.id})${project.description ? ` - ${project.description}` : ''}${project.hourlyRate ? ` - $${project.hourlyRate}/hr` : ''}${!project.active ? ' [INACTIVE]' : ''}`
+          `- ${project.name} (ID: ${project.id})${project.description ? ` - ${project.description}` : ''}${project.hourlyRate ? ` - ${formatMoney(project.hourlyRate, project.currency)}/hr` : ''}${!project.billable ? ' [NON-BILLABLE]' : ''}${formatBudget(project.budget)}${!project.active ? ' [INACTIVE]' : ''}`
         ).join('\n');
 
         return createStructuredMcpResponse(
@@ -126,13 +183,17 @@ export const listProjectsTool = {
 
 export const updateProjectTool = {
   name: "update_project",
-  description: "Update an existing project",
+  description: "Update an existing project, given by projectId or by its current name as projectName (matched loosely). Move it to another client with clientId or clientName. A new hourlyRate applies from now on; use set_hourly_rate for other dates. Setting hourlyRate or currency requires permission to manage the organization. Changing billable affects all entries that don't override it.",
   inputSchema: {
-    projectId: z.string().min(1, "Project ID is required"),
+    projectId: z.string().optional(),
+    projectName: z.string().optional(),
     name: z.string().min(1).optional(),
     description: z.string().optional(),
     clientId: z.string().optional(),
+    clientName: z.string().optional(),
     hourlyRate: z.number().positive().optional(),
+    currency: z.string().length(3).optional(),
+    billable: z.boolean().optional(),
     active: z.boolean().optional(),
   },
   outputSchema: {
@@ -143,26 +204,36 @@ export const updateProjectTool = {
       description: z.string().nullable(),
       userId: z.string(),
       hourlyRate: z.string().nullable(),
+      currency: z.string(),
+      billable: z.boolean(),
       active: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
   },
-  handler: async (params: { projectId: string; name?: string; description?: string; clientId?: string; hourlyRate?: number; active?: boolean }, userId: string): Promise<McpResponse<ProjectResponse>> => {
+  handler: async (params: { projectId?: string; projectName?: string; name?: string; description?: string; clientId?: string; clientName?: string; hourlyRate?: number; currency?: string; billable?: boolean; active?: boolean }, userId: string, context: AuthorizationContext = createAuthorizationContext(userId, null)): Promise<McpResponse<ProjectResponse>> => {
+    const rateError = checkRatePermission(params, context);
+    if (rateError) {
+      return createMcpError(rateError);
+    }
+
     try {
-      const { projectId, hourlyRate, ...restData } = params;
+      const { projectId, projectName, clientId, clientName, hourlyRate, ...restData } = params;
+      const targetProjectId = await nameResolver.resolveProjectId(userId, { projectId, projectName }, { includeInactive: true });
+      const targetClientId = await nameResolver.findClientId(userId, { clientId, clientName });
       const updateData = {
         ...restData,
+        ...(targetClientId !== undefined && { clientId: targetClientId }),
         ...(hourlyRate !== undefined && { hourlyRate: hourlyRate.toString() }),
       };
-      const project = await projectService.updateProject(userId, projectId, updateData);
+      const project = await projectService.updateProject(userId, targetProjectId, updateData);
       
       if (!project) {
         return createMcpError("Project not found.");
       }
 
       return createStructuredMcpResponse(
-        `Project updated successfully:\n- ID: ${project.id}\n- Name: ${project.name}\n- Client ID: ${project.clientId}\n- Description: ${project.description || 'None'}\n- Hourly Rate: ${project.hourlyRate ? `$${project.hourlyRate}` : 'None'}\n- Active: ${project.active}`,
+        `Project updated successfully:\n- ID: ${project.id}\n- Name: ${project.name}\n- Client ID: ${project.clientId}\n- Description: ${project.description || 'None'}\n- Hourly Rate: ${project.hourlyRate ? formatMoney(project.hourlyRate, project.currency) : 'None'}\n- Billable: ${project.billable ? 'Yes' : 'No'}\n- Active: ${project.active}`,
         { project }
       )
     } catch (error) {
@@ -187,6 +258,8 @@ export const deactivateProjectTool = {
       description: z.string().nullable(),
       userId: z.string(),
       hourlyRate: z.string().nullable(),
+      currency: z.string(),
+      billable: z.boolean(),
       active: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
@@ -0,0 +1,126 @@
+import { z } from "zod";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { RecentActivityService } from "../services/recent-activities";
+import { getLocalDate } from "../services/recurring-templates";
+import { getTimesheetWeek, type TimesheetWeek } from "./resources";
+
+const recentActivityService = new RecentActivityService();
+
+const DEFAULT_HOURS_PER_DAY = 8;
+
+const weekArgument = z.string().optional()
+  .describe('"current" (the default), "previous", any date in the week (2024-03-06) or an ISO week (2024-W10)');
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1)}h`;
+
+const weekdayName = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+
+// The week's data as an embedded resource, so the assistant reads the same JSON as timetracker://timesheet/{week}
+const weekResourceMessage = (week: TimesheetWeek): GetPromptResult['messages'][number] => ({
+  role: "user",
+  content: {
+    type: "resource",
+    resource: { uri: week.uri, mimeType: "application/json", text: JSON.stringify(week, null, 2) },
+  },
+});
+
+/**
+ * Working days of the week (Monday to Friday, up to today) with less time tracked than expected
+ */
+export function findTimesheetGaps(week: TimesheetWeek, hoursPerDay: number, today: string): { date: string; minutes: number; missingMinutes: number }[] {
+  return week.days
+    .filter(day => day.date >= week.weekStart && day.date <= week.weekEnd && day.date <= today)
+    .filter(day => new Date(`${day.date}T00:00:00Z`).getUTCDay() % 6 !== 0)
+    .map(day => ({ ...day, missingMinutes: Math.round(hoursPerDay * 60) - day.minutes }))
+    .filter(day => day.missingMinutes > 0);
+}
+
+export const weeklyStatusReportPrompt = {
+  name: "weekly_status_report",
+  title: "Weekly status report",
+  description: "Draft a status report of a week's work from your time entries, grouped by client and project",
+  argsSchema: {
+    week: weekArgument,
+    audience: z.string().optional().describe('Who the report is for, e.g. "my manager" or "the client"'),
+  },
+  handler: async (args: { week?: string; audience?: string }, userId: string): Promise<GetPromptResult> => {
+    const week = await getTimesheetWeek(userId, args.week ?? 'current');
+    const projectList = week.projects
+      .map(project => `- ${project.clientName} > ${project.projectName}: ${formatHours(project.minutes)}`)
+      .join('\n');
+
+    return {
+      description: `Status report for the week of ${week.weekStart}`,
+      messages: [
+        weekResourceMessage(week),
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Write a short status report of my work in the week of ${week.weekStart} to ${week.weekEnd}${args.audience ? ` for ${args.audience}` : ''}, using the timesheet above.\n\n` +
+              `I tracked ${formatHours(week.totalMinutes)} (${formatHours(week.billableMinutes)} billable) and the timesheet is ${week.status}.\n` +
+              `${projectList ? `Time per project:\n${projectList}\n` : 'No time was tracked that week.\n'}\n` +
+              `Group the report by client and project, summarise what was done from the entry descriptions instead of listing every entry, and mention work that is still running or only a draft. Keep it under 300 words.`,
+          },
+        },
+      ],
+    };
+  },
+};
+
+export const fillTimesheetGapsPrompt = {
+  name: "fill_timesheet_gaps",
+  title: "Fill my timesheet gaps",
+  description: "Find working days of a week with missing hours and propose time entries for them from your recent work",
+  argsSchema: {
+    week: weekArgument,
+    hoursPerDay: z.string().regex(/^\d+(\.\d+)?$/, "Hours per day must be a number").optional()
+      .describe(`Hours expected per working day; defaults to ${DEFAULT_HOURS_PER_DAY}`),
+  },
+  handler: async (args: { week?: string; hoursPerDay?: string }, userId: string): Promise<GetPromptResult> => {
+    const now = new Date();
+    const hoursPerDay = args.hoursPerDay ? Number(args.hoursPerDay) : DEFAULT_HOURS_PER_DAY;
+    const [week, activities] = await Promise.all([
+      getTimesheetWeek(userId, args.week ?? 'current', now),
+      recentActivityService.getRecentActivities(userId, { limit: 10, now }),
+    ]);
+    const gaps = findTimesheetGaps(week, hoursPerDay, getLocalDate(now, week.timeZone));
+
+    if (gaps.length === 0) {
+      return {
+        description: `No gaps in the week of ${week.weekStart}`,
+        messages: [{
+          role: "user",
+          content: {
+            type: "text",
+            text: `My timesheet for the week of ${week.weekStart} has at least ${hoursPerDay}h on every working day so far. Tell me so, and point out anything in it that looks off.`,
+          },
+        }],
+      };
+    }
+
+    const gapList = gaps
+      .map(gap => `- ${weekdayName(gap.date)} ${gap.date}: ${formatHours(gap.minutes)} tracked, ${formatHours(gap.missingMinutes)} missing`)
+      .join('\n');
+    const activityList = activities
+      .map(activity => `- "${activity.description}" on ${activity.projectName} (${activity.clientName}), ${activity.useCount} entries, Project ID: ${activity.projectId}`)
+      .join('\n');
+
+    return {
+      description: `Gaps in the week of ${week.weekStart}`,
+      messages: [
+        weekResourceMessage(week),
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `My timesheet for the week of ${week.weekStart} (above) is missing time on these working days, expecting ${hoursPerDay}h a day:\n${gapList}\n\n` +
+              `${activityList ? `What I have been working on recently:\n${activityList}\n\n` : ''}` +
+              `Suggest entries to fill each gap: project, description, and start and end times in ${week.timeZone} that fit around the entries already there without overlapping them. ` +
+              `Base them on the work around each gap and my recent work, and ask rather than guess when unsure. List the suggestions and wait for my confirmation before adding them with add_manual_time_entry.`,
+          },
+        },
+      ],
+    };
+  },
+};
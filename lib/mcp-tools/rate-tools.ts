@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { RateCardService } from "../services/rate-cards";
+import { formatMoney } from "../services/currency";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type RateCard } from '../../drizzle/schema';
+
+const rateCardService = new RateCardService();
+
+type RateCardResponse = {
+  rateCard: RateCard | null;
+}
+type RateCardsResponse = {
+  rateCards: RateCard[] | null;
+}
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+const describeTarget = (rateCard: RateCard) =>
+  rateCard.scope === 'member'
+    ? `member ${rateCard.userId} on project ${rateCard.projectId}`
+    : rateCard.scope === 'project'
+      ? `project ${rateCard.projectId}`
+      : `client ${rateCard.clientId}`;
+
+const describeValidity = (rateCard: RateCard) =>
+  `${rateCard.validFrom.getTime() === 0 ? 'always' : `from ${formatDate(rateCard.validFrom)}`}${rateCard.validTo ? ` until ${formatDate(rateCard.validTo)}` : ''}`;
+
+export const setHourlyRateTool = {
+  name: "set_hourly_rate",
+  description: "Set an hourly rate from a date on, for a client (default for its projects), a project, or a team member on a project (memberUserId). Member rates override project rates, which override client rates. Earlier time keeps the rate it was tracked at.",
+  inputSchema: {
+    clientId: z.string().optional(),
+    projectId: z.string().optional(),
+    memberUserId: z.string().optional(),
+    hourlyRate: z.number().positive(),
+    currency: z.string().length(3).optional(),
+    validFrom: z.string().datetime().optional(),
+    validTo: z.string().datetime().optional(),
+  },
+  outputSchema: {
+    rateCard: z.object({
+      id: z.string(),
+      scope: z.enum(['client', 'project', 'member']),
+      clientId: z.string().nullable(),
+      projectId: z.string().nullable(),
+      userId: z.string().nullable(),
+      hourlyRate: z.string(),
+      currency: z.string(),
+      validFrom: z.date(),
+      validTo: z.date().nullable(),
+      createdBy: z.string(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: {
+    clientId?: string;
+    projectId?: string;
+    memberUserId?: string;
+    hourlyRate: number;
+    currency?: string;
+    validFrom?: string;
+    validTo?: string;
+  }, userId: string): Promise<McpResponse<RateCardResponse>> => {
+    try {
+      const rateCard = await rateCardService.setRate(userId, {
+        clientId: params.clientId,
+        projectId: params.projectId,
+        userId: params.memberUserId,
+        hourlyRate: params.hourlyRate,
+        currency: params.currency,
+        validFrom: params.validFrom ? new Date(params.validFrom) : new Date(),
+        validTo: params.validTo ? new Date(params.validTo) : undefined,
+      });
+
+      return createStructuredMcpResponse(
+        `Hourly rate set:\n- ID: ${rateCard.id}\n- Applies to: ${describeTarget(rateCard)}\n- Rate: ${formatMoney(rateCard.hourlyRate, rateCard.currency)}/hr\n- Valid: ${describeValidity(rateCard)}`,
+        { rateCard }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error setting hourly rate: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listHourlyRatesTool = {
+  name: "list_hourly_rates",
+  description: "List the rate history, optionally for a client, project or team member",
+  inputSchema: {
+    clientId: z.string().optional(),
+    projectId: z.string().optional(),
+    memberUserId: z.string().optional(),
+  },
+  outputSchema: {
+    rateCards: z.array(
+      z.object({
+        id: z.string(),
+        scope: z.enum(['client', 'project', 'member']),
+        clientId: z.string().nullable(),
+        projectId: z.string().nullable(),
+        userId: z.string().nullable(),
+        hourlyRate: z.string(),
+        currency: z.string(),
+        validFrom: z.date(),
+        validTo: z.date().nullable(),
+        createdBy: z.string(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+      })
+    ).nullable(),
+  },
+  handler: async (params: { clientId?: string; projectId?: string; memberUserId?: string }): Promise<McpResponse<RateCardsResponse>> => {
+    try {
+      const rateCards = await rateCardService.listRates({
+        clientId: params.clientId,
+        projectId: params.projectId,
+        userId: params.memberUserId,
+      });
+
+      if (rateCards.length === 0) {
+        return createStructuredMcpResponse("No hourly rates found.", { rateCards: [] });
+      }
+
+      const rateList = rateCards
+        .map(rateCard => `- ${formatMoney(rateCard.hourlyRate, rateCard.currency)}/hr for ${describeTarget(rateCard)}, ${describeValidity(rateCard)} (ID: ${rateCard.id})`)
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Hourly rates:\n${rateList}`,
+        { rateCards }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing hourly rates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const deleteHourlyRateTool = {
+  name: "delete_hourly_rate",
+  description: "Delete an hourly rate from the rate history",
+  inputSchema: {
+    rateCardId: z.string().min(1, "Rate ID is required"),
+  },
+  outputSchema: {
+    success: z.boolean(),
+  },
+  handler: async (params: { rateCardId: string }): Promise<McpResponse<{ success: boolean }>> => {
+    try {
+      const success = await rateCardService.deleteRate(params.rateCardId);
+
+      if (!success) {
+        return createMcpError("Hourly rate not found.");
+      }
+
+      return createStructuredMcpResponse("Hourly rate deleted successfully.", { success });
+    } catch (error) {
+      return createMcpError(
+        `Error deleting hourly rate: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
@@ -0,0 +1,328 @@
+import { z } from "zod";
+import {
+  RecurringTemplateService,
+  type RecurringTemplateChanges,
+  type RecurringTemplateInput,
+  type RecurringTemplateWithSchedule,
+} from "../services/recurring-templates";
+import { TimeEntryService } from "../services/time-entries";
+import { type RecurringTemplate, type RecurringTemplateException, type TimeEntry } from "../../drizzle/schema";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+
+const recurringTemplateService = new RecurringTemplateService();
+const timeEntryService = new TimeEntryService();
+
+type RecurringTemplateResponse = {
+  template: RecurringTemplate;
+}
+
+type RecurringTemplateListResponse = {
+  templates: RecurringTemplateWithSchedule[];
+}
+
+type DeleteRecurringTemplateResponse = {
+  success: boolean;
+  templateId: string;
+}
+
+type RecurringExceptionResponse = {
+  exception: RecurringTemplateException;
+}
+
+type ConfirmDraftEntriesResponse = {
+  timeEntries: TimeEntry[];
+  skippedEntries: TimeEntry[];
+}
+
+const templateOutputSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  projectId: z.string(),
+  description: z.string(),
+  rrule: z.string(),
+  startsOn: z.string(),
+  startTime: z.string(),
+  durationMinutes: z.number(),
+  timeZone: z.string(),
+  billable: z.boolean().nullable(),
+  taskId: z.string().nullable(),
+  entryStatus: z.enum(['draft', 'confirmed']),
+  active: z.boolean(),
+  materialisedThrough: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const draftEntryOutputSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  projectId: z.string(),
+  description: z.string(),
+  startTime: z.date(),
+  endTime: z.date().nullable(),
+  durationMinutes: z.number().int().nullable(),
+  billable: z.boolean().nullable(),
+  taskId: z.string().nullable(),
+  isDraft: z.boolean(),
+  recurringTemplateId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const exceptionOutputSchema = z.object({
+  id: z.string(),
+  templateId: z.string(),
+  occurrenceDate: z.string(),
+  action: z.enum(['skip', 'override']),
+  description: z.string().nullable(),
+  startTime: z.string().nullable(),
+  durationMinutes: z.number().nullable(),
+  createdAt: z.date(),
+});
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const describeTemplate = (template: RecurringTemplate) =>
+  `${template.description} at ${template.startTime} for ${template.durationMinutes} min (${template.timeZone}), ${template.rrule}, logged as ${template.entryStatus}${template.active ? '' : ', paused'}`;
+
+export const createRecurringTemplateTool = {
+  name: "create_recurring_template",
+  description: "Create a recurring time entry template, e.g. a daily stand-up or weekly review. rrule is an RRULE subset: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (e.g. MO,WE,FR; not with MONTHLY), BYMONTHDAY, COUNT or UNTIL (YYYYMMDD). startTime (HH:MM) is read in timeZone (default UTC). After each occurrence ends a time entry is logged automatically: as a draft for review (entryStatus \"draft\", the default; see confirm_draft_entries) or as a confirmed entry. Occurrences before today are not logged.",
+  inputSchema: {
+    projectId: z.string().min(1, "Project ID is required"),
+    description: z.string().min(1, "Description is required"),
+    rrule: z.string().min(1, "Recurrence rule is required"),
+    startsOn: z.string().regex(datePattern, "Use YYYY-MM-DD").optional(),
+    startTime: z.string().regex(timePattern, "Use HH:MM"),
+    durationMinutes: z.number().int().min(1).max(1440),
+    timeZone: z.string().optional(),
+    billable: z.boolean().optional(),
+    taskId: z.string().optional(),
+    entryStatus: z.enum(['draft', 'confirmed']).optional(),
+  },
+  outputSchema: {
+    template: templateOutputSchema,
+  },
+  handler: async (params: RecurringTemplateInput, userId: string): Promise<McpResponse<RecurringTemplateResponse>> => {
+    try {
+      const template = await recurringTemplateService.createTemplate(userId, params);
+
+      return createStructuredMcpResponse(
+        `Recurring template created successfully:\n- ${describeTemplate(template)}\n- Starts on: ${template.startsOn}\n- Template ID: ${template.id}`,
+        { template }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error creating recurring template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listRecurringTemplatesTool = {
+  name: "list_recurring_templates",
+  description: "List your recurring time entry templates with their upcoming occurrences and any skipped or changed ones",
+  inputSchema: {} as Record<string, never>,
+  outputSchema: {
+    templates: z.array(templateOutputSchema.extend({
+      projectName: z.string(),
+      schedule: z.string(),
+      nextOccurrences: z.array(z.string()),
+      exceptions: z.array(exceptionOutputSchema),
+    })),
+  },
+  handler: async (params: Record<string, never>, userId: string): Promise<McpResponse<RecurringTemplateListResponse>> => {
+    try {
+      const templates = await recurringTemplateService.listTemplates(userId);
+
+      if (templates.length === 0) {
+        return createStructuredMcpResponse("No recurring templates found.", { templates });
+      }
+
+      const templateList = templates
+        .map(template => {
+          const exceptions = template.exceptions
+            .map(exception => exception.action === 'skip' ? `${exception.occurrenceDate} skipped` : `${exception.occurrenceDate} changed`)
+            .join(', ');
+
+          return `- ${template.description} (${template.projectName}), ${template.schedule} at ${template.startTime} ${template.timeZone}, ${template.durationMinutes} min, ${template.entryStatus}${template.active ? '' : ', paused'} (ID: ${template.id})`
+            + `\n  Next: ${template.nextOccurrences.join(', ') || 'none'}${exceptions ? `\n  Exceptions: ${exceptions}` : ''}`;
+        })
+        .join('\n');
+
+      return createStructuredMcpResponse(`Recurring templates:\n${templateList}`, { templates });
+    } catch (error) {
+      return createMcpError(
+        `Error listing recurring templates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const updateRecurringTemplateTool = {
+  name: "update_recurring_template",
+  description: "Change a recurring template or pause it (active false). Entries already logged from it stay as they are.",
+  inputSchema: {
+    templateId: z.string().min(1, "Template ID is required"),
+    projectId: z.string().optional(),
+    description: z.string().optional(),
+    rrule: z.string().optional(),
+    startsOn: z.string().regex(datePattern, "Use YYYY-MM-DD").optional(),
+    startTime: z.string().regex(timePattern, "Use HH:MM").optional(),
+    durationMinutes: z.number().int().min(1).max(1440).optional(),
+    timeZone: z.string().optional(),
+    billable: z.boolean().nullable().optional(),
+    taskId: z.string().nullable().optional(),
+    entryStatus: z.enum(['draft', 'confirmed']).optional(),
+    active: z.boolean().optional(),
+  },
+  outputSchema: {
+    template: templateOutputSchema,
+  },
+  handler: async (params: RecurringTemplateChanges & { templateId: string }, userId: string): Promise<McpResponse<RecurringTemplateResponse>> => {
+    try {
+      const { templateId, ...changes } = params;
+      const template = await recurringTemplateService.updateTemplate(userId, templateId, changes);
+
+      if (!template) {
+        return createMcpError("Recurring template not found.");
+      }
+
+      return createStructuredMcpResponse(
+        `Recurring template updated successfully:\n- ${describeTemplate(template)}\n- Template ID: ${template.id}`,
+        { template }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error updating recurring template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const deleteRecurringTemplateTool = {
+  name: "delete_recurring_template",
+  description: "Delete a recurring template. Entries already logged from it are kept.",
+  inputSchema: {
+    templateId: z.string().min(1, "Template ID is required"),
+  },
+  outputSchema: {
+    success: z.boolean(),
+    templateId: z.string(),
+  },
+  handler: async (params: { templateId: string }, userId: string): Promise<McpResponse<DeleteRecurringTemplateResponse>> => {
+    try {
+      const deleted = await recurringTemplateService.deleteTemplate(userId, params.templateId);
+
+      if (!deleted) {
+        return createMcpError("Recurring template not found.");
+      }
+
+      return createStructuredMcpResponse(
+        `Recurring template ${params.templateId} deleted successfully`,
+        { success: true, templateId: params.templateId }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error deleting recurring template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const skipRecurringOccurrenceTool = {
+  name: "skip_recurring_occurrence",
+  description: "Skip one upcoming occurrence of a recurring template (e.g. a cancelled meeting) so no time entry is logged for it",
+  inputSchema: {
+    templateId: z.string().min(1, "Template ID is required"),
+    occurrenceDate: z.string().regex(datePattern, "Use YYYY-MM-DD"),
+  },
+  outputSchema: {
+    exception: exceptionOutputSchema,
+  },
+  handler: async (params: { templateId: string; occurrenceDate: string }, userId: string): Promise<McpResponse<RecurringExceptionResponse>> => {
+    try {
+      const exception = await recurringTemplateService.setOccurrenceException(userId, params.templateId, params.occurrenceDate, null);
+
+      return createStructuredMcpResponse(
+        `Occurrence on ${exception.occurrenceDate} will be skipped`,
+        { exception }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error skipping occurrence: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const overrideRecurringOccurrenceTool = {
+  name: "override_recurring_occurrence",
+  description: "Change the description, start time (HH:MM in the template's time zone) or duration of one upcoming occurrence of a recurring template. Replaces any earlier skip or change for that day.",
+  inputSchema: {
+    templateId: z.string().min(1, "Template ID is required"),
+    occurrenceDate: z.string().regex(datePattern, "Use YYYY-MM-DD"),
+    description: z.string().optional(),
+    startTime: z.string().regex(timePattern, "Use HH:MM").optional(),
+    durationMinutes: z.number().int().min(1).max(1440).optional(),
+  },
+  outputSchema: {
+    exception: exceptionOutputSchema,
+  },
+  handler: async (params: { templateId: string; occurrenceDate: string; description?: string; startTime?: string; durationMinutes?: number }, userId: string): Promise<McpResponse<RecurringExceptionResponse>> => {
+    try {
+      const { templateId, occurrenceDate, ...override } = params;
+      const exception = await recurringTemplateService.setOccurrenceException(userId, templateId, occurrenceDate, override);
+
+      const changes = [
+        exception.description ? `description "${exception.description}"` : null,
+        exception.startTime ? `start ${exception.startTime}` : null,
+        exception.durationMinutes ? `${exception.durationMinutes} min` : null,
+      ].filter(Boolean).join(', ');
+
+      return createStructuredMcpResponse(
+        `Occurrence on ${exception.occurrenceDate} changed: ${changes}`,
+        { exception }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error changing occurrence: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const confirmDraftEntriesTool = {
+  name: "confirm_draft_entries",
+  description: "Confirm draft time entries logged from recurring templates, so they count as regular entries (e.g. for invoicing). Confirms all your drafts unless entryIds are given. Drafts in a submitted or approved week are skipped.",
+  inputSchema: {
+    entryIds: z.array(z.string()).optional(),
+  },
+  outputSchema: {
+    timeEntries: z.array(draftEntryOutputSchema),
+    skippedEntries: z.array(draftEntryOutputSchema),
+  },
+  handler: async (params: { entryIds?: string[] }, userId: string): Promise<McpResponse<ConfirmDraftEntriesResponse>> => {
+    try {
+      const { confirmed: timeEntries, skipped: skippedEntries } = await timeEntryService.confirmDraftEntries(userId, params.entryIds);
+      const listEntries = (entries: TimeEntry[]) => entries.map(entry => `- ${entry.description} ${entry.startTime.toISOString()} (${entry.durationMinutes ?? 0} min, ID: ${entry.id})`).join('\n');
+      const skippedText = skippedEntries.length > 0
+        ? `Skipped ${skippedEntries.length} draft time entries in a submitted or approved week:\n${listEntries(skippedEntries)}`
+        : '';
+
+      if (timeEntries.length === 0) {
+        return createStructuredMcpResponse(skippedText || "No draft time entries to confirm.", { timeEntries, skippedEntries });
+      }
+
+      return createStructuredMcpResponse(
+        `Confirmed ${timeEntries.length} draft time entries:\n${listEntries(timeEntries)}${skippedText ? `\n\n${skippedText}` : ''}`,
+        { timeEntries, skippedEntries }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error confirming draft entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
@@ -0,0 +1,257 @@
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ShapeOutput, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { type AuthorizationContext, ApiScope, Permission, hasApiScope, hasPermission } from "../authorization";
+import {
+  createClientTool,
+  listClientsTool,
+  updateClientTool,
+  deactivateClientTool,
+} from "./client-tools";
+import {
+  createProjectTool,
+  listProjectsTool,
+  updateProjectTool,
+  deactivateProjectTool,
+} from "./project-tools";
+import {
+  startTimeTrackingTool,
+  stopTimeTrackingTool,
+  switchTimeTrackingTool,
+  pauseTimeTrackingTool,
+  resumeTimeTrackingTool,
+  getActiveTimeEntryTool,
+  addManualTimeEntryTool,
+  logTimeTool,
+  updateTimeEntryTool,
+  findOverlappingEntriesTool,
+  listRecentActivitiesTool,
+} from "./time-tracking-tools";
+import {
+  listTimeEntresTool,
+  getTimeSummaryTool,
+  calculateEarningsTool,
+  getEstimateReportTool,
+} from "./report-tools";
+import {
+  submitTimesheetTool,
+  approveTimesheetTool,
+  rejectTimesheetTool,
+  listPendingTimesheetsTool,
+} from "./timesheet-tools";
+import {
+  createInvoiceTool,
+  listInvoicesTool,
+  voidInvoiceTool,
+} from "./invoice-tools";
+import {
+  setExchangeRateTool,
+  listExchangeRatesTool,
+  deleteExchangeRateTool,
+} from "./currency-tools";
+import {
+  setHourlyRateTool,
+  listHourlyRatesTool,
+  deleteHourlyRateTool,
+} from "./rate-tools";
+import {
+  createTagTool,
+  listTagsTool,
+  updateTagTool,
+  deleteTagTool,
+} from "./tag-tools";
+import {
+  createTaskTool,
+  listTasksTool,
+  closeTaskTool,
+} from "./task-tools";
+import {
+  setProjectBudgetTool,
+  getProjectBudgetStatusTool,
+  removeProjectBudgetTool,
+} from "./budget-tools";
+import {
+  listNotificationsTool,
+} from "./notification-tools";
+import {
+  importTimeEntriesTool,
+} from "./import-tools";
+import {
+  importCalendarEventsTool,
+  createCalendarImportRuleTool,
+  listCalendarImportRulesTool,
+  deleteCalendarImportRuleTool,
+} from "./calendar-import-tools";
+import {
+  createRecurringTemplateTool,
+  listRecurringTemplatesTool,
+  updateRecurringTemplateTool,
+  deleteRecurringTemplateTool,
+  skipRecurringOccurrenceTool,
+  overrideRecurringOccurrenceTool,
+  confirmDraftEntriesTool,
+} from "./recurring-template-tools";
+
+/**
+ * An MCP tool as defined in the tool modules. Handlers get the caller's user ID and their
+ * full authorization context; most only need the user ID.
+ */
+export interface McpToolDefinition<InputShape extends ZodRawShapeCompat> {
+  name: string;
+  description: string;
+  inputSchema: InputShape;
+  outputSchema: ZodRawShapeCompat;
+  handler: (params: ShapeOutput<InputShape>, userId: string, context: AuthorizationContext) => Promise<CallToolResult>;
+}
+
+export interface RegisteredToolEntry {
+  name: string;
+  description: string;
+  /** Permissions the caller needs (all of them) for the tool to be offered; none means every user */
+  permissions: Permission[];
+  /** Whether the tool only reads data, so API keys with just the read scope can use it */
+  readOnly: boolean;
+  register: (server: McpServer, context: AuthorizationContext) => void;
+}
+
+const defineTool = <InputShape extends ZodRawShapeCompat>(
+  tool: McpToolDefinition<InputShape>,
+  { permissions = [], readOnly = false }: { permissions?: Permission[]; readOnly?: boolean } = {}
+): RegisteredToolEntry => ({
+  name: tool.name,
+  description: tool.description,
+  permissions,
+  readOnly,
+  register: (server, context) => {
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
+      },
+      // The SDK's callback type is conditional on the schema, so it can't be checked generically
+      (async (params: ShapeOutput<InputShape>) => tool.handler(params, context.userId, context)) as unknown as ToolCallback<InputShape>
+    );
+  },
+});
+
+/**
+ * Every MCP tool with the permissions it requires. Tools that can act on other users' data
+ * (such as targetUserId on the reports) check access per call instead.
+ */
+export const toolRegistry: RegisteredToolEntry[] = [
+  // Client management
+  defineTool(createClientTool),
+  defineTool(listClientsTool, { readOnly: true }),
+  defineTool(updateClientTool),
+  defineTool(deactivateClientTool),
+
+  // Project management
+  defineTool(createProjectTool),
+  defineTool(listProjectsTool, { readOnly: true }),
+  defineTool(updateProjectTool),
+  defineTool(deactivateProjectTool),
+
+  // Time tracking
+  defineTool(startTimeTrackingTool),
+  defineTool(stopTimeTrackingTool),
+  defineTool(switchTimeTrackingTool),
+  defineTool(pauseTimeTrackingTool),
+  defineTool(resumeTimeTrackingTool),
+  defineTool(getActiveTimeEntryTool, { readOnly: true }),
+  defineTool(addManualTimeEntryTool),
+  defineTool(logTimeTool),
+  defineTool(updateTimeEntryTool),
+  defineTool(findOverlappingEntriesTool, { readOnly: true }),
+  defineTool(listRecentActivitiesTool, { readOnly: true }),
+
+  // Reporting
+  defineTool(listTimeEntresTool, { readOnly: true }),
+  defineTool(getTimeSummaryTool, { readOnly: true }),
+  defineTool(calculateEarningsTool, { readOnly: true }),
+  defineTool(getEstimateReportTool, { readOnly: true }),
+
+  // Timesheet approval
+  defineTool(submitTimesheetTool),
+  defineTool(approveTimesheetTool, { permissions: [Permission.APPROVE_TIMESHEETS] }),
+  defineTool(rejectTimesheetTool, { permissions: [Permission.APPROVE_TIMESHEETS] }),
+  defineTool(listPendingTimesheetsTool, { permissions: [Permission.APPROVE_TIMESHEETS], readOnly: true }),
+
+  // Invoicing
+  defineTool(createInvoiceTool),
+  defineTool(listInvoicesTool, { readOnly: true }),
+  defineTool(voidInvoiceTool),
+
+  // Currency
+  defineTool(setExchangeRateTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+  defineTool(listExchangeRatesTool, { readOnly: true }),
+  defineTool(deleteExchangeRateTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+
+  // Rates
+  defineTool(setHourlyRateTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+  defineTool(listHourlyRatesTool, { permissions: [Permission.MANAGE_ORGANIZATION], readOnly: true }),
+  defineTool(deleteHourlyRateTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+
+  // Tags
+  defineTool(createTagTool),
+  defineTool(listTagsTool, { readOnly: true }),
+  defineTool(updateTagTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+  defineTool(deleteTagTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+
+  // Tasks
+  defineTool(createTaskTool),
+  defineTool(listTasksTool, { readOnly: true }),
+  defineTool(closeTaskTool),
+
+  // Budgets
+  defineTool(setProjectBudgetTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+  defineTool(getProjectBudgetStatusTool, { readOnly: true }),
+  defineTool(removeProjectBudgetTool, { permissions: [Permission.MANAGE_ORGANIZATION] }),
+
+  // Notifications
+  defineTool(listNotificationsTool, { readOnly: true }),
+
+  // Import
+  defineTool(importTimeEntriesTool),
+
+  // Calendar import
+  defineTool(importCalendarEventsTool),
+  defineTool(createCalendarImportRuleTool),
+  defineTool(listCalendarImportRulesTool, { readOnly: true }),
+  defineTool(deleteCalendarImportRuleTool),
+
+  // Recurring entries
+  defineTool(createRecurringTemplateTool),
+  defineTool(listRecurringTemplatesTool, { readOnly: true }),
+  defineTool(updateRecurringTemplateTool),
+  defineTool(deleteRecurringTemplateTool),
+  defineTool(skipRecurringOccurrenceTool),
+  defineTool(overrideRecurringOccurrenceTool),
+  defineTool(confirmDraftEntriesTool),
+];
+
+/**
+ * The tools the caller holds every required permission for, within their API key's scopes
+ */
+export function getAllowedTools(context: AuthorizationContext, registry: RegisteredToolEntry[] = toolRegistry): RegisteredToolEntry[] {
+  return registry.filter(tool =>
+    tool.permissions.every(permission => hasPermission(context, permission)) &&
+    hasApiScope(context, tool.readOnly ? ApiScope.READ : ApiScope.WRITE)
+  );
+}
+
+/**
+ * Registers the tools the caller may use onto the MCP server
+ */
+export function registerToolsForContext(server: McpServer, context: AuthorizationContext): void {
+  getAllowedTools(context).forEach(tool => tool.register(server, context));
+}
+
+/**
+ * The tools capability advertised to the caller, listing only the tools they may use
+ */
+export function getToolCapabilities(context: AuthorizationContext): Record<string, { description: string }> {
+  return Object.fromEntries(getAllowedTools(context).map(tool => [tool.name, { description: tool.description }]));
+}
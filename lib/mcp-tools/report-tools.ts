@@ -1,21 +1,56 @@
 import { z } from "zod";
-import { TimeEntryService } from "../services/time-entries";
+import { TimeEntryService, calculateUtilisation, type TaggedTimeEntry, type TimeSummaryGrouping } from "../services/time-entries";
+import { getEarningsReport, getEstimateReport, type EarningsItem, type CurrencySubtotal, type EstimateComparison, type TaskEstimateItem, type ProjectEstimateItem } from "../services/reports";
+import { formatMoney } from "../services/currency";
+import { NameResolver } from "../services/name-resolver";
+import { type AuthorizationContext, canViewUserTimesheets, createAuthorizationContext } from "../authorization";
 import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
-import { type TimeEntry } from '../../drizzle/schema';
 
 const timeEntryService = new TimeEntryService();
+const nameResolver = new NameResolver();
 
 type TimeEntriesResponse = {
-  timeEntries: TimeEntry[] | null;
+  timeEntries: TaggedTimeEntry[] | null;
+}
+type EstimateReportResponse = {
+  tasks: TaskEstimateItem[];
+  projects: ProjectEstimateItem[];
+}
+
+const formatTags = (tags: string[]) => tags.length > 0 ? ` | Tags: ${tags.join(', ')}` : '';
+
+const targetUserIdSchema = z.string().optional()
+  .describe("Report on another user's time instead of your own (HR and admins for anyone, managers for their reports)");
+
+/**
+ * The user whose time to report on: the caller, or targetUserId if they may view that user's timesheets
+ */
+function getReportUserId(context: AuthorizationContext, targetUserId?: string): string {
+  if (!targetUserId || targetUserId === context.userId) {
+    return context.userId;
+  }
+
+  const result = canViewUserTimesheets(context, targetUserId);
+  if (!result.authorized) {
+    throw new Error(`Not allowed to view another user's time: ${result.reason}`);
+  }
+
+  return targetUserId;
 }
 
+const forUser = (reportUserId: string, userId: string) => reportUserId === userId ? '' : ` for user ${reportUserId}`;
+
 export const listTimeEntresTool = {
   name: "list_time_entries",
-  description: "List time entries with optional filtering by project and date range",
+  description: "List time entries with optional filtering by project, date range and tags (entries with any of the given tags match). Give the project by projectId, or by projectName (matched loosely, optionally narrowed by clientName).",
   inputSchema: {
     projectId: z.string().optional(),
+    projectName: z.string().optional(),
+    clientName: z.string().optional(),
+    targetUserId: targetUserIdSchema,
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
+    tags: z.array(z.string().min(1)).optional(),
     limit: z.number().int().positive().max(100).optional().default(20),
     withDetails: z.boolean().optional().default(false),
   },
@@ -30,18 +65,25 @@ export const listTimeEntresTool = {
         endTime: z.date().nullable(),
         durationMinutes: z.number().int().nullable(),
         isActive: z.boolean(),
+        isPaused: z.boolean(),
+        billable: z.boolean().nullable(),
+        taskId: z.string().nullable(),
+        invoiceId: z.string().nullable(),
+        tags: z.array(z.string()),
         createdAt: z.date(),
         updatedAt: z.date(),
       })
     ).nullable(),
   },
-  handler: async (params: { projectId?: string; startDate?: string; endDate?: string; limit?: number; withDetails?: boolean }, userId: string): Promise<McpResponse<TimeEntriesResponse>> => {
+  handler: async (params: { projectId?: string; projectName?: string; clientName?: string; targetUserId?: string; startDate?: string; endDate?: string; tags?: string[]; limit?: number; withDetails?: boolean }, userId: string, context: AuthorizationContext = createAuthorizationContext(userId, null)): Promise<McpResponse<TimeEntriesResponse>> => {
     try {
+      const reportUserId = getReportUserId(context, params.targetUserId);
       const startDate = params.startDate ? new Date(params.startDate) : undefined;
       const endDate = params.endDate ? new Date(params.endDate) : undefined;
+      const projectId = await nameResolver.findProjectId(reportUserId, params);
       
       if (params.withDetails) {
-        const entries = await timeEntryService.getTimeEntriesWithDetails(userId, startDate, endDate, params.limit);
+        const entries = await timeEntryService.getTimeEntriesWithDetails(reportUserId, startDate, endDate, params.limit, params.tags, projectId ? [projectId] : []);
         
         if (entries.length === 0) {
           return createStructuredMcpResponse(
@@ -55,15 +97,15 @@ export const listTimeEntresTool = {
           const minutes = timeEntry.durationMinutes ? timeEntry.durationMinutes % 60 : 0;
           const status = timeEntry.isActive ? ' [ACTIVE]' : '';
           
-          return `- ${timeEntry.description} (${client.name} > ${project.name})${status}\n  Duration: ${hours}h ${minutes}m | Started: ${timeEntry.startTime.toLocaleString()}${timeEntry.endTime ? ` | Ended: ${timeEntry.endTime.toLocaleString()}` : ''}`;
+          return `- ${timeEntry.description} (${client.name} > ${project.name})${status}\n  Duration: ${hours}h ${minutes}m | Started: ${timeEntry.startTime.toLocaleString()}${timeEntry.endTime ? ` | Ended: ${timeEntry.endTime.toLocaleString()}` : ''}${formatTags(timeEntry.tags)}`;
         }).join('\n');
 
         return createStructuredMcpResponse(
-          `Time entries (${entries.length} found):\n${entriesList}`,
+          `Time entries${forUser(reportUserId, userId)} (${entries.length} found):\n${entriesList}`,
           { timeEntries: entries.map(e => e.timeEntry) }
         );
       } else {
-        const entries = await timeEntryService.listTimeEntries(userId, params.projectId, startDate, endDate, params.limit);
+        const entries = await timeEntryService.listTimeEntries(reportUserId, projectId, startDate, endDate, params.limit, params.tags);
         
         if (entries.length === 0) {
           return createMcpError("No time entries found matching the criteria.");
@@ -74,11 +116,11 @@ export const listTimeEntresTool = {
           const minutes = entry.durationMinutes ? entry.durationMinutes % 60 : 0;
           const status = entry.isActive ? ' [ACTIVE]' : '';
           
-          return `- ${entry.description}${status}\n  Duration: ${hours}h ${minutes}m | Project: ${entry.projectId} | Started: ${entry.startTime.toLocaleString()}`;
+          return `- ${entry.description}${status}\n  Duration: ${hours}h ${minutes}m | Project: ${entry.projectId} | Started: ${entry.startTime.toLocaleString()}${formatTags(entry.tags)}`;
         }).join('\n');
 
         return createStructuredMcpResponse(
-          `Time entries (${entries.length} found):\n${entriesList}`,
+          `Time entries${forUser(reportUserId, userId)} (${entries.length} found):\n${entriesList}`,
           { timeEntries: entries }
         );
       }
@@ -91,43 +133,58 @@ export const listTimeEntresTool = {
 };
 
 type TimeSummaryItem = {
-  clientName: string;
-  projectName: string;
+  clientName?: string;
+  projectName?: string;
+  tagName?: string | null;
   totalHours: number;
+  billableHours: number;
+  nonBillableHours: number;
   entryCount: number;
 };
 
 type TimeSummaryResponse = {
   items: TimeSummaryItem[] | null;
   totalHours?: number;
+  billableHours?: number;
+  nonBillableHours?: number;
+  utilisation?: number;
   totalEntries?: number;
 }
 
 export const getTimeSummaryTool = {
   name: "get_time_summary",
-  description: "Get a summary of time worked grouped by client and project for a date range",
+  description: "Get a summary of billable and non-billable time worked for a date range, grouped by client and project (default) or by tag, with the utilisation (billable share) overall. Grouped by tag, an entry with several tags counts towards each of them.",
   inputSchema: {
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
+    groupBy: z.enum(['project', 'tag']).optional().default('project'),
+    targetUserId: targetUserIdSchema,
   },
   outputSchema: {
     items: z.array(
       z.object({
-        clientName: z.string(),
-        projectName: z.string(),
+        clientName: z.string().optional(),
+        projectName: z.string().optional(),
+        tagName: z.string().nullable().optional(),
         totalHours: z.number(),
+        billableHours: z.number(),
+        nonBillableHours: z.number(),
         entryCount: z.number(),
       })
     ).nullable(),
     totalHours: z.number().optional(),
+    billableHours: z.number().optional(),
+    nonBillableHours: z.number().optional(),
+    utilisation: z.number().optional(),
     totalEntries: z.number().optional(),
   },
-  handler: async (params: { startDate?: string; endDate?: string }, userId: string): Promise<McpResponse<TimeSummaryResponse>> => {
+  handler: async (params: { startDate?: string; endDate?: string; groupBy?: TimeSummaryGrouping; targetUserId?: string }, userId: string, context: AuthorizationContext = createAuthorizationContext(userId, null)): Promise<McpResponse<TimeSummaryResponse>> => {
     try {
+      const reportUserId = getReportUserId(context, params.targetUserId);
       const startDate = params.startDate ? new Date(params.startDate) : undefined;
       const endDate = params.endDate ? new Date(params.endDate) : undefined;
       
-      const summary = await timeEntryService.getTimeSummary(userId, startDate, endDate);
+      const summary = await timeEntryService.getTimeSummary(reportUserId, startDate, endDate);
       
       if (summary.length === 0) {
         return createMcpError("No completed time entries found for the specified period.");
@@ -137,18 +194,36 @@ export const getTimeSummaryTool = {
         ? `\nPeriod: ${startDate ? startDate.toLocaleDateString() : 'Beginning'} - ${endDate ? endDate.toLocaleDateString() : 'Today'}`
         : '';
 
-      const summaryList = summary.map(item => 
-        `- ${item.clientName} > ${item.projectName}: ${item.totalHours}h (${item.entryCount} entries)`
-      ).join('\n');
-
+      // Totals come from the project grouping, where every entry is counted once
       const totalHours = summary.reduce((acc, item) => acc + Number(item.totalHours), 0);
+      const billableHours = summary.reduce((acc, item) => acc + Number(item.billableHours), 0);
+      const nonBillableHours = summary.reduce((acc, item) => acc + Number(item.nonBillableHours), 0);
+      const utilisation = calculateUtilisation(billableHours, totalHours);
       const totalEntries = summary.reduce((acc, item) => acc + Number(item.entryCount), 0);
 
+      const rows = params.groupBy === 'tag'
+        ? await timeEntryService.getTimeSummary(reportUserId, startDate, endDate, 'tag')
+        : summary;
+      const items: TimeSummaryItem[] = rows.map(item => ({
+        ...item,
+        totalHours: Number(item.totalHours),
+        billableHours: Number(item.billableHours),
+        nonBillableHours: Number(item.nonBillableHours),
+        entryCount: Number(item.entryCount),
+      }));
+
+      const summaryList = items.map(item => 
+        `- ${params.groupBy === 'tag' ? (item.tagName ?? '(untagged)') : `${item.clientName} > ${item.projectName}`}: ${item.totalHours}h, ${item.billableHours}h billable (${item.entryCount} entries)`
+      ).join('\n');
+
       return createStructuredMcpResponse(
-        `Time Summary${dateRange}:\n\n${summaryList}\n\nTotal: ${totalHours.toFixed(2)}h across ${totalEntries} entries` ,
+        `Time Summary${params.groupBy === 'tag' ? ' by tag' : ''}${forUser(reportUserId, userId)}${dateRange}:\n\n${summaryList}\n\nTotal: ${totalHours.toFixed(2)}h across ${totalEntries} entries\nBillable: ${billableHours.toFixed(2)}h | Non-billable: ${nonBillableHours.toFixed(2)}h | Utilisation: ${utilisation}%` ,
         { 
-          items: summary,
+          items,
           totalHours,
+          billableHours,
+          nonBillableHours,
+          utilisation,
           totalEntries,
         }
       );
@@ -161,110 +236,186 @@ export const getTimeSummaryTool = {
 };
 
 type CalculateEarningsResponse = {
-  earnings: {
-    clientName: string;
-    projectName: string;
-    totalHours: number;
-    hourlyRate: number | null;
-    earnings: number;
-    entryCount: number;
-  }[] | null;
+  earnings: EarningsItem[] | null;
+  reportingCurrency?: string;
+  subtotals?: CurrencySubtotal[];
+  totalHours?: number;
+  billableHours?: number;
+  nonBillableHours?: number;
+  utilisation?: number;
+  totalEarnings?: number;
+  missingRates?: string[];
 }
 
 export const calculateEarningsTool = {
   name: "calculate_earnings",
-  description: "Calculate potential earnings based on time worked and hourly rates",
+  description: "Calculate potential earnings based on billable time worked and hourly rates, converted into a reporting currency with per-currency subtotals. Reports billable and non-billable hours and the utilisation (billable share).",
   inputSchema: {
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional(),
+    reportingCurrency: z.string().length(3).optional(),
+    targetUserId: targetUserIdSchema,
   },
   outputSchema: {
     earnings: z.array(
       z.object({
         clientName: z.string(),
         projectName: z.string(),
+        currency: z.string(),
         totalHours: z.number(),
+        billableHours: z.number(),
         hourlyRate: z.number().nullable(),
         earnings: z.number(),
+        convertedEarnings: z.number().nullable(),
         entryCount: z.number(),
       })
     ).nullable(),
+    reportingCurrency: z.string().optional(),
+    subtotals: z.array(
+      z.object({
+        currency: z.string(),
+        totalHours: z.number(),
+        earnings: z.number(),
+        convertedEarnings: z.number().nullable(),
+      })
+    ).optional(),
+    totalHours: z.number().optional(),
+    billableHours: z.number().optional(),
+    nonBillableHours: z.number().optional(),
+    utilisation: z.number().optional(),
+    totalEarnings: z.number().optional(),
+    missingRates: z.array(z.string()).optional(),
   },
-  handler: async (params: { startDate?: string; endDate?: string }, userId: string): Promise<McpResponse<CalculateEarningsResponse>> => {
+  handler: async (params: { startDate?: string; endDate?: string; reportingCurrency?: string; targetUserId?: string }, userId: string, context: AuthorizationContext = createAuthorizationContext(userId, null)): Promise<McpResponse<CalculateEarningsResponse>> => {
     try {
+      const reportUserId = getReportUserId(context, params.targetUserId);
       const startDate = params.startDate ? new Date(params.startDate) : undefined;
       const endDate = params.endDate ? new Date(params.endDate) : undefined;
       
-      const entriesWithDetails = await timeEntryService.getTimeEntriesWithDetails(userId, startDate, endDate, 1000); // Get more entries for calculation
-      
-      if (entriesWithDetails.length === 0) {
-        return createMcpError("No time entries found for the specified period.");
-      }
-
-      const earningsByProject = new Map<string, {
-        clientName: string;
-        projectName: string;
-        totalHours: number;
-        hourlyRate: number | null;
-        earnings: number;
-        entryCount: number;
-      }>();
-
-      entriesWithDetails.forEach(({ timeEntry, project, client }) => {
-        if (!timeEntry.durationMinutes || timeEntry.isActive) return; // Skip active or incomplete entries
-        
-        const key = `${client.id}-${project.id}`;
-        const hours = timeEntry.durationMinutes / 60;
-        const hourlyRate = project.hourlyRate ? Number(project.hourlyRate) : null;
-        const earnings = hourlyRate ? hours * hourlyRate : 0;
-        
-        if (earningsByProject.has(key)) {
-          const existing = earningsByProject.get(key)!;
-          existing.totalHours += hours;
-          existing.earnings += earnings;
-          existing.entryCount += 1;
-        } else {
-          earningsByProject.set(key, {
-            clientName: client.name,
-            projectName: project.name,
-            totalHours: hours,
-            hourlyRate,
-            earnings,
-            entryCount: 1,
-          });
-        }
-      });
-
-      const earningsArray = Array.from(earningsByProject.values());
+      const report = await getEarningsReport(userId, { startDate, endDate, reportingCurrency: params.reportingCurrency }, { targetUserId: reportUserId });
       
-      if (earningsArray.length === 0) {
+      if (report.items.length === 0) {
         return createStructuredMcpResponse(
           "No completed time entries found for earnings calculation.",
           { earnings: [] }
         );
       }
 
+      const { reportingCurrency } = report;
       const dateRange = startDate || endDate 
         ? `\nPeriod: ${startDate ? startDate.toLocaleDateString() : 'Beginning'} - ${endDate ? endDate.toLocaleDateString() : 'Today'}`
         : '';
 
-      const earningsList = earningsArray.map(item => {
+      const earningsList = report.items.map(item => {
+        const conversion = item.currency === reportingCurrency || !item.hourlyRate
+          ? ''
+          : item.convertedEarnings === null
+            ? ' (no exchange rate)'
+            : ` (≈ ${formatMoney(item.convertedEarnings, reportingCurrency)})`;
         const rateInfo = item.hourlyRate 
-          ? `$${item.hourlyRate}/hr = $${item.earnings.toFixed(2)}`
+          ? `${formatMoney(item.hourlyRate, item.currency)}/hr = ${formatMoney(item.earnings, item.currency)}${conversion}`
           : 'No rate set';
-        return `- ${item.clientName} > ${item.projectName}: ${item.totalHours.toFixed(2)}h × ${rateInfo}`;
+        const nonBillable = item.totalHours - item.billableHours;
+        const hoursInfo = nonBillable > 0
+          ? `${item.billableHours.toFixed(2)}h billable (+${nonBillable.toFixed(2)}h non-billable)`
+          : `${item.totalHours.toFixed(2)}h`;
+        return `- ${item.clientName} > ${item.projectName}: ${hoursInfo} × ${rateInfo}`;
       }).join('\n');
 
-      const totalHours = earningsArray.reduce((acc, item) => acc + item.totalHours, 0);
-      const totalEarnings = earningsArray.reduce((acc, item) => acc + item.earnings, 0);
-      const projectsWithRates = earningsArray.filter(item => item.hourlyRate !== null).length;
+      const subtotalList = report.subtotals.length > 1
+        ? `\n\nSubtotals by currency:\n${report.subtotals.map(subtotal =>
+            `- ${subtotal.currency}: ${subtotal.totalHours.toFixed(2)}h, ${formatMoney(subtotal.earnings, subtotal.currency)}${subtotal.currency !== reportingCurrency && subtotal.convertedEarnings !== null ? ` (≈ ${formatMoney(subtotal.convertedEarnings, reportingCurrency)})` : ''}`
+          ).join('\n')}`
+        : '';
+
+      const missingRatesNote = report.missingRates.length > 0
+        ? `\nWarning: no exchange rate to ${reportingCurrency} for ${report.missingRates.join(', ')}; those earnings are excluded from the total.`
+        : '';
+
+      const projectsWithRates = report.items.filter(item => item.hourlyRate !== null).length;
 
       return createStructuredMcpResponse(
-        `Earnings Calculation${dateRange}:\n\n${earningsList}\n\nTotal: ${totalHours.toFixed(2)}h worked, $${totalEarnings.toFixed(2)} potential earnings\n(${projectsWithRates}/${earningsArray.length} projects have hourly rates set)` ,
-        { earnings: earningsArray }
+        `Earnings Calculation${forUser(reportUserId, userId)}${dateRange}:\n\n${earningsList}${subtotalList}\n\nTotal: ${report.totalHours.toFixed(2)}h worked, ${formatMoney(report.totalEarnings, reportingCurrency)} potential earnings (${reportingCurrency})\nBillable: ${report.billableHours.toFixed(2)}h | Non-billable: ${report.nonBillableHours.toFixed(2)}h | Utilisation: ${report.utilisation}%\n(${projectsWithRates}/${report.items.length} projects have hourly rates set)${missingRatesNote}` ,
+        {
+          earnings: report.items,
+          reportingCurrency,
+          subtotals: report.subtotals,
+          totalHours: report.totalHours,
+          billableHours: report.billableHours,
+          nonBillableHours: report.nonBillableHours,
+          utilisation: report.utilisation,
+          totalEarnings: report.totalEarnings,
+          missingRates: report.missingRates,
+        }
       );
     } catch (error) {
       return createMcpError(`Error calculating earnings: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   },
-};
\ No newline at end of file
+};
+
+const formatEstimate = (item: EstimateComparison) => item.estimateHours === null
+  ? `${item.trackedHours.toFixed(2)}h tracked, no estimate`
+  : `${item.trackedHours.toFixed(2)}h of ${item.estimateHours.toFixed(2)}h (${item.percentUsed}%)${item.overBudget ? ' OVER BUDGET' : ''}`;
+
+export const getEstimateReportTool = {
+  name: "get_estimate_report",
+  description: "Compare tracked hours against task estimates, per task and per project (the project estimate is the sum of its task estimates). Covers all users' completed time.",
+  inputSchema: {
+    projectId: z.string().optional(),
+    overBudgetOnly: z.boolean().optional(),
+  },
+  outputSchema: {
+    tasks: z.array(z.object({
+      taskId: z.string(),
+      taskName: z.string(),
+      projectId: z.string(),
+      projectName: z.string(),
+      status: z.enum(['open', 'in_progress', 'done']),
+      assigneeId: z.string().nullable(),
+      estimateHours: z.number().nullable(),
+      trackedHours: z.number(),
+      remainingHours: z.number().nullable(),
+      percentUsed: z.number().nullable(),
+      overBudget: z.boolean(),
+    })),
+    projects: z.array(z.object({
+      projectId: z.string(),
+      projectName: z.string(),
+      estimateHours: z.number().nullable(),
+      trackedHours: z.number(),
+      untaskedHours: z.number(),
+      remainingHours: z.number().nullable(),
+      percentUsed: z.number().nullable(),
+      overBudget: z.boolean(),
+      overBudgetTasks: z.number(),
+    })),
+  },
+  handler: async (params: { projectId?: string; overBudgetOnly?: boolean }): Promise<McpResponse<EstimateReportResponse>> => {
+    try {
+      const report = await getEstimateReport(params);
+
+      if (report.tasks.length === 0 && report.projects.length === 0) {
+        return createStructuredMcpResponse(
+          params.overBudgetOnly ? "No tasks or projects are over budget." : "No tasks found.",
+          report
+        );
+      }
+
+      const projectList = report.projects.map(project => {
+        const taskLines = report.tasks
+          .filter(task => task.projectId === project.projectId)
+          .map(task => `  - ${task.taskName} [${task.status}]: ${formatEstimate(task)}`);
+        const untasked = project.untaskedHours > 0 ? ` (${project.untaskedHours.toFixed(2)}h not on a task)` : '';
+        return [`- ${project.projectName}: ${formatEstimate(project)}${untasked}`, ...taskLines].join('\n');
+      }).join('\n');
+
+      return createStructuredMcpResponse(
+        `Tracked vs Estimated Hours:\n\n${projectList}`,
+        report
+      );
+    } catch (error) {
+      return createMcpError(`Error generating estimate report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
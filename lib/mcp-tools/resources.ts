@@ -0,0 +1,238 @@
+import type { ListResourcesResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { ClientService } from "../services/clients";
+import { ProjectService } from "../services/projects";
+import { BudgetService, summarizeBudget } from "../services/budgets";
+import { TimeEntryService } from "../services/time-entries";
+import { TimesheetService, getWeekStart, getWeekEnd } from "../services/timesheets";
+import { UserSettingsService } from "../services/user-settings";
+import { getLocalDate } from "../services/recurring-templates";
+import { type TimesheetStatus } from '../../drizzle/schema';
+
+const clientService = new ClientService();
+const projectService = new ProjectService();
+const budgetService = new BudgetService();
+const timeEntryService = new TimeEntryService();
+const timesheetService = new TimesheetService();
+const userSettingsService = new UserSettingsService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// More entries than anyone books in a week
+const MAX_WEEK_ENTRIES = 1000;
+
+export type TimesheetWeek = {
+  uri: string;
+  weekStart: string;
+  weekEnd: string;
+  timeZone: string;
+  status: TimesheetStatus;
+  reviewComment: string | null;
+  totalMinutes: number;
+  billableMinutes: number;
+  days: { date: string; minutes: number }[];
+  projects: { projectId: string; projectName: string; clientName: string; minutes: number }[];
+  entries: {
+    id: string;
+    date: string;
+    startTime: string;
+    endTime: string | null;
+    durationMinutes: number | null;
+    description: string;
+    projectId: string;
+    projectName: string;
+    clientName: string;
+    tags: string[];
+    billable: boolean;
+    isActive: boolean;
+    isDraft: boolean;
+  }[];
+};
+
+const jsonContents = (uri: string, data: unknown): ReadResourceResult => ({
+  contents: [{ uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) }],
+});
+
+export const projectUri = (projectId: string) => `timetracker://projects/${projectId}`;
+export const timesheetUri = (weekStart: Date) => `timetracker://timesheet/${weekStart.toISOString().slice(0, 10)}`;
+
+/**
+ * Monday 00:00 UTC of a week given as "current", "previous", any date in it (2024-03-06)
+ * or an ISO week (2024-W10)
+ */
+export function parseWeek(week: string, now: Date = new Date()): Date {
+  const value = week.trim().toLowerCase();
+
+  if (value === '' || value === 'current') {
+    return getWeekStart(now);
+  }
+
+  if (value === 'previous' || value === 'last') {
+    return getWeekStart(new Date(now.getTime() - 7 * DAY_MS));
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`))) {
+    return getWeekStart(new Date(`${value}T00:00:00Z`));
+  }
+
+  const isoWeek = value.match(/^(\d{4})-w(\d{1,2})$/);
+  if (isoWeek && Number(isoWeek[2]) >= 1 && Number(isoWeek[2]) <= 53) {
+    // Week 1 is the week with January 4th in it
+    const firstWeek = getWeekStart(new Date(Date.UTC(Number(isoWeek[1]), 0, 4)));
+    return new Date(firstWeek.getTime() + (Number(isoWeek[2]) - 1) * 7 * DAY_MS);
+  }
+
+  throw new Error(`Unknown week "${week}"; use a date (2024-03-04), an ISO week (2024-W10), "current" or "previous"`);
+}
+
+/**
+ * A week of the user's time: its timesheet status, totals per day (in the user's time zone)
+ * and per project, and every entry. Drafts and running timers are listed but not counted.
+ */
+export async function getTimesheetWeek(userId: string, week: string, now: Date = new Date()): Promise<TimesheetWeek> {
+  const weekStart = parseWeek(week, now);
+  const weekEnd = getWeekEnd(weekStart);
+
+  const [entries, timesheet, settings] = await Promise.all([
+    timeEntryService.getTimeEntriesWithDetails(userId, weekStart, new Date(weekEnd.getTime() - 1), MAX_WEEK_ENTRIES),
+    timesheetService.getTimesheet(userId, weekStart),
+    userSettingsService.getSettings(userId),
+  ]);
+
+  const days = new Map<string, number>();
+  for (let day = 0; day < 7; day++) {
+    days.set(new Date(weekStart.getTime() + day * DAY_MS).toISOString().slice(0, 10), 0);
+  }
+  const projectTotals = new Map<string, TimesheetWeek['projects'][number]>();
+  let totalMinutes = 0;
+  let billableMinutes = 0;
+
+  const weekEntries = [...entries]
+    .sort((a, b) => a.timeEntry.startTime.getTime() - b.timeEntry.startTime.getTime())
+    .map(({ timeEntry, project, client }) => {
+      const date = getLocalDate(timeEntry.startTime, settings.timeZone);
+      const billable = timeEntry.billable ?? project.billable;
+      const minutes = timeEntry.isDraft ? 0 : timeEntry.durationMinutes ?? 0;
+
+      totalMinutes += minutes;
+      billableMinutes += billable ? minutes : 0;
+      days.set(date, (days.get(date) ?? 0) + minutes);
+
+      const projectTotal = projectTotals.get(project.id) ?? { projectId: project.id, projectName: project.name, clientName: client.name, minutes: 0 };
+      projectTotal.minutes += minutes;
+      projectTotals.set(project.id, projectTotal);
+
+      return {
+        id: timeEntry.id,
+        date,
+        startTime: timeEntry.startTime.toISOString(),
+        endTime: timeEntry.endTime?.toISOString() ?? null,
+        durationMinutes: timeEntry.durationMinutes,
+        description: timeEntry.description,
+        projectId: project.id,
+        projectName: project.name,
+        clientName: client.name,
+        tags: timeEntry.tags,
+        billable,
+        isActive: timeEntry.isActive,
+        isDraft: timeEntry.isDraft,
+      };
+    });
+
+  return {
+    uri: timesheetUri(weekStart),
+    weekStart: weekStart.toISOString().slice(0, 10),
+    weekEnd: new Date(weekEnd.getTime() - DAY_MS).toISOString().slice(0, 10),
+    timeZone: settings.timeZone,
+    status: timesheet?.status ?? 'draft',
+    reviewComment: timesheet?.reviewComment ?? null,
+    totalMinutes,
+    billableMinutes,
+    days: [...days].sort(([a], [b]) => a.localeCompare(b)).map(([date, minutes]) => ({ date, minutes })),
+    projects: [...projectTotals.values()].sort((a, b) => b.minutes - a.minutes),
+    entries: weekEntries,
+  };
+}
+
+export const clientsResource = {
+  name: "clients",
+  uri: "timetracker://clients",
+  title: "Clients and projects",
+  description: "Active clients with their active projects, each project linking to its timetracker://projects/{id} resource",
+  mimeType: "application/json",
+  read: async (userId: string): Promise<ReadResourceResult> => {
+    const [clientList, projectList] = await Promise.all([
+      clientService.listClients(userId),
+      projectService.listProjects(userId),
+    ]);
+
+    return jsonContents(clientsResource.uri, clientList.map(client => ({
+      id: client.id,
+      name: client.name,
+      description: client.description,
+      currency: client.currency,
+      projects: projectList
+        .filter(project => project.clientId === client.id)
+        .map(project => ({ id: project.id, name: project.name, uri: projectUri(project.id), billable: project.billable })),
+    })));
+  },
+};
+
+export const projectResource = {
+  name: "project",
+  uriTemplate: "timetracker://projects/{id}",
+  title: "Project",
+  description: "A project with its client, hourly rate, billability and current budget consumption",
+  mimeType: "application/json",
+  list: async (userId: string): Promise<ListResourcesResult> => {
+    const rows = await projectService.getProjectsWithClient(userId);
+
+    return {
+      resources: rows.map(({ project, client }) => ({
+        uri: projectUri(project.id),
+        name: `${project.name} (${client.name})`,
+        mimeType: projectResource.mimeType,
+      })),
+    };
+  },
+  read: async (uri: URL, variables: { id: string }, userId: string): Promise<ReadResourceResult> => {
+    const project = await projectService.getProject(userId, variables.id);
+    if (!project) {
+      throw new Error(`Project ${variables.id} not found`);
+    }
+
+    const [client, budgetStatus] = await Promise.all([
+      clientService.getClient(userId, project.clientId),
+      budgetService.getBudgetStatus(project.id),
+    ]);
+
+    return jsonContents(uri.href, {
+      ...project,
+      client: client ? { id: client.id, name: client.name, currency: client.currency } : null,
+      budget: budgetStatus ? summarizeBudget(budgetStatus) : null,
+    });
+  },
+};
+
+export const timesheetResource = {
+  name: "timesheet",
+  uriTemplate: "timetracker://timesheet/{week}",
+  title: "Weekly timesheet",
+  description: "Your time for a week: timesheet status, hours per day and per project, and every entry. The week is \"current\", \"previous\", any date in it (2024-03-06) or an ISO week (2024-W10).",
+  mimeType: "application/json",
+  list: async (userId: string, now: Date = new Date()): Promise<ListResourcesResult> => {
+    const submitted = await timesheetService.listTimesheets(userId);
+    const weekStarts = [getWeekStart(now), ...submitted.map(timesheet => timesheet.weekStart)];
+    const uris = [...new Set(weekStarts.map(timesheetUri))];
+
+    return {
+      resources: uris.map(uri => ({
+        uri,
+        name: `Timesheet for the week of ${uri.slice(uri.lastIndexOf('/') + 1)}`,
+        mimeType: timesheetResource.mimeType,
+      })),
+    };
+  },
+  read: async (uri: URL, variables: { week: string }, userId: string): Promise<ReadResourceResult> => {
+    return jsonContents(uri.href, await getTimesheetWeek(userId, variables.week));
+  },
+};
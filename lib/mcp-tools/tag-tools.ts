@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { TagService } from "../services/tags";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type Tag } from '../../drizzle/schema';
+
+const tagService = new TagService();
+
+type TagResponse = {
+  tag: Tag | null;
+}
+type TagsResponse = {
+  tags: Tag[] | null;
+}
+
+export const createTagTool = {
+  name: "create_tag",
+  description: "Create a tag for labelling time entries. Tag names are case-insensitive and stored lowercased.",
+  inputSchema: {
+    name: z.string().min(1, "Tag name is required"),
+    color: z.string().optional(),
+  },
+  outputSchema: {
+    tag: z.object({
+      id: z.string(),
+      name: z.string(),
+      color: z.string().nullable(),
+      userId: z.string(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { name: string; color?: string }, userId: string): Promise<McpResponse<TagResponse>> => {
+    try {
+      const tag = await tagService.createTag(userId, params);
+
+      return createStructuredMcpResponse(
+        `Tag created successfully:\n- ID: ${tag.id}\n- Name: ${tag.name}${tag.color ? `\n- Color: ${tag.color}` : ''}`,
+        { tag }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error creating tag: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listTagsTool = {
+  name: "list_tags",
+  description: "List all tags",
+  inputSchema: {} as Record<string, never>,
+  outputSchema: {
+    tags: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        color: z.string().nullable(),
+        userId: z.string(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+      })
+    ).nullable(),
+  },
+  handler: async (): Promise<McpResponse<TagsResponse>> => {
+    try {
+      const tags = await tagService.listTags();
+
+      if (tags.length === 0) {
+        return createStructuredMcpResponse("No tags found.", { tags: [] });
+      }
+
+      const tagList = tags
+        .map(tag => `- ${tag.name}${tag.color ? ` (${tag.color})` : ''} (ID: ${tag.id})`)
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Tags:\n${tagList}`,
+        { tags }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing tags: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const updateTagTool = {
+  name: "update_tag",
+  description: "Rename a tag or change its color. Renaming applies to every time entry carrying the tag.",
+  inputSchema: {
+    tagId: z.string().min(1, "Tag ID is required"),
+    name: z.string().optional(),
+    color: z.string().nullable().optional(),
+  },
+  outputSchema: {
+    tag: z.object({
+      id: z.string(),
+      name: z.string(),
+      color: z.string().nullable(),
+      userId: z.string(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { tagId: string; name?: string; color?: string | null }): Promise<McpResponse<TagResponse>> => {
+    try {
+      const { tagId, ...updateData } = params;
+      const tag = await tagService.updateTag(tagId, updateData);
+
+      if (!tag) {
+        return createMcpError("Tag not found.");
+      }
+
+      return createStructuredMcpResponse(
+        `Tag updated successfully:\n- ID: ${tag.id}\n- Name: ${tag.name}${tag.color ? `\n- Color: ${tag.color}` : ''}`,
+        { tag }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error updating tag: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const deleteTagTool = {
+  name: "delete_tag",
+  description: "Delete a tag and remove it from all time entries",
+  inputSchema: {
+    tagId: z.string().min(1, "Tag ID is required"),
+  },
+  outputSchema: {
+    success: z.boolean(),
+  },
+  handler: async (params: { tagId: string }): Promise<McpResponse<{ success: boolean }>> => {
+    try {
+      const success = await tagService.deleteTag(params.tagId);
+
+      if (!success) {
+        return createMcpError("Tag not found.");
+      }
+
+      return createStructuredMcpResponse("Tag deleted successfully.", { success });
+    } catch (error) {
+      return createMcpError(
+        `Error deleting tag: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
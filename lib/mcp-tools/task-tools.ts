@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { TaskService } from "../services/tasks";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type Task, type TaskStatus } from '../../drizzle/schema';
+
+const taskService = new TaskService();
+
+type TaskResponse = {
+  task: Task | null;
+}
+type TasksResponse = {
+  tasks: Task[] | null;
+}
+
+const formatTask = (task: Task) =>
+  `- ID: ${task.id}\n- Name: ${task.name}\n- Project ID: ${task.projectId}\n- Status: ${task.status}${task.estimateHours ? `\n- Estimate: ${task.estimateHours}h` : ''}${task.assigneeId ? `\n- Assignee: ${task.assigneeId}` : ''}`;
+
+export const createTaskTool = {
+  name: "create_task",
+  description: "Create a task within a project, with an optional estimate in hours and assignee. Time entries can then be booked against the task.",
+  inputSchema: {
+    projectId: z.string().min(1, "Project ID is required"),
+    name: z.string().min(1, "Task name is required"),
+    description: z.string().optional(),
+    estimateHours: z.number().positive().optional(),
+    assigneeId: z.string().optional(),
+  },
+  outputSchema: {
+    task: z.object({
+      id: z.string(),
+      projectId: z.string(),
+      name: z.string(),
+      description: z.string().nullable(),
+      estimateHours: z.string().nullable(),
+      status: z.enum(['open', 'in_progress', 'done']),
+      assigneeId: z.string().nullable(),
+      userId: z.string(),
+      closedAt: z.date().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { projectId: string; name: string; description?: string; estimateHours?: number; assigneeId?: string }, userId: string): Promise<McpResponse<TaskResponse>> => {
+    try {
+      const task = await taskService.createTask(userId, params);
+
+      return createStructuredMcpResponse(
+        `Task created successfully:\n${formatTask(task)}`,
+        { task }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error creating task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listTasksTool = {
+  name: "list_tasks",
+  description: "List tasks, optionally filtered by project, assignee or status. Done tasks are hidden unless includeDone is true or status is 'done'.",
+  inputSchema: {
+    projectId: z.string().optional(),
+    assigneeId: z.string().optional(),
+    status: z.enum(['open', 'in_progress', 'done']).optional(),
+    includeDone: z.boolean().optional(),
+  },
+  outputSchema: {
+    tasks: z.array(
+      z.object({
+        id: z.string(),
+        projectId: z.string(),
+        name: z.string(),
+        description: z.string().nullable(),
+        estimateHours: z.string().nullable(),
+        status: z.enum(['open', 'in_progress', 'done']),
+        assigneeId: z.string().nullable(),
+        userId: z.string(),
+        closedAt: z.date().nullable(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+      })
+    ).nullable(),
+  },
+  handler: async (params: { projectId?: string; assigneeId?: string; status?: TaskStatus; includeDone?: boolean }): Promise<McpResponse<TasksResponse>> => {
+    try {
+      const tasks = await taskService.listTasks(params);
+
+      if (tasks.length === 0) {
+        return createStructuredMcpResponse("No tasks found.", { tasks: [] });
+      }
+
+      const taskList = tasks
+        .map(task => `- ${task.name} [${task.status}]${task.estimateHours ? ` (${task.estimateHours}h estimated)` : ''} (ID: ${task.id})`)
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Tasks:\n${taskList}`,
+        { tasks }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing tasks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const closeTaskTool = {
+  name: "close_task",
+  description: "Mark a task as done. Closed tasks keep their tracked time but no new time can be booked against them.",
+  inputSchema: {
+    taskId: z.string().min(1, "Task ID is required"),
+  },
+  outputSchema: {
+    task: z.object({
+      id: z.string(),
+      projectId: z.string(),
+      name: z.string(),
+      description: z.string().nullable(),
+      estimateHours: z.string().nullable(),
+      status: z.enum(['open', 'in_progress', 'done']),
+      assigneeId: z.string().nullable(),
+      userId: z.string(),
+      closedAt: z.date().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { taskId: string }): Promise<McpResponse<TaskResponse>> => {
+    try {
+      const task = await taskService.closeTask(params.taskId);
+
+      if (!task) {
+        return createMcpError("Task not found.");
+      }
+
+      return createStructuredMcpResponse(
+        `Task closed successfully:\n${formatTask(task)}`,
+        { task }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error closing task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
@@ -1,22 +1,111 @@
 import { z } from "zod";
-import { TimeEntryService } from "../services/time-entries";
+import { TimeEntryService, getPausedMilliseconds, type TaggedTimeEntry, type OverlapCheck, type OverlappingPair, type SwitchResult } from "../services/time-entries";
+import { IdleTimerService, describeIdleCutoff } from "../services/idle-timers";
+import { RecentActivityService, type RecentActivity } from "../services/recent-activities";
+import { parseTimePhrase, type ParsedTimePhrase } from "../services/time-phrases";
+import { ProjectService } from "../services/projects";
+import { ClientService } from "../services/clients";
+import { UserSettingsService } from "../services/user-settings";
+import { NameResolver } from "../services/name-resolver";
 import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
-import { type TimeEntry } from '../../drizzle/schema';
+import { type TimeEntry, type OverlapPolicy } from '../../drizzle/schema';
 import { create } from "domain";
 
 
 const timeEntryService = new TimeEntryService();
+const idleTimerService = new IdleTimerService();
+const recentActivityService = new RecentActivityService();
+const projectService = new ProjectService();
+const clientService = new ClientService();
+const userSettingsService = new UserSettingsService();
+const nameResolver = new NameResolver();
 
 type TimeEntryResponse = {
   timeEntry: TimeEntry | null;
 }
+type TaggedTimeEntryResponse = {
+  timeEntry: TaggedTimeEntry | null;
+}
+type CheckedTimeEntryResponse = {
+  timeEntry: (TaggedTimeEntry & OverlapCheck) | null;
+}
+type ActiveTimeEntriesResponse = {
+  timeEntry: TimeEntry | null;
+  timeEntries: TimeEntry[];
+}
+type SwitchTimeEntryResponse = {
+  stopped: SwitchResult['stopped'] | null;
+  started: SwitchResult['started'] | null;
+}
+type OverlappingEntriesResponse = {
+  pairs: OverlappingPair[];
+}
+type LogTimeResponse = {
+  preview: ParsedTimePhrase;
+  timeEntry: (TaggedTimeEntry & OverlapCheck) | null;
+}
+type RecentActivitiesResponse = {
+  activities: RecentActivity[];
+}
+
+// Look back a month when no period is given
+const DEFAULT_OVERLAP_SCAN_DAYS = 30;
+
+const formatTags = (tags: string[]) => tags.length > 0 ? `\n- Tags: ${tags.join(', ')}` : '';
+const formatBillable = (billable: boolean | null) => billable === null ? '' : `\n- Billable: ${billable ? 'Yes' : 'No'}`;
+const formatTask = (taskId: string | null) => taskId ? `\n- Task ID: ${taskId}` : '';
+const formatEntryTimes = (entry: TimeEntry) => `${entry.startTime.toISOString()} - ${entry.endTime ? entry.endTime.toISOString() : 'running'}`;
+const formatOverlaps = ({ overlaps, trimmed }: OverlapCheck) => overlaps.length === 0 ? '' : trimmed
+  ? `\n- Trimmed to avoid overlapping: ${overlaps.map(entry => `"${entry.description}" (${formatEntryTimes(entry)})`).join(', ')}`
+  : `\n- Warning: overlaps ${overlaps.map(entry => `"${entry.description}" (${formatEntryTimes(entry)}, ID: ${entry.id})`).join(', ')}`;
+
+const overlapSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  projectId: z.string(),
+  description: z.string(),
+  startTime: z.date(),
+  endTime: z.date().nullable(),
+  durationMinutes: z.number().int().nullable(),
+  isActive: z.boolean(),
+  isPaused: z.boolean(),
+  billable: z.boolean().nullable(),
+  taskId: z.string().nullable(),
+  invoiceId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const overlapPolicySchema = z.enum(['reject', 'warn', 'trim']);
+
+// Elapsed and paused time of a running entry, plus a warning if it looks forgotten
+const describeActiveEntry = async (userId: string, activeEntry: TimeEntry, currentTime: Date) => {
+  const breaks = await timeEntryService.getTimeEntryBreaks(activeEntry.id);
+  const pausedMinutes = Math.round(getPausedMilliseconds(breaks, currentTime) / (1000 * 60));
+  const elapsedMinutes = Math.max(0, Math.round((currentTime.getTime() - activeEntry.startTime.getTime()) / (1000 * 60)) - pausedMinutes);
+  const hours = Math.floor(elapsedMinutes / 60);
+  const minutes = elapsedMinutes % 60;
+  const status = activeEntry.isPaused ? '\n- Status: PAUSED' : '';
+  const pausedInfo = pausedMinutes > 0 ? `\n- Paused Time: ${Math.floor(pausedMinutes / 60)}h ${pausedMinutes % 60}m (${pausedMinutes} minutes)` : '';
+  const idle = await idleTimerService.getIdleCutoff(userId, activeEntry, currentTime);
+  const idleWarning = idle
+    ? `\n\nWarning: this timer has been ${describeIdleCutoff(idle, idle.settings)} and may have been forgotten. Ask the user whether to stop it, or correct its times with update_time_entry after stopping it.`
+    : '';
+
+  return `- Entry ID: ${activeEntry.id}\n- Project ID: ${activeEntry.projectId}\n- Description: ${activeEntry.description}\n- Started at: ${activeEntry.startTime.toLocaleString()}\n- Elapsed Time: ${hours}h ${minutes}m (${elapsedMinutes} minutes)${status}${pausedInfo}${idleWarning}`;
+};
 
 export const startTimeTrackingTool = {
   name: "start_time_tracking",
-  description: "Start tracking time for a project",
+  description: "Start tracking time for a project, optionally on one of its tasks and tagging the entry (unknown tags are created). Give the project by projectId, or by projectName (matched loosely, optionally narrowed by clientName). Entries are billable if their project is, unless billable is given.",
   inputSchema: {
-    projectId: z.string().min(1, "Project ID is required"),
+    projectId: z.string().optional(),
+    projectName: z.string().optional(),
+    clientName: z.string().optional(),
     description: z.string().min(1, "Description is required"),
+    tags: z.array(z.string().min(1)).optional(),
+    billable: z.boolean().optional(),
+    taskId: z.string().optional(),
   },
   outputSchema: {
     timeEntry: z.object({
@@ -28,15 +117,25 @@ export const startTimeTrackingTool = {
       endTime: z.date().nullable(),
       durationMinutes: z.number().int().nullable(),
       isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      tags: z.array(z.string()),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
   },
-  handler: async (params: { projectId: string; description: string }, userId: string) : Promise<McpResponse<TimeEntryResponse>> => {
+  handler: async (params: { projectId?: string; projectName?: string; clientName?: string; description: string; tags?: string[]; billable?: boolean; taskId?: string }, userId: string) : Promise<McpResponse<TaggedTimeEntryResponse>> => {
     try {
-      const timeEntry = await timeEntryService.startTimeTracking(userId, params.projectId, params.description);
+      const projectId = await nameResolver.resolveProjectId(userId, params);
+      const timeEntry = await timeEntryService.startTimeTracking(userId, projectId, params.description, {
+        tags: params.tags,
+        billable: params.billable,
+        taskId: params.taskId,
+      });
       return createStructuredMcpResponse(
-        `Time tracking started successfully:\n- Entry ID: ${timeEntry.id}\n- Project ID: ${timeEntry.projectId}\n- Description: ${timeEntry.description}\n- Started at: ${timeEntry.startTime.toLocaleString()}`,
+        `Time tracking started successfully:\n- Entry ID: ${timeEntry.id}\n- Project ID: ${timeEntry.projectId}\n- Description: ${timeEntry.description}${formatTags(timeEntry.tags)}${formatBillable(timeEntry.billable)}${formatTask(timeEntry.taskId)}\n- Started at: ${timeEntry.startTime.toLocaleString()}`,
         { timeEntry }
       );
     } catch (error) {
@@ -49,7 +148,7 @@ export const startTimeTrackingTool = {
 
 export const stopTimeTrackingTool = {
   name: "stop_time_tracking",
-  description: "Stop the currently active time tracking",
+  description: "Stop the currently active time tracking. entryId is required when more than one timer is running (see get_active_time_entry).",
   inputSchema: {
     entryId: z.string().optional(),
   },
@@ -63,6 +162,10 @@ export const stopTimeTrackingTool = {
       endTime: z.date().nullable(),
       durationMinutes: z.number().int().nullable(),
       isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
@@ -90,9 +193,163 @@ export const stopTimeTrackingTool = {
   },
 };
 
+export const switchTimeTrackingTool = {
+  name: "switch_time_tracking",
+  description: "Switch to another task: stop the running timer and start a new one at the same instant, leaving no gap. Give the project (projectId, or projectName optionally narrowed by clientName) and description for the new entry (optionally tags, billable and taskId), or continuePrevious to restart the project and description of the last stopped entry. entryId picks the timer to stop when more than one is running.",
+  inputSchema: {
+    entryId: z.string().optional(),
+    projectId: z.string().optional(),
+    projectName: z.string().optional(),
+    clientName: z.string().optional(),
+    description: z.string().optional(),
+    continuePrevious: z.boolean().optional(),
+    tags: z.array(z.string().min(1)).optional(),
+    billable: z.boolean().optional(),
+    taskId: z.string().optional(),
+  },
+  outputSchema: {
+    stopped: z.object({
+      id: z.string(),
+      userId: z.string(),
+      projectId: z.string(),
+      description: z.string(),
+      startTime: z.date(),
+      endTime: z.date().nullable(),
+      durationMinutes: z.number().int().nullable(),
+      isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+    started: z.object({
+      id: z.string(),
+      userId: z.string(),
+      projectId: z.string(),
+      description: z.string(),
+      startTime: z.date(),
+      endTime: z.date().nullable(),
+      durationMinutes: z.number().int().nullable(),
+      isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      tags: z.array(z.string()),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { entryId?: string; projectId?: string; projectName?: string; clientName?: string; description?: string; continuePrevious?: boolean; tags?: string[]; billable?: boolean; taskId?: string }, userId: string): Promise<McpResponse<SwitchTimeEntryResponse>> => {
+    try {
+      const { projectName, clientName, ...switchParams } = params;
+      const projectId = params.continuePrevious ? undefined : await nameResolver.findProjectId(userId, { projectId: params.projectId, projectName, clientName });
+
+      if (!params.continuePrevious && (!projectId || !params.description)) {
+        return createMcpError("Give the project (projectId or projectName) and description for the new entry, or set continuePrevious to restart the last one.");
+      }
+
+      const { stopped, started } = await timeEntryService.switchTimeTracking(userId, { ...switchParams, projectId });
+      const hours = Math.floor(stopped.durationMinutes! / 60);
+      const minutes = stopped.durationMinutes! % 60;
+
+      return createStructuredMcpResponse(
+        `Switched time tracking at ${started.startTime.toLocaleString()}:\n- Stopped: ${stopped.description} (Entry ID: ${stopped.id}, ${hours}h ${minutes}m)\n- Started: ${started.description} (Entry ID: ${started.id})\n- Project ID: ${started.projectId}${formatTags(started.tags)}${formatBillable(started.billable)}${formatTask(started.taskId)}`,
+        { stopped, started }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error switching time tracking: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const pauseTimeTrackingTool = {
+  name: "pause_time_tracking",
+  description: "Pause the currently active time tracking without stopping it. Paused time is excluded from the entry's duration. entryId is required when more than one timer is running.",
+  inputSchema: {
+    entryId: z.string().optional(),
+  },
+  outputSchema: {
+    timeEntry: z.object({
+      id: z.string(),
+      userId: z.string(),
+      projectId: z.string(),
+      description: z.string(),
+      startTime: z.date(),
+      endTime: z.date().nullable(),
+      durationMinutes: z.number().int().nullable(),
+      isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { entryId?: string }, userId: string): Promise<McpResponse<TimeEntryResponse>> => {
+    try {
+      const timeEntry = await timeEntryService.pauseTimeTracking(userId, params.entryId);
+
+      return createStructuredMcpResponse(
+        `Time tracking paused:\n- Entry ID: ${timeEntry.id}\n- Description: ${timeEntry.description}\n- Paused at: ${timeEntry.updatedAt.toLocaleString()}\nUse resume_time_tracking to continue.`,
+        { timeEntry }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error pausing time tracking: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const resumeTimeTrackingTool = {
+  name: "resume_time_tracking",
+  description: "Resume a paused time tracking session. entryId is required when more than one timer is running.",
+  inputSchema: {
+    entryId: z.string().optional(),
+  },
+  outputSchema: {
+    timeEntry: z.object({
+      id: z.string(),
+      userId: z.string(),
+      projectId: z.string(),
+      description: z.string(),
+      startTime: z.date(),
+      endTime: z.date().nullable(),
+      durationMinutes: z.number().int().nullable(),
+      isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { entryId?: string }, userId: string): Promise<McpResponse<TimeEntryResponse>> => {
+    try {
+      const timeEntry = await timeEntryService.resumeTimeTracking(userId, params.entryId);
+
+      return createStructuredMcpResponse(
+        `Time tracking resumed:\n- Entry ID: ${timeEntry.id}\n- Description: ${timeEntry.description}\n- Resumed at: ${timeEntry.updatedAt.toLocaleString()}`,
+        { timeEntry }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error resuming time tracking: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
 export const getActiveTimeEntryTool = {
   name: "get_active_time_entry",
-  description: "Get the currently active time entry if any",
+  description: "Get the currently active time entries if any (users can opt in to running several timers at once). Warns when a timer has run past the user's idle limit or end of day and was probably forgotten.",
   inputSchema: {} as Record<string, never>,
   outputSchema: {
     timeEntry: z.object({
@@ -104,29 +361,54 @@ export const getActiveTimeEntryTool = {
       endTime: z.date().nullable(),
       durationMinutes: z.number().int().nullable(),
       isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
+    timeEntries: z.array(z.object({
+      id: z.string(),
+      userId: z.string(),
+      projectId: z.string(),
+      description: z.string(),
+      startTime: z.date(),
+      endTime: z.date().nullable(),
+      durationMinutes: z.number().int().nullable(),
+      isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    })),
   },
-  handler: async (params: Record<string, never>, userId: string) : Promise<McpResponse<TimeEntryResponse>> => {
+  handler: async (params: Record<string, never>, userId: string) : Promise<McpResponse<ActiveTimeEntriesResponse>> => {
     try {
-      const activeEntry = await timeEntryService.getActiveTimeEntry(userId);
+      const activeEntries = await timeEntryService.getActiveTimeEntries(userId);
       
-      if (!activeEntry) {
+      if (activeEntries.length === 0) {
         return createStructuredMcpResponse(
           "No active time tracking session found.",
-          { timeEntry: null }
+          { timeEntry: null, timeEntries: [] }
         );
       }
 
       const currentTime = new Date();
-      const elapsedMinutes = Math.round((currentTime.getTime() - activeEntry.startTime.getTime()) / (1000 * 60));
-      const hours = Math.floor(elapsedMinutes / 60);
-      const minutes = elapsedMinutes % 60;
+      const descriptions = [];
+      for (const activeEntry of activeEntries) {
+        descriptions.push(await describeActiveEntry(userId, activeEntry, currentTime));
+      }
+
+      const text = activeEntries.length === 1
+        ? `Active time entry found:\n${descriptions[0]}`
+        : `${activeEntries.length} active time entries found. Pass entryId to stop, pause or resume one of them:\n\n${descriptions.join('\n\n')}`;
 
       return createStructuredMcpResponse(
-        `Active time entry found:\n- Entry ID: ${activeEntry.id}\n- Project ID: ${activeEntry.projectId}\n- Description: ${activeEntry.description}\n- Started at: ${activeEntry.startTime.toLocaleString()}\n- Elapsed Time: ${hours}h ${minutes}m (${elapsedMinutes} minutes)`,
-        { timeEntry: activeEntry }
+        text,
+        { timeEntry: activeEntries[0], timeEntries: activeEntries }
       );
     } catch (error) {
       return createMcpError(
@@ -138,12 +420,18 @@ export const getActiveTimeEntryTool = {
 
 export const addManualTimeEntryTool = {
   name: "add_manual_time_entry",
-  description: "Add a manual time entry for completed work",
+  description: "Add a manual time entry for completed work, optionally on one of the project's tasks and tagging it (unknown tags are created). Give the project by projectId, or by projectName (matched loosely, optionally narrowed by clientName). Entries are billable if their project is, unless billable is given. Times overlapping existing entries follow your overlap policy unless overlapPolicy is given: reject refuses them, warn saves and reports the overlaps, trim shortens the entry to the longest free part.",
   inputSchema: {
-    projectId: z.string().min(1, "Project ID is required"),
+    projectId: z.string().optional(),
+    projectName: z.string().optional(),
+    clientName: z.string().optional(),
     description: z.string().min(1, "Description is required"),
     startTime: z.string().datetime("Start time must be a valid ISO datetime"),
     endTime: z.string().datetime("End time must be a valid ISO datetime"),
+    tags: z.array(z.string().min(1)).optional(),
+    billable: z.boolean().optional(),
+    taskId: z.string().optional(),
+    overlapPolicy: overlapPolicySchema.optional(),
   },
   outputSchema: {
     timeEntry: z.object({
@@ -155,28 +443,37 @@ export const addManualTimeEntryTool = {
       endTime: z.date().nullable(),
       durationMinutes: z.number().int().nullable(),
       isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      tags: z.array(z.string()),
+      overlaps: z.array(overlapSchema),
+      trimmed: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
   },
-  handler: async (params: { projectId: string; description: string; startTime: string; endTime: string }, userId: string) : Promise<McpResponse<TimeEntryResponse>> => {
+  handler: async (params: { projectId?: string; projectName?: string; clientName?: string; description: string; startTime: string; endTime: string; tags?: string[]; billable?: boolean; taskId?: string; overlapPolicy?: OverlapPolicy }, userId: string) : Promise<McpResponse<CheckedTimeEntryResponse>> => {
     try {
       const startTime = new Date(params.startTime);
       const endTime = new Date(params.endTime);
+      const projectId = await nameResolver.resolveProjectId(userId, params);
       
       const timeEntry = await timeEntryService.addManualTimeEntry(
         userId, 
-        params.projectId, 
+        projectId, 
         params.description, 
         startTime, 
-        endTime
+        endTime,
+        { tags: params.tags, billable: params.billable, taskId: params.taskId, overlapPolicy: params.overlapPolicy }
       );
 
       const hours = Math.floor(timeEntry.durationMinutes! / 60);
       const minutes = timeEntry.durationMinutes! % 60;
 
       return createStructuredMcpResponse(
-        `Manual time entry added successfully:\n- Entry ID: ${timeEntry.id}\n- Project ID: ${timeEntry.projectId}\n- Description: ${timeEntry.description}\n- Duration: ${hours}h ${minutes}m (${timeEntry.durationMinutes} minutes)\n- Started: ${timeEntry.startTime.toLocaleString()}\n- Ended: ${timeEntry.endTime!.toLocaleString()}`,
+        `Manual time entry added successfully:\n- Entry ID: ${timeEntry.id}\n- Project ID: ${timeEntry.projectId}\n- Description: ${timeEntry.description}${formatTags(timeEntry.tags)}${formatBillable(timeEntry.billable)}${formatTask(timeEntry.taskId)}\n- Duration: ${hours}h ${minutes}m (${timeEntry.durationMinutes} minutes)\n- Started: ${timeEntry.startTime.toLocaleString()}\n- Ended: ${timeEntry.endTime!.toLocaleString()}${formatOverlaps(timeEntry)}`,
         { timeEntry }
       );
     } catch (error) {
@@ -187,14 +484,116 @@ export const addManualTimeEntryTool = {
   },
 };
 
+export const logTimeTool = {
+  name: "log_time",
+  description: "Log completed work from a plain-language phrase such as \"2h on Acme website yesterday afternoon fixing login\" instead of ISO times and IDs. Understands durations (2h, 1h30, 90 min, half an hour), days (today, yesterday, 3 days ago, last friday, march 4, 2024-03-04), time ranges (9-11:30, from 2pm to 4pm), start times (at 14:00), parts of the day (morning, afternoon, evening) and project or client names; the rest becomes the description. Times are read in your time zone setting, and hours 1-6 without am/pm as afternoon. Returns a preview by default; check it, then call again with commit true to save. Pass projectId when the project is ambiguous or not named.",
+  inputSchema: {
+    text: z.string().min(1, "Text is required"),
+    projectId: z.string().optional(),
+    commit: z.boolean().optional(),
+    tags: z.array(z.string().min(1)).optional(),
+    billable: z.boolean().optional(),
+    overlapPolicy: overlapPolicySchema.optional(),
+  },
+  outputSchema: {
+    preview: z.object({
+      startTime: z.date(),
+      endTime: z.date(),
+      durationMinutes: z.number(),
+      description: z.string(),
+      project: z.object({
+        id: z.string(),
+        name: z.string(),
+        clientName: z.string().nullable(),
+      }).nullable(),
+      projectCandidates: z.array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          clientName: z.string().nullable(),
+        })
+      ),
+      interpretation: z.array(z.string()),
+      warnings: z.array(z.string()),
+    }),
+    timeEntry: addManualTimeEntryTool.outputSchema.timeEntry,
+  },
+  handler: async (params: { text: string; projectId?: string; commit?: boolean; tags?: string[]; billable?: boolean; overlapPolicy?: OverlapPolicy }, userId: string): Promise<McpResponse<LogTimeResponse>> => {
+    try {
+      const [projectList, clientList, settings] = await Promise.all([
+        projectService.listProjects(userId),
+        clientService.listClients(userId, false),
+        userSettingsService.getSettings(userId),
+      ]);
+      const clientNames = new Map(clientList.map(client => [client.id, client.name]));
+      const candidates = projectList
+        .filter(project => project.userId === userId)
+        .map(project => ({ id: project.id, name: project.name, clientName: clientNames.get(project.clientId) ?? null }));
+
+      const parsed = parseTimePhrase(params.text, candidates, { timeZone: settings.timeZone });
+
+      if (params.projectId) {
+        const project = candidates.find(candidate => candidate.id === params.projectId);
+        if (!project) {
+          return createMcpError("Project not found or does not belong to user");
+        }
+        parsed.project = project;
+        parsed.warnings = parsed.warnings.filter(warning => !warning.startsWith('Several projects match') && warning !== 'No project name found');
+      }
+
+      const project = parsed.project;
+      const candidateList = parsed.projectCandidates.map(candidate => `${candidate.name}${candidate.clientName ? ` (${candidate.clientName})` : ''} (ID: ${candidate.id})`).join(', ');
+      const summary = `- Project: ${project ? `${project.name}${project.clientName ? ` (${project.clientName})` : ''}` : candidateList ? `ambiguous, one of ${candidateList}` : 'not found'}\n- Description: ${parsed.description || '(none)'}\n- Time: ${parsed.startTime.toISOString()} - ${parsed.endTime.toISOString()} (${parsed.durationMinutes} minutes)\n- Read as: ${parsed.interpretation.join('; ') || 'nothing beyond the duration'}${parsed.warnings.length > 0 ? `\n- Warnings: ${parsed.warnings.join('; ')}` : ''}`;
+
+      if (!params.commit) {
+        return createStructuredMcpResponse(
+          `Time entry preview (not saved yet):\n${summary}\n\nCall log_time again with commit true${project ? '' : ' and a projectId'}${parsed.description ? '' : ' and a description in the text'} to save it.`,
+          { preview: parsed, timeEntry: null }
+        );
+      }
+
+      if (!project) {
+        return createMcpError(
+          `Could not tell which project to log to${candidateList ? `; it could be ${candidateList}` : ''}. Pass projectId.`
+        );
+      }
+
+      if (!parsed.description) {
+        return createMcpError("Could not find a description in the text. Say what the time was spent on.");
+      }
+
+      const timeEntry = await timeEntryService.addManualTimeEntry(
+        userId,
+        project.id,
+        parsed.description,
+        parsed.startTime,
+        parsed.endTime,
+        { tags: params.tags, billable: params.billable, overlapPolicy: params.overlapPolicy }
+      );
+
+      return createStructuredMcpResponse(
+        `Time logged successfully:\n- Entry ID: ${timeEntry.id}\n${summary}${formatTags(timeEntry.tags)}${formatBillable(timeEntry.billable)}${formatOverlaps(timeEntry)}`,
+        { preview: parsed, timeEntry }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error logging time: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
 export const updateTimeEntryTool = {
   name: "update_time_entry",
-  description: "Update an existing time entry",
+  description: "Update an existing time entry. Set billable to true or false to override the project's default, or null to follow it again. Set taskId to book the entry against a task in its project, or null to clear it. New times overlapping other entries follow your overlap policy unless overlapPolicy is given (reject, warn or trim).",
   inputSchema: {
     entryId: z.string().min(1, "Entry ID is required"),
     description: z.string().optional(),
     startTime: z.string().datetime().optional(),
     endTime: z.string().datetime().optional(),
+    billable: z.boolean().nullable().optional(),
+    taskId: z.string().nullable().optional(),
+    overlapPolicy: overlapPolicySchema.optional(),
   },
   outputSchema: {
     timeEntry: z.object({
@@ -206,20 +605,26 @@ export const updateTimeEntryTool = {
       endTime: z.date().nullable(),
       durationMinutes: z.number().int().nullable(),
       isActive: z.boolean(),
+      isPaused: z.boolean(),
+      billable: z.boolean().nullable(),
+      taskId: z.string().nullable(),
+      invoiceId: z.string().nullable(),
+      overlaps: z.array(overlapSchema),
+      trimmed: z.boolean(),
       createdAt: z.date(),
       updatedAt: z.date(),
     }).nullable(),
   },
-  handler: async (params: { entryId: string; description?: string; startTime?: string; endTime?: string }, userId: string) => {
+  handler: async (params: { entryId: string; description?: string; startTime?: string; endTime?: string; billable?: boolean | null; taskId?: string | null; overlapPolicy?: OverlapPolicy }, userId: string) => {
     try {
-      const { entryId, ...updateData } = params;
+      const { entryId, overlapPolicy, ...updateData } = params;
       
       // Convert string dates to Date objects
       const processedData: Record<string, unknown> = { ...updateData };
       if (updateData.startTime) processedData.startTime = new Date(updateData.startTime);
       if (updateData.endTime) processedData.endTime = new Date(updateData.endTime);
       
-      const timeEntry = await timeEntryService.updateTimeEntry(userId, entryId, processedData);
+      const timeEntry = await timeEntryService.updateTimeEntry(userId, entryId, processedData, { overlapPolicy });
       
       if (!timeEntry) {
         return createMcpError("Time entry not found, or does not belong to you.");
@@ -229,7 +634,7 @@ export const updateTimeEntryTool = {
       const minutes = timeEntry.durationMinutes ? timeEntry.durationMinutes % 60 : 0;
 
       return createStructuredMcpResponse(
-        `Time entry updated successfully:\n- Entry ID: ${timeEntry.id}\n- Description: ${timeEntry.description}\n- Duration: ${hours}h ${minutes}m (${timeEntry.durationMinutes || 0} minutes)\n- Started: ${timeEntry.startTime.toLocaleString()}\n- Ended: ${timeEntry.endTime ? timeEntry.endTime.toLocaleString() : 'Still active'}`,
+        `Time entry updated successfully:\n- Entry ID: ${timeEntry.id}\n- Description: ${timeEntry.description}\n- Duration: ${hours}h ${minutes}m (${timeEntry.durationMinutes || 0} minutes)\n- Started: ${timeEntry.startTime.toLocaleString()}\n- Ended: ${timeEntry.endTime ? timeEntry.endTime.toLocaleString() : 'Still active'}${formatBillable(timeEntry.billable)}${formatTask(timeEntry.taskId)}${formatOverlaps(timeEntry)}`,
         { timeEntry }
       );
     } catch (error) {
@@ -238,4 +643,103 @@ export const updateTimeEntryTool = {
       );
     }
   },
-};
\ No newline at end of file
+};
+
+export const findOverlappingEntriesTool = {
+  name: "find_overlapping_entries",
+  description: "Find your time entries that overlap each other (double-booked time) in a period, by default the last 30 days. Fix them with update_time_entry or delete_time_entry.",
+  inputSchema: {
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+  },
+  outputSchema: {
+    pairs: z.array(
+      z.object({
+        entry: overlapSchema,
+        overlapsWith: overlapSchema,
+        overlapMinutes: z.number(),
+      })
+    ),
+  },
+  handler: async (params: { startDate?: string; endDate?: string }, userId: string): Promise<McpResponse<OverlappingEntriesResponse>> => {
+    try {
+      const endDate = params.endDate ? new Date(params.endDate) : new Date();
+      const startDate = params.startDate
+        ? new Date(params.startDate)
+        : new Date(endDate.getTime() - DEFAULT_OVERLAP_SCAN_DAYS * 24 * 60 * 60 * 1000);
+
+      if (endDate <= startDate) {
+        return createMcpError("End date must be after start date");
+      }
+
+      const pairs = await timeEntryService.findOverlappingPairs(userId, startDate, endDate);
+
+      if (pairs.length === 0) {
+        return createStructuredMcpResponse(
+          `No overlapping time entries between ${startDate.toISOString()} and ${endDate.toISOString()}.`,
+          { pairs }
+        );
+      }
+
+      const pairList = pairs
+        .map(pair => `- "${pair.entry.description}" (${formatEntryTimes(pair.entry)}, ID: ${pair.entry.id}) overlaps "${pair.overlapsWith.description}" (${formatEntryTimes(pair.overlapsWith)}, ID: ${pair.overlapsWith.id}) by ${pair.overlapMinutes} minutes`)
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Found ${pairs.length} overlapping pair(s) of time entries:\n${pairList}`,
+        { pairs }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error finding overlapping entries: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listRecentActivitiesTool = {
+  name: "list_recent_activities",
+  description: "List what you have been working on recently as project and description pairs, ranked by how often and how recently they were used (favourites are the most frequent). Use it to resume earlier work, e.g. \"what I was doing yesterday\", by passing a pair to start_time_tracking or switch_time_tracking.",
+  inputSchema: {
+    days: z.number().int().min(1).max(365).optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+  },
+  outputSchema: {
+    activities: z.array(
+      z.object({
+        projectId: z.string(),
+        projectName: z.string(),
+        clientName: z.string(),
+        description: z.string(),
+        lastUsedAt: z.date(),
+        useCount: z.number(),
+        totalMinutes: z.number(),
+        favourite: z.boolean(),
+        score: z.number(),
+      })
+    ),
+  },
+  handler: async (params: { days?: number; limit?: number }, userId: string): Promise<McpResponse<RecentActivitiesResponse>> => {
+    try {
+      const days = params.days ?? 30;
+      const activities = await recentActivityService.getRecentActivities(userId, { days, limit: params.limit });
+
+      if (activities.length === 0) {
+        return createStructuredMcpResponse(`No time tracked in the last ${days} days.`, { activities });
+      }
+
+      const activityList = activities
+        .map(activity => `- ${activity.favourite ? '[favourite] ' : ''}"${activity.description}" on ${activity.projectName} (${activity.clientName}), last ${activity.lastUsedAt.toISOString()}, ${activity.useCount} entries, ${(activity.totalMinutes / 60).toFixed(1)}h (Project ID: ${activity.projectId})`)
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Recent activities from the last ${days} days:\n${activityList}`,
+        { activities }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing recent activities: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
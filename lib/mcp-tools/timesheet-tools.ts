@@ -0,0 +1,187 @@
+import { z } from "zod";
+import { TimesheetService } from "../services/timesheets";
+import { createMcpError, createStructuredMcpResponse, McpResponse } from "./utils";
+import { type Timesheet } from '../../drizzle/schema';
+import { type AuthorizationContext } from "../authorization";
+
+const timesheetService = new TimesheetService();
+
+type TimesheetResponse = {
+  timesheet: Timesheet | null;
+}
+type PendingTimesheetsResponse = {
+  timesheets: (Timesheet & { userName: string | null; userEmail: string | null })[];
+}
+
+const formatWeek = (weekStart: Date) => weekStart.toISOString().split('T')[0];
+const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+export const submitTimesheetTool = {
+  name: "submit_timesheet",
+  description: "Submit your weekly timesheet for approval. Entries in a submitted or approved week can no longer be changed.",
+  inputSchema: {
+    weekOf: z.string().datetime().optional(), // Any date within the week; defaults to the current week
+  },
+  outputSchema: {
+    timesheet: z.object({
+      id: z.string(),
+      userId: z.string(),
+      weekStart: z.date(),
+      status: z.enum(['draft', 'submitted', 'approved', 'rejected']),
+      totalMinutes: z.number().int(),
+      submittedAt: z.date().nullable(),
+      reviewedBy: z.string().nullable(),
+      reviewedAt: z.date().nullable(),
+      reviewComment: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { weekOf?: string }, userId: string): Promise<McpResponse<TimesheetResponse>> => {
+    try {
+      const timesheet = await timesheetService.submitTimesheet(
+        userId,
+        params.weekOf ? new Date(params.weekOf) : new Date()
+      );
+
+      return createStructuredMcpResponse(
+        `Timesheet submitted for approval:\n- Timesheet ID: ${timesheet.id}\n- Week of: ${formatWeek(timesheet.weekStart)}\n- Total Time: ${formatMinutes(timesheet.totalMinutes)}\n- Status: ${timesheet.status}`,
+        { timesheet }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error submitting timesheet: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const approveTimesheetTool = {
+  name: "approve_timesheet",
+  description: "Approve a submitted timesheet (managers for direct reports, HR and admins for anyone)",
+  inputSchema: {
+    timesheetId: z.string().min(1, "Timesheet ID is required"),
+    comment: z.string().optional(),
+  },
+  outputSchema: {
+    timesheet: z.object({
+      id: z.string(),
+      userId: z.string(),
+      weekStart: z.date(),
+      status: z.enum(['draft', 'submitted', 'approved', 'rejected']),
+      totalMinutes: z.number().int(),
+      submittedAt: z.date().nullable(),
+      reviewedBy: z.string().nullable(),
+      reviewedAt: z.date().nullable(),
+      reviewComment: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { timesheetId: string; comment?: string }, userId: string, context: AuthorizationContext): Promise<McpResponse<TimesheetResponse>> => {
+    try {
+      const timesheet = await timesheetService.reviewTimesheet(context, params.timesheetId, 'approved', params.comment);
+
+      return createStructuredMcpResponse(
+        `Timesheet approved:\n- Timesheet ID: ${timesheet.id}\n- User ID: ${timesheet.userId}\n- Week of: ${formatWeek(timesheet.weekStart)}\n- Total Time: ${formatMinutes(timesheet.totalMinutes)}\n- Comment: ${timesheet.reviewComment || 'None'}`,
+        { timesheet }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error approving timesheet: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const rejectTimesheetTool = {
+  name: "reject_timesheet",
+  description: "Reject a submitted timesheet with a comment, unlocking its entries so the user can correct and resubmit them",
+  inputSchema: {
+    timesheetId: z.string().min(1, "Timesheet ID is required"),
+    comment: z.string().min(1, "A comment is required when rejecting a timesheet"),
+  },
+  outputSchema: {
+    timesheet: z.object({
+      id: z.string(),
+      userId: z.string(),
+      weekStart: z.date(),
+      status: z.enum(['draft', 'submitted', 'approved', 'rejected']),
+      totalMinutes: z.number().int(),
+      submittedAt: z.date().nullable(),
+      reviewedBy: z.string().nullable(),
+      reviewedAt: z.date().nullable(),
+      reviewComment: z.string().nullable(),
+      createdAt: z.date(),
+      updatedAt: z.date(),
+    }).nullable(),
+  },
+  handler: async (params: { timesheetId: string; comment: string }, userId: string, context: AuthorizationContext): Promise<McpResponse<TimesheetResponse>> => {
+    try {
+      const timesheet = await timesheetService.reviewTimesheet(context, params.timesheetId, 'rejected', params.comment);
+
+      return createStructuredMcpResponse(
+        `Timesheet rejected:\n- Timesheet ID: ${timesheet.id}\n- User ID: ${timesheet.userId}\n- Week of: ${formatWeek(timesheet.weekStart)}\n- Comment: ${timesheet.reviewComment}`,
+        { timesheet }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error rejecting timesheet: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
+
+export const listPendingTimesheetsTool = {
+  name: "list_pending_timesheets",
+  description: "List submitted timesheets awaiting your approval",
+  inputSchema: {},
+  outputSchema: {
+    timesheets: z.array(
+      z.object({
+        id: z.string(),
+        userId: z.string(),
+        weekStart: z.date(),
+        status: z.enum(['draft', 'submitted', 'approved', 'rejected']),
+        totalMinutes: z.number().int(),
+        submittedAt: z.date().nullable(),
+        reviewedBy: z.string().nullable(),
+        reviewedAt: z.date().nullable(),
+        reviewComment: z.string().nullable(),
+        createdAt: z.date(),
+        updatedAt: z.date(),
+        userName: z.string().nullable(),
+        userEmail: z.string().nullable(),
+      })
+    ),
+  },
+  handler: async (params: Record<string, never>, userId: string, context: AuthorizationContext): Promise<McpResponse<PendingTimesheetsResponse>> => {
+    try {
+      const pending = await timesheetService.listPendingTimesheets(context);
+      const timesheets = pending.map(({ timesheet, userName, userEmail }) => ({
+        ...timesheet,
+        userName,
+        userEmail,
+      }));
+
+      if (timesheets.length === 0) {
+        return createStructuredMcpResponse("No timesheets are awaiting your approval.", { timesheets });
+      }
+
+      const timesheetList = timesheets
+        .map(timesheet =>
+          `- ${timesheet.userName || timesheet.userEmail || timesheet.userId}: week of ${formatWeek(timesheet.weekStart)}, ${formatMinutes(timesheet.totalMinutes)} (ID: ${timesheet.id})`
+        )
+        .join('\n');
+
+      return createStructuredMcpResponse(
+        `Timesheets awaiting approval (${timesheets.length}):\n${timesheetList}`,
+        { timesheets }
+      );
+    } catch (error) {
+      return createMcpError(
+        `Error listing pending timesheets: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+};
@@ -0,0 +1,172 @@
+import { db } from '../../drizzle/connection';
+import { apiKeys, user as userTable } from '../../drizzle/schema';
+import { and, desc, eq, gt, isNull, or, count } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { createHash, randomBytes } from 'crypto';
+import { ApiScope } from '../authorization';
+
+// Personal keys start with this so they can be told apart from OAuth bearer tokens
+export const API_KEY_PREFIX = 'tt_';
+
+export const MAX_API_KEYS_PER_USER = 20;
+
+const API_SCOPES = Object.values(ApiScope);
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * The user an API key authenticates. The role is the user's own only if the key has the team
+ * scope; otherwise the key acts as a regular user.
+ */
+export interface ApiKeyOwner {
+  keyId: string;
+  userId: string;
+  role: string | null;
+  email: string;
+  name: string;
+  scopes: ApiScope[];
+}
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+const toSummary = (apiKey: typeof apiKeys.$inferSelect): ApiKeySummary => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  keyPrefix: apiKey.keyPrefix,
+  scopes: parseApiScopes(apiKey.scopes) ?? [],
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+});
+
+/**
+ * Validates a list of scope names, returning them without duplicates, or null if any is unknown
+ */
+export function parseApiScopes(scopes: unknown): ApiScope[] | null {
+  if (!Array.isArray(scopes) || !scopes.every(scope => API_SCOPES.includes(scope))) {
+    return null;
+  }
+
+  return API_SCOPES.filter(scope => scopes.includes(scope));
+}
+
+/**
+ * A personal API key sent in the x-api-key header or as a bearer token, or null if there's none
+ */
+export function getApiKeyFromHeaders(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  const key = headers.get('x-api-key')
+    ?? (authorization?.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : null);
+
+  return key?.startsWith(API_KEY_PREFIX) ? key : null;
+}
+
+/**
+ * The scope a REST request needs: reading for safe methods, writing for everything else
+ */
+export function getRequiredScope(method: string): ApiScope {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? ApiScope.READ : ApiScope.WRITE;
+}
+
+export class ApiKeyService {
+
+  async listKeys(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+
+    return keys.map(toSummary);
+  }
+
+  /**
+   * Issues a new key. Only the hash is stored, so the returned key can't be retrieved again.
+   */
+  async createKey(
+    userId: string,
+    data: { name: string; scopes: ApiScope[]; expiresAt: Date | null }
+  ): Promise<{ key: string; apiKey: ApiKeySummary }> {
+    const [{ keyCount }] = await db
+      .select({ keyCount: count() })
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId));
+
+    if (keyCount >= MAX_API_KEYS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_API_KEYS_PER_USER} API keys; revoke one first`);
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({
+        id: nanoid(),
+        userId,
+        name: data.name,
+        keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        keyHash: hashKey(key),
+        scopes: data.scopes,
+        expiresAt: data.expiresAt,
+      })
+      .returning();
+
+    return { key, apiKey: toSummary(apiKey) };
+  }
+
+  async revokeKey(userId: string, keyId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(apiKeys)
+      .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)))
+      .returning({ id: apiKeys.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * The owner of an API key, or null when it's unknown, revoked, expired or its user is gone.
+   * Records the key as used.
+   */
+  async authenticate(key: string, now: Date = new Date()): Promise<ApiKeyOwner | null> {
+    const [row] = await db
+      .select({
+        keyId: apiKeys.id,
+        scopes: apiKeys.scopes,
+        userId: userTable.id,
+        role: userTable.role,
+        email: userTable.email,
+        name: userTable.name,
+      })
+      .from(apiKeys)
+      .innerJoin(userTable, eq(apiKeys.userId, userTable.id))
+      .where(and(
+        eq(apiKeys.keyHash, hashKey(key)),
+        or(isNull(apiKeys.expiresAt), gt(apiKeys.expiresAt, now))
+      ))
+      .limit(1);
+
+    if (!row) {
+      return null;
+    }
+
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: now })
+      .where(eq(apiKeys.id, row.keyId));
+
+    const scopes = parseApiScopes(row.scopes) ?? [];
+
+    return {
+      ...row,
+      role: scopes.includes(ApiScope.TEAM) ? row.role : null,
+      scopes,
+    };
+  }
+}
@@ -0,0 +1,294 @@
+import { db } from '../../drizzle/connection';
+import {
+  projectBudgets,
+  budgetAlerts,
+  projects,
+  timeEntries,
+  type Project,
+  type ProjectBudget,
+  type BudgetType,
+  type BudgetPeriod,
+} from '../../drizzle/schema';
+import { eq, and, gte, lt, isNotNull, inArray } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { RateCardService, RATE_EPOCH } from './rate-cards';
+import { ExchangeRateService, formatMoney } from './currency';
+import { NotificationService } from './notifications';
+
+const rateCardService = new RateCardService();
+const exchangeRateService = new ExchangeRateService();
+const notificationService = new NotificationService();
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+export interface BudgetInput {
+  type: BudgetType;
+  period?: BudgetPeriod;
+  /** Hours, or money in the project's currency */
+  amount: number;
+  /** Percentages of the budget that trigger an alert */
+  alertThresholds?: number[];
+}
+
+export interface BudgetStatus {
+  budget: ProjectBudget;
+  projectName: string;
+  /** "hours" for hour budgets, otherwise the project's currency */
+  unit: string;
+  periodStart: Date;
+  /** Exclusive; null for total budgets */
+  periodEnd: Date | null;
+  amount: number;
+  consumed: number;
+  /** Negative once over budget */
+  remaining: number;
+  percentUsed: number;
+  /** Alert thresholds that consumption has reached */
+  reachedThresholds: number[];
+  /** Currencies without an exchange rate into the project's currency; that time is not counted */
+  missingRates: string[];
+}
+
+/**
+ * The part of a budget status shown alongside a project
+ */
+export interface BudgetSummary {
+  type: BudgetType;
+  period: BudgetPeriod;
+  unit: string;
+  amount: number;
+  consumed: number;
+  remaining: number;
+  percentUsed: number;
+}
+
+export function summarizeBudget(status: BudgetStatus): BudgetSummary {
+  return {
+    type: status.budget.type,
+    period: status.budget.period,
+    unit: status.unit,
+    amount: status.amount,
+    consumed: status.consumed,
+    remaining: status.remaining,
+    percentUsed: status.percentUsed,
+  };
+}
+
+/**
+ * The budget period containing `at`: the calendar month (UTC) for monthly budgets,
+ * all time for total budgets
+ */
+export function getBudgetPeriod(period: BudgetPeriod, at: Date = new Date()): { start: Date; end: Date | null } {
+  if (period === 'total') {
+    return { start: RATE_EPOCH, end: null };
+  }
+
+  return {
+    start: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Validates alert thresholds and returns them sorted without duplicates
+ */
+export function normalizeAlertThresholds(thresholds: number[]): number[] {
+  thresholds.forEach(threshold => {
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > 1000) {
+      throw new Error(`Invalid alert threshold: ${threshold}. Use whole percentages between 1 and 1000`);
+    }
+  });
+
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+export function formatBudgetAmount(value: number, unit: string): string {
+  return unit === 'hours' ? `${value.toFixed(2)}h` : formatMoney(value, unit);
+}
+
+export class BudgetService {
+
+  async setBudget(userId: string, projectId: string, input: BudgetInput): Promise<ProjectBudget> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    if (!(input.amount > 0)) {
+      throw new Error('Budget amount must be positive');
+    }
+
+    const values = {
+      type: input.type,
+      period: input.period ?? 'total',
+      amount: input.amount.toFixed(2),
+      alertThresholds: normalizeAlertThresholds(input.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS),
+      userId,
+      updatedAt: new Date(),
+    };
+
+    // A changed budget starts its alerts afresh
+    const [budget] = await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(projectBudgets).where(eq(projectBudgets.projectId, projectId)).limit(1);
+
+      if (existing) {
+        await tx.delete(budgetAlerts).where(eq(budgetAlerts.budgetId, existing.id));
+        return tx.update(projectBudgets).set(values).where(eq(projectBudgets.id, existing.id)).returning();
+      }
+
+      return tx
+        .insert(projectBudgets)
+        .values({ id: nanoid(), projectId, ...values, createdAt: new Date() })
+        .returning();
+    });
+
+    return budget;
+  }
+
+  async getBudget(projectId: string): Promise<ProjectBudget | null> {
+    const [budget] = await db.select().from(projectBudgets).where(eq(projectBudgets.projectId, projectId)).limit(1);
+    return budget || null;
+  }
+
+  async removeBudget(projectId: string): Promise<boolean> {
+    const result = await db.delete(projectBudgets).where(eq(projectBudgets.projectId, projectId));
+    return result.rowCount! > 0;
+  }
+
+  async getBudgetStatus(projectId: string, at: Date = new Date()): Promise<BudgetStatus | null> {
+    const statuses = await this.getBudgetStatuses([projectId], at);
+    return statuses.get(projectId) ?? null;
+  }
+
+  /**
+   * Budget consumption for the given projects (all budgeted projects when omitted), keyed by
+   * project ID. Consumption covers every user's completed time in the current budget period;
+   * money budgets price billable time at the rate card valid when it was tracked.
+   */
+  async getBudgetStatuses(projectIds?: string[], at: Date = new Date()): Promise<Map<string, BudgetStatus>> {
+    if (projectIds && projectIds.length === 0) {
+      return new Map();
+    }
+
+    const budgets = await db
+      .select({ budget: projectBudgets, project: projects })
+      .from(projectBudgets)
+      .innerJoin(projects, eq(projectBudgets.projectId, projects.id))
+      .where(projectIds ? inArray(projectBudgets.projectId, projectIds) : undefined);
+
+    const statuses = new Map<string, BudgetStatus>();
+
+    for (const { budget, project } of budgets) {
+      statuses.set(project.id, await this.calculateStatus(budget, project, at));
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Notifies the project owner about each alert threshold newly reached in the current
+   * budget period. Returns the thresholds that fired.
+   */
+  async checkAlerts(projectId: string, at: Date = new Date()): Promise<number[]> {
+    const status = await this.getBudgetStatus(projectId, at);
+
+    if (!status || status.reachedThresholds.length === 0) {
+      return [];
+    }
+
+    const fired = await db
+      .insert(budgetAlerts)
+      .values(status.reachedThresholds.map(threshold => ({
+        id: nanoid(),
+        budgetId: status.budget.id,
+        threshold,
+        periodStart: status.periodStart,
+        percentUsed: status.percentUsed.toFixed(1),
+        createdAt: new Date(),
+      })))
+      .onConflictDoNothing()
+      .returning({ threshold: budgetAlerts.threshold });
+
+    if (fired.length === 0) {
+      return [];
+    }
+
+    const threshold = Math.max(...fired.map(alert => alert.threshold));
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+    const period = status.budget.period === 'monthly' ? ' monthly' : '';
+
+    await notificationService.notify(project.userId, {
+      type: 'budget_alert',
+      projectId,
+      title: `${status.projectName} has used ${threshold}% of its${period} budget`,
+      message: `${formatBudgetAmount(status.consumed, status.unit)} of ${formatBudgetAmount(status.amount, status.unit)} used (${status.percentUsed}%), ${formatBudgetAmount(status.remaining, status.unit)} remaining.`,
+    });
+
+    return fired.map(alert => alert.threshold);
+  }
+
+  private async calculateStatus(budget: ProjectBudget, project: Project, at: Date): Promise<BudgetStatus> {
+    const { start, end } = getBudgetPeriod(budget.period, at);
+    const conditions = [
+      eq(timeEntries.projectId, project.id),
+      isNotNull(timeEntries.durationMinutes),
+      eq(timeEntries.isDraft, false),
+      gte(timeEntries.startTime, start),
+    ];
+
+    if (end) {
+      conditions.push(lt(timeEntries.startTime, end));
+    }
+
+    const entries = await db.select().from(timeEntries).where(and(...conditions));
+    const missingRates = new Set<string>();
+    let consumed = 0;
+
+    if (budget.type === 'hours') {
+      consumed = entries.reduce((acc, entry) => acc + (entry.durationMinutes ?? 0) / 60, 0);
+    } else {
+      const resolveRate = await rateCardService.createResolver([project]);
+      const priced = entries
+        .filter(entry => entry.billable ?? project.billable)
+        .map(entry => ({
+          entry,
+          rateCard: resolveRate({ userId: entry.userId, projectId: project.id, clientId: project.clientId, at: entry.startTime }),
+        }));
+      const convert = await exchangeRateService.createConverter(
+        priced.map(({ rateCard }) => rateCard?.currency ?? project.currency),
+        project.currency
+      );
+
+      priced.forEach(({ entry, rateCard }) => {
+        if (!rateCard) return;
+
+        const amount = ((entry.durationMinutes ?? 0) / 60) * Number(rateCard.hourlyRate);
+        const converted = convert(amount, rateCard.currency, entry.startTime);
+
+        if (converted === null) {
+          missingRates.add(rateCard.currency);
+        } else {
+          consumed += converted;
+        }
+      });
+    }
+
+    const amount = Number(budget.amount);
+    const percentUsed = Math.round((consumed / amount) * 1000) / 10;
+
+    return {
+      budget,
+      projectName: project.name,
+      unit: budget.type === 'hours' ? 'hours' : project.currency,
+      periodStart: start,
+      periodEnd: end,
+      amount,
+      consumed: Math.round(consumed * 100) / 100,
+      remaining: Math.round((amount - consumed) * 100) / 100,
+      percentUsed,
+      reachedThresholds: budget.alertThresholds.filter(threshold => percentUsed >= threshold),
+      missingRates: Array.from(missingRates).sort(),
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { db } from '../../drizzle/connection';
+import { calendarFeedTokens } from '../../drizzle/schema';
+import { eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { createHash, randomBytes } from 'crypto';
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt: Date | null;
+  lastUsedAt: Date | null;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export class CalendarFeedService {
+
+  async getStatus(userId: string): Promise<CalendarFeedStatus> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeedTokens)
+      .where(eq(calendarFeedTokens.userId, userId))
+      .limit(1);
+
+    return {
+      enabled: !!feed,
+      createdAt: feed?.createdAt ?? null,
+      lastUsedAt: feed?.lastUsedAt ?? null,
+    };
+  }
+
+  /**
+   * Issues a new feed token, invalidating any previous one. Only the hash is stored, so the
+   * returned token can't be retrieved again.
+   */
+  async rotateToken(userId: string): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    await db
+      .insert(calendarFeedTokens)
+      .values({ id: nanoid(), userId, tokenHash: hashToken(token), createdAt: now })
+      .onConflictDoUpdate({
+        target: calendarFeedTokens.userId,
+        set: { tokenHash: hashToken(token), lastUsedAt: null, createdAt: now },
+      });
+
+    return token;
+  }
+
+  async revokeToken(userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(calendarFeedTokens)
+      .where(eq(calendarFeedTokens.userId, userId))
+      .returning({ id: calendarFeedTokens.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * The user a feed token belongs to, or null when it's unknown or has been rotated
+   */
+  async resolveToken(token: string): Promise<string | null> {
+    const [feed] = await db
+      .update(calendarFeedTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(calendarFeedTokens.tokenHash, hashToken(token)))
+      .returning({ userId: calendarFeedTokens.userId });
+
+    return feed?.userId ?? null;
+  }
+}
@@ -0,0 +1,476 @@
+import { db } from '../../drizzle/connection';
+import {
+  calendarImportRules,
+  timeEntries,
+  timeEntryTags,
+  projects,
+  user,
+  type CalendarImportMatchType,
+  type CalendarImportRule,
+  type NewTimeEntry,
+  type OverlapPolicy,
+} from '../../drizzle/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { ProjectService } from './projects';
+import { TagService } from './tags';
+import { TimesheetService, getWeekStart } from './timesheets';
+import { BudgetService } from './budgets';
+import { TimeEntryService, rangesOverlap, trimToFreeInterval } from './time-entries';
+import { UserSettingsService } from './user-settings';
+import { parseIcsEvents, type IcsEvent } from './icalendar';
+import { ServiceError } from './errors';
+
+const projectService = new ProjectService();
+const tagService = new TagService();
+const timesheetService = new TimesheetService();
+const budgetService = new BudgetService();
+const timeEntryService = new TimeEntryService();
+const userSettingsService = new UserSettingsService();
+
+export interface CalendarRuleInput {
+  matchType: CalendarImportMatchType;
+  pattern: string;
+  projectId: string;
+}
+
+export type CalendarImportRuleWithProject = CalendarImportRule & { projectName: string };
+
+export interface CalendarImportOptions {
+  /** IANA zone for event times without one; defaults to UTC */
+  timeZone?: string;
+  /** Rules tried before the saved ones */
+  rules?: CalendarRuleInput[];
+  /** Project for events no rule matches */
+  defaultProjectId?: string;
+  /** Tag names added to every imported entry */
+  tags?: string[];
+}
+
+export interface CalendarImportCommitOptions extends CalendarImportOptions {
+  /** Project per event ID, overriding the rules; null leaves the event out */
+  assignments?: Record<string, string | null>;
+  /** Leave out events that overlap time already tracked, which usually means they were imported before. Defaults to true. */
+  skipOverlapping?: boolean;
+}
+
+export interface CalendarImportOverlap {
+  /** Set when the event overlaps another event of the file */
+  eventId: string | null;
+  /** Set when the event overlaps an existing time entry */
+  timeEntryId: string | null;
+  description: string;
+  startTime: Date;
+  endTime: Date | null;
+}
+
+export interface CalendarImportDraft {
+  eventId: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  durationMinutes: number;
+  attendeeDomains: string[];
+  /** Null when no rule matched and there is no default project */
+  projectId: string | null;
+  projectName: string | null;
+  clientName: string | null;
+  /** The rule that chose the project; null for the default project or no match */
+  matchedRule: { matchType: CalendarImportMatchType; pattern: string } | null;
+  overlaps: CalendarImportOverlap[];
+}
+
+export interface CalendarImportPreview {
+  drafts: CalendarImportDraft[];
+  /** Events that can't become time entries, such as all-day, cancelled or declined ones */
+  skipped: { eventId: string | null; title: string | null; reason: string }[];
+  unassignedCount: number;
+  overlapCount: number;
+  totalHours: number;
+}
+
+export interface CalendarImportResult {
+  imported: number;
+  entryIds: string[];
+  skippedUnassigned: number;
+  skippedOverlapping: number;
+  /** Events shortened to fit around other time under the "trim" overlap policy */
+  trimmedOverlapping: number;
+  totalHours: number;
+}
+
+const normalizePattern = (matchType: CalendarImportMatchType, pattern: string) =>
+  matchType === 'attendee_domain' ? pattern.trim().toLowerCase().replace(/^@/, '') : pattern.trim();
+
+const domainOf = (email: string) => email.split('@')[1] ?? '';
+
+const toHours = (minutes: number) => Math.round(minutes / 60 * 100) / 100;
+
+type ImportCandidate = Pick<CalendarImportDraft, 'title' | 'startTime' | 'endTime' | 'durationMinutes' | 'overlaps'>;
+
+/**
+ * Applies an overlap policy to the events about to be imported, earliest first, against the
+ * existing entries they overlap and the events taken before them: "reject" refuses any overlap,
+ * "warn" takes the events as they are and "trim" shrinks them to the longest part that doesn't
+ * overlap, leaving out events that are entirely covered
+ */
+export function applyImportOverlapPolicy<T extends ImportCandidate>(
+  drafts: T[],
+  policy: OverlapPolicy,
+  now: Date = new Date()
+): { entries: T[]; trimmed: number; covered: number } {
+  if (policy === 'warn') {
+    return { entries: drafts, trimmed: 0, covered: 0 };
+  }
+
+  const entries: T[] = [];
+  let trimmed = 0;
+  let covered = 0;
+
+  for (const draft of [...drafts].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())) {
+    const busy = [
+      ...draft.overlaps
+        .filter(overlap => overlap.timeEntryId)
+        .map(overlap => ({ description: overlap.description, startTime: overlap.startTime, endTime: overlap.endTime ?? now })),
+      ...entries
+        .filter(entry => rangesOverlap(draft.startTime, draft.endTime, entry.startTime, entry.endTime))
+        .map(entry => ({ description: entry.title, startTime: entry.startTime, endTime: entry.endTime })),
+    ];
+
+    if (busy.length === 0) {
+      entries.push(draft);
+      continue;
+    }
+
+    if (policy === 'reject') {
+      throw new ServiceError(`Event "${draft.title}" (${draft.startTime.toISOString()}) overlaps ${busy.map(range => `"${range.description}"`).join(', ')}`);
+    }
+
+    const free = trimToFreeInterval(draft.startTime, draft.endTime, busy);
+    if (!free) {
+      covered++;
+      continue;
+    }
+
+    trimmed++;
+    entries.push({
+      ...draft,
+      ...free,
+      durationMinutes: Math.round((free.endTime.getTime() - free.startTime.getTime()) / (1000 * 60)),
+    });
+  }
+
+  return { entries, trimmed, covered };
+}
+
+/**
+ * The first rule matching an event: "title" rules match a case-insensitive substring of the
+ * title, "attendee_domain" rules the email domain (or a subdomain) of any attendee or the organizer
+ */
+export function matchCalendarRule<T extends Pick<CalendarRuleInput, 'matchType' | 'pattern'>>(event: IcsEvent, rules: T[]): T | null {
+  const title = event.summary.toLowerCase();
+  const domains = [event.organizerEmail, ...event.attendees.map(attendee => attendee.email)]
+    .filter((email): email is string => !!email)
+    .map(domainOf);
+
+  return rules.find(rule => {
+    const pattern = normalizePattern(rule.matchType, rule.pattern);
+    if (!pattern) return false;
+
+    return rule.matchType === 'title'
+      ? title.includes(pattern.toLowerCase())
+      : domains.some(domain => domain === pattern || domain.endsWith(`.${pattern}`));
+  }) ?? null;
+}
+
+export class CalendarImportService {
+
+  async listRules(userId: string): Promise<CalendarImportRuleWithProject[]> {
+    const rows = await db
+      .select({ rule: calendarImportRules, projectName: projects.name })
+      .from(calendarImportRules)
+      .innerJoin(projects, eq(projects.id, calendarImportRules.projectId))
+      .where(eq(calendarImportRules.userId, userId))
+      .orderBy(asc(calendarImportRules.createdAt));
+
+    return rows.map(({ rule, projectName }) => ({ ...rule, projectName }));
+  }
+
+  async createRule(userId: string, input: CalendarRuleInput): Promise<CalendarImportRule> {
+    const pattern = normalizePattern(input.matchType, input.pattern);
+    if (!pattern) {
+      throw new ServiceError('Pattern is required');
+    }
+
+    await this.assertOwnProject(userId, input.projectId);
+
+    const [created] = await db
+      .insert(calendarImportRules)
+      .values({
+        id: nanoid(),
+        userId,
+        projectId: input.projectId,
+        matchType: input.matchType,
+        pattern,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return created;
+  }
+
+  async deleteRule(userId: string, ruleId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(calendarImportRules)
+      .where(and(eq(calendarImportRules.id, ruleId), eq(calendarImportRules.userId, userId)))
+      .returning({ id: calendarImportRules.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Turns the events of an iCalendar file into draft time entries, without writing anything
+   */
+  async preview(userId: string, content: string, options: CalendarImportOptions = {}): Promise<CalendarImportPreview> {
+    const timeZone = options.timeZone ?? 'UTC';
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+      throw new ServiceError(`Unknown time zone: ${timeZone}`);
+    }
+
+    const { events, errors } = parseIcsEvents(content, timeZone);
+
+    if (events.length === 0 && errors.length === 0) {
+      throw new ServiceError('The file contains no events');
+    }
+
+    const projectList = await this.getOwnProjects(userId);
+    const inlineRules = options.rules ?? [];
+    inlineRules.forEach(rule => this.findProject(projectList, rule.projectId));
+    const defaultProject = options.defaultProjectId ? this.findProject(projectList, options.defaultProjectId) : null;
+
+    // Saved rules for projects that have since been deactivated are passed over
+    const rules = [...inlineRules, ...await this.listRules(userId)]
+      .filter(rule => projectList.some(({ project }) => project.id === rule.projectId));
+
+    const [owner] = await db.select({ email: user.email }).from(user).where(eq(user.id, userId)).limit(1);
+    const ownerEmail = owner?.email.toLowerCase();
+
+    const skipped: CalendarImportPreview['skipped'] = errors.map(error => ({ eventId: error.id, title: error.summary, reason: error.message }));
+    const lockedWeeks = new Map<number, string | null>();
+    const drafts: CalendarImportDraft[] = [];
+
+    for (const event of events) {
+      const reason = event.cancelled ? 'The event was cancelled'
+        : event.allDay ? 'All-day events are not tracked time'
+        : event.recurring ? 'Recurring series are not expanded; export the calendar with individual occurrences'
+        : event.attendees.some(attendee => attendee.email === ownerEmail && attendee.participationStatus === 'DECLINED') ? 'You declined the event'
+        : event.endTime <= event.startTime ? 'The event has no duration'
+        : null;
+
+      if (reason) {
+        skipped.push({ eventId: event.id, title: event.summary, reason });
+        continue;
+      }
+
+      const weekStart = getWeekStart(event.startTime).getTime();
+      if (!lockedWeeks.has(weekStart)) {
+        try {
+          await timesheetService.assertPeriodUnlocked(userId, event.startTime);
+          lockedWeeks.set(weekStart, null);
+        } catch (error) {
+          if (!(error instanceof ServiceError)) throw error;
+          lockedWeeks.set(weekStart, error.message);
+        }
+      }
+
+      const locked = lockedWeeks.get(weekStart);
+      if (locked) {
+        skipped.push({ eventId: event.id, title: event.summary, reason: locked });
+        continue;
+      }
+
+      const rule = matchCalendarRule(event, rules);
+      const match = rule ? this.findProject(projectList, rule.projectId) : defaultProject;
+
+      drafts.push({
+        eventId: event.id,
+        title: event.summary || 'Calendar event',
+        startTime: event.startTime,
+        endTime: event.endTime,
+        durationMinutes: Math.round((event.endTime.getTime() - event.startTime.getTime()) / (1000 * 60)),
+        attendeeDomains: Array.from(new Set(event.attendees.map(attendee => domainOf(attendee.email)).filter(Boolean))),
+        projectId: match?.project.id ?? null,
+        projectName: match?.project.name ?? null,
+        clientName: match?.client.name ?? null,
+        matchedRule: rule ? { matchType: rule.matchType, pattern: normalizePattern(rule.matchType, rule.pattern) } : null,
+        overlaps: [],
+      });
+    }
+
+    await this.findOverlaps(userId, drafts);
+
+    return {
+      drafts,
+      skipped,
+      unassignedCount: drafts.filter(draft => !draft.projectId).length,
+      overlapCount: drafts.filter(draft => draft.overlaps.length > 0).length,
+      totalHours: toHours(drafts.reduce((acc, draft) => acc + draft.durationMinutes, 0)),
+    };
+  }
+
+  /**
+   * Creates time entries from the reviewed drafts of an iCalendar file in one transaction.
+   * Events without a project are left out, and the rest go through the user's overlap policy
+   * and timesheet locks like entries added by hand.
+   */
+  async commit(userId: string, content: string, options: CalendarImportCommitOptions = {}): Promise<CalendarImportResult> {
+    const preview = await this.preview(userId, content, options);
+    const assignments = options.assignments ?? {};
+    const projectList = await this.getOwnProjects(userId);
+
+    for (const [eventId, projectId] of Object.entries(assignments)) {
+      if (!preview.drafts.some(draft => draft.eventId === eventId)) {
+        throw new ServiceError(`Event ${eventId} is not one of the importable events`);
+      }
+      if (projectId) {
+        this.findProject(projectList, projectId);
+      }
+    }
+
+    const drafts = preview.drafts.map(draft => (
+      draft.eventId in assignments ? { ...draft, projectId: assignments[draft.eventId] } : draft
+    ));
+    const assigned = drafts.filter(draft => draft.projectId);
+    const skipOverlapping = options.skipOverlapping ?? true;
+    const candidates = assigned.filter(draft =>
+      !skipOverlapping || !draft.overlaps.some(overlap => overlap.timeEntryId)
+    );
+    const { overlapPolicy } = await userSettingsService.getSettings(userId);
+    const { entries, trimmed, covered } = applyImportOverlapPolicy(candidates, overlapPolicy);
+
+    if (entries.length === 0) {
+      throw new ServiceError('There are no events to import');
+    }
+
+    // Trimming can move an event into another week
+    const weeks = new Map(entries.map(draft => [getWeekStart(draft.startTime).getTime(), draft.startTime]));
+    for (const startTime of weeks.values()) {
+      await timesheetService.assertPeriodUnlocked(userId, startTime);
+    }
+
+    const entryTags = await tagService.resolveTags(userId, options.tags ?? []);
+    const now = new Date();
+    const newEntries: NewTimeEntry[] = entries.map(draft => ({
+      id: nanoid(),
+      projectId: draft.projectId!,
+      userId,
+      description: draft.title,
+      startTime: draft.startTime,
+      endTime: draft.endTime,
+      durationMinutes: draft.durationMinutes,
+      isActive: false,
+      billable: null,
+      taskId: null,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    await db.transaction(async (tx) => {
+      await tx.insert(timeEntries).values(newEntries);
+
+      const entryTagRows = newEntries.flatMap(newEntry =>
+        entryTags.map(tag => ({ timeEntryId: newEntry.id, tagId: tag.id, createdAt: now }))
+      );
+
+      if (entryTagRows.length > 0) {
+        await tx.insert(timeEntryTags).values(entryTagRows);
+      }
+    });
+
+    new Set(newEntries.map(newEntry => newEntry.projectId)).forEach(projectId => {
+      budgetService.checkAlerts(projectId).catch(error => {
+        console.error('Error checking budget alerts:', error);
+      });
+    });
+
+    return {
+      imported: entries.length,
+      entryIds: newEntries.map(newEntry => newEntry.id!),
+      skippedUnassigned: drafts.length - assigned.length,
+      skippedOverlapping: assigned.length - candidates.length + covered,
+      trimmedOverlapping: trimmed,
+      totalHours: toHours(entries.reduce((acc, draft) => acc + draft.durationMinutes, 0)),
+    };
+  }
+
+  /**
+   * Active projects the user can track time on
+   */
+  private async getOwnProjects(userId: string) {
+    return (await projectService.getProjectsWithClient(userId, true))
+      .filter(({ project }) => project.userId === userId);
+  }
+
+  private findProject<T extends { project: { id: string } }>(projectList: T[], projectId: string): T {
+    const match = projectList.find(({ project }) => project.id === projectId);
+
+    if (!match) {
+      throw new ServiceError('Project not found or does not belong to user');
+    }
+
+    return match;
+  }
+
+  private async assertOwnProject(userId: string, projectId: string): Promise<void> {
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.userId, userId)))
+      .limit(1);
+
+    if (!project) {
+      throw new ServiceError('Project not found or does not belong to user');
+    }
+  }
+
+  /**
+   * Records overlaps between events of the file and with the user's existing entries
+   */
+  private async findOverlaps(userId: string, drafts: CalendarImportDraft[]): Promise<void> {
+    if (drafts.length === 0) {
+      return;
+    }
+
+    const sorted = [...drafts].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    sorted.forEach((draft, index) => {
+      for (const other of sorted.slice(index + 1)) {
+        if (other.startTime >= draft.endTime) break;
+
+        draft.overlaps.push({ eventId: other.eventId, timeEntryId: null, description: other.title, startTime: other.startTime, endTime: other.endTime });
+        other.overlaps.push({ eventId: draft.eventId, timeEntryId: null, description: draft.title, startTime: draft.startTime, endTime: draft.endTime });
+      }
+    });
+
+    const rangeStart = sorted[0].startTime;
+    const rangeEnd = new Date(Math.max(...sorted.map(draft => draft.endTime.getTime())));
+    const existing = await timeEntryService.findOverlappingEntries(userId, rangeStart, rangeEnd);
+    const now = new Date();
+
+    for (const draft of drafts) {
+      for (const timeEntry of existing) {
+        if (rangesOverlap(draft.startTime, draft.endTime, timeEntry.startTime, timeEntry.endTime ?? now)) {
+          draft.overlaps.push({
+            eventId: null,
+            timeEntryId: timeEntry.id,
+            description: timeEntry.description,
+            startTime: timeEntry.startTime,
+            endTime: timeEntry.endTime,
+          });
+        }
+      }
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { db } from '../../drizzle/connection';
 import { clients, projects, timeEntries, type Client, type NewClient } from '../../drizzle/schema';
 import { eq, and } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { normalizeCurrency } from './currency';
 
 export class ClientService {
   
@@ -10,6 +11,7 @@ export class ClientService {
       id: nanoid(),
       userId,
       ...data,
+      ...(data.currency && { currency: normalizeCurrency(data.currency) }),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -47,6 +49,7 @@ export class ClientService {
   ): Promise<Client | null> {
     const updateData = {
       ...data,
+      ...(data.currency && { currency: normalizeCurrency(data.currency) }),
       updatedAt: new Date(),
     };
 
@@ -0,0 +1,155 @@
+import { db } from '../../drizzle/connection';
+import { exchangeRates, type ExchangeRate } from '../../drizzle/schema';
+import { eq, and, or, inArray, asc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Converts an amount into the reporting currency as of a date, or returns null
+ * when no exchange rate is known for that currency on that date
+ */
+export type CurrencyConverter = (amount: number, currency: string, at: Date) => number | null;
+
+/**
+ * Uppercases and validates an ISO 4217 style currency code
+ */
+export function normalizeCurrency(code: string): string {
+  const normalized = code.trim().toUpperCase();
+
+  if (!/^[A-Z]{3}$/.test(normalized)) {
+    throw new Error(`Invalid currency code: ${code}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Formats an amount in a currency, e.g. (-12.5, 'USD') -> "-$12.50", (80, 'EUR') -> "€80.00"
+ */
+export function formatMoney(value: string | number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, useGrouping: false }).format(Number(value));
+}
+
+/**
+ * Finds the rate converting `from` into `to` on a date: the latest direct rate
+ * effective on or before the date, falling back to the inverse of the latest reverse rate.
+ */
+export function findExchangeRate(rates: ExchangeRate[], from: string, to: string, at: Date): number | null {
+  if (from === to) {
+    return 1;
+  }
+
+  const latest = (base: string, quote: string) =>
+    rates
+      .filter(rate => rate.baseCurrency === base && rate.quoteCurrency === quote && rate.effectiveDate <= at)
+      .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())[0];
+
+  const direct = latest(from, to);
+  if (direct) {
+    return Number(direct.rate);
+  }
+
+  const inverse = latest(to, from);
+  return inverse ? 1 / Number(inverse.rate) : null;
+}
+
+export class ExchangeRateService {
+
+  async listRates(currency?: string): Promise<ExchangeRate[]> {
+    const query = db.select().from(exchangeRates);
+
+    if (currency) {
+      const code = normalizeCurrency(currency);
+      return query
+        .where(or(eq(exchangeRates.baseCurrency, code), eq(exchangeRates.quoteCurrency, code)))
+        .orderBy(asc(exchangeRates.baseCurrency), asc(exchangeRates.quoteCurrency), asc(exchangeRates.effectiveDate));
+    }
+
+    return query.orderBy(asc(exchangeRates.baseCurrency), asc(exchangeRates.quoteCurrency), asc(exchangeRates.effectiveDate));
+  }
+
+  /**
+   * Records the rate for a currency pair from a date on, replacing any rate already set for that date
+   */
+  async setRate(
+    userId: string,
+    data: { baseCurrency: string; quoteCurrency: string; rate: number; effectiveDate: Date }
+  ): Promise<ExchangeRate> {
+    const baseCurrency = normalizeCurrency(data.baseCurrency);
+    const quoteCurrency = normalizeCurrency(data.quoteCurrency);
+
+    if (baseCurrency === quoteCurrency) {
+      throw new Error('Base and quote currencies must differ');
+    }
+
+    if (!(data.rate > 0)) {
+      throw new Error('Exchange rate must be positive');
+    }
+
+    const now = new Date();
+    const [rate] = await db
+      .insert(exchangeRates)
+      .values({
+        id: nanoid(),
+        baseCurrency,
+        quoteCurrency,
+        rate: data.rate.toString(),
+        effectiveDate: data.effectiveDate,
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [exchangeRates.baseCurrency, exchangeRates.quoteCurrency, exchangeRates.effectiveDate],
+        set: { rate: data.rate.toString(), createdBy: userId, updatedAt: now },
+      })
+      .returning();
+
+    return rate;
+  }
+
+  async deleteRate(rateId: string): Promise<boolean> {
+    const result = await db
+      .delete(exchangeRates)
+      .where(eq(exchangeRates.id, rateId));
+
+    return result.rowCount! > 0;
+  }
+
+  /**
+   * Loads the rates between the given currencies and the reporting currency once,
+   * so that many amounts can be converted without further queries
+   */
+  async createConverter(currencies: string[], reportingCurrency: string): Promise<CurrencyConverter> {
+    const foreign = Array.from(new Set(currencies)).filter(currency => currency !== reportingCurrency);
+
+    const rates = foreign.length === 0
+      ? []
+      : await db
+          .select()
+          .from(exchangeRates)
+          .where(
+            or(
+              and(inArray(exchangeRates.baseCurrency, foreign), eq(exchangeRates.quoteCurrency, reportingCurrency)),
+              and(eq(exchangeRates.baseCurrency, reportingCurrency), inArray(exchangeRates.quoteCurrency, foreign))
+            )
+          );
+
+    return (amount, currency, at) => {
+      const rate = findExchangeRate(rates, currency, reportingCurrency, at);
+      return rate === null ? null : amount * rate;
+    };
+  }
+
+  async convert(amount: number, from: string, to: string, at: Date): Promise<number> {
+    const converter = await this.createConverter([from], to);
+    const converted = converter(amount, from, at);
+
+    if (converted === null) {
+      throw new Error(`No exchange rate from ${from} to ${to} effective on ${at.toISOString().split('T')[0]}`);
+    }
+
+    return converted;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * An error caused by the request rather than the server: invalid input, a record that doesn't
+ * exist or is off limits, or a state that conflicts with it. Routes answer these with a client
+ * error carrying the message and treat any other error as a server fault.
+ */
+export class ServiceError extends Error {
+  constructor(message: string, readonly kind: 'invalid' | 'not_found' | 'forbidden' | 'conflict' = 'invalid') {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
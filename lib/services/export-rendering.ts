@@ -0,0 +1,197 @@
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number;
+  /** Width in the PDF, in points; columns without one are left out of the PDF */
+  width?: number;
+  align?: 'right';
+}
+
+export interface PdfTableDocument<T> {
+  title: string;
+  /** Lines below the title, such as the period and the people covered */
+  details: string[];
+  columns: ExportColumn<T>[];
+  rows: T[];
+  /** Values of the closing totals row, by column header */
+  totals?: Record<string, string | number>;
+  /** One signature and date line is drawn per label */
+  signatures?: string[];
+}
+
+// The standard PDF fonts only cover WinAnsi (Latin-1 plus €); anything else is replaced
+const toPdfText = (value: string) => value.replace(/\s+/g, ' ').replace(/[^\x20-\x7E\xA0-\xFF€]/g, '?');
+
+const escapeCsvField = (value: string | number) => {
+  const field = String(value);
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+/**
+ * Date and time formatting in the reader's time zone. Throws a RangeError for unknown zones.
+ */
+export function createExportDateFormatter(timeZone: string = 'UTC') {
+  // en-CA formats dates as YYYY-MM-DD
+  const dateFormat = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  const timeFormat = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+
+  return {
+    date: (value: Date) => dateFormat.format(value),
+    time: (value: Date) => timeFormat.format(value),
+  };
+}
+
+/**
+ * Streams rows as CSV with a header line, encoding each row as it arrives
+ */
+export function toCsvStream<T>(columns: ExportColumn<T>[], rows: AsyncIterable<T>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`${columns.map(column => escapeCsvField(column.header)).join(',')}\r\n`));
+    },
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+
+      if (done) {
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encoder.encode(`${columns.map(column => escapeCsvField(column.value(value))).join(',')}\r\n`));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Streams rows as a single-sheet XLSX workbook; rows are written out as they arrive
+ */
+export function toXlsxStream<T>(sheetName: string, columns: ExportColumn<T>[], rows: AsyncIterable<T>): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+
+  (async () => {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output });
+    const worksheet = workbook.addWorksheet(sheetName);
+
+    worksheet.columns = columns.map(column => ({ header: column.header, width: Math.max(12, column.header.length + 2) }));
+    worksheet.getRow(1).font = { bold: true };
+
+    for await (const row of rows) {
+      worksheet.addRow(columns.map(column => column.value(row))).commit();
+    }
+
+    await workbook.commit();
+  })().catch(error => output.destroy(error));
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Printable table on landscape A4 pages, with a totals row and signature lines at the end
+ */
+export async function renderPdfTable<T>(document: PdfTableDocument<T>): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(document.title);
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const pageSize: [number, number] = [841.89, 595.28];
+  const margin = 40;
+  const columns = document.columns.filter(column => column.width);
+  const color = rgb(0.07, 0.09, 0.15);
+
+  let page: PDFPage = pdf.addPage(pageSize);
+  let y = page.getHeight() - margin;
+
+  // Cuts text to the column width, marking the cut with "..."
+  const fit = (text: string, width: number, size: number, textFont: PDFFont) => {
+    let fitted = toPdfText(text);
+    if (textFont.widthOfTextAtSize(fitted, size) <= width) return fitted;
+
+    while (fitted.length > 0 && textFont.widthOfTextAtSize(`${fitted}...`, size) > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+  };
+  const drawCells = (values: string[], textFont: PDFFont = font, size = 8) => {
+    let x = margin;
+    columns.forEach((column, index) => {
+      const width = column.width! - 6;
+      const text = fit(values[index] ?? '', width, size, textFont);
+      const offset = column.align === 'right' ? width - textFont.widthOfTextAtSize(text, size) : 0;
+      page.drawText(text, { x: x + offset, y, size, font: textFont, color });
+      x += column.width!;
+    });
+  };
+  const drawHeader = () => drawCells(columns.map(column => column.header), boldFont);
+  const nextLine = (height = 14, repeatHeader = true) => {
+    y -= height;
+    if (y < margin) {
+      page = pdf.addPage(pageSize);
+      y = page.getHeight() - margin;
+      if (repeatHeader) {
+        drawHeader();
+        y -= 16;
+      }
+    }
+  };
+
+  page.drawText(toPdfText(document.title), { x: margin, y, size: 18, font: boldFont, color });
+  nextLine(22, false);
+  document.details.forEach(line => {
+    page.drawText(toPdfText(line), { x: margin, y, size: 10, font, color });
+    nextLine(14, false);
+  });
+  nextLine(10, false);
+
+  drawHeader();
+  nextLine(16);
+
+  document.rows.forEach(row => {
+    drawCells(columns.map(column => String(column.value(row))));
+    nextLine();
+  });
+
+  if (document.totals) {
+    nextLine(4);
+    drawCells(columns.map(column => String(document.totals![column.header] ?? '')), boldFont);
+    nextLine();
+  }
+
+  if (document.signatures && document.signatures.length > 0) {
+    // Keep the signature block together on one page
+    if (y - document.signatures.length * 50 < margin) {
+      page = pdf.addPage(pageSize);
+      y = page.getHeight() - margin;
+    }
+
+    document.signatures.forEach(label => {
+      y -= 40;
+      page.drawLine({ start: { x: margin, y }, end: { x: margin + 250, y }, thickness: 0.5, color });
+      page.drawLine({ start: { x: margin + 300, y }, end: { x: margin + 450, y }, thickness: 0.5, color });
+      page.drawText(toPdfText(label), { x: margin, y: y - 12, size: 9, font, color });
+      page.drawText('Date', { x: margin + 300, y: y - 12, size: 9, font, color });
+      y -= 10;
+    });
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,163 @@
+import { db } from '../../drizzle/connection';
+import { timeEntries, timeEntryTags, tags, projects, clients, user } from '../../drizzle/schema';
+import { eq, and, inArray, asc, sql } from 'drizzle-orm';
+import { entryIsBillable, type TimeEntryFilters } from '../time-entry-filters';
+import { createExportDateFormatter, type ExportColumn } from './export-rendering';
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+export interface ExportEntry {
+  id: string;
+  startTime: Date;
+  endTime: Date | null;
+  durationMinutes: number;
+  userName: string;
+  clientName: string;
+  projectName: string;
+  description: string;
+  tags: string[];
+  billable: boolean;
+}
+
+export interface ExportSummaryRow {
+  userName: string;
+  clientName: string;
+  projectName: string;
+  entryCount: number;
+  totalHours: number;
+  billableHours: number;
+}
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+/**
+ * Export columns for time entries, with dates and times in the given time zone
+ */
+export function timeEntryExportColumns(timeZone?: string): ExportColumn<ExportEntry>[] {
+  const format = createExportDateFormatter(timeZone);
+
+  return [
+    { header: 'Date', value: entry => format.date(entry.startTime), width: 62 },
+    { header: 'Start', value: entry => format.time(entry.startTime), width: 38 },
+    { header: 'End', value: entry => entry.endTime ? format.time(entry.endTime) : '', width: 38 },
+    { header: 'Hours', value: entry => toHours(entry.durationMinutes), width: 42, align: 'right' },
+    { header: 'User', value: entry => entry.userName, width: 100 },
+    { header: 'Client', value: entry => entry.clientName, width: 100 },
+    { header: 'Project', value: entry => entry.projectName, width: 110 },
+    { header: 'Description', value: entry => entry.description, width: 232 },
+    { header: 'Tags', value: entry => entry.tags.join('; ') },
+    { header: 'Billable', value: entry => entry.billable ? 'Yes' : 'No', width: 40 },
+  ];
+}
+
+export const SUMMARY_EXPORT_COLUMNS: ExportColumn<ExportSummaryRow>[] = [
+  { header: 'User', value: row => row.userName, width: 160 },
+  { header: 'Client', value: row => row.clientName, width: 160 },
+  { header: 'Project', value: row => row.projectName, width: 180 },
+  { header: 'Entries', value: row => row.entryCount, width: 60, align: 'right' },
+  { header: 'Hours', value: row => row.totalHours, width: 70, align: 'right' },
+  { header: 'Billable Hours', value: row => row.billableHours, width: 70, align: 'right' },
+  { header: 'Non-billable Hours', value: row => toHours(row.totalHours * 60 - row.billableHours * 60), width: 80, align: 'right' },
+];
+
+/**
+ * Totals of the hour columns, keyed by column header as the PDF totals row expects
+ */
+export function summarizeExportHours(rows: { totalHours: number; billableHours: number }[]): Record<string, string | number> {
+  const totalHours = toHours(rows.reduce((acc, row) => acc + row.totalHours * 60, 0));
+  const billableHours = toHours(rows.reduce((acc, row) => acc + row.billableHours * 60, 0));
+
+  return {
+    Hours: totalHours,
+    'Billable Hours': billableHours,
+    'Non-billable Hours': toHours(totalHours * 60 - billableHours * 60),
+  };
+}
+
+export class ExportService {
+
+  /**
+   * Completed time entries matching the filters, fetched in batches so that large exports
+   * never hold the full result set in memory
+   */
+  async *streamEntries(filters: TimeEntryFilters): AsyncGenerator<ExportEntry> {
+    const where = and(...filters.conditions, eq(timeEntries.isActive, false), eq(timeEntries.isDraft, false));
+
+    for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+      const batch = await db
+        .select({
+          id: timeEntries.id,
+          startTime: timeEntries.startTime,
+          endTime: timeEntries.endTime,
+          durationMinutes: timeEntries.durationMinutes,
+          userName: user.name,
+          clientName: clients.name,
+          projectName: projects.name,
+          description: timeEntries.description,
+          billable: entryIsBillable(),
+        })
+        .from(timeEntries)
+        .innerJoin(projects, eq(projects.id, timeEntries.projectId))
+        .innerJoin(clients, eq(clients.id, projects.clientId))
+        .innerJoin(user, eq(user.id, timeEntries.userId))
+        .where(where)
+        // The ID keeps pages stable when the sort column has ties
+        .orderBy(filters.orderBy, asc(timeEntries.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset);
+
+      const entryTags = batch.length > 0
+        ? await db
+            .select({ timeEntryId: timeEntryTags.timeEntryId, name: tags.name })
+            .from(timeEntryTags)
+            .innerJoin(tags, eq(tags.id, timeEntryTags.tagId))
+            .where(inArray(timeEntryTags.timeEntryId, batch.map(entry => entry.id)))
+            .orderBy(tags.name)
+        : [];
+
+      for (const entry of batch) {
+        yield {
+          ...entry,
+          durationMinutes: entry.durationMinutes ?? 0,
+          tags: entryTags.filter(tag => tag.timeEntryId === entry.id).map(tag => tag.name),
+        };
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Completed hours matching the filters per user, client and project
+   */
+  async getSummary(filters: TimeEntryFilters): Promise<ExportSummaryRow[]> {
+    const rows = await db
+      .select({
+        userName: user.name,
+        clientName: clients.name,
+        projectName: projects.name,
+        entryCount: sql<number>`count(*)`,
+        totalMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)`,
+        billableMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}) filter (where ${entryIsBillable()}), 0)`,
+      })
+      .from(timeEntries)
+      .innerJoin(projects, eq(projects.id, timeEntries.projectId))
+      .innerJoin(clients, eq(clients.id, projects.clientId))
+      .innerJoin(user, eq(user.id, timeEntries.userId))
+      .where(and(...filters.conditions, eq(timeEntries.isActive, false), eq(timeEntries.isDraft, false)))
+      .groupBy(user.id, user.name, clients.id, clients.name, projects.id, projects.name)
+      .orderBy(asc(user.name), asc(clients.name), asc(projects.name));
+
+    return rows.map(row => ({
+      userName: row.userName,
+      clientName: row.clientName,
+      projectName: row.projectName,
+      entryCount: Number(row.entryCount),
+      totalHours: toHours(Number(row.totalMinutes)),
+      billableHours: toHours(Number(row.billableMinutes)),
+    }));
+  }
+}
@@ -0,0 +1,344 @@
+import { type Client, type Project, type TimeEntry } from '../../drizzle/schema';
+
+export interface CalendarEntry {
+  timeEntry: TimeEntry & { tags: string[] };
+  project: Project;
+  client: Client;
+}
+
+// iCalendar lines are CRLF-terminated and folded at 75 octets
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escapes TEXT values (RFC 5545 section 3.3.11)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * UTC DATE-TIME, e.g. 20240315T093000Z
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Splits a content line into 75-octet chunks, continuing each with a space
+ */
+export function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+
+  for (const char of line) {
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+
+  return chunks.join(`${CRLF} `);
+}
+
+const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+/**
+ * Renders time entries as an iCalendar document with one VEVENT per entry. Running
+ * entries end at `now` and are marked tentative.
+ */
+export function renderTimeEntriesCalendar(entries: CalendarEntry[], calendarName: string, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TimeTracker MCP//Time Entries//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    // Ask subscribing apps to refresh hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  entries.forEach(({ timeEntry, project, client }) => {
+    const endTime = timeEntry.endTime ?? now;
+    const details = [
+      `Client: ${client.name}`,
+      `Project: ${project.name}`,
+      timeEntry.durationMinutes !== null ? `Duration: ${formatDuration(timeEntry.durationMinutes)}` : 'Running',
+      ...(timeEntry.tags.length > 0 ? [`Tags: ${timeEntry.tags.join(', ')}`] : []),
+    ];
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${timeEntry.id}@timetracker-mcp`,
+      `DTSTAMP:${formatIcsDateTime(timeEntry.updatedAt)}`,
+      `DTSTART:${formatIcsDateTime(timeEntry.startTime)}`,
+      `DTEND:${formatIcsDateTime(endTime > timeEntry.startTime ? endTime : timeEntry.startTime)}`,
+      `SUMMARY:${escapeIcsText(`${timeEntry.isActive ? '[Running] ' : ''}${project.name}: ${timeEntry.description}`)}`,
+      `DESCRIPTION:${escapeIcsText(details.join('\n'))}`,
+      ...(timeEntry.tags.length > 0 ? [`CATEGORIES:${timeEntry.tags.map(escapeIcsText).join(',')}`] : []),
+      `STATUS:${timeEntry.isActive ? 'TENTATIVE' : 'CONFIRMED'}`,
+      // Tracked time shouldn't block availability
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
+
+export interface IcsAttendee {
+  email: string;
+  /** PARTSTAT, e.g. ACCEPTED or DECLINED */
+  participationStatus: string | null;
+}
+
+export interface IcsEvent {
+  /** UID, qualified with RECURRENCE-ID for a changed occurrence of a series */
+  id: string;
+  summary: string;
+  description: string;
+  startTime: Date;
+  endTime: Date;
+  allDay: boolean;
+  /** The event defines a recurring series (RRULE/RDATE), which isn't expanded */
+  recurring: boolean;
+  cancelled: boolean;
+  organizerEmail: string | null;
+  attendees: IcsAttendee[];
+}
+
+export interface IcsParseError {
+  id: string | null;
+  summary: string | null;
+  message: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reverses escapeIcsText
+ */
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseIcsProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    if (line[index] === ':' && !inQuotes) {
+      separator = index;
+      break;
+    }
+  }
+
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, separator).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...value] = part.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: (name ?? '').toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(candidate => candidate.type === type)!.value);
+
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in a time zone refers to. Throws a RangeError for unknown zones.
+ */
+export function zonedTimeToUtc(wallTime: number, timeZone: string): Date {
+  const guess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone);
+  // A second pass settles times near a DST transition
+  return new Date(wallTime - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+function parseIcsDate(property: IcsProperty, defaultTimeZone: string): { date: Date; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallTime = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0));
+
+  if (hour === undefined) {
+    return { date: new Date(wallTime), allDay: true };
+  }
+
+  if (utc) {
+    return { date: new Date(wallTime), allDay: false };
+  }
+
+  // Zones that Intl doesn't know (e.g. Windows names from Outlook) fall back to the default
+  for (const timeZone of [property.params.TZID, defaultTimeZone].filter(Boolean)) {
+    try {
+      return { date: zonedTimeToUtc(wallTime, timeZone), allDay: false };
+    } catch {
+      continue;
+    }
+  }
+
+  return { date: new Date(wallTime), allDay: false };
+}
+
+function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const milliseconds = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 3600
+    + Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000;
+
+  return sign === '-' ? -milliseconds : milliseconds;
+}
+
+const emailOf = (value: string) => value.replace(/^mailto:/i, '').trim().toLowerCase();
+
+/**
+ * Reads the VEVENTs of an iCalendar document. Floating times, and times in zones that
+ * can't be resolved, are read in `defaultTimeZone`.
+ */
+export function parseIcsEvents(content: string, defaultTimeZone: string = 'UTC'): { events: IcsEvent[]; errors: IcsParseError[] } {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  const errors: IcsParseError[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      current = [];
+      continue;
+    }
+
+    if (current && /^END:VEVENT$/i.test(line.trim())) {
+      const result = toIcsEvent(current, defaultTimeZone, events.length + errors.length);
+      if ('message' in result) {
+        errors.push(result);
+      } else {
+        events.push(result);
+      }
+      current = null;
+      continue;
+    }
+
+    // Properties of nested components such as VALARM are skipped
+    if (current && /^BEGIN:/i.test(line)) {
+      const nested = line.slice(6).trim().toUpperCase();
+      current.push({ name: `BEGIN:${nested}`, params: {}, value: '' });
+      continue;
+    }
+
+    const property = current ? parseIcsProperty(line) : null;
+    if (current && property) {
+      current.push(property);
+    }
+  }
+
+  return { events, errors };
+}
+
+function toIcsEvent(properties: IcsProperty[], defaultTimeZone: string, index: number): IcsEvent | IcsParseError {
+  const own: IcsProperty[] = [];
+  let depth = 0;
+  for (const property of properties) {
+    if (property.name.startsWith('BEGIN:')) depth++;
+    else if (property.name === 'END') depth = Math.max(0, depth - 1);
+    else if (depth === 0) own.push(property);
+  }
+
+  const find = (name: string) => own.find(property => property.name === name);
+  const uid = find('UID')?.value.trim() || `event-${index + 1}`;
+  const recurrenceId = find('RECURRENCE-ID')?.value.trim();
+  const id = recurrenceId ? `${uid}/${recurrenceId}` : uid;
+  const summary = unescapeIcsText(find('SUMMARY')?.value ?? '').trim();
+
+  const dtStart = find('DTSTART');
+  const start = dtStart ? parseIcsDate(dtStart, defaultTimeZone) : null;
+  if (!start) {
+    return { id, summary, message: 'Missing or invalid DTSTART' };
+  }
+
+  const dtEnd = find('DTEND');
+  const duration = find('DURATION');
+  let endTime: Date;
+  if (dtEnd) {
+    const end = parseIcsDate(dtEnd, defaultTimeZone);
+    if (!end) {
+      return { id, summary, message: 'Invalid DTEND' };
+    }
+    endTime = end.date;
+  } else if (duration) {
+    const milliseconds = parseIcsDuration(duration.value.trim());
+    if (milliseconds === null) {
+      return { id, summary, message: 'Invalid DURATION' };
+    }
+    endTime = new Date(start.date.getTime() + milliseconds);
+  } else {
+    // Without an end, a date lasts one day and a date-time is instantaneous (RFC 5545 section 3.6.1)
+    endTime = new Date(start.date.getTime() + (start.allDay ? DAY_MS : 0));
+  }
+
+  const organizer = find('ORGANIZER');
+
+  return {
+    id,
+    summary,
+    description: unescapeIcsText(find('DESCRIPTION')?.value ?? '').trim(),
+    startTime: start.date,
+    endTime,
+    allDay: start.allDay,
+    recurring: !recurrenceId && (!!find('RRULE') || !!find('RDATE')),
+    cancelled: find('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    organizerEmail: organizer ? emailOf(organizer.value) : null,
+    attendees: own
+      .filter(property => property.name === 'ATTENDEE')
+      .map(property => ({
+        email: emailOf(property.value),
+        participationStatus: property.params.PARTSTAT?.toUpperCase() ?? null,
+      })),
+  };
+}
@@ -0,0 +1,182 @@
+import { db } from '../../drizzle/connection';
+import { timeEntries, timeEntryBreaks, projects, userSettings, type TimeEntry } from '../../drizzle/schema';
+import { eq, and, or, ne, gt, isNull, max } from 'drizzle-orm';
+import { TimeEntryService } from './time-entries';
+import { NotificationService } from './notifications';
+import { UserSettingsService, DEFAULT_USER_SETTINGS, type UserSettingsValues } from './user-settings';
+import { getTimeZoneOffset, zonedTimeToUtc } from './icalendar';
+
+const timeEntryService = new TimeEntryService();
+const notificationService = new NotificationService();
+const userSettingsService = new UserSettingsService();
+
+export type IdleTimerSettings = Pick<UserSettingsValues, 'idleTimerHours' | 'workdayEnd' | 'timeZone'>;
+
+export interface IdleCutoff {
+  reason: 'idle_limit' | 'end_of_day';
+  /** When the timer started to look forgotten */
+  cutoff: Date;
+}
+
+export interface IdleTimerCheckResult {
+  notified: number;
+  stopped: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * The first end of the working day (HH:MM in the time zone) after a timer started, or null
+ * without a valid end of day. Unknown time zones fall back to UTC.
+ */
+export function getWorkdayEndAfter(startTime: Date, workdayEnd: string | null, timeZone: string): Date | null {
+  const match = workdayEnd?.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) {
+    return null;
+  }
+
+  let zone = timeZone;
+  let localStart: number;
+  try {
+    localStart = startTime.getTime() + getTimeZoneOffset(startTime, zone);
+  } catch {
+    zone = 'UTC';
+    localStart = startTime.getTime();
+  }
+
+  const endOfDay = Math.floor(localStart / DAY_MS) * DAY_MS + Number(match[1]) * HOUR_MS + Number(match[2]) * 60 * 1000;
+  return zonedTimeToUtc(endOfDay > localStart ? endOfDay : endOfDay + DAY_MS, zone);
+}
+
+/**
+ * Why a timer started at `startTime` looks forgotten by `now`: it has run longer than the
+ * user's idle limit or past their end of day, whichever came first. Null while neither applies.
+ */
+export function findIdleCutoff(startTime: Date, settings: IdleTimerSettings, now: Date = new Date()): IdleCutoff | null {
+  const cutoffs: IdleCutoff[] = [];
+
+  if (settings.idleTimerHours) {
+    cutoffs.push({ reason: 'idle_limit', cutoff: new Date(startTime.getTime() + settings.idleTimerHours * HOUR_MS) });
+  }
+
+  const workdayEnd = getWorkdayEndAfter(startTime, settings.workdayEnd, settings.timeZone);
+  if (workdayEnd) {
+    cutoffs.push({ reason: 'end_of_day', cutoff: workdayEnd });
+  }
+
+  const passed = cutoffs
+    .filter(({ cutoff }) => cutoff <= now)
+    .sort((a, b) => a.cutoff.getTime() - b.cutoff.getTime());
+
+  return passed[0] ?? null;
+}
+
+export const describeIdleCutoff = ({ reason }: IdleCutoff, settings: IdleTimerSettings) =>
+  reason === 'idle_limit'
+    ? `running for more than ${settings.idleTimerHours} hours`
+    : `still running after the end of your working day (${settings.workdayEnd})`;
+
+export class IdleTimerService {
+
+  /**
+   * The idle cutoff a running entry has passed under the user's settings, if any
+   */
+  async getIdleCutoff(userId: string, entry: TimeEntry, now: Date = new Date()): Promise<(IdleCutoff & { settings: IdleTimerSettings }) | null> {
+    const settings = await userSettingsService.getSettings(userId);
+    const cutoff = findIdleCutoff(entry.startTime, settings, now);
+
+    return cutoff ? { ...cutoff, settings } : null;
+  }
+
+  /**
+   * Finds running timers that look forgotten and tells their users, once per timer. Users
+   * who opted in get the timer stopped at their last activity instead.
+   */
+  async checkIdleTimers(now: Date = new Date()): Promise<IdleTimerCheckResult> {
+    const candidates = await db
+      .select({ timeEntry: timeEntries, projectName: projects.name, settings: userSettings })
+      .from(timeEntries)
+      .innerJoin(projects, eq(projects.id, timeEntries.projectId))
+      .leftJoin(userSettings, eq(userSettings.userId, timeEntries.userId))
+      .where(and(eq(timeEntries.isActive, true), isNull(timeEntries.idleNotifiedAt)));
+
+    const result: IdleTimerCheckResult = { notified: 0, stopped: 0 };
+
+    for (const { timeEntry, projectName, settings: storedSettings } of candidates) {
+      const settings = storedSettings ?? DEFAULT_USER_SETTINGS;
+      const idle = findIdleCutoff(timeEntry.startTime, settings, now);
+
+      if (!idle) {
+        continue;
+      }
+
+      try {
+        if (settings.autoStopIdleTimers) {
+          const lastActivity = await this.getLastActivity(timeEntry);
+          // Without any activity since the timer started, the cutoff is the best guess
+          const endTime = lastActivity > timeEntry.startTime ? lastActivity : idle.cutoff;
+          const stopped = await timeEntryService.stopTimeTracking(timeEntry.userId, timeEntry.id, { endTime, automatic: true });
+
+          await notificationService.notify(timeEntry.userId, {
+            type: 'idle_timer',
+            projectId: timeEntry.projectId,
+            title: `Timer for ${projectName} was stopped automatically`,
+            message: `"${timeEntry.description}" was ${describeIdleCutoff(idle, settings)}, so it was stopped at ${endTime.toISOString()} (${stopped?.durationMinutes ?? 0} minutes). Adjust the entry if that's not when you stopped working.`,
+          });
+          result.stopped++;
+        } else {
+          await notificationService.notify(timeEntry.userId, {
+            type: 'idle_timer',
+            projectId: timeEntry.projectId,
+            title: `Timer for ${projectName} is still running`,
+            message: `"${timeEntry.description}" has been ${describeIdleCutoff(idle, settings)} since it started at ${timeEntry.startTime.toISOString()}. Stop it if you forgot to.`,
+          });
+        }
+
+        await db
+          .update(timeEntries)
+          .set({ idleNotifiedAt: now })
+          .where(eq(timeEntries.id, timeEntry.id));
+        result.notified++;
+      } catch (error) {
+        console.error(`Error handling idle timer ${timeEntry.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The user's latest recorded activity since the timer started: changes to the timer itself,
+   * its pauses and resumes, and changes to their other time entries. Writes the system makes on
+   * its own (auto-stopped timers and entries logged from recurring templates that the user hasn't
+   * touched since) don't count.
+   */
+  private async getLastActivity(entry: TimeEntry): Promise<Date> {
+    const breaks = await db
+      .select()
+      .from(timeEntryBreaks)
+      .where(eq(timeEntryBreaks.timeEntryId, entry.id));
+
+    const [otherEntries] = await db
+      .select({ lastUpdatedAt: max(timeEntries.updatedAt) })
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.userId, entry.userId),
+        ne(timeEntries.id, entry.id),
+        gt(timeEntries.updatedAt, entry.startTime),
+        eq(timeEntries.autoStopped, false),
+        or(isNull(timeEntries.recurringTemplateId), gt(timeEntries.updatedAt, timeEntries.createdAt))
+      ));
+
+    const times = [
+      entry.startTime,
+      entry.updatedAt,
+      ...breaks.flatMap(entryBreak => [entryBreak.startTime, entryBreak.endTime]),
+      otherEntries?.lastUpdatedAt,
+    ].filter((time): time is Date => time instanceof Date);
+
+    return new Date(Math.max(...times.map(time => time.getTime())));
+  }
+}
@@ -0,0 +1,429 @@
+import ExcelJS from 'exceljs';
+import { normalizeTagNames } from './tags';
+import { ServiceError } from './errors';
+
+export type ImportFileType = 'csv' | 'xlsx' | 'json';
+export type ImportFormat = 'toggl' | 'clockify' | 'harvest' | 'generic';
+
+export type ImportRecord = Record<string, string>;
+
+/**
+ * A file row mapped onto time entry fields, before clients and projects are matched
+ */
+export interface ParsedImportRow {
+  rowNumber: number;
+  clientName: string;
+  projectName: string;
+  description: string;
+  startTime: Date;
+  endTime: Date;
+  tags: string[];
+  /** Null when the file doesn't say, so the project's default applies */
+  billable: boolean | null;
+}
+
+export interface ImportRowError {
+  rowNumber: number;
+  message: string;
+}
+
+interface ColumnMapping {
+  client: string;
+  project: string;
+  description: string;
+  /** Used as the description when the description is empty */
+  task?: string;
+  tags?: string;
+  billable?: string;
+  startDate: string;
+  startTime?: string;
+  endDate?: string;
+  endTime?: string;
+  /** For exports without start and end times; entries on a day are then placed back to back */
+  hours?: string;
+  /** A column only this export has, telling it apart from exports with similar columns */
+  signature?: string;
+}
+
+/**
+ * Column headers of each supported export. Headers are matched case-insensitively.
+ */
+export const IMPORT_COLUMN_MAPPINGS: Record<ImportFormat, ColumnMapping> = {
+  // Toggl Track detailed report
+  toggl: {
+    client: 'Client',
+    project: 'Project',
+    description: 'Description',
+    task: 'Task',
+    tags: 'Tags',
+    billable: 'Billable',
+    startDate: 'Start date',
+    startTime: 'Start time',
+    endDate: 'End date',
+    endTime: 'End time',
+  },
+  // Clockify detailed report
+  clockify: {
+    client: 'Client',
+    project: 'Project',
+    description: 'Description',
+    task: 'Task',
+    tags: 'Tags',
+    billable: 'Billable',
+    startDate: 'Start Date',
+    startTime: 'Start Time',
+    endDate: 'End Date',
+    endTime: 'End Time',
+    signature: 'Duration (decimal)',
+  },
+  // Harvest detailed time report, which only has a date and hours per entry
+  harvest: {
+    client: 'Client',
+    project: 'Project',
+    description: 'Notes',
+    task: 'Task',
+    billable: 'Billable?',
+    startDate: 'Date',
+    hours: 'Hours',
+  },
+  // Our own layout: ISO start and end, or a date and hours
+  generic: {
+    client: 'client',
+    project: 'project',
+    description: 'description',
+    tags: 'tags',
+    billable: 'billable',
+    startDate: 'start',
+    endDate: 'end',
+    hours: 'hours',
+  },
+};
+
+// Entries without times start at 09:00 UTC on their day
+const DEFAULT_DAY_START_HOUR = 9;
+
+/**
+ * Parses CSV text with quoted fields, "" escapes and embedded newlines. The delimiter is
+ * a comma unless the header line has more semicolons than commas.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^﻿/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function toRecords(rows: string[][]): ImportRecord[] {
+  const [headers, ...dataRows] = rows;
+
+  if (!headers) {
+    return [];
+  }
+
+  return dataRows.map(cells =>
+    Object.fromEntries(headers.map((header, index) => [header.trim(), (cells[index] ?? '').trim()]))
+  );
+}
+
+function formatCellDate(value: Date): string {
+  const iso = value.toISOString();
+
+  // Excel stores times of day as fractions of 1899-12-30
+  if (value.getUTCFullYear() < 1900) {
+    return iso.slice(11, 19);
+  }
+
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatCellDate(value);
+  if (typeof value === 'object') {
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+  }
+  return String(value);
+}
+
+async function readXlsx(content: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+
+  try {
+    await workbook.xlsx.load(content as unknown as ExcelJS.Buffer);
+  } catch {
+    throw new ServiceError('The file is not a valid Excel workbook');
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow(row => {
+    const values = row.values as ExcelJS.CellValue[];
+    // Row values are 1-indexed
+    rows.push(values.slice(1).map(cellToString));
+  });
+
+  return rows;
+}
+
+function readJson(content: string): ImportRecord[] {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new ServiceError('The file is not valid JSON');
+  }
+
+  const items = Array.isArray(data) ? data : (data as { entries?: unknown })?.entries;
+
+  if (!Array.isArray(items)) {
+    throw new ServiceError('JSON imports must be an array of entries, or an object with an "entries" array');
+  }
+
+  return items.map(item => Object.fromEntries(
+    Object.entries((item ?? {}) as Record<string, unknown>).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.join(', ') : value === null || value === undefined ? '' : String(value),
+    ])
+  ));
+}
+
+/**
+ * Reads an uploaded file into records keyed by column header
+ */
+export async function readImportFile(content: Buffer, fileType: ImportFileType): Promise<ImportRecord[]> {
+  switch (fileType) {
+    case 'xlsx':
+      return toRecords(await readXlsx(content));
+    case 'json':
+      return readJson(content.toString('utf-8'));
+    case 'csv':
+    default:
+      return toRecords(parseCsv(content.toString('utf-8')));
+  }
+}
+
+/**
+ * Picks the export format whose project, start and timing columns are present
+ */
+export function detectImportFormat(headers: string[]): ImportFormat | null {
+  const present = new Set(headers.map(header => header.trim().toLowerCase()));
+  const has = (column?: string) => column !== undefined && present.has(column.toLowerCase());
+  // Exports with a signature column come before the ones they resemble
+  const formats: ImportFormat[] = ['clockify', 'toggl', 'harvest', 'generic'];
+
+  return formats.find(format => {
+    const mapping = IMPORT_COLUMN_MAPPINGS[format];
+    return has(mapping.project)
+      && has(mapping.startDate)
+      && (mapping.signature === undefined || has(mapping.signature))
+      && [mapping.startTime, mapping.endDate, mapping.hours].some(has);
+  }) ?? null;
+}
+
+function getColumn(record: ImportRecord, column?: string): string {
+  if (!column) return '';
+
+  const key = Object.keys(record).find(header => header.toLowerCase() === column.toLowerCase());
+  return key ? record[key].trim() : '';
+}
+
+/**
+ * Parses a date (YYYY-MM-DD, MM/DD/YYYY or DD.MM.YYYY) and an optional time (HH:mm[:ss] with
+ * an optional AM/PM) as UTC. A full ISO timestamp in the date is used as is.
+ */
+export function parseImportDateTime(date: string, time?: string): Date | null {
+  if (!date) return null;
+
+  if (date.includes('T')) {
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  let year: number, month: number, day: number;
+  let match;
+
+  if ((match = date.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = date.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  let hours = 0, minutes = 0, seconds = 0;
+
+  if (time) {
+    const timeMatch = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/);
+    if (!timeMatch) return null;
+
+    hours = Number(timeMatch[1]);
+    minutes = Number(timeMatch[2]);
+    seconds = Number(timeMatch[3] ?? 0);
+
+    const meridiem = timeMatch[4]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  }
+
+  const parsed = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+
+  // Reject dates that rolled over, such as 02/30
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day ? parsed : null;
+}
+
+/**
+ * Parses decimal hours ("1.5", "1,5") or hours and minutes ("1:30", "01:30:00")
+ */
+export function parseImportHours(value: string): number | null {
+  if (!value) return null;
+
+  const clock = value.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return Number(clock[1]) + Number(clock[2]) / 60 + Number(clock[3] ?? 0) / 3600;
+  }
+
+  const hours = Number(value.replace(',', '.'));
+  return isNaN(hours) ? null : hours;
+}
+
+function parseBillable(value: string): boolean | null {
+  const normalized = value.toLowerCase();
+
+  if (['yes', 'true', '1', 'billable'].includes(normalized)) return true;
+  if (['no', 'false', '0', 'non-billable'].includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * Maps records onto time entry fields. Rows that can't be mapped are returned as errors,
+ * numbered as in the file (the header is row 1).
+ */
+export function mapImportRecords(
+  records: ImportRecord[],
+  format: ImportFormat
+): { rows: ParsedImportRow[]; errors: ImportRowError[] } {
+  const mapping = IMPORT_COLUMN_MAPPINGS[format];
+  const rows: ParsedImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  // Next free start time per day, for entries that only have hours
+  const dayCursors = new Map<string, Date>();
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2;
+    const fail = (message: string) => errors.push({ rowNumber, message });
+
+    const projectName = getColumn(record, mapping.project);
+    if (!projectName) {
+      return fail('Project is required');
+    }
+
+    const startTime = parseImportDateTime(getColumn(record, mapping.startDate), getColumn(record, mapping.startTime) || undefined);
+    if (!startTime) {
+      return fail(`Invalid start date or time: "${[getColumn(record, mapping.startDate), getColumn(record, mapping.startTime)].filter(Boolean).join(' ')}"`);
+    }
+
+    let endTime: Date | null = null;
+    const endDate = getColumn(record, mapping.endDate);
+    const hoursValue = getColumn(record, mapping.hours);
+
+    if (endDate) {
+      endTime = parseImportDateTime(endDate, getColumn(record, mapping.endTime) || undefined);
+      if (!endTime) {
+        return fail(`Invalid end date or time: "${[endDate, getColumn(record, mapping.endTime)].filter(Boolean).join(' ')}"`);
+      }
+    } else if (hoursValue) {
+      const hours = parseImportHours(hoursValue);
+      if (hours === null || hours <= 0) {
+        return fail(`Invalid hours: "${hoursValue}"`);
+      }
+
+      // A bare date gets placed after the day's earlier entries
+      const hasTime = Boolean(getColumn(record, mapping.startTime)) || getColumn(record, mapping.startDate).includes('T');
+      if (!hasTime) {
+        const day = startTime.toISOString().slice(0, 10);
+        const cursor = dayCursors.get(day) ?? new Date(startTime.getTime() + DEFAULT_DAY_START_HOUR * 60 * 60 * 1000);
+        startTime.setTime(cursor.getTime());
+      }
+
+      endTime = new Date(startTime.getTime() + Math.round(hours * 60) * 60 * 1000);
+      if (!hasTime) {
+        dayCursors.set(startTime.toISOString().slice(0, 10), endTime);
+      }
+    } else {
+      return fail('An end time or hours are required');
+    }
+
+    if (endTime <= startTime) {
+      return fail('End time must be after start time');
+    }
+
+    let tags: string[];
+    try {
+      tags = normalizeTagNames(getColumn(record, mapping.tags).split(',').filter(tag => tag.trim()));
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : 'Invalid tags');
+    }
+
+    rows.push({
+      rowNumber,
+      clientName: getColumn(record, mapping.client),
+      projectName,
+      description: getColumn(record, mapping.description) || getColumn(record, mapping.task) || projectName,
+      startTime,
+      endTime,
+      tags,
+      billable: parseBillable(getColumn(record, mapping.billable)),
+    });
+  });
+
+  return { rows, errors };
+}
@@ -0,0 +1,351 @@
+import { db } from '../../drizzle/connection';
+import { timeEntries, timeEntryTags, type Client, type Project, type NewTimeEntry } from '../../drizzle/schema';
+import { nanoid } from 'nanoid';
+import { ClientService } from './clients';
+import { ProjectService } from './projects';
+import { TagService } from './tags';
+import { TimesheetService, getWeekStart } from './timesheets';
+import { BudgetService } from './budgets';
+import { TimeEntryService, rangesOverlap } from './time-entries';
+import { ServiceError } from './errors';
+import {
+  readImportFile,
+  detectImportFormat,
+  mapImportRecords,
+  type ImportFileType,
+  type ImportFormat,
+  type ImportRowError,
+  type ParsedImportRow,
+} from './import-formats';
+
+const clientService = new ClientService();
+const projectService = new ProjectService();
+const tagService = new TagService();
+const timesheetService = new TimesheetService();
+const budgetService = new BudgetService();
+const timeEntryService = new TimeEntryService();
+
+export interface ImportFileOptions {
+  fileType: ImportFileType;
+  /** Detected from the column headers when omitted or "auto" */
+  format?: ImportFormat | 'auto';
+}
+
+export interface ImportCommitOptions extends ImportFileOptions {
+  /** Import the valid rows even when other rows have errors */
+  skipInvalid?: boolean;
+  /** Leave out rows that overlap time already tracked, which usually means they were imported before. Defaults to true. */
+  skipOverlapping?: boolean;
+}
+
+export interface ImportOverlap {
+  /** Set when the row overlaps another row of the file */
+  rowNumber: number | null;
+  /** Set when the row overlaps an existing time entry */
+  timeEntryId: string | null;
+  description: string;
+  startTime: Date;
+  endTime: Date | null;
+}
+
+export interface ImportPreviewEntry {
+  rowNumber: number;
+  clientName: string;
+  projectName: string;
+  /** Null when the project will be created */
+  projectId: string | null;
+  description: string;
+  startTime: Date;
+  endTime: Date;
+  durationMinutes: number;
+  tags: string[];
+  billable: boolean | null;
+  overlaps: ImportOverlap[];
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  entries: ImportPreviewEntry[];
+  errors: ImportRowError[];
+  /** Clients that will be created */
+  newClients: string[];
+  /** Projects that will be created */
+  newProjects: { clientName: string; projectName: string }[];
+  overlapCount: number;
+  totalHours: number;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  imported: number;
+  skippedInvalid: number;
+  skippedOverlapping: number;
+  createdClients: string[];
+  createdProjects: string[];
+  totalHours: number;
+}
+
+type ProjectWithClient = { project: Project; client: Client };
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+const projectKey = (clientName: string, projectName: string) => `${nameKey(clientName)}\u0000${nameKey(projectName)}`;
+
+export class ImportService {
+
+  /**
+   * Parses a file and reports what committing it would do, without writing anything
+   */
+  async preview(userId: string, content: Buffer, options: ImportFileOptions): Promise<ImportPreview> {
+    const { format, rows, errors } = await this.parseFile(content, options);
+    const clientList = await clientService.listClients(userId, false);
+    // Inactive projects still match, so that old data lands on the project it belongs to
+    const projectList = (await projectService.getProjectsWithClient(userId, false))
+      .filter(({ project }) => project.userId === userId);
+
+    const newClients = new Map<string, string>();
+    const newProjects = new Map<string, { clientName: string; projectName: string }>();
+    const lockedWeeks = new Map<number, string | null>();
+    const entries: ImportPreviewEntry[] = [];
+
+    for (const row of rows) {
+      const project = this.matchProject(projectList, row);
+
+      if (!project) {
+        if (!row.clientName) {
+          errors.push({ rowNumber: row.rowNumber, message: `Project "${row.projectName}" does not exist; a client is required to create it` });
+          continue;
+        }
+
+        if (!clientList.some(client => nameKey(client.name) === nameKey(row.clientName))) {
+          newClients.set(nameKey(row.clientName), row.clientName);
+        }
+        newProjects.set(projectKey(row.clientName, row.projectName), { clientName: row.clientName, projectName: row.projectName });
+      }
+
+      const weekStart = getWeekStart(row.startTime).getTime();
+      if (!lockedWeeks.has(weekStart)) {
+        try {
+          await timesheetService.assertPeriodUnlocked(userId, row.startTime);
+          lockedWeeks.set(weekStart, null);
+        } catch (error) {
+          lockedWeeks.set(weekStart, error instanceof Error ? error.message : 'Timesheet is locked');
+        }
+      }
+
+      const locked = lockedWeeks.get(weekStart);
+      if (locked) {
+        errors.push({ rowNumber: row.rowNumber, message: locked });
+        continue;
+      }
+
+      entries.push({
+        rowNumber: row.rowNumber,
+        clientName: project?.client.name ?? row.clientName,
+        projectName: project?.project.name ?? row.projectName,
+        projectId: project?.project.id ?? null,
+        description: row.description,
+        startTime: row.startTime,
+        endTime: row.endTime,
+        durationMinutes: Math.round((row.endTime.getTime() - row.startTime.getTime()) / (1000 * 60)),
+        tags: row.tags,
+        billable: row.billable,
+        overlaps: [],
+      });
+    }
+
+    await this.findOverlaps(userId, entries);
+
+    return {
+      format,
+      entries,
+      errors: errors.sort((a, b) => a.rowNumber - b.rowNumber),
+      newClients: Array.from(newClients.values()),
+      newProjects: Array.from(newProjects.values()),
+      overlapCount: entries.filter(entry => entry.overlaps.length > 0).length,
+      totalHours: Math.round(entries.reduce((acc, entry) => acc + entry.durationMinutes, 0) / 60 * 100) / 100,
+    };
+  }
+
+  /**
+   * Imports a file. All entries are written in one transaction; clients and projects
+   * created for the import are removed again if it fails.
+   */
+  async commit(userId: string, content: Buffer, options: ImportCommitOptions): Promise<ImportResult> {
+    const preview = await this.preview(userId, content, options);
+
+    if (preview.errors.length > 0 && !options.skipInvalid) {
+      throw new ServiceError(`${preview.errors.length} row(s) could not be imported; fix them or skip invalid rows`);
+    }
+
+    const skipOverlapping = options.skipOverlapping ?? true;
+    const entries = preview.entries.filter(entry =>
+      !skipOverlapping || !entry.overlaps.some(overlap => overlap.timeEntryId)
+    );
+
+    if (entries.length === 0) {
+      throw new ServiceError('There are no entries to import');
+    }
+
+    const createdClients: Client[] = [];
+    const createdProjects: Project[] = [];
+
+    try {
+      const projectIds = await this.createMissingProjects(userId, entries, createdClients, createdProjects);
+      const entryTags = await tagService.resolveTags(userId, entries.flatMap(entry => entry.tags));
+      const tagIds = new Map(entryTags.map(tag => [tag.name, tag.id]));
+
+      const now = new Date();
+      const newEntries: NewTimeEntry[] = entries.map(entry => ({
+        id: nanoid(),
+        projectId: entry.projectId ?? projectIds.get(projectKey(entry.clientName, entry.projectName))!,
+        userId,
+        description: entry.description,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        durationMinutes: entry.durationMinutes,
+        isActive: false,
+        billable: entry.billable,
+        taskId: null,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+      await db.transaction(async (tx) => {
+        await tx.insert(timeEntries).values(newEntries);
+
+        const entryTagRows = newEntries.flatMap((newEntry, index) =>
+          entries[index].tags.map(name => ({ timeEntryId: newEntry.id, tagId: tagIds.get(name)!, createdAt: now }))
+        );
+
+        if (entryTagRows.length > 0) {
+          await tx.insert(timeEntryTags).values(entryTagRows);
+        }
+      });
+
+      new Set(newEntries.map(newEntry => newEntry.projectId)).forEach(projectId => {
+        budgetService.checkAlerts(projectId).catch(error => {
+          console.error('Error checking budget alerts:', error);
+        });
+      });
+    } catch (error) {
+      for (const project of createdProjects) {
+        await projectService.deleteProject(userId, project.id);
+      }
+      for (const client of createdClients) {
+        await clientService.deleteClient(userId, client.id);
+      }
+      throw error;
+    }
+
+    return {
+      format: preview.format,
+      imported: entries.length,
+      skippedInvalid: preview.errors.length,
+      skippedOverlapping: preview.entries.length - entries.length,
+      createdClients: createdClients.map(client => client.name),
+      createdProjects: createdProjects.map(project => project.name),
+      totalHours: Math.round(entries.reduce((acc, entry) => acc + entry.durationMinutes, 0) / 60 * 100) / 100,
+    };
+  }
+
+  private async parseFile(content: Buffer, options: ImportFileOptions): Promise<{ format: ImportFormat; rows: ParsedImportRow[]; errors: ImportRowError[] }> {
+    const records = await readImportFile(content, options.fileType);
+
+    if (records.length === 0) {
+      throw new ServiceError('The file contains no entries');
+    }
+
+    const format = options.format && options.format !== 'auto'
+      ? options.format
+      : detectImportFormat(Object.keys(records[0]));
+
+    if (!format) {
+      throw new ServiceError('Could not detect the file format from its columns. Choose toggl, clockify, harvest or generic.');
+    }
+
+    return { format, ...mapImportRecords(records, format) };
+  }
+
+  /**
+   * Finds the user's project by name, preferring the one under the row's client
+   */
+  private matchProject(projectList: ProjectWithClient[], row: ParsedImportRow): ProjectWithClient | null {
+    const candidates = projectList.filter(({ project }) => nameKey(project.name) === nameKey(row.projectName));
+
+    if (!row.clientName) {
+      return candidates[0] ?? null;
+    }
+
+    return candidates.find(({ client }) => nameKey(client.name) === nameKey(row.clientName)) ?? null;
+  }
+
+  /**
+   * Records overlaps between rows of the file and with the user's existing entries
+   */
+  private async findOverlaps(userId: string, entries: ImportPreviewEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const sorted = [...entries].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    sorted.forEach((entry, index) => {
+      for (const other of sorted.slice(index + 1)) {
+        if (other.startTime >= entry.endTime) break;
+
+        entry.overlaps.push({ rowNumber: other.rowNumber, timeEntryId: null, description: other.description, startTime: other.startTime, endTime: other.endTime });
+        other.overlaps.push({ rowNumber: entry.rowNumber, timeEntryId: null, description: entry.description, startTime: entry.startTime, endTime: entry.endTime });
+      }
+    });
+
+    const rangeStart = sorted[0].startTime;
+    const rangeEnd = new Date(Math.max(...sorted.map(entry => entry.endTime.getTime())));
+    const existing = await timeEntryService.findOverlappingEntries(userId, rangeStart, rangeEnd);
+    const now = new Date();
+
+    for (const entry of entries) {
+      for (const timeEntry of existing) {
+        if (rangesOverlap(entry.startTime, entry.endTime, timeEntry.startTime, timeEntry.endTime ?? now)) {
+          entry.overlaps.push({
+            rowNumber: null,
+            timeEntryId: timeEntry.id,
+            description: timeEntry.description,
+            startTime: timeEntry.startTime,
+            endTime: timeEntry.endTime,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Creates the clients and projects the entries need, returning the new project IDs
+   * keyed by client and project name
+   */
+  private async createMissingProjects(
+    userId: string,
+    entries: ImportPreviewEntry[],
+    createdClients: Client[],
+    createdProjects: Project[]
+  ): Promise<Map<string, string>> {
+    const projectIds = new Map<string, string>();
+    const clientList = await clientService.listClients(userId, false);
+
+    for (const entry of entries) {
+      const key = projectKey(entry.clientName, entry.projectName);
+      if (entry.projectId || projectIds.has(key)) continue;
+
+      let client = [...clientList, ...createdClients].find(candidate => nameKey(candidate.name) === nameKey(entry.clientName));
+      if (!client) {
+        client = await clientService.createClient(userId, { name: entry.clientName.trim() });
+        createdClients.push(client);
+      }
+
+      const project = await projectService.createProject(userId, { clientId: client.id, name: entry.projectName.trim() });
+      createdProjects.push(project);
+      projectIds.set(key, project.id);
+    }
+
+    return projectIds;
+  }
+}
@@ -0,0 +1,148 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { type InvoiceDetails } from './invoices';
+import { formatMoney } from './currency';
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+// The standard PDF fonts only cover WinAnsi (Latin-1 plus €); anything else is replaced
+const toPdfText = (value: string) => value.replace(/\s+/g, ' ').replace(/[^\x20-\x7E\xA0-\xFF\u20AC]/g, '?');
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Standalone, printable HTML document for an invoice
+ */
+export function renderInvoiceHtml({ invoice, client, lines }: InvoiceDetails): string {
+  const lineRows = lines
+    .map(line => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="num">${line.quantity ?? ''}</td>
+          <td class="num">${line.unitPrice ? formatMoney(line.unitPrice, invoice.currency) : ''}</td>
+          <td class="num">${formatMoney(line.amount, invoice.currency)}</td>
+        </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 40px; }
+    h1 { margin: 0 0 4px; }
+    .muted { color: #6b7280; }
+    .void { color: #dc2626; font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    .num { text-align: right; }
+    .totals td { border-bottom: none; }
+    .total td { font-weight: bold; border-top: 2px solid #111827; }
+  </style>
+</head>
+<body>
+  <h1>Invoice ${escapeHtml(invoice.invoiceNumber)}</h1>
+  ${invoice.status === 'void' ? `<p class="void">VOID${invoice.voidReason ? ` — ${escapeHtml(invoice.voidReason)}` : ''}</p>` : ''}
+  <p class="muted">
+    Issued ${formatDate(invoice.issueDate)} · Due ${formatDate(invoice.dueDate)}<br />
+    Period ${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)}
+  </p>
+  <p><strong>Bill to:</strong> ${escapeHtml(client.name)}</p>
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        <th class="num">Hours</th>
+        <th class="num">Rate</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${lineRows}
+    </tbody>
+    <tfoot>
+      <tr class="totals"><td colspan="3" class="num">Subtotal</td><td class="num">${formatMoney(invoice.subtotal, invoice.currency)}</td></tr>
+      <tr class="total"><td colspan="3" class="num">Total</td><td class="num">${formatMoney(invoice.total, invoice.currency)}</td></tr>
+    </tfoot>
+  </table>
+  ${invoice.notes ? `<p class="muted">${escapeHtml(invoice.notes)}</p>` : ''}
+</body>
+</html>`;
+}
+
+/**
+ * PDF rendering of the same layout, on as many A4 pages as the lines need
+ */
+export async function renderInvoicePdf({ invoice, client, lines }: InvoiceDetails): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Invoice ${invoice.invoiceNumber}`);
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const margin = 50;
+  // Numeric columns are right-aligned to these x positions
+  const columns = { description: margin, hours: 370, rate: 450, amount: 545 };
+
+  let page: PDFPage = pdf.addPage([595.28, 841.89]);
+  let y = page.getHeight() - margin;
+
+  const drawText = (text: string, x: number, size = 10, textFont: PDFFont = font) => {
+    page.drawText(toPdfText(text), { x, y, size, font: textFont, color: rgb(0.07, 0.09, 0.15) });
+  };
+  const drawRight = (text: string, rightX: number, size = 10, textFont: PDFFont = font) => {
+    drawText(text, rightX - textFont.widthOfTextAtSize(toPdfText(text), size), size, textFont);
+  };
+  const nextLine = (height = 16) => {
+    y -= height;
+    if (y < margin) {
+      page = pdf.addPage([595.28, 841.89]);
+      y = page.getHeight() - margin;
+    }
+  };
+
+  drawText(`Invoice ${invoice.invoiceNumber}`, margin, 20, boldFont);
+  nextLine(24);
+  if (invoice.status === 'void') {
+    drawText(`VOID${invoice.voidReason ? ` - ${invoice.voidReason}` : ''}`, margin, 12, boldFont);
+    nextLine(20);
+  }
+  drawText(`Issued ${formatDate(invoice.issueDate)}   Due ${formatDate(invoice.dueDate)}`, margin);
+  nextLine();
+  drawText(`Period ${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)}`, margin);
+  nextLine(24);
+  drawText(`Bill to: ${client.name}`, margin, 12, boldFont);
+  nextLine(32);
+
+  drawText('Description', columns.description, 10, boldFont);
+  drawRight('Hours', columns.hours, 10, boldFont);
+  drawRight('Rate', columns.rate, 10, boldFont);
+  drawRight('Amount', columns.amount, 10, boldFont);
+  nextLine(20);
+
+  lines.forEach(line => {
+    drawText(line.description.slice(0, 55), columns.description);
+    if (line.quantity) drawRight(line.quantity, columns.hours);
+    if (line.unitPrice) drawRight(formatMoney(line.unitPrice, invoice.currency), columns.rate);
+    drawRight(formatMoney(line.amount, invoice.currency), columns.amount);
+    nextLine();
+  });
+
+  nextLine(8);
+  drawRight('Subtotal', columns.rate);
+  drawRight(formatMoney(invoice.subtotal, invoice.currency), columns.amount);
+  nextLine();
+  drawRight('Total', columns.rate, 12, boldFont);
+  drawRight(formatMoney(invoice.total, invoice.currency), columns.amount, 12, boldFont);
+
+  if (invoice.notes) {
+    nextLine(32);
+    drawText(invoice.notes.slice(0, 100), margin, 9);
+  }
+
+  return pdf.save();
+}
@@ -0,0 +1,413 @@
+import { db } from '../../drizzle/connection';
+import {
+  invoices,
+  invoiceLines,
+  invoiceSequences,
+  timeEntries,
+  projects,
+  clients,
+  type Invoice,
+  type InvoiceLine,
+  type NewInvoice,
+  type NewInvoiceLine,
+  type TimeEntry,
+  type Project,
+  type Client,
+} from '../../drizzle/schema';
+import { eq, and, gte, lte, isNull, isNotNull, inArray, desc, asc, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { ExchangeRateService, normalizeCurrency } from './currency';
+import { RateCardService } from './rate-cards';
+import { isBillable } from './time-entries';
+
+export type InvoiceStatus = Invoice['status'];
+
+export interface InvoiceAdjustments {
+  /** Percentage taken off the subtotal before tax */
+  discountPercent?: number;
+  /** Percentage applied to the discounted subtotal */
+  taxRate?: number;
+  /** Label for the tax line, e.g. "VAT" */
+  taxLabel?: string;
+}
+
+export interface CreateInvoiceInput extends InvoiceAdjustments {
+  clientId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  dueInDays?: number;
+  notes?: string;
+}
+
+export interface InvoiceDetails {
+  invoice: Invoice;
+  client: Client;
+  lines: InvoiceLine[];
+}
+
+export interface InvoiceCurrencySubtotal {
+  currency: string;
+  invoiceCount: number;
+  total: number;
+  /** In the reporting currency; null when an exchange rate is missing */
+  convertedTotal: number | null;
+}
+
+export interface InvoiceTotals {
+  reportingCurrency: string;
+  subtotals: InvoiceCurrencySubtotal[];
+  /** Sum of converted totals of issued invoices */
+  total: number;
+  missingRates: string[];
+}
+
+type DraftInvoiceLine = Omit<NewInvoiceLine, 'id' | 'invoiceId' | 'createdAt'>;
+
+const toCents = (value: string | number) => Math.round(Number(value) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * Build invoice lines from billable entries: one time line per project and rate,
+ * followed by optional discount and tax lines. Amounts are computed in cents.
+ */
+export function buildInvoiceLines(
+  entries: { timeEntry: TimeEntry; project: Project }[],
+  adjustments: InvoiceAdjustments = {}
+) {
+  const minutesByProject = new Map<string, { project: Project; minutes: number }>();
+
+  entries.forEach(({ timeEntry, project }) => {
+    const key = `${project.id}:${project.hourlyRate}`;
+    const existing = minutesByProject.get(key);
+    if (existing) {
+      existing.minutes += timeEntry.durationMinutes ?? 0;
+    } else {
+      minutesByProject.set(key, { project, minutes: timeEntry.durationMinutes ?? 0 });
+    }
+  });
+
+  const lines: DraftInvoiceLine[] = [];
+  let subtotalCents = 0;
+
+  Array.from(minutesByProject.values())
+    .sort((a, b) => a.project.name.localeCompare(b.project.name) || Number(a.project.hourlyRate) - Number(b.project.hourlyRate))
+    .forEach(({ project, minutes }) => {
+      const amountCents = Math.round((minutes * toCents(project.hourlyRate ?? 0)) / 60);
+      subtotalCents += amountCents;
+      lines.push({
+        type: 'time',
+        projectId: project.id,
+        description: project.name,
+        quantity: (minutes / 60).toFixed(2),
+        unitPrice: project.hourlyRate,
+        amount: fromCents(amountCents),
+        sortOrder: lines.length,
+      });
+    });
+
+  let discountCents = 0;
+  if (adjustments.discountPercent) {
+    discountCents = Math.round((subtotalCents * adjustments.discountPercent) / 100);
+    lines.push({
+      type: 'discount',
+      description: `Discount (${adjustments.discountPercent}%)`,
+      ratePercent: adjustments.discountPercent.toFixed(2),
+      amount: fromCents(-discountCents),
+      sortOrder: lines.length,
+    });
+  }
+
+  let taxCents = 0;
+  if (adjustments.taxRate) {
+    taxCents = Math.round(((subtotalCents - discountCents) * adjustments.taxRate) / 100);
+    lines.push({
+      type: 'tax',
+      description: `${adjustments.taxLabel || 'Tax'} (${adjustments.taxRate}%)`,
+      ratePercent: adjustments.taxRate.toFixed(2),
+      amount: fromCents(taxCents),
+      sortOrder: lines.length,
+    });
+  }
+
+  return {
+    lines,
+    subtotal: fromCents(subtotalCents),
+    discountTotal: fromCents(discountCents),
+    taxTotal: fromCents(taxCents),
+    total: fromCents(subtotalCents - discountCents + taxCents),
+  };
+}
+
+/**
+ * Formats the nth invoice of a year, e.g. INV-2024-0007
+ */
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `INV-${year}-${String(sequence).padStart(4, '0')}`;
+}
+
+const exchangeRateService = new ExchangeRateService();
+const rateCardService = new RateCardService();
+
+export class InvoiceService {
+
+  /**
+   * Completed, confirmed, not yet invoiced entries on the client's projects
+   */
+  async getUninvoicedEntries(userId: string, clientId: string, periodStart: Date, periodEnd: Date) {
+    return db
+      .select({
+        timeEntry: timeEntries,
+        project: projects,
+      })
+      .from(timeEntries)
+      .innerJoin(projects, eq(timeEntries.projectId, projects.id))
+      .where(
+        and(
+          eq(timeEntries.userId, userId),
+          eq(projects.clientId, clientId),
+          isNull(timeEntries.invoiceId),
+          isNotNull(timeEntries.endTime),
+          eq(timeEntries.isDraft, false),
+          isBillable(),
+          gte(timeEntries.startTime, periodStart),
+          lte(timeEntries.startTime, periodEnd)
+        )
+      )
+      .orderBy(asc(timeEntries.startTime));
+  }
+
+  async createInvoice(userId: string, input: CreateInvoiceInput): Promise<InvoiceDetails> {
+    const [client] = await db
+      .select()
+      .from(clients)
+      .where(eq(clients.id, input.clientId))
+      .limit(1);
+
+    if (!client) {
+      throw new Error('Client not found');
+    }
+
+    if (input.periodEnd <= input.periodStart) {
+      throw new Error('Period end must be after period start');
+    }
+
+    const entries = await this.getUninvoicedEntries(userId, input.clientId, input.periodStart, input.periodEnd);
+
+    // Each entry is billed at the rate valid when it started; entries without a rate aren't billable
+    const resolveRate = await rateCardService.createResolver(entries.map(({ project }) => project));
+    const billable = entries.flatMap(({ timeEntry, project }) => {
+      const rateCard = resolveRate({ userId, projectId: project.id, clientId: project.clientId, at: timeEntry.startTime });
+      return rateCard ? [{ timeEntry, project, rateCard }] : [];
+    });
+
+    if (billable.length === 0) {
+      throw new Error('No uninvoiced billable time entries found for this client and period');
+    }
+
+    // Invoices are billed in the client's currency; rates in other currencies are converted at issue
+    const issueDate = new Date();
+    const convert = await exchangeRateService.createConverter(
+      billable.map(({ rateCard }) => rateCard.currency),
+      client.currency
+    );
+    const pricedEntries = billable.map(({ timeEntry, project, rateCard }) => {
+      const hourlyRate = convert(Number(rateCard.hourlyRate), rateCard.currency, issueDate);
+      if (hourlyRate === null) {
+        throw new Error(`No exchange rate from ${rateCard.currency} to ${client.currency} for project ${project.name}`);
+      }
+
+      return { timeEntry, project: { ...project, hourlyRate: hourlyRate.toFixed(2), currency: client.currency } };
+    });
+
+    const draft = buildInvoiceLines(pricedEntries, input);
+    const entryIds = billable.map(({ timeEntry }) => timeEntry.id);
+
+    return db.transaction(async (tx) => {
+      const dueDate = new Date(issueDate);
+      dueDate.setDate(dueDate.getDate() + (input.dueInDays ?? 30));
+
+      // Atomically claim the next number in this year's sequence
+      const year = issueDate.getFullYear();
+      const [sequence] = await tx
+        .insert(invoiceSequences)
+        .values({ year, lastNumber: 1, updatedAt: issueDate })
+        .onConflictDoUpdate({
+          target: invoiceSequences.year,
+          set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1`, updatedAt: issueDate },
+        })
+        .returning();
+
+      const newInvoice: NewInvoice = {
+        id: nanoid(),
+        invoiceNumber: formatInvoiceNumber(year, sequence.lastNumber),
+        clientId: input.clientId,
+        userId,
+        status: 'issued',
+        currency: client.currency,
+        periodStart: input.periodStart,
+        periodEnd: input.periodEnd,
+        issueDate,
+        dueDate,
+        subtotal: draft.subtotal,
+        discountTotal: draft.discountTotal,
+        taxTotal: draft.taxTotal,
+        total: draft.total,
+        notes: input.notes,
+        createdAt: issueDate,
+        updatedAt: issueDate,
+      };
+
+      const [invoice] = await tx.insert(invoices).values(newInvoice).returning();
+
+      const lines = await tx
+        .insert(invoiceLines)
+        .values(draft.lines.map(line => ({ ...line, id: nanoid(), invoiceId: invoice.id, createdAt: issueDate })))
+        .returning();
+
+      // Only claim entries that are still uninvoiced; anything else means a concurrent invoice won
+      const claimed = await tx
+        .update(timeEntries)
+        .set({ invoiceId: invoice.id, updatedAt: issueDate })
+        .where(and(inArray(timeEntries.id, entryIds), isNull(timeEntries.invoiceId)))
+        .returning({ id: timeEntries.id });
+
+      if (claimed.length !== entryIds.length) {
+        throw new Error('Some time entries were invoiced concurrently. Please try again.');
+      }
+
+      return { invoice, client, lines };
+    });
+  }
+
+  async listInvoices(
+    userId: string,
+    options: { clientId?: string; status?: InvoiceStatus; limit?: number } = {}
+  ) {
+    const conditions = [eq(invoices.userId, userId)];
+
+    if (options.clientId) {
+      conditions.push(eq(invoices.clientId, options.clientId));
+    }
+
+    if (options.status) {
+      conditions.push(eq(invoices.status, options.status));
+    }
+
+    return db
+      .select({
+        invoice: invoices,
+        clientName: clients.name,
+      })
+      .from(invoices)
+      .innerJoin(clients, eq(invoices.clientId, clients.id))
+      .where(and(...conditions))
+      .orderBy(desc(invoices.issueDate))
+      .limit(options.limit ?? 50);
+  }
+
+  /**
+   * Totals of issued invoices per currency, and overall in the reporting currency
+   * at the exchange rate effective on each invoice's issue date
+   */
+  async summarizeTotals(invoiceList: Invoice[], reportingCurrency: string): Promise<InvoiceTotals> {
+    const currency = normalizeCurrency(reportingCurrency);
+    const issued = invoiceList.filter(invoice => invoice.status === 'issued');
+    const convert = await exchangeRateService.createConverter(issued.map(invoice => invoice.currency), currency);
+
+    const subtotalsByCurrency = new Map<string, InvoiceCurrencySubtotal>();
+    const missingRates = new Set<string>();
+
+    issued.forEach(invoice => {
+      const total = Number(invoice.total);
+      const converted = convert(total, invoice.currency, invoice.issueDate);
+
+      if (converted === null) {
+        missingRates.add(invoice.currency);
+      }
+
+      const existing = subtotalsByCurrency.get(invoice.currency);
+      if (existing) {
+        existing.invoiceCount += 1;
+        existing.total += total;
+        existing.convertedTotal = existing.convertedTotal === null || converted === null
+          ? null
+          : existing.convertedTotal + converted;
+      } else {
+        subtotalsByCurrency.set(invoice.currency, {
+          currency: invoice.currency,
+          invoiceCount: 1,
+          total,
+          convertedTotal: converted,
+        });
+      }
+    });
+
+    const subtotals = Array.from(subtotalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+
+    return {
+      reportingCurrency: currency,
+      subtotals,
+      total: subtotals.reduce((acc, subtotal) => acc + (subtotal.convertedTotal ?? 0), 0),
+      missingRates: Array.from(missingRates).sort(),
+    };
+  }
+
+  async getInvoice(userId: string, invoiceId: string): Promise<InvoiceDetails | null> {
+    const [result] = await db
+      .select({
+        invoice: invoices,
+        client: clients,
+      })
+      .from(invoices)
+      .innerJoin(clients, eq(invoices.clientId, clients.id))
+      .where(and(eq(invoices.id, invoiceId), eq(invoices.userId, userId)))
+      .limit(1);
+
+    if (!result) {
+      return null;
+    }
+
+    const lines = await db
+      .select()
+      .from(invoiceLines)
+      .where(eq(invoiceLines.invoiceId, invoiceId))
+      .orderBy(asc(invoiceLines.sortOrder));
+
+    return { ...result, lines };
+  }
+
+  /**
+   * Voids an issued invoice and releases its time entries so they can be billed again
+   */
+  async voidInvoice(userId: string, invoiceId: string, reason?: string): Promise<Invoice> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.id, invoiceId), eq(invoices.userId, userId)))
+      .limit(1);
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (invoice.status === 'void') {
+      throw new Error('Invoice is already void');
+    }
+
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const [voided] = await tx
+        .update(invoices)
+        .set({ status: 'void', voidedAt: now, voidReason: reason || null, updatedAt: now })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+
+      await tx
+        .update(timeEntries)
+        .set({ invoiceId: null, updatedAt: now })
+        .where(eq(timeEntries.invoiceId, invoiceId));
+
+      return voided;
+    });
+  }
+}
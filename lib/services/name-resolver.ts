@@ -0,0 +1,235 @@
+import { ProjectService } from './projects';
+import { ClientService } from './clients';
+import { type Client, type Project } from '../../drizzle/schema';
+
+const projectService = new ProjectService();
+const clientService = new ClientService();
+
+export interface NameMatch<T> {
+  item: T;
+  /** 1 for an exact match, down to MIN_MATCH_SCORE for a loose one */
+  score: number;
+}
+
+/** A project given by ID, or by name optionally narrowed down by its client's name */
+export interface ProjectReference {
+  projectId?: string;
+  projectName?: string;
+  clientName?: string;
+}
+
+export interface ProjectLookupOptions {
+  /** Also match deactivated projects, e.g. to reactivate one by name */
+  includeInactive?: boolean;
+}
+
+export interface ClientReference {
+  clientId?: string;
+  clientName?: string;
+}
+
+// Matches scoring lower than this are not offered at all
+const MIN_MATCH_SCORE = 0.5;
+
+// How far the best match must be ahead of the next to be picked without asking
+const CLEAR_LEAD = 0.15;
+
+// How many candidates an ambiguity error lists
+const MAX_CANDIDATES = 5;
+
+/**
+ * Lower case without accents, with punctuation and repeated spaces collapsed
+ */
+export const normalizeName = (name: string) => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim();
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * How well a name matches what was asked for, from 0 (not at all) to 1 (the same once normalized).
+ * Prefixes and word prefixes ("acme web" for "Acme Website") score high, typos lower.
+ */
+export function scoreName(query: string, name: string): number {
+  const wanted = normalizeName(query);
+  const candidate = normalizeName(name);
+
+  if (!wanted || !candidate) {
+    return 0;
+  }
+
+  if (wanted === candidate || wanted.replace(/ /g, '') === candidate.replace(/ /g, '')) {
+    return 1;
+  }
+
+  if (candidate.startsWith(wanted)) {
+    return 0.9;
+  }
+
+  const wantedWords = wanted.split(' ');
+  const candidateWords = candidate.split(' ');
+  if (wantedWords.every(word => candidateWords.some(candidateWord => candidateWord.startsWith(word)))) {
+    return 0.8;
+  }
+
+  if (candidate.includes(wanted)) {
+    return 0.7;
+  }
+
+  const similarity = 1 - editDistance(wanted, candidate) / Math.max(wanted.length, candidate.length);
+  const sharedWords = wantedWords.filter(word => candidateWords.includes(word)).length / wantedWords.length;
+
+  return Math.max(similarity * 0.75, sharedWords * 0.6);
+}
+
+/**
+ * Items whose name matches the query, best first
+ */
+export function rankByName<T>(query: string, items: T[], getName: (item: T) => string): NameMatch<T>[] {
+  return items
+    .map(item => ({ item, score: scoreName(query, getName(item)) }))
+    .filter(match => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The match to use: the only exact one, or one clearly better than the rest. Throws listing the
+ * closest candidates when there is no match or several are about as good.
+ */
+export function pickBestMatch<T>(
+  matches: NameMatch<T>[],
+  kind: 'project' | 'client',
+  query: string,
+  describe: (item: T) => string
+): T {
+  const [best, next] = matches;
+
+  if (!best) {
+    throw new Error(`No ${kind} matches "${query}"`);
+  }
+
+  const exact = matches.filter(match => match.score === 1);
+  if (exact.length === 1) {
+    return exact[0].item;
+  }
+
+  if (exact.length === 0 && (!next || best.score - next.score >= CLEAR_LEAD)) {
+    return best.item;
+  }
+
+  const candidates = (exact.length > 1 ? exact : matches.filter(match => best.score - match.score < CLEAR_LEAD))
+    .slice(0, MAX_CANDIDATES)
+    .map(match => describe(match.item))
+    .join('; ');
+
+  throw new Error(`The ${kind} name "${query}" is ambiguous. Candidates: ${candidates}. Pass the ${kind}Id or a more specific name.`);
+}
+
+/**
+ * Resolves projects and clients given by name to their IDs, so tools can accept
+ * "projectName"/"clientName" as well as IDs
+ */
+export class NameResolver {
+
+  /**
+   * The client ID given, or the one whose name best matches clientName; undefined if neither is given
+   */
+  async findClientId(userId: string, reference: ClientReference): Promise<string | undefined> {
+    if (reference.clientId) {
+      return reference.clientId;
+    }
+
+    if (!reference.clientName) {
+      return undefined;
+    }
+
+    return (await this.findClient(userId, reference.clientName)).id;
+  }
+
+  async resolveClientId(userId: string, reference: ClientReference): Promise<string> {
+    const clientId = await this.findClientId(userId, reference);
+    if (!clientId) {
+      throw new Error('Give a clientId or clientName');
+    }
+    return clientId;
+  }
+
+  /**
+   * The project ID given, or the one of the user's active projects whose name best matches
+   * projectName, among the projects of the client named by clientName if given. A client name
+   * alone picks the client's only project. Undefined if no project is named.
+   */
+  async findProjectId(userId: string, reference: ProjectReference, options: ProjectLookupOptions = {}): Promise<string | undefined> {
+    if (reference.projectId) {
+      return reference.projectId;
+    }
+
+    if (!reference.projectName && !reference.clientName) {
+      return undefined;
+    }
+
+    const [projectList, clientList] = await Promise.all([
+      projectService.listProjects(userId, undefined, !options.includeInactive),
+      clientService.listClients(userId, false),
+    ]);
+    const clientNames = new Map(clientList.map(client => [client.id, client.name]));
+    const describe = (project: Project) => `${project.name} (${clientNames.get(project.clientId) ?? 'unknown client'}, ID: ${project.id})`;
+
+    let candidates = projectList.filter(project => project.userId === userId);
+
+    if (reference.clientName) {
+      const client = pickBestMatch(
+        rankByName(reference.clientName, clientList.filter(client => candidates.some(project => project.clientId === client.id)), client => client.name),
+        'client',
+        reference.clientName,
+        client => `${client.name} (ID: ${client.id})`
+      );
+      candidates = candidates.filter(project => project.clientId === client.id);
+
+      if (!reference.projectName) {
+        return pickBestMatch(
+          candidates.map(item => ({ item, score: 1 })),
+          'project',
+          `of ${client.name}`,
+          describe
+        ).id;
+      }
+    }
+
+    return pickBestMatch(rankByName(reference.projectName!, candidates, project => project.name), 'project', reference.projectName!, describe).id;
+  }
+
+  async resolveProjectId(userId: string, reference: ProjectReference, options: ProjectLookupOptions = {}): Promise<string> {
+    const projectId = await this.findProjectId(userId, reference, options);
+    if (!projectId) {
+      throw new Error('Give a projectId or projectName');
+    }
+    return projectId;
+  }
+
+  private async findClient(userId: string, clientName: string): Promise<Client> {
+    const clientList = await clientService.listClients(userId, false);
+
+    return pickBestMatch(
+      rankByName(clientName, clientList, client => client.name),
+      'client',
+      clientName,
+      client => `${client.name}${client.active ? '' : ', inactive'} (ID: ${client.id})`
+    );
+  }
+}
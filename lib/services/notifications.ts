@@ -0,0 +1,66 @@
+import { db } from '../../drizzle/connection';
+import { notifications, type Notification, type NotificationType } from '../../drizzle/schema';
+import { eq, and, isNull, desc, inArray } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  projectId?: string;
+}
+
+export class NotificationService {
+
+  async notify(userId: string, input: NotificationInput): Promise<Notification> {
+    const [created] = await db
+      .insert(notifications)
+      .values({
+        id: nanoid(),
+        userId,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        projectId: input.projectId ?? null,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return created;
+  }
+
+  async listNotifications(userId: string, unreadOnly: boolean = false, limit: number = 50): Promise<Notification[]> {
+    const conditions = [eq(notifications.userId, userId)];
+
+    if (unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+
+    return db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Marks the given notifications as read, or all of the user's unread notifications
+   * when no IDs are given. Returns how many were updated.
+   */
+  async markRead(userId: string, notificationIds?: string[]): Promise<number> {
+    const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+
+    if (notificationIds) {
+      conditions.push(inArray(notifications.id, notificationIds));
+    }
+
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+
+    return updated.length;
+  }
+}
@@ -2,6 +2,10 @@ import { db } from '../../drizzle/connection';
 import { projects, clients, timeEntries, type Project, type NewProject } from '../../drizzle/schema';
 import { eq, and } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { normalizeCurrency } from './currency';
+import { RateCardService, RATE_EPOCH } from './rate-cards';
+
+const rateCardService = new RateCardService();
 
 export class ProjectService {
   
@@ -21,11 +25,23 @@ export class ProjectService {
       id: nanoid(),
       userId,
       ...data,
+      // Rates are in the client's currency unless stated otherwise
+      currency: data.currency ? normalizeCurrency(data.currency) : client.currency,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
     const [created] = await db.insert(projects).values(newProject).returning();
+
+    // The initial rate covers all time on the project, including back-dated entries
+    if (created.hourlyRate) {
+      await rateCardService.setRate(userId, {
+        projectId: created.id,
+        hourlyRate: Number(created.hourlyRate),
+        validFrom: RATE_EPOCH,
+      });
+    }
+
     return created;
   }
 
@@ -73,8 +89,19 @@ export class ProjectService {
       }
     }
 
+    const [current] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, projectId))
+      .limit(1);
+
+    if (!current) {
+      return null;
+    }
+
     const updateData = {
       ...data,
+      ...(data.currency && { currency: normalizeCurrency(data.currency) }),
       updatedAt: new Date(),
     };
 
@@ -84,6 +111,16 @@ export class ProjectService {
       .where(eq(projects.id, projectId))
       .returning();
 
+    // A new rate only applies from now on; earlier time keeps the rate it was tracked at
+    if (updated && updated.hourlyRate && Number(updated.hourlyRate) !== Number(current.hourlyRate)) {
+      await rateCardService.setRate(userId, {
+        projectId,
+        hourlyRate: Number(updated.hourlyRate),
+        currency: updated.currency,
+        validFrom: updateData.updatedAt,
+      });
+    }
+
     return updated || null;
   }
 
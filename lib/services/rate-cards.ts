@@ -0,0 +1,246 @@
+import { db } from '../../drizzle/connection';
+import {
+  rateCards,
+  projects,
+  clients,
+  type RateCard,
+  type NewRateCard,
+  type RateScope,
+} from '../../drizzle/schema';
+import { eq, and, or, inArray, isNull, asc, type SQL } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { normalizeCurrency } from './currency';
+
+/** Start of validity for rates that apply to all past time */
+export const RATE_EPOCH = new Date(0);
+
+export interface RateTarget {
+  clientId?: string;
+  projectId?: string;
+  /** Member overrides apply to one user on one project */
+  userId?: string;
+}
+
+export interface SetRateInput extends RateTarget {
+  hourlyRate: number;
+  /** Defaults to the project's (or client's) currency */
+  currency?: string;
+  validFrom: Date;
+  /** Exclusive; omit to keep the rate until the next rate for the same target starts */
+  validTo?: Date | null;
+}
+
+export interface RateLookup {
+  userId: string;
+  projectId: string;
+  clientId: string;
+  at: Date;
+}
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Scope of a rate from what it targets: a user on a project, a project, or a client
+ */
+export function getRateScope(target: RateTarget): RateScope {
+  if (target.userId) {
+    if (!target.projectId) {
+      throw new Error('A member rate requires a projectId');
+    }
+    return 'member';
+  }
+
+  if (target.projectId) {
+    return 'project';
+  }
+
+  if (target.clientId) {
+    return 'client';
+  }
+
+  throw new Error('A rate requires a clientId or projectId');
+}
+
+/**
+ * Picks the rate card valid at a moment, preferring a member override,
+ * then the project rate, then the client default
+ */
+export function resolveRate(cards: RateCard[], lookup: RateLookup): RateCard | null {
+  const valid = cards.filter(card =>
+    card.validFrom <= lookup.at && (!card.validTo || lookup.at < card.validTo)
+  );
+
+  return (
+    valid.find(card => card.scope === 'member' && card.projectId === lookup.projectId && card.userId === lookup.userId) ??
+    valid.find(card => card.scope === 'project' && card.projectId === lookup.projectId) ??
+    valid.find(card => card.scope === 'client' && card.clientId === lookup.clientId) ??
+    null
+  );
+}
+
+export class RateCardService {
+
+  async listRates(target: RateTarget = {}): Promise<RateCard[]> {
+    const conditions: SQL[] = [];
+
+    if (target.clientId) {
+      conditions.push(eq(rateCards.clientId, target.clientId));
+    }
+
+    if (target.projectId) {
+      conditions.push(eq(rateCards.projectId, target.projectId));
+    }
+
+    if (target.userId) {
+      conditions.push(eq(rateCards.userId, target.userId));
+    }
+
+    return db
+      .select()
+      .from(rateCards)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(rateCards.scope), asc(rateCards.validFrom));
+  }
+
+  /**
+   * Sets a rate for a target from a date on. A rate already running at that date is
+   * ended there (and resumed after validTo, if given); an open-ended new rate stops
+   * where the next later rate starts. Setting a rate on the same start date replaces it.
+   */
+  async setRate(createdBy: string, input: SetRateInput): Promise<RateCard> {
+    const scope = getRateScope(input);
+    const validTo = input.validTo ?? null;
+
+    if (!(input.hourlyRate > 0)) {
+      throw new Error('Hourly rate must be positive');
+    }
+
+    if (validTo && validTo <= input.validFrom) {
+      throw new Error('Rate must end after it starts');
+    }
+
+    let defaultCurrency: string;
+    if (input.projectId) {
+      const [project] = await db.select().from(projects).where(eq(projects.id, input.projectId)).limit(1);
+      if (!project) {
+        throw new Error('Project not found');
+      }
+      defaultCurrency = project.currency;
+    } else {
+      const [client] = await db.select().from(clients).where(eq(clients.id, input.clientId!)).limit(1);
+      if (!client) {
+        throw new Error('Client not found');
+      }
+      defaultCurrency = client.currency;
+    }
+
+    const currency = input.currency ? normalizeCurrency(input.currency) : defaultCurrency;
+    const hourlyRate = input.hourlyRate.toString();
+    const targetCondition = scope === 'client'
+      ? and(eq(rateCards.scope, 'client'), eq(rateCards.clientId, input.clientId!))
+      : scope === 'project'
+        ? and(eq(rateCards.scope, 'project'), eq(rateCards.projectId, input.projectId!))
+        : and(eq(rateCards.scope, 'member'), eq(rateCards.projectId, input.projectId!), eq(rateCards.userId, input.userId!));
+
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const existing = await tx
+        .select()
+        .from(rateCards)
+        .where(targetCondition)
+        .orderBy(asc(rateCards.validFrom));
+
+      const sameStart = existing.find(card => card.validFrom.getTime() === input.validFrom.getTime());
+      if (sameStart) {
+        const [replaced] = await tx
+          .update(rateCards)
+          .set({ hourlyRate, currency, ...(input.validTo !== undefined && { validTo }), updatedAt: now })
+          .where(eq(rateCards.id, sameStart.id))
+          .returning();
+        return replaced;
+      }
+
+      const running = existing.find(card =>
+        card.validFrom < input.validFrom && (!card.validTo || card.validTo > input.validFrom)
+      );
+      const later = existing.filter(card => card.validFrom > input.validFrom);
+
+      let end = validTo;
+      if (!end) {
+        end = later[0]?.validFrom ?? null;
+      } else {
+        const overlapping = later.find(card => card.validFrom < end!);
+        if (overlapping) {
+          throw new Error(`Rate overlaps an existing rate starting on ${formatDate(overlapping.validFrom)}`);
+        }
+      }
+
+      if (running) {
+        await tx
+          .update(rateCards)
+          .set({ validTo: input.validFrom, updatedAt: now })
+          .where(eq(rateCards.id, running.id));
+
+        // A temporary rate inside a longer one: the longer rate resumes afterwards
+        if (end && (!running.validTo || running.validTo > end)) {
+          await tx.insert(rateCards).values({
+            ...running,
+            id: nanoid(),
+            validFrom: end,
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+      }
+
+      const newRate: NewRateCard = {
+        id: nanoid(),
+        scope,
+        clientId: scope === 'client' ? input.clientId : null,
+        projectId: scope === 'client' ? null : input.projectId,
+        userId: scope === 'member' ? input.userId : null,
+        hourlyRate,
+        currency,
+        validFrom: input.validFrom,
+        validTo: end,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const [created] = await tx.insert(rateCards).values(newRate).returning();
+      return created;
+    });
+  }
+
+  async deleteRate(rateId: string): Promise<boolean> {
+    const result = await db
+      .delete(rateCards)
+      .where(eq(rateCards.id, rateId));
+
+    return result.rowCount! > 0;
+  }
+
+  /**
+   * Loads every rate card that can apply to time on the given projects, so that
+   * many entries can be priced without further queries
+   */
+  async createResolver(projectList: { id: string; clientId: string }[]): Promise<(lookup: RateLookup) => RateCard | null> {
+    const projectIds = Array.from(new Set(projectList.map(project => project.id)));
+    const clientIds = Array.from(new Set(projectList.map(project => project.clientId)));
+
+    const cards = projectIds.length === 0
+      ? []
+      : await db
+          .select()
+          .from(rateCards)
+          .where(
+            or(
+              inArray(rateCards.projectId, projectIds),
+              and(isNull(rateCards.projectId), inArray(rateCards.clientId, clientIds))
+            )
+          );
+
+    return (lookup) => resolveRate(cards, lookup);
+  }
+}
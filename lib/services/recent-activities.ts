@@ -0,0 +1,99 @@
+import { db } from '../../drizzle/connection';
+import { timeEntries, projects, clients } from '../../drizzle/schema';
+import { eq, and, gte, sql } from 'drizzle-orm';
+
+export interface RecentActivity {
+  projectId: string;
+  projectName: string;
+  clientName: string;
+  description: string;
+  /** Start of the latest entry for this project and description */
+  lastUsedAt: Date;
+  useCount: number;
+  totalMinutes: number;
+  /** Used often enough to count as a favourite */
+  favourite: boolean;
+  /** Ranking score; frequent and recent work scores higher */
+  score: number;
+}
+
+export interface RecentActivityOptions {
+  /** How many days of history to look at; defaults to 30 */
+  days?: number;
+  /** Maximum number of suggestions; defaults to 10 */
+  limit?: number;
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A use counts half as much after this many days
+const HALF_LIFE_DAYS = 7;
+
+// Uses within the period before a project and description count as a favourite
+const FAVOURITE_MIN_USES = 3;
+
+/**
+ * Ranks project/description pairs by "frecency": each pair scores its number of uses,
+ * discounted by how long ago it was last used.
+ */
+export function rankActivities(
+  activities: Omit<RecentActivity, 'favourite' | 'score'>[],
+  now: Date
+): RecentActivity[] {
+  return activities
+    .map(activity => {
+      const ageDays = Math.max(0, (now.getTime() - activity.lastUsedAt.getTime()) / DAY_MS);
+      const score = activity.useCount * Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+
+      return {
+        ...activity,
+        favourite: activity.useCount >= FAVOURITE_MIN_USES,
+        score: Math.round(score * 100) / 100,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+}
+
+export class RecentActivityService {
+
+  /**
+   * What the user has been working on recently, as project and description pairs ranked
+   * for restarting. Draft entries and inactive projects are left out.
+   */
+  async getRecentActivities(userId: string, options: RecentActivityOptions = {}): Promise<RecentActivity[]> {
+    const now = options.now ?? new Date();
+    const since = new Date(now.getTime() - (options.days ?? 30) * DAY_MS);
+    const description = sql<string>`trim(${timeEntries.description})`;
+
+    const rows = await db
+      .select({
+        projectId: timeEntries.projectId,
+        projectName: projects.name,
+        clientName: clients.name,
+        description,
+        lastUsedAt: sql<string>`max(${timeEntries.startTime})`,
+        useCount: sql<number>`count(*)`,
+        totalMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)`,
+      })
+      .from(timeEntries)
+      .innerJoin(projects, eq(projects.id, timeEntries.projectId))
+      .innerJoin(clients, eq(clients.id, projects.clientId))
+      .where(and(
+        eq(timeEntries.userId, userId),
+        eq(timeEntries.isDraft, false),
+        eq(projects.active, true),
+        gte(timeEntries.startTime, since)
+      ))
+      .groupBy(timeEntries.projectId, projects.name, clients.name, description);
+
+    const activities = rows.map(row => ({
+      ...row,
+      lastUsedAt: new Date(row.lastUsedAt),
+      useCount: Number(row.useCount),
+      totalMinutes: Number(row.totalMinutes),
+    }));
+
+    return rankActivities(activities, now).slice(0, options.limit ?? 10);
+  }
+}
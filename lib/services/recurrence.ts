@@ -0,0 +1,197 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/**
+ * The supported subset of an iCalendar RRULE
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays, 0 = Sunday; empty for the weekday of the first day (weekly) or any day */
+  byDay: number[];
+  /** Days of the month, negative counting back from the end; empty for the day of the first day (monthly) or any day */
+  byMonthDay: number[];
+  /** Total number of occurrences, counted from the first day */
+  count: number | null;
+  /** Last day (YYYY-MM-DD) an occurrence can fall on */
+  until: string | null;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Never look further than this for occurrences, however far apart a rule spaces them
+const MAX_SCAN_DAYS = 366 * 10;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const toDayNumber = (date: string) => {
+  const match = date.match(DATE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid date: ${date}. Use YYYY-MM-DD`);
+  }
+
+  const day = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (new Date(day).toISOString().slice(0, 10) !== date) {
+    throw new Error(`Invalid date: ${date}. Use YYYY-MM-DD`);
+  }
+
+  return day / DAY_MS;
+};
+
+const fromDayNumber = (dayNumber: number) => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+export const isValidDate = (date: string) => {
+  try {
+    toDayNumber(date);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const addDays = (date: string, days: number) => fromDayNumber(toDayNumber(date) + days);
+
+/**
+ * Parses an RRULE (with or without the "RRULE:" prefix). Supports FREQ=DAILY|WEEKLY|MONTHLY with
+ * INTERVAL, BYDAY (plain weekdays, daily and weekly only), BYMONTHDAY, COUNT and UNTIL.
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+
+  for (const part of rrule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw new Error(`Invalid recurrence rule part: ${part}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const unsupported = [...parts.keys()].filter(key => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'].includes(key));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported recurrence rule parts: ${unsupported.join(', ')}`);
+  }
+
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY') {
+    throw new Error('FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error('INTERVAL must be a positive whole number');
+  }
+
+  const byDay = (parts.get('BYDAY')?.split(',') ?? []).map(day => {
+    const index = WEEKDAYS.indexOf(day);
+    if (index === -1) {
+      throw new Error(`Unsupported BYDAY value: ${day}`);
+    }
+    return index;
+  });
+
+  if (byDay.length > 0 && frequency === 'MONTHLY') {
+    throw new Error('BYDAY is only supported with FREQ=DAILY or FREQ=WEEKLY');
+  }
+
+  const byMonthDay = (parts.get('BYMONTHDAY')?.split(',') ?? []).map(day => {
+    const value = Number(day);
+    if (!Number.isInteger(value) || value === 0 || value < -31 || value > 31) {
+      throw new Error(`Invalid BYMONTHDAY value: ${day}`);
+    }
+    return value;
+  });
+
+  const countValue = parts.get('COUNT');
+  const count = countValue === undefined ? null : Number(countValue);
+  if (count !== null && (!Number.isInteger(count) || count < 1)) {
+    throw new Error('COUNT must be a positive whole number');
+  }
+
+  const untilValue = parts.get('UNTIL');
+  const untilMatch = untilValue?.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  if (untilValue && !untilMatch) {
+    throw new Error('UNTIL must be a date such as 20261231');
+  }
+  const until = untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null;
+
+  if (count !== null && until) {
+    throw new Error('Use either COUNT or UNTIL, not both');
+  }
+
+  return { frequency, interval, byDay, byMonthDay, count, until };
+}
+
+function occursOn(rule: RecurrenceRule, startsOn: number, day: number): boolean {
+  const date = new Date(day * DAY_MS);
+  const first = new Date(startsOn * DAY_MS);
+  const weekday = date.getUTCDay();
+  const monthDay = date.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const matchesMonthDay = (days: number[]) => days.some(value => value > 0 ? value === monthDay : daysInMonth + value + 1 === monthDay);
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return (day - startsOn) % rule.interval === 0
+        && (rule.byDay.length === 0 || rule.byDay.includes(weekday))
+        && (rule.byMonthDay.length === 0 || matchesMonthDay(rule.byMonthDay));
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const weekStart = (value: number) => value - ((new Date(value * DAY_MS).getUTCDay() + 6) % 7);
+      const weeks = (weekStart(day) - weekStart(startsOn)) / 7;
+      return weeks % rule.interval === 0
+        && (rule.byDay.length > 0 ? rule.byDay : [first.getUTCDay()]).includes(weekday)
+        && (rule.byMonthDay.length === 0 || matchesMonthDay(rule.byMonthDay));
+    }
+    case 'MONTHLY': {
+      const months = (date.getUTCFullYear() - first.getUTCFullYear()) * 12 + date.getUTCMonth() - first.getUTCMonth();
+      return months % rule.interval === 0
+        && matchesMonthDay(rule.byMonthDay.length > 0 ? rule.byMonthDay : [first.getUTCDate()]);
+    }
+  }
+}
+
+/**
+ * The days (YYYY-MM-DD) from `from` through `to` on which a rule starting on `startsOn` occurs.
+ * COUNT is counted from `startsOn`, so earlier occurrences use up the count too.
+ */
+export function listOccurrences(rule: RecurrenceRule, startsOn: string, from: string, to: string): string[] {
+  const first = toDayNumber(startsOn);
+  const last = Math.min(
+    toDayNumber(to),
+    rule.until ? toDayNumber(rule.until) : Infinity,
+    first + MAX_SCAN_DAYS
+  );
+  const start = toDayNumber(from);
+  const occurrences: string[] = [];
+  let counted = 0;
+
+  for (let day = first; day <= last; day++) {
+    if (!occursOn(rule, first, day)) {
+      continue;
+    }
+
+    counted++;
+    if (rule.count !== null && counted > rule.count) {
+      break;
+    }
+
+    if (day >= start) {
+      occurrences.push(fromDayNumber(day));
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * A readable summary of a rule, e.g. "every 2 weeks on MO, WE"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.frequency];
+  const every = rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`;
+  const days = rule.byDay.length > 0 ? ` on ${rule.byDay.map(day => WEEKDAYS[day]).join(', ')}` : '';
+  const monthDays = rule.byMonthDay.length > 0 ? ` on day ${rule.byMonthDay.join(', ')}` : '';
+  const end = rule.count !== null ? `, ${rule.count} times` : rule.until ? `, until ${rule.until}` : '';
+
+  return `${every}${days}${monthDays}${end}`;
+}
@@ -0,0 +1,450 @@
+import { db } from '../../drizzle/connection';
+import {
+  recurringTemplates,
+  recurringTemplateExceptions,
+  projects,
+  timeEntries,
+  type RecurringTemplate,
+  type RecurringTemplateException,
+  type RecurringEntryStatus,
+} from '../../drizzle/schema';
+import { eq, and, asc, gte, inArray } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { TimeEntryService } from './time-entries';
+import { TaskService } from './tasks';
+import { ServiceError } from './errors';
+import { getTimeZoneOffset, zonedTimeToUtc } from './icalendar';
+import { parseRecurrenceRule, listOccurrences, describeRecurrenceRule, addDays, isValidDate } from './recurrence';
+
+const timeEntryService = new TimeEntryService();
+const taskService = new TaskService();
+
+export interface RecurringTemplateInput {
+  projectId: string;
+  description: string;
+  /** RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR */
+  rrule: string;
+  /** YYYY-MM-DD; defaults to today */
+  startsOn?: string;
+  /** HH:MM in the time zone */
+  startTime: string;
+  durationMinutes: number;
+  timeZone?: string;
+  billable?: boolean | null;
+  taskId?: string | null;
+  entryStatus?: RecurringEntryStatus;
+}
+
+export type RecurringTemplateChanges = Partial<RecurringTemplateInput> & { active?: boolean };
+
+export interface OccurrenceOverride {
+  description?: string;
+  startTime?: string;
+  durationMinutes?: number;
+}
+
+export type RecurringTemplateWithSchedule = RecurringTemplate & {
+  projectName: string;
+  /** Readable summary of the rule */
+  schedule: string;
+  /** The next few days (YYYY-MM-DD) not yet logged */
+  nextOccurrences: string[];
+  /** Skipped and changed occurrences not yet logged */
+  exceptions: RecurringTemplateException[];
+};
+
+export interface RecurringMaterialiseResult {
+  created: number;
+  skipped: number;
+  failed: number;
+}
+
+// Enough upcoming occurrences to pick one to skip or change
+const UPCOMING_OCCURRENCE_COUNT = 5;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The calendar day (YYYY-MM-DD) it is in the time zone at the given instant
+ */
+export function getLocalDate(instant: Date, timeZone: string): string {
+  return new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone)).toISOString().slice(0, 10);
+}
+
+/**
+ * Description and times of the occurrence on a day, with any override applied
+ */
+export function getOccurrenceTimes(
+  template: Pick<RecurringTemplate, 'description' | 'startTime' | 'durationMinutes' | 'timeZone'>,
+  date: string,
+  exception?: Pick<RecurringTemplateException, 'description' | 'startTime' | 'durationMinutes'> | null
+): { description: string; startTime: Date; endTime: Date } {
+  const time = exception?.startTime ?? template.startTime;
+  const durationMinutes = exception?.durationMinutes ?? template.durationMinutes;
+  const startTime = zonedTimeToUtc(Date.parse(`${date}T${time}:00Z`), template.timeZone);
+
+  return {
+    description: exception?.description ?? template.description,
+    startTime,
+    endTime: new Date(startTime.getTime() + durationMinutes * 60 * 1000),
+  };
+}
+
+function validateTiming(values: { startTime?: string; durationMinutes?: number; timeZone?: string; startsOn?: string }) {
+  if (values.startTime !== undefined && !TIME_PATTERN.test(values.startTime)) {
+    throw new Error('Start time must be in HH:MM format');
+  }
+
+  if (values.durationMinutes !== undefined && !(Number.isInteger(values.durationMinutes) && values.durationMinutes >= 1 && values.durationMinutes <= 24 * 60)) {
+    throw new Error('Duration must be a whole number of minutes between 1 and 1440');
+  }
+
+  if (values.timeZone !== undefined && !isTimeZone(values.timeZone)) {
+    throw new Error(`Unknown time zone: ${values.timeZone}`);
+  }
+
+  if (values.startsOn !== undefined && !isValidDate(values.startsOn)) {
+    throw new Error('Start date must be in YYYY-MM-DD format');
+  }
+}
+
+export class RecurringTemplateService {
+
+  async listTemplates(userId: string, now: Date = new Date()): Promise<RecurringTemplateWithSchedule[]> {
+    const rows = await db
+      .select({ template: recurringTemplates, projectName: projects.name })
+      .from(recurringTemplates)
+      .innerJoin(projects, eq(projects.id, recurringTemplates.projectId))
+      .where(eq(recurringTemplates.userId, userId))
+      .orderBy(asc(recurringTemplates.createdAt));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const exceptions = await db
+      .select()
+      .from(recurringTemplateExceptions)
+      .where(inArray(recurringTemplateExceptions.templateId, rows.map(({ template }) => template.id)))
+      .orderBy(asc(recurringTemplateExceptions.occurrenceDate));
+
+    return rows.map(({ template, projectName }) => {
+      const rule = parseRecurrenceRule(template.rrule);
+      const from = this.getFirstPendingDate(template, now);
+
+      return {
+        ...template,
+        projectName,
+        schedule: describeRecurrenceRule(rule),
+        nextOccurrences: template.active
+          ? listOccurrences(rule, template.startsOn, from, addDays(from, 366)).slice(0, UPCOMING_OCCURRENCE_COUNT)
+          : [],
+        exceptions: exceptions.filter(exception => exception.templateId === template.id && exception.occurrenceDate >= from),
+      };
+    });
+  }
+
+  /**
+   * Creates a template. Occurrences before today are not logged.
+   */
+  async createTemplate(userId: string, input: RecurringTemplateInput, now: Date = new Date()): Promise<RecurringTemplate> {
+    const timeZone = input.timeZone ?? 'UTC';
+    validateTiming({ ...input, timeZone });
+    parseRecurrenceRule(input.rrule);
+
+    if (!input.description.trim()) {
+      throw new Error('Description is required');
+    }
+
+    await this.assertOwnProject(userId, input.projectId);
+
+    if (input.taskId) {
+      await taskService.assertTaskForEntry(input.taskId, input.projectId);
+    }
+
+    const today = getLocalDate(now, timeZone);
+    const startsOn = input.startsOn ?? today;
+
+    const [template] = await db
+      .insert(recurringTemplates)
+      .values({
+        id: nanoid(),
+        userId,
+        projectId: input.projectId,
+        description: input.description.trim(),
+        rrule: input.rrule.trim().replace(/^RRULE:/i, ''),
+        startsOn,
+        startTime: input.startTime,
+        durationMinutes: input.durationMinutes,
+        timeZone,
+        billable: input.billable ?? null,
+        taskId: input.taskId ?? null,
+        entryStatus: input.entryStatus ?? 'draft',
+        active: true,
+        materialisedThrough: addDays(startsOn > today ? startsOn : today, -1),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    return template;
+  }
+
+  /**
+   * Changes a template; occurrences already logged are left as they are
+   */
+  async updateTemplate(userId: string, templateId: string, changes: RecurringTemplateChanges): Promise<RecurringTemplate | null> {
+    const template = await this.getTemplate(userId, templateId);
+    if (!template) {
+      return null;
+    }
+
+    validateTiming(changes);
+    if (changes.rrule !== undefined) {
+      parseRecurrenceRule(changes.rrule);
+    }
+
+    if (changes.description !== undefined && !changes.description.trim()) {
+      throw new Error('Description is required');
+    }
+
+    const projectId = changes.projectId ?? template.projectId;
+    if (changes.projectId !== undefined) {
+      await this.assertOwnProject(userId, changes.projectId);
+    }
+
+    const taskId = changes.taskId === undefined ? template.taskId : changes.taskId;
+    if (taskId && (changes.taskId !== undefined || changes.projectId !== undefined)) {
+      await taskService.assertTaskForEntry(taskId, projectId);
+    }
+
+    const [updated] = await db
+      .update(recurringTemplates)
+      .set({
+        ...changes,
+        description: changes.description?.trim(),
+        rrule: changes.rrule?.trim().replace(/^RRULE:/i, ''),
+        updatedAt: new Date(),
+      })
+      .where(eq(recurringTemplates.id, templateId))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Deletes a template; entries logged from it are kept
+   */
+  async deleteTemplate(userId: string, templateId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(recurringTemplates)
+      .where(and(eq(recurringTemplates.id, templateId), eq(recurringTemplates.userId, userId)))
+      .returning({ id: recurringTemplates.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Skips one occurrence, or changes its description, start time or duration. Replaces any
+   * earlier exception for the same day.
+   */
+  async setOccurrenceException(
+    userId: string,
+    templateId: string,
+    occurrenceDate: string,
+    override: OccurrenceOverride | null
+  ): Promise<RecurringTemplateException> {
+    const template = await this.getTemplate(userId, templateId);
+    if (!template) {
+      throw new Error('Recurring template not found');
+    }
+
+    if (!isValidDate(occurrenceDate)) {
+      throw new Error('Occurrence date must be in YYYY-MM-DD format');
+    }
+
+    if (template.materialisedThrough && occurrenceDate <= template.materialisedThrough) {
+      throw new Error(`The occurrence on ${occurrenceDate} has already been handled; edit or delete its time entry instead`);
+    }
+
+    const rule = parseRecurrenceRule(template.rrule);
+    if (listOccurrences(rule, template.startsOn, occurrenceDate, occurrenceDate).length === 0) {
+      throw new Error(`The template has no occurrence on ${occurrenceDate}`);
+    }
+
+    if (override) {
+      validateTiming(override);
+      if (override.description === undefined && override.startTime === undefined && override.durationMinutes === undefined) {
+        throw new Error('Give a description, start time or duration to change');
+      }
+    }
+
+    const values = {
+      action: override ? 'override' as const : 'skip' as const,
+      description: override?.description?.trim() || null,
+      startTime: override?.startTime ?? null,
+      durationMinutes: override?.durationMinutes ?? null,
+    };
+
+    const [exception] = await db
+      .insert(recurringTemplateExceptions)
+      .values({ id: nanoid(), templateId, occurrenceDate, ...values, createdAt: new Date() })
+      .onConflictDoUpdate({
+        target: [recurringTemplateExceptions.templateId, recurringTemplateExceptions.occurrenceDate],
+        set: values,
+      })
+      .returning();
+
+    return exception;
+  }
+
+  /**
+   * Logs a time entry for every occurrence of the active templates that has ended since the
+   * last run, as a draft or confirmed entry depending on the template. Each occurrence is
+   * logged at most once. Those that can't be logged (e.g. rejected as overlapping) are reported
+   * as failed; those that failed for another reason, such as a database error, are retried on
+   * the next run.
+   */
+  async materialiseDue(now: Date = new Date()): Promise<RecurringMaterialiseResult> {
+    const templates = await db
+      .select()
+      .from(recurringTemplates)
+      .where(eq(recurringTemplates.active, true));
+
+    const result: RecurringMaterialiseResult = { created: 0, skipped: 0, failed: 0 };
+
+    for (const template of templates) {
+      try {
+        const from = this.getFirstPendingDate(template, now);
+        const today = getLocalDate(now, template.timeZone);
+        if (from > today) {
+          continue;
+        }
+
+        const rule = parseRecurrenceRule(template.rrule);
+        const exceptions = await db
+          .select()
+          .from(recurringTemplateExceptions)
+          .where(and(
+            eq(recurringTemplateExceptions.templateId, template.id),
+            gte(recurringTemplateExceptions.occurrenceDate, from)
+          ));
+        const exceptionsByDate = new Map(exceptions.map(exception => [exception.occurrenceDate, exception]));
+
+        const logged = await db
+          .select({ occurrenceDate: timeEntries.recurringOccurrenceDate })
+          .from(timeEntries)
+          .where(and(
+            eq(timeEntries.recurringTemplateId, template.id),
+            gte(timeEntries.recurringOccurrenceDate, from)
+          ));
+        const loggedDates = new Set(logged.map(entry => entry.occurrenceDate));
+
+        // Days up to today are done unless an occurrence is still to come or has to be retried
+        let handledThrough = today;
+        let firstRetryDate: string | null = null;
+
+        for (const date of listOccurrences(rule, template.startsOn, from, today)) {
+          const exception = exceptionsByDate.get(date);
+          const occurrence = getOccurrenceTimes(template, date, exception);
+
+          if (occurrence.endTime > now) {
+            handledThrough = addDays(date, -1);
+            break;
+          }
+
+          if (exception?.action === 'skip') {
+            result.skipped++;
+            continue;
+          }
+
+          if (loggedDates.has(date)) {
+            continue;
+          }
+
+          try {
+            await timeEntryService.addManualTimeEntry(
+              template.userId,
+              template.projectId,
+              occurrence.description,
+              occurrence.startTime,
+              occurrence.endTime,
+              {
+                billable: template.billable ?? undefined,
+                taskId: template.taskId ?? undefined,
+                draft: template.entryStatus === 'draft',
+                recurringTemplateId: template.id,
+                recurringOccurrenceDate: date,
+              }
+            );
+            result.created++;
+          } catch (error) {
+            console.error(`Error logging the ${date} occurrence of recurring template ${template.id}:`, error);
+            result.failed++;
+            if (!(error instanceof ServiceError)) {
+              firstRetryDate ??= date;
+            }
+          }
+        }
+
+        if (firstRetryDate) {
+          handledThrough = addDays(firstRetryDate, -1);
+        }
+
+        if (handledThrough >= from) {
+          await db
+            .update(recurringTemplates)
+            .set({ materialisedThrough: handledThrough })
+            .where(eq(recurringTemplates.id, template.id));
+        }
+      } catch (error) {
+        console.error(`Error materialising recurring template ${template.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  async getTemplate(userId: string, templateId: string): Promise<RecurringTemplate | null> {
+    const [template] = await db
+      .select()
+      .from(recurringTemplates)
+      .where(and(eq(recurringTemplates.id, templateId), eq(recurringTemplates.userId, userId)))
+      .limit(1);
+
+    return template || null;
+  }
+
+  /**
+   * The first day the scheduler hasn't handled yet, never before the template starts
+   */
+  private getFirstPendingDate(template: RecurringTemplate, now: Date): string {
+    const next = template.materialisedThrough ? addDays(template.materialisedThrough, 1) : template.startsOn;
+    const first = next > template.startsOn ? next : template.startsOn;
+    const today = getLocalDate(now, template.timeZone);
+
+    // Inactive templates pick up from today when they are resumed
+    return template.active || first > today ? first : today;
+  }
+
+  private async assertOwnProject(userId: string, projectId: string): Promise<void> {
+    const [project] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.userId, userId)))
+      .limit(1);
+
+    if (!project) {
+      throw new Error('Project not found or does not belong to user');
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { db } from '../../drizzle/connection';
+import { reportingLines, user, type ReportingLine, type NewReportingLine } from '../../drizzle/schema';
+import { eq, asc } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { nanoid } from 'nanoid';
+import { loadDirectReports } from '../authorization';
+
+const manager = alias(user, 'manager');
+const employee = alias(user, 'employee');
+
+export class ReportingLineService {
+
+  async listReportingLines() {
+    return db
+      .select({
+        id: reportingLines.id,
+        managerId: reportingLines.managerId,
+        managerName: manager.name,
+        managerEmail: manager.email,
+        employeeId: reportingLines.employeeId,
+        employeeName: employee.name,
+        employeeEmail: employee.email,
+        createdAt: reportingLines.createdAt,
+        updatedAt: reportingLines.updatedAt,
+      })
+      .from(reportingLines)
+      .leftJoin(manager, eq(manager.id, reportingLines.managerId))
+      .leftJoin(employee, eq(employee.id, reportingLines.employeeId))
+      .orderBy(asc(manager.name), asc(employee.name));
+  }
+
+  async listUsers() {
+    return db
+      .select({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      })
+      .from(user)
+      .orderBy(asc(user.name));
+  }
+
+  /**
+   * Returns the reason the assignment is invalid, or null if it can be made
+   */
+  async validateAssignment(employeeId: string, managerId: string): Promise<string | null> {
+    if (employeeId === managerId) {
+      return 'A user cannot report to themselves';
+    }
+
+    const [managerUser] = await db.select({ id: user.id }).from(user).where(eq(user.id, managerId)).limit(1);
+    if (!managerUser) {
+      return 'Manager not found';
+    }
+
+    const [employeeUser] = await db.select({ id: user.id }).from(user).where(eq(user.id, employeeId)).limit(1);
+    if (!employeeUser) {
+      return 'Employee not found';
+    }
+
+    // The manager must not already sit somewhere below the employee
+    const employeeReports = await loadDirectReports(employeeId, { transitive: true });
+    if (employeeReports.includes(managerId)) {
+      return 'Assigning this manager would create a reporting cycle';
+    }
+
+    return null;
+  }
+
+  async assignManager(employeeId: string, managerId: string, assignedBy: string): Promise<ReportingLine> {
+    const invalidReason = await this.validateAssignment(employeeId, managerId);
+    if (invalidReason) {
+      throw new Error(invalidReason);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(reportingLines)
+      .where(eq(reportingLines.employeeId, employeeId))
+      .limit(1);
+
+    // Each employee has a single manager; reassigning replaces the line
+    if (existing) {
+      const [updated] = await db
+        .update(reportingLines)
+        .set({ managerId, createdBy: assignedBy, updatedAt: new Date() })
+        .where(eq(reportingLines.id, existing.id))
+        .returning();
+
+      return updated;
+    }
+
+    const newLine: NewReportingLine = {
+      id: nanoid(),
+      managerId,
+      employeeId,
+      createdBy: assignedBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const [created] = await db.insert(reportingLines).values(newLine).returning();
+    return created;
+  }
+
+  async removeManager(employeeId: string): Promise<boolean> {
+    const result = await db
+      .delete(reportingLines)
+      .where(eq(reportingLines.employeeId, employeeId));
+
+    return result.rowCount! > 0;
+  }
+}
@@ -1,6 +1,12 @@
 import { db } from "@/drizzle/connection";
-import { timeEntries, projects } from "@/drizzle/schema";
-import { and, eq, gte, lte, sql, inArray } from "drizzle-orm";
+import { timeEntries, projects, clients, tasks, type TaskStatus } from "@/drizzle/schema";
+import { and, eq, gte, lte, sql, inArray, isNotNull } from "drizzle-orm";
+import { ExchangeRateService, DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import { RateCardService } from "./rate-cards";
+import { isBillable, calculateUtilisation } from "./time-entries";
+
+const exchangeRateService = new ExchangeRateService();
+const rateCardService = new RateCardService();
 
 /**
  * Options for report queries that support viewing other users' data
@@ -29,7 +35,7 @@ export async function getDashboardSummary(
   const [last] = await db
     .select({ last: timeEntries.startTime })
     .from(timeEntries)
-    .where(and(eq(timeEntries.userId, queryUserId)))
+    .where(and(eq(timeEntries.userId, queryUserId), eq(timeEntries.isDraft, false)))
     .orderBy(sql`start_time DESC`)
     .limit(1);
 
@@ -41,15 +47,18 @@ export async function getDashboardSummary(
 
   const [total] = await db
     .select({
-      minutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}),0)`
+      minutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}),0)`,
+      billableMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}) filter (where ${isBillable()}),0)`
     })
     .from(timeEntries)
+    .innerJoin(projects, eq(timeEntries.projectId, projects.id))
     .where(
       and(
         eq(timeEntries.userId, queryUserId),
         lte(timeEntries.startTime, new Date()),
         gte(timeEntries.startTime, startOfMonth),
-        sql` ${timeEntries.durationMinutes} IS NOT NULL`
+        sql` ${timeEntries.durationMinutes} IS NOT NULL`,
+        eq(timeEntries.isDraft, false)
       )
     );
 
@@ -69,7 +78,8 @@ export async function getDashboardSummary(
       and(
         eq(timeEntries.userId, queryUserId),
         gte(timeEntries.startTime, startOfWeek),
-        sql` ${timeEntries.durationMinutes} IS NOT NULL`
+        sql` ${timeEntries.durationMinutes} IS NOT NULL`,
+        eq(timeEntries.isDraft, false)
       )
     );
 
@@ -90,7 +100,8 @@ export async function getDashboardSummary(
         eq(timeEntries.userId, queryUserId),
         gte(timeEntries.startTime, startOfPrevWeek),
         lte(timeEntries.startTime, endOfPrevWeek),
-        sql` ${timeEntries.durationMinutes} IS NOT NULL`
+        sql` ${timeEntries.durationMinutes} IS NOT NULL`,
+        eq(timeEntries.isDraft, false)
       )
     );
 
@@ -111,11 +122,15 @@ export async function getDashboardSummary(
   const prevWeekHours = (prevWeekTotal?.minutes ?? 0) / 60;
   const weeklyTrend = prevWeekHours > 0 ? ((weeklyHours - prevWeekHours) / prevWeekHours) * 100 : 0;
   const totalHours = (total?.minutes ?? 0) / 60;
+  const billableHours = (total?.billableMinutes ?? 0) / 60;
   const averageDaily = workingDays > 0 ? totalHours / workingDays : 0;
 
   const result = {
     lastActivity: last?.last ?? null,
     totalHours: totalHours.toFixed(2),
+    billableHours: billableHours.toFixed(2),
+    nonBillableHours: (totalHours - billableHours).toFixed(2),
+    utilisation: calculateUtilisation(billableHours, totalHours),
     weeklyHours: weeklyHours.toFixed(2),
     weeklyTrend: weeklyTrend,
     averageDaily: averageDaily.toFixed(2),
@@ -167,7 +182,8 @@ export async function getDailyHours(
       and(
         userCondition,
         gte(timeEntries.startTime, since),
-        sql` ${timeEntries.durationMinutes} IS NOT NULL`
+        sql` ${timeEntries.durationMinutes} IS NOT NULL`,
+        eq(timeEntries.isDraft, false)
       )
     )
     .groupBy(sql`1`)
@@ -219,7 +235,8 @@ export async function getHoursByProjectCurrentMonth(
       and(
         userCondition,
         gte(timeEntries.startTime, startOfMonth),
-        sql` ${timeEntries.durationMinutes} IS NOT NULL`
+        sql` ${timeEntries.durationMinutes} IS NOT NULL`,
+        eq(timeEntries.isDraft, false)
       )
     )
     .groupBy(projects.id, projects.name);
@@ -267,7 +284,8 @@ export async function getMonthlyBilledHours(
       and(
         userCondition,
         gte(timeEntries.startTime, since),
-        sql` ${timeEntries.durationMinutes} IS NOT NULL`
+        sql` ${timeEntries.durationMinutes} IS NOT NULL`,
+        eq(timeEntries.isDraft, false)
       )
     )
     .groupBy(sql`1`)
@@ -275,3 +293,295 @@ export async function getMonthlyBilledHours(
 
   return rows;
 }
+
+export interface EarningsItem {
+  clientName: string;
+  projectName: string;
+  currency: string;
+  totalHours: number;
+  /** Only billable hours earn money */
+  billableHours: number;
+  /** The rate card rate; a project tracked at several rates gets one item per rate */
+  hourlyRate: number | null;
+  /** In the project's currency */
+  earnings: number;
+  /** In the reporting currency; null when an exchange rate is missing */
+  convertedEarnings: number | null;
+  entryCount: number;
+}
+
+export interface CurrencySubtotal {
+  currency: string;
+  totalHours: number;
+  earnings: number;
+  convertedEarnings: number | null;
+}
+
+export interface EarningsReport {
+  reportingCurrency: string;
+  items: EarningsItem[];
+  subtotals: CurrencySubtotal[];
+  totalHours: number;
+  billableHours: number;
+  nonBillableHours: number;
+  /** Billable share of total hours, in percent */
+  utilisation: number;
+  /** Sum of all converted earnings, in the reporting currency */
+  totalEarnings: number;
+  /** Currencies that could not be converted for at least one entry */
+  missingRates: string[];
+}
+
+/**
+ * Get earnings per project and rate for completed entries, converted into a reporting currency.
+ * Each billable entry is priced at the rate card valid at its start time and converted at the
+ * exchange rate effective on that date; non-billable time counts towards hours only.
+ * @param userId - The authenticated user's ID (for authorization context)
+ * @param filters - Date range and reporting currency (defaults to USD)
+ * @param options - Optional query options to view other users' data
+ */
+export async function getEarningsReport(
+  userId: string,
+  filters: { startDate?: Date; endDate?: Date; reportingCurrency?: string } = {},
+  options?: ReportQueryOptions
+): Promise<EarningsReport> {
+  const reportingCurrency = normalizeCurrency(filters.reportingCurrency ?? DEFAULT_CURRENCY);
+  const conditions = [
+    eq(timeEntries.userId, options?.targetUserId || userId),
+    isNotNull(timeEntries.endTime),
+    isNotNull(timeEntries.durationMinutes),
+    eq(timeEntries.isDraft, false),
+  ];
+
+  if (filters.startDate) {
+    conditions.push(gte(timeEntries.startTime, filters.startDate));
+  }
+
+  if (filters.endDate) {
+    conditions.push(lte(timeEntries.startTime, filters.endDate));
+  }
+
+  const rows = await db
+    .select({
+      timeEntry: timeEntries,
+      project: projects,
+      client: clients,
+    })
+    .from(timeEntries)
+    .innerJoin(projects, eq(timeEntries.projectId, projects.id))
+    .innerJoin(clients, eq(projects.clientId, clients.id))
+    .where(and(...conditions));
+
+  const resolveRate = await rateCardService.createResolver(rows.map(({ project }) => project));
+  const priced = rows.map(({ timeEntry, project, client }) => {
+    const rateCard = resolveRate({
+      userId: timeEntry.userId,
+      projectId: project.id,
+      clientId: client.id,
+      at: timeEntry.startTime,
+    });
+    return { timeEntry, project, client, rateCard };
+  });
+
+  const convert = await exchangeRateService.createConverter(
+    priced.map(({ project, rateCard }) => rateCard?.currency ?? project.currency),
+    reportingCurrency
+  );
+
+  const itemsByRate = new Map<string, EarningsItem>();
+  const missingRates = new Set<string>();
+
+  priced.forEach(({ timeEntry, project, client, rateCard }) => {
+    const hours = (timeEntry.durationMinutes ?? 0) / 60;
+    const billableHours = (timeEntry.billable ?? project.billable) ? hours : 0;
+    const hourlyRate = rateCard ? Number(rateCard.hourlyRate) : null;
+    const currency = rateCard?.currency ?? project.currency;
+    const earnings = hourlyRate ? billableHours * hourlyRate : 0;
+    const converted = earnings === 0 ? 0 : convert(earnings, currency, timeEntry.startTime);
+
+    if (converted === null) {
+      missingRates.add(currency);
+    }
+
+    const key = `${project.id}:${hourlyRate}:${currency}`;
+    const existing = itemsByRate.get(key);
+    if (existing) {
+      existing.totalHours += hours;
+      existing.billableHours += billableHours;
+      existing.earnings += earnings;
+      existing.convertedEarnings = existing.convertedEarnings === null || converted === null
+        ? null
+        : existing.convertedEarnings + converted;
+      existing.entryCount += 1;
+    } else {
+      itemsByRate.set(key, {
+        clientName: client.name,
+        projectName: project.name,
+        currency,
+        totalHours: hours,
+        billableHours,
+        hourlyRate,
+        earnings,
+        convertedEarnings: converted,
+        entryCount: 1,
+      });
+    }
+  });
+
+  const items = Array.from(itemsByRate.values());
+  const subtotalsByCurrency = new Map<string, CurrencySubtotal>();
+
+  items.forEach(item => {
+    const existing = subtotalsByCurrency.get(item.currency);
+    if (existing) {
+      existing.totalHours += item.totalHours;
+      existing.earnings += item.earnings;
+      existing.convertedEarnings = existing.convertedEarnings === null || item.convertedEarnings === null
+        ? null
+        : existing.convertedEarnings + item.convertedEarnings;
+    } else {
+      subtotalsByCurrency.set(item.currency, {
+        currency: item.currency,
+        totalHours: item.totalHours,
+        earnings: item.earnings,
+        convertedEarnings: item.convertedEarnings,
+      });
+    }
+  });
+
+  const totalHours = items.reduce((acc, item) => acc + item.totalHours, 0);
+  const billableHours = items.reduce((acc, item) => acc + item.billableHours, 0);
+
+  return {
+    reportingCurrency,
+    items,
+    subtotals: Array.from(subtotalsByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
+    totalHours,
+    billableHours,
+    nonBillableHours: totalHours - billableHours,
+    utilisation: calculateUtilisation(billableHours, totalHours),
+    totalEarnings: items.reduce((acc, item) => acc + (item.convertedEarnings ?? 0), 0),
+    missingRates: Array.from(missingRates).sort(),
+  };
+}
+
+export interface EstimateComparison {
+  estimateHours: number | null;
+  trackedHours: number;
+  /** Negative once over the estimate; null without an estimate */
+  remainingHours: number | null;
+  /** Tracked share of the estimate, in percent; null without an estimate */
+  percentUsed: number | null;
+  overBudget: boolean;
+}
+
+export interface TaskEstimateItem extends EstimateComparison {
+  taskId: string;
+  taskName: string;
+  projectId: string;
+  projectName: string;
+  status: TaskStatus;
+  assigneeId: string | null;
+}
+
+export interface ProjectEstimateItem extends EstimateComparison {
+  projectId: string;
+  projectName: string;
+  /** Time on the project that isn't booked against any task */
+  untaskedHours: number;
+  overBudgetTasks: number;
+}
+
+export interface EstimateReport {
+  tasks: TaskEstimateItem[];
+  /** Projects with at least one task; the estimate is the sum of their task estimates */
+  projects: ProjectEstimateItem[];
+}
+
+/**
+ * Compares tracked hours against an estimate
+ */
+export function compareToEstimate(trackedHours: number, estimateHours: number | null): EstimateComparison {
+  const tracked = Math.round(trackedHours * 100) / 100;
+
+  if (estimateHours === null || estimateHours <= 0) {
+    return { estimateHours, trackedHours: tracked, remainingHours: null, percentUsed: null, overBudget: false };
+  }
+
+  return {
+    estimateHours,
+    trackedHours: tracked,
+    remainingHours: Math.round((estimateHours - trackedHours) * 100) / 100,
+    percentUsed: Math.round((trackedHours / estimateHours) * 1000) / 10,
+    overBudget: trackedHours > estimateHours,
+  };
+}
+
+/**
+ * Get tracked vs estimated hours per task and per project, across all users' completed time.
+ * Done tasks are included so that finished work still counts towards its project.
+ * @param filters - Limit the report to one project, or to over-budget tasks and projects
+ */
+export async function getEstimateReport(
+  filters: { projectId?: string; overBudgetOnly?: boolean } = {}
+): Promise<EstimateReport> {
+  const taskRows = await db
+    .select({
+      task: tasks,
+      projectName: projects.name,
+      trackedMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)`,
+    })
+    .from(tasks)
+    .innerJoin(projects, eq(tasks.projectId, projects.id))
+    .leftJoin(timeEntries, and(eq(timeEntries.taskId, tasks.id), eq(timeEntries.isDraft, false)))
+    .where(filters.projectId ? eq(tasks.projectId, filters.projectId) : undefined)
+    .groupBy(tasks.id, projects.name)
+    .orderBy(projects.name, tasks.createdAt);
+
+  const projectIds = Array.from(new Set(taskRows.map(({ task }) => task.projectId)));
+  const projectRows = projectIds.length > 0
+    ? await db
+        .select({
+          projectId: timeEntries.projectId,
+          trackedMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)`,
+          untaskedMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}) filter (where ${timeEntries.taskId} is null), 0)`,
+        })
+        .from(timeEntries)
+        .where(and(inArray(timeEntries.projectId, projectIds), eq(timeEntries.isDraft, false)))
+        .groupBy(timeEntries.projectId)
+    : [];
+
+  const taskItems: TaskEstimateItem[] = taskRows.map(({ task, projectName, trackedMinutes }) => ({
+    taskId: task.id,
+    taskName: task.name,
+    projectId: task.projectId,
+    projectName,
+    status: task.status,
+    assigneeId: task.assigneeId,
+    ...compareToEstimate(Number(trackedMinutes) / 60, task.estimateHours !== null ? Number(task.estimateHours) : null),
+  }));
+
+  const projectItems: ProjectEstimateItem[] = projectIds.map(projectId => {
+    const projectTasks = taskItems.filter(task => task.projectId === projectId);
+    const totals = projectRows.find(row => row.projectId === projectId);
+    const estimates = projectTasks.filter(task => task.estimateHours !== null);
+    const estimateHours = estimates.length > 0
+      ? estimates.reduce((acc, task) => acc + (task.estimateHours ?? 0), 0)
+      : null;
+
+    return {
+      projectId,
+      projectName: projectTasks[0].projectName,
+      untaskedHours: Math.round((Number(totals?.untaskedMinutes ?? 0) / 60) * 100) / 100,
+      overBudgetTasks: projectTasks.filter(task => task.overBudget).length,
+      ...compareToEstimate(Number(totals?.trackedMinutes ?? 0) / 60, estimateHours),
+    };
+  });
+
+  return filters.overBudgetOnly
+    ? {
+        tasks: taskItems.filter(task => task.overBudget),
+        projects: projectItems.filter(project => project.overBudget || project.overBudgetTasks > 0),
+      }
+    : { tasks: taskItems, projects: projectItems };
+}
@@ -0,0 +1,157 @@
+import { db } from '../../drizzle/connection';
+import { tags, timeEntryTags, type Tag } from '../../drizzle/schema';
+import { eq, inArray, asc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { ServiceError } from './errors';
+
+/**
+ * Trims and lowercases a tag name, so that "Meeting " and "meeting" are the same tag
+ */
+export function normalizeTagName(name: string): string {
+  const normalized = name.trim().toLowerCase();
+
+  if (!normalized) {
+    throw new ServiceError('Tag name is required');
+  }
+
+  if (normalized.includes(',')) {
+    throw new ServiceError('Tag names cannot contain commas');
+  }
+
+  return normalized;
+}
+
+/**
+ * Normalizes a list of tag names, dropping duplicates
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  return Array.from(new Set(names.map(normalizeTagName)));
+}
+
+function normalizeColor(color: string): string {
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+    throw new ServiceError(`Invalid tag color: ${color}. Use a hex color such as #3b82f6`);
+  }
+
+  return color.toLowerCase();
+}
+
+export class TagService {
+
+  async createTag(userId: string, data: { name: string; color?: string | null }): Promise<Tag> {
+    const name = normalizeTagName(data.name);
+
+    const [existing] = await db.select().from(tags).where(eq(tags.name, name)).limit(1);
+    if (existing) {
+      throw new Error(`Tag already exists: ${name}`);
+    }
+
+    const [created] = await db
+      .insert(tags)
+      .values({
+        id: nanoid(),
+        name,
+        color: data.color ? normalizeColor(data.color) : null,
+        userId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    return created;
+  }
+
+  async listTags(): Promise<Tag[]> {
+    return db.select().from(tags).orderBy(asc(tags.name));
+  }
+
+  async updateTag(tagId: string, data: { name?: string; color?: string | null }): Promise<Tag | null> {
+    const name = data.name !== undefined ? normalizeTagName(data.name) : undefined;
+
+    if (name) {
+      const [existing] = await db.select().from(tags).where(eq(tags.name, name)).limit(1);
+      if (existing && existing.id !== tagId) {
+        throw new Error(`Tag already exists: ${name}`);
+      }
+    }
+
+    const [updated] = await db
+      .update(tags)
+      .set({
+        ...(name && { name }),
+        ...(data.color !== undefined && { color: data.color ? normalizeColor(data.color) : null }),
+        updatedAt: new Date(),
+      })
+      .where(eq(tags.id, tagId))
+      .returning();
+
+    return updated || null;
+  }
+
+  /**
+   * Deletes a tag; it is removed from every time entry it was attached to
+   */
+  async deleteTag(tagId: string): Promise<boolean> {
+    const result = await db
+      .delete(tags)
+      .where(eq(tags.id, tagId));
+
+    return result.rowCount! > 0;
+  }
+
+  /**
+   * Looks up tags by name, creating the ones that don't exist yet
+   */
+  async resolveTags(userId: string, names: string[]): Promise<Tag[]> {
+    const normalized = normalizeTagNames(names);
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    await db
+      .insert(tags)
+      .values(normalized.map(name => ({ id: nanoid(), name, userId, createdAt: now, updatedAt: now })))
+      .onConflictDoNothing({ target: tags.name });
+
+    return db.select().from(tags).where(inArray(tags.name, normalized)).orderBy(asc(tags.name));
+  }
+
+  /**
+   * Replaces the tags attached to a time entry
+   */
+  async setEntryTags(timeEntryId: string, tagIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(timeEntryTags).where(eq(timeEntryTags.timeEntryId, timeEntryId));
+
+      if (tagIds.length > 0) {
+        await tx
+          .insert(timeEntryTags)
+          .values(tagIds.map(tagId => ({ timeEntryId, tagId, createdAt: new Date() })));
+      }
+    });
+  }
+
+  /**
+   * Tag names per time entry ID, for the given entries
+   */
+  async getTagsForEntries(timeEntryIds: string[]): Promise<Map<string, string[]>> {
+    const tagsByEntry = new Map<string, string[]>();
+    if (timeEntryIds.length === 0) {
+      return tagsByEntry;
+    }
+
+    const rows = await db
+      .select({ timeEntryId: timeEntryTags.timeEntryId, name: tags.name })
+      .from(timeEntryTags)
+      .innerJoin(tags, eq(tags.id, timeEntryTags.tagId))
+      .where(inArray(timeEntryTags.timeEntryId, timeEntryIds))
+      .orderBy(asc(tags.name));
+
+    for (const row of rows) {
+      tagsByEntry.set(row.timeEntryId, [...(tagsByEntry.get(row.timeEntryId) ?? []), row.name]);
+    }
+
+    return tagsByEntry;
+  }
+}
@@ -0,0 +1,136 @@
+import { db } from '../../drizzle/connection';
+import { tasks, projects, type Task, type TaskStatus } from '../../drizzle/schema';
+import { eq, and, ne, asc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { ServiceError } from './errors';
+
+export interface NewTaskData {
+  projectId: string;
+  name: string;
+  description?: string;
+  estimateHours?: number;
+  assigneeId?: string;
+}
+
+export interface TaskFilters {
+  projectId?: string;
+  assigneeId?: string;
+  status?: TaskStatus;
+  /** Include done tasks when no status is given */
+  includeDone?: boolean;
+}
+
+export class TaskService {
+
+  async createTask(userId: string, data: NewTaskData): Promise<Task> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.id, data.projectId))
+      .limit(1);
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    if (data.estimateHours !== undefined && !(data.estimateHours > 0)) {
+      throw new Error('Estimate must be a positive number of hours');
+    }
+
+    const [created] = await db
+      .insert(tasks)
+      .values({
+        id: nanoid(),
+        projectId: data.projectId,
+        name: data.name.trim(),
+        description: data.description ?? null,
+        estimateHours: data.estimateHours !== undefined ? data.estimateHours.toFixed(2) : null,
+        status: 'open',
+        assigneeId: data.assigneeId ?? null,
+        userId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+
+    return created;
+  }
+
+  async listTasks(filters: TaskFilters = {}): Promise<Task[]> {
+    const conditions = [];
+
+    if (filters.projectId) {
+      conditions.push(eq(tasks.projectId, filters.projectId));
+    }
+
+    if (filters.assigneeId) {
+      conditions.push(eq(tasks.assigneeId, filters.assigneeId));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(tasks.status, filters.status));
+    } else if (!filters.includeDone) {
+      conditions.push(ne(tasks.status, 'done'));
+    }
+
+    return db
+      .select()
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(asc(tasks.createdAt));
+  }
+
+  async getTask(taskId: string): Promise<Task | null> {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
+    return task || null;
+  }
+
+  async closeTask(taskId: string): Promise<Task | null> {
+    const task = await this.getTask(taskId);
+
+    if (!task) {
+      return null;
+    }
+
+    if (task.status === 'done') {
+      throw new Error('Task is already closed');
+    }
+
+    const [updated] = await db
+      .update(tasks)
+      .set({ status: 'done', closedAt: new Date(), updatedAt: new Date() })
+      .where(eq(tasks.id, taskId))
+      .returning();
+
+    return updated || null;
+  }
+
+  /**
+   * Checks that time can be tracked on a task within the given project.
+   * The first time tracked on an open task moves it to in progress.
+   */
+  async assertTaskForEntry(taskId: string, projectId: string): Promise<Task> {
+    const task = await this.getTask(taskId);
+
+    if (!task) {
+      throw new ServiceError('Task not found');
+    }
+
+    if (task.projectId !== projectId) {
+      throw new ServiceError('Task does not belong to the time entry\'s project');
+    }
+
+    if (task.status === 'done') {
+      throw new ServiceError('Cannot track time on a closed task');
+    }
+
+    if (task.status === 'open') {
+      await db
+        .update(tasks)
+        .set({ status: 'in_progress', updatedAt: new Date() })
+        .where(eq(tasks.id, taskId));
+    }
+
+    return task;
+  }
+}
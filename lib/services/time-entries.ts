@@ -1,15 +1,169 @@
 import { db } from '../../drizzle/connection';
-import { timeEntries, projects, clients, type TimeEntry, type NewTimeEntry } from '../../drizzle/schema';
-import { eq, and, isNotNull, desc, gte, lte, sql } from 'drizzle-orm';
+import { timeEntries, timeEntryBreaks, timeEntryTags, tags, projects, clients, type TimeEntry, type NewTimeEntry, type TimeEntryBreak, type Tag, type OverlapPolicy } from '../../drizzle/schema';
+import { eq, and, or, isNotNull, isNull, asc, desc, gt, gte, lt, lte, inArray, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { TimesheetService } from './timesheets';
+import { TagService, normalizeTagNames } from './tags';
+import { TaskService } from './tasks';
+import { BudgetService } from './budgets';
+import { UserSettingsService } from './user-settings';
+import { ServiceError } from './errors';
+
+const timesheetService = new TimesheetService();
+const tagService = new TagService();
+const taskService = new TaskService();
+const budgetService = new BudgetService();
+const userSettingsService = new UserSettingsService();
+
+export type TaggedTimeEntry = TimeEntry & { tags: string[] };
+
+export interface NewEntryOptions {
+  /** Tag names; tags that don't exist yet are created */
+  tags?: string[];
+  /** Overrides the project's billable default */
+  billable?: boolean;
+  /** Task within the entry's project */
+  taskId?: string;
+  /** Overrides the user's overlap policy for this entry */
+  overlapPolicy?: OverlapPolicy;
+  /** Logs the entry as a draft for the user to confirm */
+  draft?: boolean;
+  /** Recurring template the entry is logged from */
+  recurringTemplateId?: string;
+  /** YYYY-MM-DD occurrence of the template; each occurrence is logged at most once */
+  recurringOccurrenceDate?: string;
+}
+
+export interface OverlapCheck {
+  /** Existing entries the saved times overlap ("warn"), or that they were trimmed around ("trim") */
+  overlaps: TimeEntry[];
+  trimmed: boolean;
+}
+
+export interface OverlappingPair {
+  entry: TimeEntry;
+  overlapsWith: TimeEntry;
+  overlapMinutes: number;
+}
+
+export interface SwitchTarget extends Omit<NewEntryOptions, 'overlapPolicy'> {
+  /** The running timer to stop; only needed when several are running */
+  entryId?: string;
+  projectId?: string;
+  description?: string;
+  /** Start again on the project, description, task, tags and billable flag of the last stopped entry */
+  continuePrevious?: boolean;
+}
+
+export interface SwitchResult {
+  stopped: TimeEntry;
+  started: TaggedTimeEntry;
+}
+
+export type TimeSummaryGrouping = 'project' | 'tag';
+
+/**
+ * Whether an entry is billable: its own flag when set, otherwise its project's default.
+ * Queries using it must join projects.
+ */
+export function isBillable() {
+  return sql<boolean>`coalesce(${timeEntries.billable}, ${projects.billable})`;
+}
+
+/**
+ * Billable share of tracked hours as a percentage, rounded to one decimal
+ */
+export function calculateUtilisation(billableHours: number, totalHours: number): number {
+  return totalHours > 0 ? Math.round((billableHours / totalHours) * 1000) / 10 : 0;
+}
+
+function summaryColumns() {
+  return {
+    totalMinutes: sql<number>`sum(${timeEntries.durationMinutes})`,
+    totalHours: sql<number>`round(sum(${timeEntries.durationMinutes}) / 60.0, 2)`,
+    billableHours: sql<number>`round(coalesce(sum(${timeEntries.durationMinutes}) filter (where ${isBillable()}), 0) / 60.0, 2)`,
+    nonBillableHours: sql<number>`round(coalesce(sum(${timeEntries.durationMinutes}) filter (where not ${isBillable()}), 0) / 60.0, 2)`,
+    entryCount: sql<number>`count(*)`,
+  };
+}
+
+/**
+ * Total paused milliseconds across the given breaks.
+ * Breaks that are still open are counted up to `until`.
+ */
+export function getPausedMilliseconds(breaks: TimeEntryBreak[], until: Date = new Date()): number {
+  return breaks.reduce((total, entryBreak) => {
+    const breakEnd = entryBreak.endTime ?? until;
+    return total + Math.max(0, breakEnd.getTime() - entryBreak.startTime.getTime());
+  }, 0);
+}
+
+/**
+ * Worked minutes between start and end, excluding paused intervals.
+ * Breaks are clipped to the range, so moving or shortening an entry only subtracts the pauses still inside it.
+ */
+export function calculateDurationMinutes(startTime: Date, endTime: Date, breaks: TimeEntryBreak[] = []): number {
+  const clippedBreaks = breaks.map(entryBreak => ({
+    ...entryBreak,
+    startTime: entryBreak.startTime < startTime ? startTime : entryBreak.startTime,
+    endTime: entryBreak.endTime && entryBreak.endTime < endTime ? entryBreak.endTime : endTime,
+  }));
+  const workedMilliseconds = endTime.getTime() - startTime.getTime() - getPausedMilliseconds(clippedBreaks, endTime);
+  return Math.max(0, Math.round(workedMilliseconds / (1000 * 60)));
+}
+
+/**
+ * Whether two time ranges share any time. Ranges that only touch don't overlap.
+ */
+export function rangesOverlap(startA: Date, endA: Date, startB: Date, endB: Date): boolean {
+  return startA < endB && startB < endA;
+}
+
+/**
+ * The longest part of a range not covered by the busy ranges (the earliest on a tie), or
+ * null when they cover all of it
+ */
+export function trimToFreeInterval(
+  startTime: Date,
+  endTime: Date,
+  busy: { startTime: Date; endTime: Date }[]
+): { startTime: Date; endTime: Date } | null {
+  let free = [{ startTime, endTime }];
+
+  for (const range of busy) {
+    free = free.flatMap(interval => {
+      if (!rangesOverlap(interval.startTime, interval.endTime, range.startTime, range.endTime)) {
+        return [interval];
+      }
+
+      return [
+        { startTime: interval.startTime, endTime: range.startTime },
+        { startTime: range.endTime, endTime: interval.endTime },
+      ].filter(part => part.endTime > part.startTime);
+    });
+  }
+
+  const longest = free.reduce<{ startTime: Date; endTime: Date } | null>((best, interval) =>
+    !best || interval.endTime.getTime() - interval.startTime.getTime() > best.endTime.getTime() - best.startTime.getTime()
+      ? interval
+      : best,
+    null
+  );
+
+  return longest;
+}
+
+const describeOverlap = (entry: TimeEntry) =>
+  `"${entry.description}" (${entry.startTime.toISOString()} - ${entry.endTime ? entry.endTime.toISOString() : 'running'})`;
 
 export class TimeEntryService {
   
   async startTimeTracking(
     userId: string, 
     projectId: string, 
-    description: string
-  ): Promise<TimeEntry> {
+    description: string,
+    options: NewEntryOptions = {}
+  ): Promise<TaggedTimeEntry> {
     // Verify project belongs to user
     const [project] = await db
       .select()
@@ -21,68 +175,305 @@ export class TimeEntryService {
       throw new Error('Project not found or does not belong to user');
     }
 
-    // Check if there's already an active time entry
-    const [activeEntry] = await db
+    // Check the user hasn't reached their limit of running timers (one unless they opted in)
+    const { maxConcurrentTimers } = await userSettingsService.getSettings(userId);
+    const activeEntries = await db
       .select()
       .from(timeEntries)
       .where(and(eq(timeEntries.userId, userId), eq(timeEntries.isActive, true)))
-      .limit(1);
+      .limit(maxConcurrentTimers);
+
+    if (activeEntries.length >= maxConcurrentTimers) {
+      throw new Error(maxConcurrentTimers === 1
+        ? 'There is already an active time entry. Stop it first.'
+        : `There are already ${maxConcurrentTimers} active time entries, the most your settings allow. Stop one first.`);
+    }
+
+    const startTime = new Date();
+    await timesheetService.assertPeriodUnlocked(userId, startTime);
 
-    if (activeEntry) {
-      throw new Error('There is already an active time entry. Stop it first.');
+    if (options.taskId) {
+      await taskService.assertTaskForEntry(options.taskId, projectId);
     }
 
+    // Tags that don't exist yet are created on the fly
+    const entryTags = await tagService.resolveTags(userId, options.tags ?? []);
+
     const newEntry: NewTimeEntry = {
       id: nanoid(),
       projectId,
       userId,
       description,
-      startTime: new Date(),
+      startTime,
       endTime: null,
       durationMinutes: null,
       isActive: true,
+      billable: options.billable ?? null,
+      taskId: options.taskId ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
     const [created] = await db.insert(timeEntries).values(newEntry).returning();
-    return created;
+    return this.attachTags(created, entryTags);
   }
 
-  async stopTimeTracking(userId: string, entryId?: string): Promise<TimeEntry | null> {
-    const conditions = [eq(timeEntries.userId, userId), eq(timeEntries.isActive, true)];
-    
-    if (entryId) {
-      conditions.push(eq(timeEntries.id, entryId));
+  /**
+   * Stops the user's running timer (or the given one) now, or at `endTime` when the idle
+   * timer check stops a forgotten timer on the user's behalf.
+   */
+  async stopTimeTracking(
+    userId: string,
+    entryId?: string,
+    options: { endTime?: Date; automatic?: boolean } = {}
+  ): Promise<TimeEntry | null> {
+    const activeEntry = await this.findActiveEntry(userId, entryId);
+
+    const endTime = options.endTime ?? new Date();
+    const breaks = await this.getTimeEntryBreaks(activeEntry.id);
+
+    const durationMinutes = calculateDurationMinutes(activeEntry.startTime, endTime, breaks);
+
+    // Stop only a timer that is still running, so concurrent stops don't both write a duration
+    const updated = await db.transaction(async (tx) => {
+      const [stopped] = await tx
+        .update(timeEntries)
+        .set({
+          endTime,
+          durationMinutes,
+          isActive: false,
+          isPaused: false,
+          autoStopped: options.automatic ?? false,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(timeEntries.id, activeEntry.id), eq(timeEntries.isActive, true)))
+        .returning();
+
+      if (!stopped) {
+        throw new ServiceError('Time entry is already stopped', 'conflict');
+      }
+
+      // Close the open break so the paused interval ends when the entry does
+      if (activeEntry.isPaused) {
+        await tx
+          .update(timeEntryBreaks)
+          .set({ endTime, updatedAt: new Date() })
+          .where(and(eq(timeEntryBreaks.timeEntryId, activeEntry.id), isNull(timeEntryBreaks.endTime)));
+      }
+
+      return stopped;
+    });
+
+    await this.checkBudgetAlerts(updated.projectId);
+    return updated;
+  }
+
+  async pauseTimeTracking(userId: string, entryId?: string): Promise<TimeEntry> {
+    const activeEntry = await this.findActiveEntry(userId, entryId);
+
+    if (activeEntry.isPaused) {
+      throw new ServiceError('Time entry is already paused', 'conflict');
     }
 
-    const [activeEntry] = await db
+    const pausedAt = new Date();
+
+    // Flip the flag first and only if it is still unset, so concurrent pauses open one break
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(timeEntries)
+        .set({
+          isPaused: true,
+          updatedAt: pausedAt,
+        })
+        .where(and(eq(timeEntries.id, activeEntry.id), eq(timeEntries.isActive, true), eq(timeEntries.isPaused, false)))
+        .returning();
+
+      if (!updated) {
+        throw new ServiceError('Time entry is already paused', 'conflict');
+      }
+
+      await tx.insert(timeEntryBreaks).values({
+        id: nanoid(),
+        timeEntryId: activeEntry.id,
+        startTime: pausedAt,
+        endTime: null,
+        createdAt: pausedAt,
+        updatedAt: pausedAt,
+      });
+
+      return updated;
+    });
+  }
+
+  async resumeTimeTracking(userId: string, entryId?: string): Promise<TimeEntry> {
+    const activeEntry = await this.findActiveEntry(userId, entryId);
+
+    if (!activeEntry.isPaused) {
+      throw new ServiceError('Time entry is not paused', 'conflict');
+    }
+
+    const resumedAt = new Date();
+
+    // Same as pausing: only the call that clears the flag closes the open break
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(timeEntries)
+        .set({
+          isPaused: false,
+          updatedAt: resumedAt,
+        })
+        .where(and(eq(timeEntries.id, activeEntry.id), eq(timeEntries.isPaused, true)))
+        .returning();
+
+      if (!updated) {
+        throw new ServiceError('Time entry is not paused', 'conflict');
+      }
+
+      await tx
+        .update(timeEntryBreaks)
+        .set({ endTime: resumedAt, updatedAt: resumedAt })
+        .where(and(eq(timeEntryBreaks.timeEntryId, activeEntry.id), isNull(timeEntryBreaks.endTime)));
+
+      return updated;
+    });
+  }
+
+  /**
+   * Stops the running timer and starts the next one at the same instant, in one transaction,
+   * so switching tasks leaves no gap and can't race with another stop.
+   */
+  async switchTimeTracking(userId: string, target: SwitchTarget): Promise<SwitchResult> {
+    const activeEntry = await this.findActiveEntry(userId, target.entryId);
+
+    let next: { projectId: string; description: string; options: NewEntryOptions };
+    if (target.continuePrevious) {
+      const [previous] = await db
+        .select()
+        .from(timeEntries)
+        .where(and(eq(timeEntries.userId, userId), eq(timeEntries.isActive, false), isNotNull(timeEntries.endTime)))
+        .orderBy(desc(timeEntries.endTime))
+        .limit(1);
+
+      if (!previous) {
+        throw new ServiceError('There is no previous time entry to continue');
+      }
+
+      const previousTags = await tagService.getTagsForEntries([previous.id]);
+      next = {
+        projectId: previous.projectId,
+        description: previous.description,
+        options: {
+          tags: previousTags.get(previous.id) ?? [],
+          billable: previous.billable ?? undefined,
+          taskId: previous.taskId ?? undefined,
+        },
+      };
+    } else {
+      if (!target.projectId || !target.description) {
+        throw new ServiceError('Project ID and description are required unless continuing the previous entry');
+      }
+
+      next = {
+        projectId: target.projectId,
+        description: target.description,
+        options: { tags: target.tags, billable: target.billable, taskId: target.taskId },
+      };
+    }
+
+    const [project] = await db
       .select()
-      .from(timeEntries)
-      .where(and(...conditions))
+      .from(projects)
+      .where(and(eq(projects.id, next.projectId), eq(projects.userId, userId)))
       .limit(1);
 
-    if (!activeEntry) {
-      throw new Error('No active time entry found');
+    if (!project) {
+      throw new ServiceError('Project not found or does not belong to user');
     }
 
-    const endTime = new Date();
-    const durationMinutes = Math.round(
-      (endTime.getTime() - activeEntry.startTime.getTime()) / (1000 * 60)
-    );
+    if (next.options.taskId) {
+      await taskService.assertTaskForEntry(next.options.taskId, next.projectId);
+    }
 
-    const [updated] = await db
-      .update(timeEntries)
-      .set({
-        endTime,
-        durationMinutes,
-        isActive: false,
-        updatedAt: new Date(),
-      })
-      .where(eq(timeEntries.id, activeEntry.id))
-      .returning();
+    const switchedAt = new Date();
+    await timesheetService.assertPeriodUnlocked(userId, switchedAt);
 
-    return updated;
+    const entryTags = await tagService.resolveTags(userId, next.options.tags ?? []);
+    const breaks = await this.getTimeEntryBreaks(activeEntry.id);
+
+    const result = await db.transaction(async (tx) => {
+      if (activeEntry.isPaused) {
+        await tx
+          .update(timeEntryBreaks)
+          .set({ endTime: switchedAt, updatedAt: switchedAt })
+          .where(and(eq(timeEntryBreaks.timeEntryId, activeEntry.id), isNull(timeEntryBreaks.endTime)));
+      }
+
+      // Only stop the entry if it is still running, in case it was stopped in the meantime
+      const [stopped] = await tx
+        .update(timeEntries)
+        .set({
+          endTime: switchedAt,
+          durationMinutes: calculateDurationMinutes(activeEntry.startTime, switchedAt, breaks),
+          isActive: false,
+          isPaused: false,
+          updatedAt: switchedAt,
+        })
+        .where(and(eq(timeEntries.id, activeEntry.id), eq(timeEntries.isActive, true)))
+        .returning();
+
+      if (!stopped) {
+        throw new ServiceError('No active time entry found');
+      }
+
+      const [started] = await tx
+        .insert(timeEntries)
+        .values({
+          id: nanoid(),
+          projectId: next.projectId,
+          userId,
+          description: next.description,
+          startTime: switchedAt,
+          endTime: null,
+          durationMinutes: null,
+          isActive: true,
+          billable: next.options.billable ?? null,
+          taskId: next.options.taskId ?? null,
+          createdAt: switchedAt,
+          updatedAt: switchedAt,
+        })
+        .returning();
+
+      if (entryTags.length > 0) {
+        await tx
+          .insert(timeEntryTags)
+          .values(entryTags.map(tag => ({ timeEntryId: started.id, tagId: tag.id, createdAt: switchedAt })));
+      }
+
+      return { stopped, started: { ...started, tags: entryTags.map(tag => tag.name) } };
+    });
+
+    await this.checkBudgetAlerts(result.stopped.projectId);
+    return result;
+  }
+
+  async getTimeEntryBreaks(entryId: string): Promise<TimeEntryBreak[]> {
+    return db
+      .select()
+      .from(timeEntryBreaks)
+      .where(eq(timeEntryBreaks.timeEntryId, entryId))
+      .orderBy(timeEntryBreaks.startTime);
+  }
+
+  /**
+   * All of the user's running timers, oldest first. Only users who allow several concurrent
+   * timers can have more than one.
+   */
+  async getActiveTimeEntries(userId: string): Promise<TimeEntry[]> {
+    return db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), eq(timeEntries.isActive, true)))
+      .orderBy(timeEntries.startTime);
   }
 
   async getActiveTimeEntry(userId: string): Promise<TimeEntry | null> {
@@ -95,13 +486,99 @@ export class TimeEntryService {
     return entry || null;
   }
 
+  /**
+   * The user's entries sharing any time with the given range, oldest first. Running
+   * entries count as ongoing.
+   */
+  async findOverlappingEntries(userId: string, startTime: Date, endTime: Date): Promise<TimeEntry[]> {
+    const candidates = await db
+      .select()
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.userId, userId),
+        lt(timeEntries.startTime, endTime),
+        or(gt(timeEntries.endTime, startTime), isNull(timeEntries.endTime))
+      ))
+      .orderBy(asc(timeEntries.startTime));
+
+    const now = new Date();
+    return candidates.filter(entry => rangesOverlap(startTime, endTime, entry.startTime, entry.endTime ?? now));
+  }
+
+  /**
+   * Pairs of the user's entries that share time, among entries that start before `endDate`
+   * and end after `startDate`
+   */
+  async findOverlappingPairs(userId: string, startDate: Date, endDate: Date): Promise<OverlappingPair[]> {
+    const entries = await this.findOverlappingEntries(userId, startDate, endDate);
+    const now = new Date();
+    const pairs: OverlappingPair[] = [];
+
+    entries.forEach((entry, index) => {
+      const entryEnd = entry.endTime ?? now;
+
+      // Entries are sorted by start, so later ones starting after this one ends can't overlap it
+      for (const other of entries.slice(index + 1)) {
+        if (other.startTime >= entryEnd) break;
+
+        const otherEnd = other.endTime ?? now;
+        const overlapMilliseconds = Math.min(entryEnd.getTime(), otherEnd.getTime()) - other.startTime.getTime();
+        if (overlapMilliseconds > 0) {
+          pairs.push({ entry, overlapsWith: other, overlapMinutes: Math.round(overlapMilliseconds / (1000 * 60)) });
+        }
+      }
+    });
+
+    return pairs;
+  }
+
+  /**
+   * Applies the overlap policy to new times for an entry: "reject" refuses overlapping times,
+   * "warn" accepts them and reports the overlaps, and "trim" shrinks the times to the longest
+   * part that doesn't overlap.
+   */
+  private async applyOverlapPolicy(
+    userId: string,
+    startTime: Date,
+    endTime: Date,
+    policy?: OverlapPolicy,
+    excludeEntryId?: string
+  ): Promise<OverlapCheck & { startTime: Date; endTime: Date }> {
+    const overlaps = (await this.findOverlappingEntries(userId, startTime, endTime))
+      .filter(entry => entry.id !== excludeEntryId);
+
+    if (overlaps.length === 0) {
+      return { startTime, endTime, overlaps, trimmed: false };
+    }
+
+    const overlapPolicy = policy ?? (await userSettingsService.getSettings(userId)).overlapPolicy;
+
+    if (overlapPolicy === 'reject') {
+      throw new ServiceError(`Time entry overlaps ${overlaps.length === 1 ? 'an existing entry' : `${overlaps.length} existing entries`}: ${overlaps.map(describeOverlap).join(', ')}`);
+    }
+
+    if (overlapPolicy === 'trim') {
+      const now = new Date();
+      const free = trimToFreeInterval(startTime, endTime, overlaps.map(entry => ({ startTime: entry.startTime, endTime: entry.endTime ?? now })));
+
+      if (!free) {
+        throw new ServiceError(`Time entry is entirely covered by existing entries: ${overlaps.map(describeOverlap).join(', ')}`);
+      }
+
+      return { ...free, overlaps, trimmed: true };
+    }
+
+    return { startTime, endTime, overlaps, trimmed: false };
+  }
+
   async addManualTimeEntry(
     userId: string,
     projectId: string,
     description: string,
-    startTime: Date,
-    endTime: Date
-  ): Promise<TimeEntry> {
+    requestedStartTime: Date,
+    requestedEndTime: Date,
+    options: NewEntryOptions = {}
+  ): Promise<TaggedTimeEntry & OverlapCheck> {
     // Verify project belongs to user
     const [project] = await db
       .select()
@@ -110,17 +587,34 @@ export class TimeEntryService {
       .limit(1);
 
     if (!project) {
-      throw new Error('Project not found or does not belong to user');
+      throw new ServiceError('Project not found or does not belong to user');
+    }
+
+    if (requestedEndTime <= requestedStartTime) {
+      throw new ServiceError('End time must be after start time');
     }
 
-    if (endTime <= startTime) {
-      throw new Error('End time must be after start time');
+    const { startTime, endTime, overlaps, trimmed } = await this.applyOverlapPolicy(
+      userId,
+      requestedStartTime,
+      requestedEndTime,
+      options.overlapPolicy
+    );
+
+    await timesheetService.assertPeriodUnlocked(userId, startTime);
+
+    if (options.taskId) {
+      await taskService.assertTaskForEntry(options.taskId, projectId);
     }
 
+    const entryTags = await tagService.resolveTags(userId, options.tags ?? []);
+
     const durationMinutes = Math.round(
       (endTime.getTime() - startTime.getTime()) / (1000 * 60)
     );
 
+    // Same instant for both, so an entry nobody has changed since can be told apart
+    const now = new Date();
     const newEntry: NewTimeEntry = {
       id: nanoid(),
       projectId,
@@ -130,12 +624,29 @@ export class TimeEntryService {
       endTime,
       durationMinutes,
       isActive: false,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      billable: options.billable ?? null,
+      taskId: options.taskId ?? null,
+      isDraft: options.draft ?? false,
+      recurringTemplateId: options.recurringTemplateId ?? null,
+      recurringOccurrenceDate: options.recurringOccurrenceDate ?? null,
+      createdAt: now,
+      updatedAt: now,
     };
 
-    const [created] = await db.insert(timeEntries).values(newEntry).returning();
-    return created;
+    const [created] = options.recurringOccurrenceDate
+      ? await db
+        .insert(timeEntries)
+        .values(newEntry)
+        .onConflictDoNothing({ target: [timeEntries.recurringTemplateId, timeEntries.recurringOccurrenceDate] })
+        .returning()
+      : await db.insert(timeEntries).values(newEntry).returning();
+
+    if (!created) {
+      throw new ServiceError('This occurrence of the recurring template has already been logged', 'conflict');
+    }
+
+    await this.checkBudgetAlerts(projectId);
+    return { ...await this.attachTags(created, entryTags), overlaps, trimmed };
   }
 
   async listTimeEntries(
@@ -143,8 +654,9 @@ export class TimeEntryService {
     projectId?: string,
     startDate?: Date,
     endDate?: Date,
-    limit: number = 50
-  ): Promise<TimeEntry[]> {
+    limit: number = 50,
+    tagNames: string[] = []
+  ): Promise<TaggedTimeEntry[]> {
     const conditions = [eq(timeEntries.userId, userId)];
     
     if (projectId) {
@@ -159,19 +671,29 @@ export class TimeEntryService {
       conditions.push(lte(timeEntries.startTime, endDate));
     }
 
-    return db
+    if (tagNames.length > 0) {
+      conditions.push(this.hasAnyTag(tagNames));
+    }
+
+    const entries = await db
       .select()
       .from(timeEntries)
       .where(and(...conditions))
       .orderBy(desc(timeEntries.startTime))
       .limit(limit);
+
+    const tagsByEntry = await tagService.getTagsForEntries(entries.map(entry => entry.id));
+    return entries.map(entry => ({ ...entry, tags: tagsByEntry.get(entry.id) ?? [] }));
   }
 
   async getTimeEntriesWithDetails(
     userId: string,
     startDate?: Date,
     endDate?: Date,
-    limit: number = 50
+    limit: number = 50,
+    tagNames: string[] = [],
+    projectIds: string[] = [],
+    includeDrafts: boolean = true
   ) {
     const conditions = [eq(timeEntries.userId, userId)];
     
@@ -183,7 +705,19 @@ export class TimeEntryService {
       conditions.push(lte(timeEntries.startTime, endDate));
     }
 
-    return db
+    if (tagNames.length > 0) {
+      conditions.push(this.hasAnyTag(tagNames));
+    }
+
+    if (projectIds.length > 0) {
+      conditions.push(inArray(timeEntries.projectId, projectIds));
+    }
+
+    if (!includeDrafts) {
+      conditions.push(eq(timeEntries.isDraft, false));
+    }
+
+    const entries = await db
       .select({
         timeEntry: timeEntries,
         project: projects,
@@ -195,16 +729,29 @@ export class TimeEntryService {
       .where(and(...conditions))
       .orderBy(desc(timeEntries.startTime))
       .limit(limit);
+
+    const tagsByEntry = await tagService.getTagsForEntries(entries.map(({ timeEntry }) => timeEntry.id));
+    return entries.map(entry => ({
+      ...entry,
+      timeEntry: { ...entry.timeEntry, tags: tagsByEntry.get(entry.timeEntry.id) ?? [] },
+    }));
   }
 
+  /**
+   * Completed time per client and project, or per tag, split into billable and non-billable
+   * hours. When grouped by tag, an entry with several tags counts towards each of them and
+   * untagged time has a null tag name.
+   */
   async getTimeSummary(
     userId: string,
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    groupBy: TimeSummaryGrouping = 'project'
   ) {
     const conditions = [
       eq(timeEntries.userId, userId),
-      isNotNull(timeEntries.endTime) // Only completed entries
+      isNotNull(timeEntries.endTime), // Only completed entries
+      eq(timeEntries.isDraft, false)
     ];
     
     if (startDate) {
@@ -215,13 +762,26 @@ export class TimeEntryService {
       conditions.push(lte(timeEntries.startTime, endDate));
     }
 
+    if (groupBy === 'tag') {
+      return db
+        .select({
+          tagName: tags.name,
+          ...summaryColumns(),
+        })
+        .from(timeEntries)
+        .innerJoin(projects, eq(timeEntries.projectId, projects.id))
+        .leftJoin(timeEntryTags, eq(timeEntryTags.timeEntryId, timeEntries.id))
+        .leftJoin(tags, eq(tags.id, timeEntryTags.tagId))
+        .where(and(...conditions))
+        .groupBy(tags.name)
+        .orderBy(desc(sql`sum(${timeEntries.durationMinutes})`));
+    }
+
     const result = await db
       .select({
         clientName: clients.name,
         projectName: projects.name,
-        totalMinutes: sql<number>`sum(${timeEntries.durationMinutes})`,
-        totalHours: sql<number>`round(sum(${timeEntries.durationMinutes}) / 60.0, 2)`,
-        entryCount: sql<number>`count(*)`,
+        ...summaryColumns(),
       })
       .from(timeEntries)
       .innerJoin(projects, eq(timeEntries.projectId, projects.id))
@@ -236,32 +796,66 @@ export class TimeEntryService {
   async updateTimeEntry(
     userId: string,
     entryId: string,
-    data: Partial<Omit<TimeEntry, 'id' | 'userId' | 'createdAt'>>
-  ): Promise<TimeEntry | null> {
+    data: Partial<Omit<TimeEntry, 'id' | 'userId' | 'createdAt'>>,
+    options: { overlapPolicy?: OverlapPolicy } = {}
+  ): Promise<(TimeEntry & OverlapCheck) | null> {
     const updateData = {
       ...data,
       updatedAt: new Date(),
     };
 
-    // Recalculate duration if start or end time changed
-    if (data.startTime || data.endTime) {
-      const [currentEntry] = await db
-        .select()
-        .from(timeEntries)
-        .where(and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)))
-        .limit(1);
+    const [currentEntry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)))
+      .limit(1);
 
-      if (!currentEntry) {
-        return null;
-      }
+    if (!currentEntry) {
+      return null;
+    }
 
+    if (currentEntry.invoiceId) {
+      throw new Error('Invoiced time entries cannot be modified');
+    }
+
+    let overlapCheck: OverlapCheck = { overlaps: [], trimmed: false };
+
+    // Moving a completed entry is checked against the user's other entries
+    if ((data.startTime || data.endTime) && (data.endTime ?? currentEntry.endTime)) {
       const startTime = data.startTime || currentEntry.startTime;
-      const endTime = data.endTime || currentEntry.endTime;
+      const endTime = (data.endTime || currentEntry.endTime)!;
+
+      if (endTime <= startTime) {
+        throw new Error('End time must be after start time');
+      }
+
+      const { overlaps, trimmed, ...times } = await this.applyOverlapPolicy(userId, startTime, endTime, options.overlapPolicy, entryId);
+      overlapCheck = { overlaps, trimmed };
+
+      if (trimmed) {
+        updateData.startTime = times.startTime;
+        updateData.endTime = times.endTime;
+      }
+    }
+
+    // Neither the entry's current week nor the week it moves to may be locked
+    await timesheetService.assertPeriodUnlocked(userId, currentEntry.startTime);
+    if (updateData.startTime) {
+      await timesheetService.assertPeriodUnlocked(userId, updateData.startTime);
+    }
+
+    if (data.taskId) {
+      await taskService.assertTaskForEntry(data.taskId, currentEntry.projectId);
+    }
+
+    // Recalculate duration if start or end time changed
+    if (updateData.startTime || updateData.endTime) {
+      const startTime = updateData.startTime || currentEntry.startTime;
+      const endTime = updateData.endTime || currentEntry.endTime;
 
       if (endTime && startTime) {
-        updateData.durationMinutes = Math.round(
-          (endTime.getTime() - startTime.getTime()) / (1000 * 60)
-        );
+        const breaks = await this.getTimeEntryBreaks(entryId);
+        updateData.durationMinutes = calculateDurationMinutes(startTime, endTime, breaks);
       }
     }
 
@@ -271,14 +865,139 @@ export class TimeEntryService {
       .where(and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)))
       .returning();
 
-    return updated || null;
+    if (updated && updated.durationMinutes !== null) {
+      await this.checkBudgetAlerts(updated.projectId);
+    }
+
+    return updated ? { ...updated, ...overlapCheck } : null;
+  }
+
+  /**
+   * Confirms draft entries (all of the user's drafts unless IDs are given). Drafts in a submitted
+   * or approved week are left as they are and returned as skipped.
+   */
+  async confirmDraftEntries(userId: string, entryIds?: string[]): Promise<{ confirmed: TimeEntry[]; skipped: TimeEntry[] }> {
+    const conditions = [eq(timeEntries.userId, userId), eq(timeEntries.isDraft, true)];
+
+    if (entryIds) {
+      if (entryIds.length === 0) {
+        return { confirmed: [], skipped: [] };
+      }
+      conditions.push(inArray(timeEntries.id, entryIds));
+    }
+
+    const drafts = await db.select().from(timeEntries).where(and(...conditions));
+    const skipped: TimeEntry[] = [];
+    const unlockedIds: string[] = [];
+
+    for (const draft of drafts) {
+      if (await timesheetService.isPeriodLocked(userId, draft.startTime)) {
+        skipped.push(draft);
+      } else {
+        unlockedIds.push(draft.id);
+      }
+    }
+
+    if (unlockedIds.length === 0) {
+      return { confirmed: [], skipped };
+    }
+
+    const confirmed = await db
+      .update(timeEntries)
+      .set({ isDraft: false, updatedAt: new Date() })
+      .where(and(...conditions, inArray(timeEntries.id, unlockedIds)))
+      .returning();
+
+    // Drafts don't count towards budgets until they're confirmed
+    for (const projectId of Array.from(new Set(confirmed.map(entry => entry.projectId)))) {
+      await this.checkBudgetAlerts(projectId);
+    }
+
+    return { confirmed, skipped };
   }
 
   async deleteTimeEntry(userId: string, entryId: string): Promise<boolean> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)))
+      .limit(1);
+
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.invoiceId) {
+      throw new Error('Invoiced time entries cannot be deleted');
+    }
+
+    await timesheetService.assertPeriodUnlocked(userId, entry.startTime);
+
     const result = await db
       .delete(timeEntries)
       .where(and(eq(timeEntries.id, entryId), eq(timeEntries.userId, userId)));
 
     return result.rowCount! > 0;
   }
-}
\ No newline at end of file
+
+  /**
+   * Budget alerts are a side effect; a failed check must not fail the time entry change
+   */
+  private async checkBudgetAlerts(projectId: string): Promise<void> {
+    try {
+      await budgetService.checkAlerts(projectId);
+    } catch (error) {
+      console.error('Error checking budget alerts:', error);
+    }
+  }
+
+  /**
+   * The running timer to stop, pause or resume. Without an entry ID the user's only running
+   * timer is used; with several running, they have to say which one.
+   */
+  private async findActiveEntry(userId: string, entryId?: string): Promise<TimeEntry> {
+    const conditions = [eq(timeEntries.userId, userId), eq(timeEntries.isActive, true)];
+
+    if (entryId) {
+      conditions.push(eq(timeEntries.id, entryId));
+    }
+
+    const activeEntries = await db
+      .select()
+      .from(timeEntries)
+      .where(and(...conditions))
+      .limit(2);
+
+    if (activeEntries.length === 0) {
+      throw new ServiceError('No active time entry found');
+    }
+
+    if (activeEntries.length > 1) {
+      throw new ServiceError('More than one timer is running. Specify which one with entryId.');
+    }
+
+    return activeEntries[0];
+  }
+
+  private async attachTags(entry: TimeEntry, entryTags: Tag[]): Promise<TaggedTimeEntry> {
+    if (entryTags.length > 0) {
+      await tagService.setEntryTags(entry.id, entryTags.map(tag => tag.id));
+    }
+
+    return { ...entry, tags: entryTags.map(tag => tag.name) };
+  }
+
+  /**
+   * Matches entries carrying any of the given tags
+   */
+  private hasAnyTag(tagNames: string[]) {
+    return inArray(
+      timeEntries.id,
+      db
+        .select({ timeEntryId: timeEntryTags.timeEntryId })
+        .from(timeEntryTags)
+        .innerJoin(tags, eq(tags.id, timeEntryTags.tagId))
+        .where(inArray(tags.name, normalizeTagNames(tagNames)))
+    );
+  }
+}
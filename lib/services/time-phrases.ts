@@ -0,0 +1,377 @@
+import { getTimeZoneOffset, zonedTimeToUtc } from './icalendar';
+
+export interface ProjectCandidate {
+  id: string;
+  name: string;
+  clientName: string | null;
+}
+
+export interface ParsedTimePhrase {
+  startTime: Date;
+  endTime: Date;
+  durationMinutes: number;
+  description: string;
+  /** The project the phrase names, if exactly one matches best */
+  project: ProjectCandidate | null;
+  /** The equally good matches when the project is ambiguous */
+  projectCandidates: ProjectCandidate[];
+  /** How each part of the phrase was read */
+  interpretation: string[];
+  /** Assumptions made for anything the phrase left open */
+  warnings: string[];
+}
+
+export interface TimePhraseOptions {
+  now?: Date;
+  /** Time zone the phrase's dates and times are read in; defaults to UTC */
+  timeZone?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const TIME_PATTERN = '(\\d{1,2})(?:[:.](\\d{2}))?\\s*(am|pm)?';
+
+// Where an entry starts when only the part of the day is given, in minutes after midnight
+const PARTS_OF_DAY: Record<string, number> = {
+  morning: 9 * 60,
+  afternoon: 13 * 60,
+  evening: 18 * 60,
+  night: 20 * 60,
+  tonight: 20 * 60,
+};
+
+// Without am/pm, hours before this are read as afternoon ("2-4" is 14:00-16:00)
+const EARLIEST_MORNING_HOUR = 7;
+
+// Start assumed for a duration on an earlier day without a time
+const DEFAULT_START_MINUTES = 9 * 60;
+
+// Linking words dropped from the description when what they linked to was parsed
+const LINKING_WORDS = ['on', 'for', 'at', 'in', 'with', 'from', 'during', 'since', 'and', 'doing'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const formatDay = (day: number) => new Date(day).toISOString().slice(0, 10);
+const formatMinutes = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const tokenize = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1);
+
+// Words match exactly, or by prefix once long enough ("websites" and "website", "acme" and "acmecorp" do not)
+const wordsMatch = (a: string, b: string) =>
+  a === b || (Math.min(a.length, b.length) >= 5 && (a.startsWith(b) || b.startsWith(a)));
+
+function toMinutes(hourText: string, minuteText: string | undefined, meridiem: string | undefined): number | null {
+  const hour = Number(hourText);
+  const minute = minuteText ? Number(minuteText) : 0;
+
+  if (minute >= 60) {
+    return null;
+  }
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    return ((hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0)) * 60 + minute;
+  }
+
+  return hour <= 24 ? hour * 60 + minute : null;
+}
+
+/**
+ * Scores projects by the words of their name (twice) and client name found in the text. A text
+ * naming only a client matches that client's projects.
+ */
+export function matchProjects(text: string, projects: ProjectCandidate[]): { candidates: ProjectCandidate[]; matchedWords: Set<string> } {
+  const words = tokenize(text);
+  const matchedWords = new Set<string>();
+  let bestScore = 0;
+  let candidates: ProjectCandidate[] = [];
+
+  for (const project of projects) {
+    const projectHits = tokenize(project.name).filter(token => words.some(word => wordsMatch(word, token)));
+    const clientHits = tokenize(project.clientName ?? '').filter(token => words.some(word => wordsMatch(word, token)));
+    const score = projectHits.length * 2 + clientHits.length;
+
+    if (score === 0 || score < bestScore) {
+      continue;
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      candidates = [];
+    }
+    candidates.push(project);
+  }
+
+  for (const project of candidates) {
+    const tokens = [...tokenize(project.name), ...tokenize(project.clientName ?? '')];
+    words.filter(word => tokens.some(token => wordsMatch(word, token))).forEach(word => matchedWords.add(word));
+  }
+
+  return { candidates, matchedWords };
+}
+
+/**
+ * Reads a time entry from a phrase such as "2h on Acme website yesterday afternoon fixing login".
+ * Understands durations ("2h", "1h30", "90 min", "half an hour"), days ("today", "yesterday",
+ * "3 days ago", "last friday", "march 4", "2024-03-04"), time ranges ("9-11:30", "from 2pm to 4pm"),
+ * start times ("at 14:00"), parts of the day ("morning") and project or client names. What is left
+ * becomes the description. Parsing is deterministic: the same phrase, time and projects always give
+ * the same entry.
+ */
+export function parseTimePhrase(phrase: string, projects: ProjectCandidate[], options: TimePhraseOptions = {}): ParsedTimePhrase {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? 'UTC';
+  const wallNow = now.getTime() + getTimeZoneOffset(now, timeZone);
+  const today = Math.floor(wallNow / DAY_MS) * DAY_MS;
+  const interpretation: string[] = [];
+  const warnings: string[] = [];
+  let rest = phrase;
+
+  // Blanks out the first match that `accept` takes, so later patterns and the description skip it
+  const take = (pattern: RegExp, accept: (match: RegExpMatchArray) => boolean = () => true) => {
+    for (const match of rest.matchAll(new RegExp(pattern.source, 'gi'))) {
+      if (accept(match)) {
+        rest = rest.slice(0, match.index) + ' '.repeat(match[0].length) + rest.slice(match.index! + match[0].length);
+        return match;
+      }
+    }
+    return null;
+  };
+
+  // Tries alternative readings in order until one is taken
+  const takeFirst = (...alternatives: [RegExp, (match: RegExpMatchArray) => boolean][]) =>
+    alternatives.some(([pattern, accept]) => take(pattern, accept) !== null);
+
+  // Day
+  let day: number | null = null;
+  let dayText = '';
+  const setDay = (value: number, text: string) => {
+    day = value;
+    dayText = text.trim();
+    return true;
+  };
+
+  take(/\b(\d{4})-(\d{2})-(\d{2})\b/, match => {
+    const value = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return formatDay(value) === `${match[1]}-${match[2]}-${match[3]}` && setDay(value, match[0]);
+  });
+
+  const monthDay = (monthText: string, dayText: string, yearText: string | undefined) => {
+    const month = MONTHS.indexOf(monthText.slice(0, 3).toLowerCase());
+    const dayOfMonth = Number(dayText);
+    const year = yearText ? Number(yearText) : new Date(today).getUTCFullYear();
+    let value = Date.UTC(year, month, dayOfMonth);
+    // Without a year, the most recent such day
+    if (!yearText && value > today) {
+      value = Date.UTC(year - 1, month, dayOfMonth);
+    }
+    return new Date(value).getUTCDate() === dayOfMonth ? value : null;
+  };
+
+  if (day === null) {
+    take(new RegExp(`\\b(?:on\\s+)?${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`), match => {
+      const value = monthDay(match[1], match[2], match[3]);
+      return value !== null && setDay(value, match[0]);
+    });
+  }
+
+  if (day === null) {
+    take(new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?:,?\\s+(\\d{4})\\b)?`), match => {
+      const value = monthDay(match[2], match[1], match[3]);
+      return value !== null && setDay(value, match[0]);
+    });
+  }
+
+  if (day === null) {
+    takeFirst(
+      [/\b(?:the\s+)?day\s+before\s+yesterday\b/, match => setDay(today - 2 * DAY_MS, match[0])],
+      [/\byesterday\b/, match => setDay(today - DAY_MS, match[0])],
+      [/\btoday\b/, match => setDay(today, match[0])],
+      [/\b(\d{1,3})\s+days?\s+ago\b/, match => setDay(today - Number(match[1]) * DAY_MS, match[0])],
+      [new RegExp(`\\b(?:(last|on|this)\\s+)?(${WEEKDAYS.join('|')})\\b`), match => {
+        const weekday = WEEKDAYS.indexOf(match[2].toLowerCase());
+        // The most recent such day; "last" never means today
+        let daysBack = (new Date(today).getUTCDay() - weekday + 7) % 7;
+        if (daysBack === 0 && match[1]?.toLowerCase() === 'last') {
+          daysBack = 7;
+        }
+        return setDay(today - daysBack * DAY_MS, match[0]);
+      }],
+    );
+  }
+
+  if (day === null) {
+    day = today;
+  } else {
+    interpretation.push(`Day: ${formatDay(day)} ("${dayText}")`);
+  }
+  const entryDay: number = day;
+
+  // Duration
+  let durationMinutes: number | null = null;
+  const setDuration = (minutes: number) => {
+    durationMinutes = Math.round(minutes);
+    return minutes > 0;
+  };
+
+  takeFirst(
+    [/\b(\d+)h(\d{1,2})m?\b/, match => setDuration(Number(match[1]) * 60 + Number(match[2]))],
+    [/\b(\d+(?:[.,]\d+)?)\s*(?:h|hrs?|hours?)\b(?:\s*(?:and\s+)?(\d{1,2})\s*(?:m|mins?|minutes?)\b)?/, match =>
+      setDuration(Number(match[1].replace(',', '.')) * 60 + Number(match[2] ?? 0))],
+    [/\b(\d+)\s*(?:m|mins?|minutes?)\b/, match => setDuration(Number(match[1]))],
+    [/\b(?:an?|one)\s+hour\s+and\s+a\s+half\b/, () => setDuration(90)],
+    [/\bhalf\s+an\s+hour\b/, () => setDuration(30)],
+    [/\b(?:a\s+)?quarter\s+of\s+an\s+hour\b/, () => setDuration(15)],
+    [/\b(?:an|one)\s+hour\b/, () => setDuration(60)],
+  );
+
+  // Part of the day; read before times so "2 in the afternoon" stays afternoon
+  let partOfDay: string | null = null;
+  take(/\b(?:in\s+the\s+|this\s+)?(morning|afternoon|evening|night|tonight)\b/, match => {
+    partOfDay = match[1].toLowerCase();
+    return true;
+  });
+  const afternoonHint = partOfDay !== null && partOfDay !== 'morning';
+
+  // Times of day
+  let startMinutes: number | null = null;
+  let endMinutes: number | null = null;
+
+  const readRange = (match: RegExpMatchArray) => {
+    const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] = match;
+    const options = startMeridiem || endMeridiem
+      ? [startMeridiem ?? endMeridiem, startMeridiem ?? (endMeridiem === 'pm' ? 'am' : 'pm')].map(startOption =>
+        [toMinutes(startHour, startMinute, startOption), toMinutes(endHour, endMinute, endMeridiem ?? startMeridiem)])
+      : [[toMinutes(startHour, startMinute, undefined), toMinutes(endHour, endMinute, undefined)]];
+
+    for (const [start, end] of options) {
+      if (start === null || end === null) {
+        continue;
+      }
+
+      let from = start;
+      let to = end;
+      if (!startMeridiem && !endMeridiem) {
+        if (from < 12 * 60 && (from < EARLIEST_MORNING_HOUR * 60 || afternoonHint)) {
+          from += 12 * 60;
+        }
+        if (to <= from && to + 12 * 60 > from && to < 12 * 60) {
+          to += 12 * 60;
+        }
+      }
+
+      if (to > from) {
+        startMinutes = from;
+        endMinutes = to;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  takeFirst(
+    [new RegExp(`\\bbetween\\s+${TIME_PATTERN}\\s+and\\s+${TIME_PATTERN}\\b`), readRange],
+    [new RegExp(`(?:\\bfrom\\s+)?\\b${TIME_PATTERN}\\s*(?:-|–|to|until|till)\\s*${TIME_PATTERN}\\b`), readRange],
+  );
+
+  if (startMinutes === null) {
+    const readStart = (match: RegExpMatchArray) => {
+      let minutes = toMinutes(match[1], match[2], match[3]);
+      if (minutes !== null && !match[3] && minutes < 12 * 60 && (minutes < EARLIEST_MORNING_HOUR * 60 || afternoonHint)) {
+        minutes += 12 * 60;
+      }
+      if (minutes === null || minutes >= 24 * 60) {
+        return false;
+      }
+      startMinutes = minutes;
+      return true;
+    };
+
+    takeFirst(
+      [new RegExp(`\\b(?:at|from|since|starting(?:\\s+at)?)\\s+${TIME_PATTERN}\\b`), readStart],
+      [/\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)\b/, readStart],
+      [/\b(\d{1,2}):(\d{2})()\b/, readStart],
+    );
+  }
+
+  // Put the entry together
+  let start: number;
+  let end: number;
+
+  if (startMinutes !== null && endMinutes !== null) {
+    start = entryDay + startMinutes * MINUTE_MS;
+    end = entryDay + endMinutes * MINUTE_MS;
+    if (durationMinutes !== null && durationMinutes !== endMinutes - startMinutes) {
+      warnings.push(`The time range ${formatMinutes(startMinutes)}-${formatMinutes(endMinutes)} was used instead of the duration of ${durationMinutes} minutes`);
+    }
+    interpretation.push(`Time: ${formatMinutes(startMinutes)}-${formatMinutes(endMinutes)}`);
+  } else if (durationMinutes !== null) {
+    if (startMinutes !== null) {
+      start = entryDay + startMinutes * MINUTE_MS;
+      interpretation.push(`Start: ${formatMinutes(startMinutes)}`);
+    } else if (partOfDay !== null) {
+      start = entryDay + PARTS_OF_DAY[partOfDay] * MINUTE_MS;
+      interpretation.push(`Start: ${formatMinutes(PARTS_OF_DAY[partOfDay])} ("${partOfDay}")`);
+    } else if (entryDay === today) {
+      start = wallNow - durationMinutes * MINUTE_MS;
+      interpretation.push('Start: counted back from now');
+    } else {
+      start = entryDay + DEFAULT_START_MINUTES * MINUTE_MS;
+      warnings.push(`No start time given; assumed ${formatMinutes(DEFAULT_START_MINUTES)}`);
+    }
+    end = start + durationMinutes * MINUTE_MS;
+    interpretation.push(`Duration: ${durationMinutes} minutes`);
+  } else {
+    throw new Error(`Could not find a duration or time range in "${phrase}"`);
+  }
+
+  if (end - start > DAY_MS) {
+    throw new Error('Time entries can be at most 24 hours long');
+  }
+
+  const startTime = zonedTimeToUtc(Math.floor(start / MINUTE_MS) * MINUTE_MS, timeZone);
+  const endTime = zonedTimeToUtc(Math.floor(end / MINUTE_MS) * MINUTE_MS, timeZone);
+
+  if (endTime > now) {
+    warnings.push('The entry ends in the future');
+  }
+
+  // Project, then whatever is left is the description
+  const { candidates, matchedWords } = matchProjects(rest, projects);
+  const project = candidates.length === 1 ? candidates[0] : null;
+
+  if (project) {
+    interpretation.push(`Project: ${project.name}${project.clientName ? ` (${project.clientName})` : ''}`);
+  } else if (candidates.length > 1) {
+    warnings.push(`Several projects match: ${candidates.map(candidate => candidate.name).join(', ')}`);
+  } else {
+    warnings.push('No project name found');
+  }
+
+  rest = rest.replace(/[\p{L}\p{N}]+/gu, word => matchedWords.has(word.toLowerCase()) ? ' '.repeat(word.length) : word);
+  // A linking word followed only by parsed text goes with it ("on Acme", "from 9 to 11")
+  rest = rest.replace(new RegExp(`\\b(?:${LINKING_WORDS.join('|')})\\b(?=\\s{3,}|\\s*$)`, 'gi'), word => ' '.repeat(word.length));
+
+  const edge = new RegExp(`^(?:[\\s,.;:–-]+|(?:${LINKING_WORDS.join('|')})\\b)+|(?:[\\s,.;:–-]+|\\b(?:${LINKING_WORDS.join('|')}))+$`, 'gi');
+  const description = rest.replace(/\s+/g, ' ').replace(edge, '').trim();
+
+  if (!description) {
+    warnings.push('No description found');
+  }
+
+  return {
+    startTime,
+    endTime,
+    durationMinutes: Math.round((endTime.getTime() - startTime.getTime()) / MINUTE_MS),
+    description: description.charAt(0).toUpperCase() + description.slice(1),
+    project,
+    projectCandidates: candidates,
+    interpretation,
+    warnings,
+  };
+}
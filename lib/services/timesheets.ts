@@ -0,0 +1,239 @@
+import { db } from '../../drizzle/connection';
+import { timesheets, timeEntries, user, type Timesheet, type NewTimesheet, type TimesheetStatus } from '../../drizzle/schema';
+import { eq, and, ne, gte, lt, inArray, isNotNull, asc, desc, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import {
+  AuthorizationContext,
+  Permission,
+  hasPermission,
+  canApproveTimesheets,
+} from '../authorization';
+import { ServiceError } from './errors';
+
+// Entries in weeks with these statuses can no longer be changed
+const LOCKED_STATUSES: TimesheetStatus[] = ['submitted', 'approved'];
+
+/**
+ * Monday 00:00 UTC of the week containing the given date
+ */
+export function getWeekStart(date: Date): Date {
+  const weekStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7;
+  weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday);
+  return weekStart;
+}
+
+/**
+ * Exclusive end of the week starting at weekStart
+ */
+export function getWeekEnd(weekStart: Date): Date {
+  const weekEnd = new Date(weekStart);
+  weekEnd.setUTCDate(weekEnd.getUTCDate() + 7);
+  return weekEnd;
+}
+
+export class TimesheetService {
+
+  async getTimesheet(userId: string, date: Date): Promise<Timesheet | null> {
+    const [timesheet] = await db
+      .select()
+      .from(timesheets)
+      .where(and(eq(timesheets.userId, userId), eq(timesheets.weekStart, getWeekStart(date))))
+      .limit(1);
+
+    return timesheet || null;
+  }
+
+  async getTimesheetById(timesheetId: string): Promise<Timesheet | null> {
+    const [timesheet] = await db
+      .select()
+      .from(timesheets)
+      .where(eq(timesheets.id, timesheetId))
+      .limit(1);
+
+    return timesheet || null;
+  }
+
+  async listTimesheets(userId: string, limit: number = 12): Promise<Timesheet[]> {
+    return db
+      .select()
+      .from(timesheets)
+      .where(eq(timesheets.userId, userId))
+      .orderBy(desc(timesheets.weekStart))
+      .limit(limit);
+  }
+
+  async submitTimesheet(userId: string, date: Date = new Date()): Promise<Timesheet> {
+    const weekStart = getWeekStart(date);
+    const weekEnd = getWeekEnd(weekStart);
+    const existing = await this.getTimesheet(userId, weekStart);
+
+    if (existing && LOCKED_STATUSES.includes(existing.status)) {
+      throw new ServiceError(`Timesheet has already been ${existing.status}`, 'conflict');
+    }
+
+    const [activeEntry] = await db
+      .select()
+      .from(timeEntries)
+      .where(
+        and(
+          eq(timeEntries.userId, userId),
+          eq(timeEntries.isActive, true),
+          gte(timeEntries.startTime, weekStart),
+          lt(timeEntries.startTime, weekEnd)
+        )
+      )
+      .limit(1);
+
+    if (activeEntry) {
+      throw new ServiceError('Stop the active timer before submitting this timesheet', 'conflict');
+    }
+
+    const [totals] = await db
+      .select({
+        totalMinutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)`,
+      })
+      .from(timeEntries)
+      .where(
+        and(
+          eq(timeEntries.userId, userId),
+          isNotNull(timeEntries.endTime),
+          eq(timeEntries.isDraft, false),
+          gte(timeEntries.startTime, weekStart),
+          lt(timeEntries.startTime, weekEnd)
+        )
+      );
+
+    const now = new Date();
+    const submission = {
+      status: 'submitted' as const,
+      totalMinutes: Number(totals?.totalMinutes ?? 0),
+      submittedAt: now,
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewComment: null,
+      updatedAt: now,
+    };
+
+    // Rejected timesheets are resubmitted in place
+    if (existing) {
+      const [updated] = await db
+        .update(timesheets)
+        .set(submission)
+        .where(eq(timesheets.id, existing.id))
+        .returning();
+
+      return updated;
+    }
+
+    const newTimesheet: NewTimesheet = {
+      id: nanoid(),
+      userId,
+      weekStart,
+      ...submission,
+      createdAt: now,
+    };
+
+    const [created] = await db.insert(timesheets).values(newTimesheet).returning();
+    return created;
+  }
+
+  async reviewTimesheet(
+    context: AuthorizationContext,
+    timesheetId: string,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<Timesheet> {
+    const timesheet = await this.getTimesheetById(timesheetId);
+
+    if (!timesheet) {
+      throw new ServiceError('Timesheet not found', 'not_found');
+    }
+
+    const authResult = canApproveTimesheets(context, timesheet.userId);
+    if (!authResult.authorized) {
+      throw new ServiceError(authResult.reason || 'Not authorized to review this timesheet', 'forbidden');
+    }
+
+    if (timesheet.status !== 'submitted') {
+      throw new ServiceError('Only submitted timesheets can be reviewed', 'conflict');
+    }
+
+    if (decision === 'rejected' && !comment?.trim()) {
+      throw new ServiceError('A comment is required when rejecting a timesheet');
+    }
+
+    // Update only while still submitted, so of two concurrent reviews just one is recorded
+    const now = new Date();
+    const [updated] = await db
+      .update(timesheets)
+      .set({
+        status: decision,
+        reviewedBy: context.userId,
+        reviewedAt: now,
+        reviewComment: comment?.trim() || null,
+        updatedAt: now,
+      })
+      .where(and(eq(timesheets.id, timesheetId), eq(timesheets.status, 'submitted')))
+      .returning();
+
+    if (!updated) {
+      throw new ServiceError('Only submitted timesheets can be reviewed', 'conflict');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Submitted timesheets the reviewer may act on: everyone's for HR/Admin,
+   * direct reports' for managers. The reviewer's own timesheets are never included.
+   */
+  async listPendingTimesheets(context: AuthorizationContext) {
+    if (!hasPermission(context, Permission.APPROVE_TIMESHEETS)) {
+      throw new Error(`User with roles [${context.roles.join(', ')}] cannot review timesheets`);
+    }
+
+    const conditions = [
+      eq(timesheets.status, 'submitted'),
+      ne(timesheets.userId, context.userId),
+    ];
+
+    if (!hasPermission(context, Permission.VIEW_ALL_TIMESHEETS)) {
+      const directReports = context.metadata?.directReports || [];
+      if (directReports.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(timesheets.userId, directReports));
+    }
+
+    return db
+      .select({
+        timesheet: timesheets,
+        userName: user.name,
+        userEmail: user.email,
+      })
+      .from(timesheets)
+      .leftJoin(user, eq(user.id, timesheets.userId))
+      .where(and(...conditions))
+      .orderBy(asc(timesheets.weekStart));
+  }
+
+  /**
+   * Whether the week containing the given date has been submitted or approved
+   */
+  async isPeriodLocked(userId: string, date: Date): Promise<boolean> {
+    const timesheet = await this.getTimesheet(userId, date);
+    return timesheet !== null && LOCKED_STATUSES.includes(timesheet.status);
+  }
+
+  /**
+   * Throws when the week containing the given date has been submitted or approved
+   */
+  async assertPeriodUnlocked(userId: string, date: Date): Promise<void> {
+    const timesheet = await this.getTimesheet(userId, date);
+
+    if (timesheet && LOCKED_STATUSES.includes(timesheet.status)) {
+      throw new ServiceError(`Time entries in a ${timesheet.status} timesheet cannot be modified`, 'conflict');
+    }
+  }
+}
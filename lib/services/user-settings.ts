@@ -0,0 +1,56 @@
+import { db } from '../../drizzle/connection';
+import { userSettings, type UserSettings } from '../../drizzle/schema';
+import { eq } from 'drizzle-orm';
+
+export type UserSettingsValues = Omit<UserSettings, 'userId' | 'updatedAt'>;
+
+export const DEFAULT_USER_SETTINGS: UserSettingsValues = {
+  overlapPolicy: 'warn',
+  idleTimerHours: 10,
+  workdayEnd: null,
+  timeZone: 'UTC',
+  autoStopIdleTimers: false,
+  maxConcurrentTimers: 1,
+};
+
+export class UserSettingsService {
+
+  /**
+   * The user's settings, with defaults for anything they haven't changed
+   */
+  async getSettings(userId: string): Promise<UserSettingsValues> {
+    const [settings] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId))
+      .limit(1);
+
+    if (!settings) {
+      return { ...DEFAULT_USER_SETTINGS };
+    }
+
+    return {
+      overlapPolicy: settings.overlapPolicy,
+      idleTimerHours: settings.idleTimerHours,
+      workdayEnd: settings.workdayEnd,
+      timeZone: settings.timeZone,
+      autoStopIdleTimers: settings.autoStopIdleTimers,
+      maxConcurrentTimers: settings.maxConcurrentTimers,
+    };
+  }
+
+  async updateSettings(userId: string, changes: Partial<UserSettingsValues>): Promise<UserSettingsValues> {
+    const settings = { ...await this.getSettings(userId), ...changes };
+    const now = new Date();
+
+    await db
+      .insert(userSettings)
+      .values({ userId, ...settings, updatedAt: now })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...settings, updatedAt: now },
+      });
+
+    return settings;
+  }
+}
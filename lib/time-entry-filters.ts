@@ -0,0 +1,182 @@
+import { db } from '@/drizzle/connection';
+import { timeEntries, timeEntryTags, tags, projects, clients } from '@/drizzle/schema';
+import { eq, desc, sql, inArray, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { type AuthenticatedUser } from './authUtils';
+import { loadAuthorizationContext, canViewAllTimesheets, canViewUserTimesheets } from './authorization';
+
+/**
+ * Conditions and ordering parsed from time entry list query parameters. Queries using
+ * them must join projects and clients.
+ */
+export interface TimeEntryFilters {
+  conditions: SQL[];
+  orderBy: SQL | typeof timeEntries.startTime | typeof timeEntries.durationMinutes | typeof projects.name;
+}
+
+/**
+ * Whether an entry is billable: its own flag when set, otherwise its project's default
+ */
+export function entryIsBillable() {
+  return sql<boolean>`coalesce(${timeEntries.billable}, ${projects.billable})`;
+}
+
+/**
+ * Whether an entry shares time with another entry of the same user. Running entries count
+ * as ongoing.
+ */
+export function entryOverlapsAnother() {
+  const other = alias(timeEntries, 'other_entries');
+
+  return sql<boolean>`exists (
+    select 1 from ${other}
+    where ${other.userId} = ${timeEntries.userId}
+      and ${other.id} <> ${timeEntries.id}
+      and ${other.startTime} < coalesce(${timeEntries.endTime}, now())
+      and coalesce(${other.endTime}, now()) > ${timeEntries.startTime}
+  )`;
+}
+
+const forbidden = (reason?: string) => new Response(
+  JSON.stringify({ error: 'Forbidden', reason }),
+  { status: 403, headers: { 'Content-Type': 'application/json' } }
+);
+
+/**
+ * Parses the filters shared by the time entry list and its exports: search, projects,
+ * users, tags, billable, dateFrom/dateTo, sortBy and sortOrder. Throws a 400 Response for
+ * invalid values and a 403 Response when the user may not see the requested users' time.
+ */
+export async function parseTimeEntryFilters(searchParams: URLSearchParams, user: AuthenticatedUser): Promise<TimeEntryFilters> {
+  const search = searchParams.get("search") || "";
+  const projectFilter = searchParams.get("projects"); // Can be "all" or comma-separated project names
+  const dateFrom = searchParams.get("dateFrom");
+  const dateTo = searchParams.get("dateTo");
+  const sortBy = searchParams.get("sortBy") || "date";
+  const sortOrder = searchParams.get("sortOrder") || "desc";
+  const userFilter = searchParams.get("users"); // Can be "all" or comma-separated user IDs
+  const tagFilter = searchParams.get("tags"); // Comma-separated tag names; entries with any of them match
+  const billableFilter = searchParams.get("billable"); // "true" or "false"; omitted means both
+
+  if (billableFilter && billableFilter !== "true" && billableFilter !== "false") {
+    throw new Response("billable must be true or false", { status: 400 });
+  }
+
+  const conditions: SQL[] = [];
+
+  // User filter logic with authorization
+  if (userFilter === "all") {
+    // Check if user has permission to view all timesheets
+    const authContext = await loadAuthorizationContext(user.userId, user.role);
+    const authResult = canViewAllTimesheets(authContext);
+
+    if (!authResult.authorized) {
+      throw forbidden(authResult.reason);
+    }
+    // Don't add user filter - show all users
+  } else if (userFilter) {
+    // Filter by specific user IDs using OR logic
+    const userIds = userFilter.split(',').map(id => id.trim()).filter(Boolean);
+
+    // Check authorization for each requested user
+    if (userIds.some(id => id !== user.userId)) {
+      const authContext = await loadAuthorizationContext(user.userId, user.role);
+
+      // Check if user can view all timesheets (HR/Admin)
+      const canViewAll = canViewAllTimesheets(authContext);
+
+      if (!canViewAll.authorized) {
+        // Check each user individually (for Manager role)
+        for (const targetId of userIds) {
+          if (targetId === user.userId) continue; // Can always view own data
+
+          const authResult = canViewUserTimesheets(authContext, targetId);
+          if (!authResult.authorized) {
+            throw forbidden(authResult.reason);
+          }
+        }
+      }
+    }
+
+    if (userIds.length === 1) {
+      conditions.push(eq(timeEntries.userId, userIds[0]));
+    } else if (userIds.length > 1) {
+      // Use inArray for proper OR filtering
+      conditions.push(inArray(timeEntries.userId, userIds));
+    }
+  } else {
+    // Default: show only current user's entries
+    conditions.push(eq(timeEntries.userId, user.userId));
+  }
+
+  // Search filter
+  if (search) {
+    conditions.push(
+      sql`(
+        LOWER(${timeEntries.description}) LIKE LOWER('%' || ${search} || '%') OR
+        LOWER(${projects.name}) LIKE LOWER('%' || ${search} || '%') OR
+        LOWER(${clients.name}) LIKE LOWER('%' || ${search} || '%')
+      )`
+    );
+  }
+
+  // Project filter logic
+  if (projectFilter && projectFilter !== "all") {
+    // Filter by specific project names using OR logic
+    const projectNames = projectFilter.split(',').map(name => name.trim()).filter(Boolean);
+    if (projectNames.length === 1) {
+      conditions.push(eq(projects.name, projectNames[0]));
+    } else if (projectNames.length > 1) {
+      // Use inArray for proper OR filtering
+      conditions.push(inArray(projects.name, projectNames));
+    }
+  }
+
+  // Tag filter logic
+  if (tagFilter) {
+    const tagNames = tagFilter.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    if (tagNames.length > 0) {
+      conditions.push(
+        inArray(
+          timeEntries.id,
+          db
+            .select({ timeEntryId: timeEntryTags.timeEntryId })
+            .from(timeEntryTags)
+            .innerJoin(tags, eq(tags.id, timeEntryTags.tagId))
+            .where(inArray(tags.name, tagNames))
+        )
+      );
+    }
+  }
+
+  // Billable filter
+  if (billableFilter) {
+    conditions.push(billableFilter === "true" ? entryIsBillable() : sql`not ${entryIsBillable()}`);
+  }
+
+  // Date range filter
+  if (dateFrom && dateTo) {
+    conditions.push(
+      sql`DATE(${timeEntries.startTime}) >= DATE(${dateFrom}) AND DATE(${timeEntries.startTime}) <= DATE(${dateTo})`
+    );
+  }
+
+  // Build ORDER BY clause
+  const isAsc = sortOrder === 'asc';
+  let orderBy: TimeEntryFilters['orderBy'];
+
+  switch (sortBy) {
+    case 'duration':
+      orderBy = isAsc ? timeEntries.durationMinutes : desc(timeEntries.durationMinutes);
+      break;
+    case 'project':
+      orderBy = isAsc ? projects.name : desc(projects.name);
+      break;
+    case 'date':
+    default:
+      orderBy = isAsc ? timeEntries.startTime : desc(timeEntries.startTime);
+      break;
+  }
+
+  return { conditions, orderBy };
+}